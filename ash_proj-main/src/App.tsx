@@ -1,9 +1,10 @@
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { Auth } from './components/Auth';
 import { Dashboard } from './components/Dashboard';
+import { AccountStatus } from './components/AccountStatus';
 
 function AppContent() {
-  const { user, loading } = useAuth();
+  const { user, profile, loading } = useAuth();
 
   if (loading) {
     return (
@@ -16,7 +17,9 @@ function AppContent() {
     );
   }
 
-  return user ? <Dashboard /> : <Auth />;
+  if (!user) return <Auth />;
+  if (profile && (!profile.active || profile.role === 'unassigned')) return <AccountStatus />;
+  return <Dashboard />;
 }
 
 function App() {
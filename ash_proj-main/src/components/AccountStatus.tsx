@@ -0,0 +1,41 @@
+import React from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Clock, LogOut, UserX } from 'lucide-react';
+
+/**
+ * Shown instead of the dashboard to signed-in users without access: accounts
+ * still waiting for a role and deactivated accounts
+ */
+export const AccountStatus: React.FC = () => {
+  const { profile, signOut } = useAuth();
+  const deactivated = profile?.active === false;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-8 text-center">
+        <div
+          className={`inline-flex items-center justify-center w-16 h-16 rounded-full mb-4 ${
+            deactivated ? 'bg-red-600' : 'bg-blue-600'
+          }`}
+        >
+          {deactivated ? <UserX className="w-8 h-8 text-white" /> : <Clock className="w-8 h-8 text-white" />}
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          {deactivated ? 'Account Deactivated' : 'Waiting for Access'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {deactivated
+            ? 'Your account has been deactivated. Contact an administrator if you think this is a mistake.'
+            : `Your account (${profile?.email ?? 'unknown'}) has been created. An administrator needs to assign your role before you can work with policies.`}
+        </p>
+        <button
+          onClick={signOut}
+          className="inline-flex items-center space-x-2 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition"
+        >
+          <LogOut className="w-5 h-5" />
+          <span>Sign Out</span>
+        </button>
+      </div>
+    </div>
+  );
+};
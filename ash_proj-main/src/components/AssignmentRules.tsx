@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { AssignmentRule, AssignmentStrategy } from '../lib/supabase';
+import { getAssignmentRules, setAssignmentStrategy, STRATEGY_LABELS } from '../services/assignmentService';
+import { ROLE_LABELS } from '../services/workflowService';
+import { X, Shuffle, AlertCircle } from 'lucide-react';
+
+interface AssignmentRulesProps {
+  onClose: () => void;
+}
+
+const STRATEGY_HELP: Record<AssignmentStrategy, string> = {
+  round_robin: 'Each new policy goes to the reviewer who was assigned one at this stage longest ago.',
+  workload: 'Each new policy goes to the reviewer with the fewest assigned pending policies.',
+  manual: 'Policies wait unassigned in the team queue until a reviewer claims them.',
+};
+
+/**
+ * Manager screen: how policies entering each approver stage are assigned
+ */
+export const AssignmentRules: React.FC<AssignmentRulesProps> = ({ onClose }) => {
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAssignmentRules()
+      .then(setRules)
+      .catch((err) => console.error('Error loading assignment rules:', err));
+  }, []);
+
+  const handleChange = async (rule: AssignmentRule, strategy: AssignmentStrategy) => {
+    setError('');
+    try {
+      const updated = await setAssignmentStrategy(rule.role, strategy);
+      setRules((current) => current.map((existing) => (existing.role === updated.role ? updated : existing)));
+    } catch (err) {
+      setError((err as Error).message || 'The assignment rule could not be saved');
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-3">
+            <Shuffle className="w-8 h-8 text-blue-600" />
+            <h2 className="text-3xl font-bold text-gray-900">Assignment Rules</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-6">
+          Policies entering a stage are assigned to one of its reviewers. Reviewers who delegated the role are
+          skipped while the delegation is active, and nobody is assigned their own policy. Changes apply to policies
+          entering the stage from now on.
+        </p>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-200">
+          {rules.map((rule) => (
+            <li key={rule.role} className="py-4 flex justify-between items-start">
+              <div>
+                <p className="font-semibold text-gray-900">{ROLE_LABELS[rule.role]}</p>
+                <p className="text-sm text-gray-600">{STRATEGY_HELP[rule.strategy]}</p>
+              </div>
+              <select
+                value={rule.strategy}
+                onChange={(e) => handleChange(rule, e.target.value as AssignmentStrategy)}
+                className="ml-4 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(STRATEGY_LABELS) as AssignmentStrategy[]).map((strategy) => (
+                  <option key={strategy} value={strategy}>
+                    {STRATEGY_LABELS[strategy]}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
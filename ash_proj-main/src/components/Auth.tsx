@@ -7,7 +7,6 @@ export const Auth: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'creator' | 'underwriter' | 'manager'>('creator');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -20,7 +19,7 @@ export const Auth: React.FC = () => {
 
     try {
       if (isSignUp) {
-        await signUp(email, password, fullName, role);
+        await signUp(email, password, fullName);
       } else {
         await signIn(email, password);
       }
@@ -82,18 +81,10 @@ export const Auth: React.FC = () => {
           </div>
 
           {isSignUp && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
-              <select
-                value={role}
-                onChange={(e) => setRole(e.target.value as any)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
-              >
-                <option value="creator">Policy Creator</option>
-                <option value="underwriter">Underwriter</option>
-                <option value="manager">Manager</option>
-              </select>
-            </div>
+            <p className="text-sm text-gray-600">
+              If you were invited, sign up with the invited email address to get your role. Otherwise an
+              administrator assigns your role after you sign up.
+            </p>
           )}
 
           {error && (
@@ -129,7 +120,9 @@ export const Auth: React.FC = () => {
             <ul className="text-xs text-gray-600 space-y-1">
               <li><span className="font-medium">Creator:</span> Create and edit draft policies</li>
               <li><span className="font-medium">Underwriter:</span> Review and approve/reject policies (Step 1)</li>
+              <li><span className="font-medium">Medical Reviewer:</span> Medical review stage for Life policies</li>
               <li><span className="font-medium">Manager:</span> Final approval authority (Step 2)</li>
+              <li><span className="font-medium">Executive:</span> Approves premiums escalated beyond manager authority</li>
             </ul>
           </div>
         )}
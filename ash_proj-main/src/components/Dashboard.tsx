@@ -1,54 +1,258 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, FileText, Plus, Filter } from 'lucide-react';
+import { LogOut, FileText, Plus, Filter, Search, Package, ShieldAlert, Users, UserCheck, Inbox, Shuffle, Timer } from 'lucide-react';
 import { PolicyList } from './PolicyList';
 import { PolicyForm } from './PolicyForm';
 import { PolicyDetail } from './PolicyDetail';
-import { Policy, PolicyStatus } from '../lib/supabase';
-import { getPolicies } from '../services/policyService';
+import { NotificationInbox } from './NotificationInbox';
+import { ProductCatalog } from './ProductCatalog';
+import { UserManagement } from './UserManagement';
+import { DelegationManager } from './DelegationManager';
+import { AssignmentRules } from './AssignmentRules';
+import { SlaSettings } from './SlaSettings';
+import { Policy, PolicyQuery, PolicySortColumn, PolicyStatus } from '../lib/supabase';
+import { countPolicies, DEFAULT_PAGE_SIZE, getPolicies, getPolicy } from '../services/policyService';
+import {
+  FRAUD_REVIEW_STAGE,
+  getActionableStatuses,
+  getPendingStatuses,
+  getStatusLabel,
+  stageCapability,
+  stageStatus,
+} from '../services/workflowService';
+import { DELEGABLE_ROLES, withDelegations } from '../services/delegationService';
+import { applyPolicyChange, subscribeToApprovalLogs, subscribeToPolicies } from '../services/realtimeService';
+import { useSeenPolicies } from '../hooks/useSeenPolicies';
+import { useCan } from '../hooks/useCan';
+import { useActiveDelegations } from '../hooks/useActiveDelegations';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FRAUD_QUEUE_STATUS = stageStatus(FRAUD_REVIEW_STAGE);
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
 
 export const Dashboard: React.FC = () => {
   const { profile, signOut } = useAuth();
+  const can = useCan();
   const [policies, setPolicies] = useState<Policy[]>([]);
-  const [filteredPolicies, setFilteredPolicies] = useState<Policy[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [myQueueCount, setMyQueueCount] = useState(0);
+  const [queue, setQueue] = useState<'mine' | 'team' | null>(null);
+  const [fraudQueueCount, setFraudQueueCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showDelegations, setShowDelegations] = useState(false);
+  const [showAssignmentRules, setShowAssignmentRules] = useState(false);
+  const [showSlaSettings, setShowSlaSettings] = useState(false);
   const [selectedPolicy, setSelectedPolicy] = useState<Policy | null>(null);
-  const [statusFilter, setStatusFilter] = useState<PolicyStatus | 'all'>('all');
+  const [query, setQuery] = useState<PolicyQuery>({
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+    sortBy: 'created_at',
+    sortDirection: 'desc',
+  });
+  const [searchInput, setSearchInput] = useState('');
+  const { isChanged, markSeen } = useSeenPolicies(profile?.id);
+  const { delegations, reload: reloadDelegations } = useActiveDelegations(profile?.id);
+  // The page as last rendered, for realtime handlers deciding whether to refetch
+  const pageRef = useRef<Policy[]>([]);
 
-  const loadPolicies = async () => {
+  useEffect(() => {
+    pageRef.current = policies;
+  }, [policies]);
+
+  const loadPolicies = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await getPolicies();
-      setPolicies(data);
-      setFilteredPolicies(data);
+      const result = await getPolicies(query);
+      setPolicies(result.policies);
+      setTotal(result.total);
     } catch (error) {
       console.error('Error loading policies:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [query]);
+
+  // Stages the user's roles, or roles delegated to them, can act on
+  const actionableStatuses = useMemo(() => getActionableStatuses(withDelegations(can, delegations)), [can, delegations]);
+
+  // The team queue (everything waiting at those stages) and the user's own
+  // queue (pending policies assigned to them)
+  const loadPendingCount = useCallback(async () => {
+    if (actionableStatuses.length === 0) {
+      setPendingCount(0);
+      setMyQueueCount(0);
+      return;
+    }
+    try {
+      const [team, mine] = await Promise.all([
+        countPolicies({ statuses: actionableStatuses }),
+        countPolicies({ statuses: getPendingStatuses(), assignedTo: profile?.id }),
+      ]);
+      setPendingCount(team);
+      setMyQueueCount(mine);
+    } catch (error) {
+      console.error('Error loading pending count:', error);
+    }
+  }, [actionableStatuses, profile?.id]);
+
+  const canViewFraudQueue = can('policy.view.fraud');
+
+  const loadFraudQueueCount = useCallback(async () => {
+    if (!canViewFraudQueue) return;
+    try {
+      setFraudQueueCount(await countPolicies({ status: FRAUD_QUEUE_STATUS }));
+    } catch (error) {
+      console.error('Error loading fraud queue count:', error);
+    }
+  }, [canViewFraudQueue]);
 
   useEffect(() => {
     loadPolicies();
-  }, []);
+  }, [loadPolicies]);
+
+  useEffect(() => {
+    loadPendingCount();
+  }, [loadPendingCount]);
 
   useEffect(() => {
-    if (statusFilter === 'all') {
-      setFilteredPolicies(policies);
-    } else {
-      setFilteredPolicies(policies.filter((p) => p.status === statusFilter));
+    loadFraudQueueCount();
+  }, [loadFraudQueueCount]);
+
+  // Patch the current page in place as colleagues edit and approve policies;
+  // changes that move rows into, out of or within the page reload it
+  useEffect(() => {
+    return subscribeToPolicies((change) => {
+      const patched = applyPolicyChange(pageRef.current, change, query);
+      if (patched) {
+        setPolicies(patched);
+      } else {
+        loadPolicies();
+      }
+      loadPendingCount();
+      loadFraudQueueCount();
+    });
+  }, [query, loadPolicies, loadPendingCount, loadFraudQueueCount]);
+
+  // Approval log entries (approvals, escalations, fraud decisions) refresh the
+  // affected row if it's on the current page
+  useEffect(() => {
+    return subscribeToApprovalLogs(async (change) => {
+      if (change.eventType !== 'INSERT') return;
+      loadPendingCount();
+      loadFraudQueueCount();
+      if (!pageRef.current.some((policy) => policy.id === change.new.policy_id)) return;
+
+      try {
+        const latest = await getPolicy(change.new.policy_id);
+        if (latest) {
+          setPolicies((current) => current.map((policy) => (policy.id === latest.id ? latest : policy)));
+        }
+      } catch (error) {
+        console.error('Error refreshing policy:', error);
+      }
+    });
+  }, [loadPendingCount, loadFraudQueueCount]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery((current) =>
+        (current.search ?? '') === searchInput ? current : { ...current, search: searchInput, page: 1 }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const updateFilters = (changes: Partial<PolicyQuery>) => {
+    setQuery((current) => ({ ...current, ...changes, page: 1 }));
+  };
+
+  const handleSort = (column: PolicySortColumn) => {
+    setQuery((current) => ({
+      ...current,
+      sortBy: column,
+      sortDirection: current.sortBy === column && current.sortDirection === 'asc' ? 'desc' : 'asc',
+      page: 1,
+    }));
+  };
+
+  // Flagged policies that have waited longest come first
+  const toggleFraudQueue = () => {
+    updateFilters(
+      query.status === FRAUD_QUEUE_STATUS
+        ? { status: undefined, sortBy: 'created_at', sortDirection: 'desc' }
+        : { status: FRAUD_QUEUE_STATUS, sortBy: 'updated_at', sortDirection: 'asc' }
+    );
+  };
+
+  const selectQueue = (next: 'mine' | 'team') => {
+    if (queue === next) {
+      setQueue(null);
+      updateFilters({ statuses: undefined, assignedTo: undefined });
+      return;
     }
-  }, [statusFilter, policies]);
+    setQueue(next);
+    updateFilters(
+      next === 'mine'
+        ? { status: undefined, statuses: getPendingStatuses(), assignedTo: profile?.id }
+        : { status: undefined, statuses: actionableStatuses, assignedTo: undefined }
+    );
+  };
+
+  const parseAmount = (value: string) => (value === '' ? undefined : parseFloat(value));
 
   const handlePolicyCreated = () => {
     setShowForm(false);
     loadPolicies();
+    loadPendingCount();
+    loadFraudQueueCount();
+  };
+
+  // The open policy may have changed while it was open (by the user or live);
+  // mark the server's current version as seen
+  const markLatestSeen = async (policyId: string) => {
+    try {
+      const latest = await getPolicy(policyId);
+      if (latest) markSeen(latest);
+    } catch (error) {
+      console.error('Error marking policy as seen:', error);
+    }
   };
 
   const handlePolicyUpdated = () => {
+    if (selectedPolicy) markLatestSeen(selectedPolicy.id);
     setSelectedPolicy(null);
     loadPolicies();
+    loadPendingCount();
+    loadFraudQueueCount();
+  };
+
+  const selectPolicy = (policy: Policy) => {
+    markSeen(policy);
+    setSelectedPolicy(policy);
+  };
+
+  const closePolicy = () => {
+    if (selectedPolicy) markLatestSeen(selectedPolicy.id);
+    setSelectedPolicy(null);
+  };
+
+  const openPolicy = async (policyId: string) => {
+    try {
+      const policy = await getPolicy(policyId);
+      if (policy) {
+        setShowForm(false);
+        selectPolicy(policy);
+      }
+    } catch (error) {
+      console.error('Error opening policy:', error);
+    }
   };
 
   const getRoleBadgeColor = (role: string) => {
@@ -57,29 +261,73 @@ export const Dashboard: React.FC = () => {
         return 'bg-green-100 text-green-800';
       case 'underwriter':
         return 'bg-blue-100 text-blue-800';
+      case 'medical_reviewer':
+        return 'bg-indigo-100 text-indigo-800';
       case 'manager':
         return 'bg-purple-100 text-purple-800';
+      case 'executive':
+        return 'bg-amber-100 text-amber-800';
+      case 'fraud_reviewer':
+        return 'bg-red-100 text-red-800';
+      case 'admin':
+        return 'bg-slate-200 text-slate-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getPendingCount = () => {
-    if (profile?.role === 'underwriter') {
-      return policies.filter((p) => p.status === 'pending_underwriter').length;
-    }
-    if (profile?.role === 'manager') {
-      return policies.filter((p) => p.status === 'pending_manager').length;
-    }
-    return 0;
-  };
+  const canManageProducts = can('product.manage');
+  const canDelegate = can('user.manage') || DELEGABLE_ROLES.some((role) => can(stageCapability(role)));
 
-  const pendingCount = getPendingCount();
+  const closeDelegations = () => {
+    setShowDelegations(false);
+    reloadDelegations();
+  };
 
   if (showForm) {
     return (
       <div className="min-h-screen bg-gray-50">
-        <PolicyForm onSuccess={handlePolicyCreated} onCancel={() => setShowForm(false)} />
+        <PolicyForm onSuccess={handlePolicyCreated} onCancel={() => setShowForm(false)} onOpenPolicy={openPolicy} />
+      </div>
+    );
+  }
+
+  if (showCatalog) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <ProductCatalog onClose={() => setShowCatalog(false)} />
+      </div>
+    );
+  }
+
+  if (showUsers) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <UserManagement onClose={() => setShowUsers(false)} />
+      </div>
+    );
+  }
+
+  if (showAssignmentRules) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AssignmentRules onClose={() => setShowAssignmentRules(false)} />
+      </div>
+    );
+  }
+
+  if (showSlaSettings) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <SlaSettings onClose={() => setShowSlaSettings(false)} onChanged={loadPolicies} />
+      </div>
+    );
+  }
+
+  if (showDelegations) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <DelegationManager onClose={closeDelegations} />
       </div>
     );
   }
@@ -88,9 +336,11 @@ export const Dashboard: React.FC = () => {
     return (
       <div className="min-h-screen bg-gray-50">
         <PolicyDetail
+          key={selectedPolicy.id}
           policy={selectedPolicy}
-          onClose={() => setSelectedPolicy(null)}
+          onClose={closePolicy}
           onUpdate={handlePolicyUpdated}
+          onOpenPolicy={openPolicy}
         />
       </div>
     );
@@ -109,6 +359,52 @@ export const Dashboard: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              {canManageProducts && (
+                <button
+                  onClick={() => setShowCatalog(true)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  title="Product Catalog"
+                >
+                  <Package className="w-5 h-5" />
+                </button>
+              )}
+              {can('user.manage') && (
+                <button
+                  onClick={() => setShowUsers(true)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  title="User Management"
+                >
+                  <Users className="w-5 h-5" />
+                </button>
+              )}
+              {can('policy.assign') && (
+                <button
+                  onClick={() => setShowAssignmentRules(true)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  title="Assignment Rules"
+                >
+                  <Shuffle className="w-5 h-5" />
+                </button>
+              )}
+              {can('sla.manage') && (
+                <button
+                  onClick={() => setShowSlaSettings(true)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  title="Stage SLAs"
+                >
+                  <Timer className="w-5 h-5" />
+                </button>
+              )}
+              {(canDelegate || delegations.length > 0) && (
+                <button
+                  onClick={() => setShowDelegations(true)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  title="Delegations"
+                >
+                  <UserCheck className="w-5 h-5" />
+                </button>
+              )}
+              <NotificationInbox onOpenPolicy={openPolicy} />
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">{profile?.full_name}</p>
                 <span
@@ -116,7 +412,7 @@ export const Dashboard: React.FC = () => {
                     profile?.role || ''
                   )}`}
                 >
-                  {profile?.role?.toUpperCase()}
+                  {profile?.role?.replace('_', ' ').toUpperCase()}
                 </span>
               </div>
               <button
@@ -135,29 +431,76 @@ export const Dashboard: React.FC = () => {
         {pendingCount > 0 && (
           <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
             <p className="text-yellow-800 font-medium">
-              You have {pendingCount} {pendingCount === 1 ? 'policy' : 'policies'} pending your review
+              You have {myQueueCount} {myQueueCount === 1 ? 'policy' : 'policies'} assigned to you, and your team has{' '}
+              {pendingCount} pending your review
             </p>
           </div>
         )}
 
-        <div className="flex justify-between items-center mb-6">
+        <div className="flex justify-between items-center mb-4">
           <div className="flex items-center space-x-4">
             <Filter className="w-5 h-5 text-gray-600" />
             <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as any)}
+              value={query.status ?? 'all'}
+              onChange={(e) =>
+                updateFilters({ status: e.target.value === 'all' ? undefined : (e.target.value as PolicyStatus) })
+              }
               className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="all">All Policies</option>
               <option value="draft">Draft</option>
-              <option value="pending_underwriter">Pending Underwriter</option>
-              <option value="pending_manager">Pending Manager</option>
+              {getPendingStatuses().map((status) => (
+                <option key={status} value={status}>
+                  {getStatusLabel(status)}
+                </option>
+              ))}
               <option value="approved">Approved</option>
               <option value="rejected">Rejected</option>
             </select>
+            {actionableStatuses.length > 0 && (
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                {(['mine', 'team'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => selectQueue(option)}
+                    className={`flex items-center space-x-2 px-4 py-2 font-medium transition ${
+                      queue === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'mine' ? <Inbox className="w-4 h-4" /> : <Users className="w-4 h-4" />}
+                    <span>
+                      {option === 'mine' ? `My Queue (${myQueueCount})` : `Team Queue (${pendingCount})`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {canViewFraudQueue && (
+              <button
+                onClick={toggleFraudQueue}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium border transition ${
+                  query.status === FRAUD_QUEUE_STATUS
+                    ? 'bg-red-600 text-white border-red-600 hover:bg-red-700'
+                    : 'bg-white text-red-700 border-red-200 hover:bg-red-50'
+                }`}
+              >
+                <ShieldAlert className="w-4 h-4" />
+                <span>Fraud Queue ({fraudQueueCount})</span>
+              </button>
+            )}
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search policy number or customer"
+                className="pl-9 pr-4 py-2 w-72 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
           </div>
 
-          {profile?.role === 'creator' && (
+          {can('policy.create') && (
             <button
               onClick={() => setShowForm(true)}
               className="flex items-center space-x-2 bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition shadow-md hover:shadow-lg"
@@ -168,13 +511,59 @@ export const Dashboard: React.FC = () => {
           )}
         </div>
 
-        {loading ? (
+        <div className="flex flex-wrap items-center gap-4 mb-6 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <span>Premium</span>
+            <input
+              type="number"
+              min="0"
+              placeholder="Min"
+              onChange={(e) => updateFilters({ premiumMin: parseAmount(e.target.value) })}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min="0"
+              placeholder="Max"
+              onChange={(e) => updateFilters({ premiumMax: parseAmount(e.target.value) })}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>Created</span>
+            <input
+              type="date"
+              onChange={(e) => updateFilters({ createdFrom: e.target.value ? startOfDay(e.target.value) : undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              onChange={(e) => updateFilters({ createdTo: e.target.value ? endOfDay(e.target.value) : undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        </div>
+
+        {loading && policies.length === 0 ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent"></div>
             <p className="mt-4 text-gray-600">Loading policies...</p>
           </div>
         ) : (
-          <PolicyList policies={filteredPolicies} onSelectPolicy={setSelectedPolicy} />
+          <PolicyList
+            policies={policies}
+            onSelectPolicy={selectPolicy}
+            isChanged={isChanged}
+            sortBy={query.sortBy}
+            sortDirection={query.sortDirection}
+            onSort={handleSort}
+            page={query.page ?? 1}
+            pageSize={query.pageSize ?? DEFAULT_PAGE_SIZE}
+            total={total}
+            onPageChange={(page) => setQuery((current) => ({ ...current, page }))}
+          />
         )}
       </main>
     </div>
@@ -0,0 +1,303 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCan } from '../hooks/useCan';
+import { ApprovalDelegation, ApproverRole, UserProfile } from '../lib/supabase';
+import {
+  createDelegation,
+  DELEGABLE_ROLES,
+  getDelegations,
+  getEligibleUsers,
+  isDelegationActive,
+  revokeDelegation,
+} from '../services/delegationService';
+import { ROLE_LABELS, stageCapability } from '../services/workflowService';
+import { X, UserCheck, AlertCircle, Ban } from 'lucide-react';
+
+interface DelegationManagerProps {
+  onClose: () => void;
+}
+
+type EligibleUser = Pick<UserProfile, 'id' | 'full_name' | 'role'>;
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** `datetime-local` value for a date, in local time */
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const delegationState = (delegation: ApprovalDelegation) => {
+  if (delegation.revoked_at) return { label: 'Revoked', color: 'bg-gray-100 text-gray-700' };
+  if (isDelegationActive(delegation)) return { label: 'Active', color: 'bg-green-100 text-green-800' };
+  if (new Date(delegation.starts_at) > new Date()) return { label: 'Scheduled', color: 'bg-blue-100 text-blue-800' };
+  return { label: 'Ended', color: 'bg-gray-100 text-gray-700' };
+};
+
+/**
+ * Approvers delegate their authority for a date range and revoke delegations
+ * early; admins can delegate on any approver's behalf and see every delegation
+ */
+export const DelegationManager: React.FC<DelegationManagerProps> = ({ onClose }) => {
+  const { profile } = useAuth();
+  const can = useCan();
+  const isAdmin = can('user.manage');
+  const ownRoles = DELEGABLE_ROLES.filter((role) => can(stageCapability(role)));
+  const roles = isAdmin ? DELEGABLE_ROLES : ownRoles;
+
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [role, setRole] = useState<ApproverRole | ''>(roles[0] ?? '');
+  const [delegators, setDelegators] = useState<EligibleUser[]>([]);
+  const [delegates, setDelegates] = useState<EligibleUser[]>([]);
+  const [delegatorId, setDelegatorId] = useState(profile?.id ?? '');
+  const [delegateId, setDelegateId] = useState('');
+  const [startsAt, setStartsAt] = useState(toLocalInput(new Date()));
+  const [endsAt, setEndsAt] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setDelegations(await getDelegations(isAdmin ? undefined : profile?.id));
+    } catch (err) {
+      console.error('Error loading delegations:', err);
+    }
+  }, [isAdmin, profile?.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    getEligibleUsers('policy.view')
+      .then(setDelegates)
+      .catch((err) => console.error('Error loading users:', err));
+  }, []);
+
+  // Admins pick the delegator among the users who can act as the role
+  useEffect(() => {
+    if (!isAdmin || !role) return;
+    getEligibleUsers(stageCapability(role))
+      .then((users) => {
+        setDelegators(users);
+        setDelegatorId((current) => (users.some((user) => user.id === current) ? current : users[0]?.id ?? ''));
+      })
+      .catch((err) => console.error('Error loading approvers:', err));
+  }, [isAdmin, role]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!role) return;
+    setError('');
+    setLoading(true);
+    try {
+      await createDelegation({
+        delegatorId,
+        delegateId,
+        role,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        reason,
+      });
+      setDelegateId('');
+      setEndsAt('');
+      setReason('');
+      await load();
+    } catch (err) {
+      setError((err as Error).message || 'The delegation could not be saved');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (delegation: ApprovalDelegation) => {
+    if (!confirm(`Revoke the ${ROLE_LABELS[delegation.role]} delegation to ${delegation.delegate?.full_name}?`)) return;
+    setError('');
+    try {
+      await revokeDelegation(delegation.id);
+      await load();
+    } catch (err) {
+      setError((err as Error).message || 'The delegation could not be revoked');
+    }
+  };
+
+  const canRevoke = (delegation: ApprovalDelegation) =>
+    !delegation.revoked_at &&
+    new Date(delegation.ends_at) > new Date() &&
+    (isAdmin || delegation.delegator_id === profile?.id || delegation.delegate_id === profile?.id);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-3">
+            <UserCheck className="w-8 h-8 text-blue-600" />
+            <h2 className="text-3xl font-bold text-gray-900">Delegations</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {roles.length > 0 && (
+          <form onSubmit={handleSubmit} className="mb-8 p-6 bg-gray-50 border border-gray-200 rounded-lg">
+            <h3 className="font-semibold text-gray-900 mb-1">Delegate Approval Authority</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The delegate can act at the role's stages on the approver's behalf, within the approver's authority
+              limit, until the delegation ends.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+                <select value={role} onChange={(e) => setRole(e.target.value as ApproverRole)} className={inputClass}>
+                  {roles.map((delegable) => (
+                    <option key={delegable} value={delegable}>
+                      {ROLE_LABELS[delegable]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {isAdmin && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">On Behalf Of</label>
+                  <select
+                    value={delegatorId}
+                    onChange={(e) => setDelegatorId(e.target.value)}
+                    className={inputClass}
+                    required
+                  >
+                    {delegators.length === 0 && <option value="">No one can act as this role</option>}
+                    {delegators.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.full_name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Delegate To</label>
+                <select
+                  value={delegateId}
+                  onChange={(e) => setDelegateId(e.target.value)}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Choose a user…</option>
+                  {delegates
+                    .filter((user) => user.id !== delegatorId)
+                    .map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.full_name} ({ROLE_LABELS[user.role]})
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Annual leave"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                <input
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Until</label>
+                <input
+                  type="datetime-local"
+                  value={endsAt}
+                  min={startsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !delegatorId}
+              className="mt-4 flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              <UserCheck className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Delegate'}</span>
+            </button>
+          </form>
+        )}
+
+        {delegations.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No delegations yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 font-medium">Role</th>
+                <th className="py-2 font-medium">Approver</th>
+                <th className="py-2 font-medium">Delegate</th>
+                <th className="py-2 font-medium">Period</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {delegations.map((delegation) => {
+                const state = delegationState(delegation);
+                return (
+                  <tr key={delegation.id}>
+                    <td className="py-3 text-gray-900">{ROLE_LABELS[delegation.role]}</td>
+                    <td className="py-3 text-gray-700">{delegation.delegator?.full_name}</td>
+                    <td className="py-3 text-gray-700">{delegation.delegate?.full_name}</td>
+                    <td className="py-3 text-gray-700">
+                      {formatDate(delegation.starts_at)} – {formatDate(delegation.ends_at)}
+                      {delegation.reason && <p className="text-xs text-gray-500">{delegation.reason}</p>}
+                    </td>
+                    <td className="py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${state.color}`}>{state.label}</span>
+                    </td>
+                    <td className="py-3 text-right">
+                      {canRevoke(delegation) && (
+                        <button
+                          onClick={() => handleRevoke(delegation)}
+                          className="p-2 text-gray-600 hover:text-red-700 hover:bg-gray-100 rounded-lg transition"
+                          title="Revoke delegation"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { FraudCheckEvent, FraudCheckRecord, Policy } from '../lib/supabase';
+import { getFraudChecks } from '../services/policyService';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+
+interface FraudCheckHistoryProps {
+  policy: Policy;
+}
+
+const EVENT_LABELS: Record<FraudCheckEvent, string> = {
+  create: 'On creation',
+  update: 'After edit',
+  submit: 'On submission',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Every fraud check run on the policy, newest first
+ */
+export const FraudCheckHistory: React.FC<FraudCheckHistoryProps> = ({ policy }) => {
+  const [checks, setChecks] = useState<FraudCheckRecord[]>([]);
+
+  // Each check updates the policy row, so a newer `updated_at` means a newer check
+  useEffect(() => {
+    getFraudChecks(policy.id)
+      .then(setChecks)
+      .catch((err) => console.error('Error loading fraud checks:', err));
+  }, [policy.id, policy.updated_at]);
+
+  if (checks.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50">
+        <p className="font-semibold text-gray-900">Fraud Check History</p>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {checks.map((check) => (
+          <li key={check.id} className="px-4 py-2 flex justify-between items-start text-sm">
+            <div className="flex items-start space-x-2">
+              {check.passed ? (
+                <CheckCircle className="w-4 h-4 text-green-600 mt-0.5" />
+              ) : (
+                <AlertCircle className="w-4 h-4 text-red-600 mt-0.5" />
+              )}
+              <div>
+                <p className={check.passed ? 'text-gray-900' : 'text-red-700'}>
+                  {EVENT_LABELS[check.event]}: {check.passed ? 'Passed' : 'Failed'}
+                  {check.details.score !== undefined && (
+                    <span className="text-gray-500">
+                      {' '}
+                      (score {check.details.score} / {check.details.threshold})
+                    </span>
+                  )}
+                </p>
+                {!check.passed && <p className="text-gray-600">{check.reason}</p>}
+              </div>
+            </div>
+            <span className="text-gray-500 whitespace-nowrap ml-4">{formatDate(check.created_at)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { AppNotification } from '../lib/supabase';
+import {
+  getNotifications,
+  getUnreadCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '../services/notificationService';
+import { Bell, CheckCheck } from 'lucide-react';
+
+interface NotificationInboxProps {
+  onOpenPolicy: (policyId: string) => void;
+}
+
+const REFRESH_INTERVAL_MS = 30000;
+
+export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onOpenPolicy }) => {
+  const { profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadUnreadCount = useCallback(async () => {
+    if (!profile) return;
+    try {
+      setUnreadCount(await getUnreadCount(profile.id));
+    } catch (error) {
+      console.error('Error loading unread notifications:', error);
+    }
+  }, [profile]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!profile) return;
+    try {
+      setNotifications(await getNotifications(profile.id));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const interval = setInterval(loadUnreadCount, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadUnreadCount]);
+
+  useEffect(() => {
+    if (open) loadNotifications();
+  }, [open, loadNotifications]);
+
+  const handleSelect = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      try {
+        await markNotificationRead(notification.id);
+        setUnreadCount((count) => Math.max(0, count - 1));
+      } catch (error) {
+        console.error('Error marking notification as read:', error);
+      }
+    }
+    setOpen(false);
+    if (notification.policy_id) onOpenPolicy(notification.policy_id);
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!profile) return;
+    try {
+      await markAllNotificationsRead(profile.id);
+      setUnreadCount(0);
+      const readAt = new Date().toISOString();
+      setNotifications((items) => items.map((item) => ({ ...item, read_at: item.read_at ?? readAt })));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-xl z-20">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+            <p className="font-semibold text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 transition"
+              >
+                <CheckCheck className="w-4 h-4" />
+                <span>Mark all as read</span>
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-600 text-center">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition ${
+                      notification.read_at ? '' : 'bg-blue-50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-start">
+                      <p className={`text-sm ${notification.read_at ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                        {notification.message}
+                      </p>
+                      <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                        {formatDate(notification.created_at)}
+                      </span>
+                    </div>
+                    {typeof notification.data.policy_number === 'string' && (
+                      <p className="text-xs text-gray-500 mt-1">{notification.data.policy_number}</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
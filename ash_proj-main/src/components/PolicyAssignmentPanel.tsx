@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCan } from '../hooks/useCan';
+import { useUserNames } from '../hooks/useUserNames';
+import { Policy, PolicyAssignment, PolicyAssignmentAction, UserProfile } from '../lib/supabase';
+import {
+  claimPolicy,
+  getAssignmentHistory,
+  getEligibleAssignees,
+  reassignPolicy,
+  releasePolicy,
+  STRATEGY_LABELS,
+} from '../services/assignmentService';
+import { getStatusRole } from '../services/workflowService';
+import { AlertCircle, Inbox, UserMinus, UserPlus, Users } from 'lucide-react';
+
+interface PolicyAssignmentPanelProps {
+  policy: Policy;
+  /** Whether the user can act at the policy's stage (delegations included) */
+  canAct: boolean;
+  onChanged: (policy: Policy) => void;
+}
+
+const ACTION_LABELS: Record<PolicyAssignmentAction, string> = {
+  assigned: 'Assigned',
+  claimed: 'Claimed',
+  released: 'Released',
+  reassigned: 'Reassigned',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Who a pending policy is assigned to, with claim, release and (for users with
+ * `policy.assign`) reassign actions, and the assignment history
+ */
+export const PolicyAssignmentPanel: React.FC<PolicyAssignmentPanelProps> = ({ policy, canAct, onChanged }) => {
+  const { profile } = useAuth();
+  const can = useCan();
+  const userName = useUserNames();
+  const role = getStatusRole(policy.status);
+  const canReassign = can('policy.assign');
+  const [history, setHistory] = useState<PolicyAssignment[]>([]);
+  const [assignees, setAssignees] = useState<Pick<UserProfile, 'id' | 'full_name'>[]>([]);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Every assignment change updates the policy row
+  useEffect(() => {
+    getAssignmentHistory(policy.id)
+      .then(setHistory)
+      .catch((err) => console.error('Error loading assignment history:', err));
+  }, [policy.id, policy.updated_at]);
+
+  useEffect(() => {
+    if (!canReassign || !role) return;
+    // A policy is never assigned to its creator
+    getEligibleAssignees(role)
+      .then((reviewers) => setAssignees(reviewers.filter((reviewer) => reviewer.id !== policy.creator_id)))
+      .catch((err) => console.error('Error loading reviewers:', err));
+  }, [canReassign, role, policy.creator_id]);
+
+  if (!role && history.length === 0) return null;
+
+  const run = async (action: () => Promise<Policy>) => {
+    setError('');
+    setLoading(true);
+    try {
+      onChanged(await action());
+      setReason('');
+      setAssigneeId('');
+    } catch (err) {
+      setError((err as Error).message || 'The assignment could not be changed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const assignedToMe = !!policy.assigned_to && policy.assigned_to === profile?.id;
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <Inbox className="w-5 h-5 text-gray-600" />
+          <p className="font-semibold text-gray-900">Assignment</p>
+        </div>
+        {role && (
+          <div className="flex items-center space-x-2">
+            {canAct && !policy.assigned_to && (
+              <button
+                onClick={() => run(() => claimPolicy(policy.id))}
+                disabled={loading}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                <UserPlus className="w-4 h-4" />
+                <span>Claim</span>
+              </button>
+            )}
+            {assignedToMe && (
+              <button
+                onClick={() => run(() => releasePolicy(policy.id))}
+                disabled={loading}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100 transition disabled:opacity-50"
+              >
+                <UserMinus className="w-4 h-4" />
+                <span>Release</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 text-sm">
+        {role && (
+          <p className="text-gray-700">
+            {policy.assigned_to ? (
+              <>
+                Assigned to <span className="font-semibold">{assignedToMe ? 'you' : userName(policy.assigned_to)}</span>
+                {policy.assigned_at && <span className="text-gray-500"> since {formatDate(policy.assigned_at)}</span>}
+              </>
+            ) : (
+              'Unassigned: in the team queue for any reviewer of this stage to claim.'
+            )}
+          </p>
+        )}
+
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg flex items-start space-x-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {role && canReassign && (
+          <div className="mt-3 flex space-x-2">
+            <select
+              value={assigneeId}
+              onChange={(e) => setAssigneeId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Team queue (unassigned)</option>
+              {assignees.map((assignee) => (
+                <option key={assignee.id} value={assignee.id}>
+                  {assignee.full_name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for reassigning (required)"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => run(() => reassignPolicy(policy, assigneeId || null, reason))}
+              disabled={loading || !reason.trim()}
+              className="flex items-center space-x-1 px-3 py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition disabled:opacity-50"
+            >
+              <Users className="w-4 h-4" />
+              <span>Reassign</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <ul className="divide-y divide-gray-200 border-t border-gray-200">
+          {history.map((entry) => (
+            <li key={entry.id} className="px-4 py-2 flex justify-between items-start text-sm">
+              <div>
+                <p className="text-gray-900">
+                  {ACTION_LABELS[entry.action]}
+                  {entry.assigned_to && <> to {userName(entry.assigned_to)}</>}
+                  {entry.previous_assignee && entry.action !== 'assigned' && (
+                    <span className="text-gray-500"> (from {userName(entry.previous_assignee)})</span>
+                  )}
+                  {entry.strategy && <span className="text-gray-500"> · {STRATEGY_LABELS[entry.strategy]}</span>}
+                </p>
+                {entry.performed_by && entry.action !== 'assigned' && entry.action !== 'claimed' && (
+                  <p className="text-gray-600">by {userName(entry.performed_by)}</p>
+                )}
+                {entry.reason && <p className="text-gray-600">{entry.reason}</p>}
+              </div>
+              <span className="text-gray-500 whitespace-nowrap ml-4">{formatDate(entry.created_at)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
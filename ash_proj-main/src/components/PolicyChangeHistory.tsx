@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Policy, PolicyChangeSet, Product } from '../lib/supabase';
+import { getPolicyChanges } from '../services/policyService';
+import { FieldDefinition, getPolicyFields, getProductFields } from '../services/productDefinitions';
+import { History } from 'lucide-react';
+
+interface PolicyChangeHistoryProps {
+  policy: Policy;
+  /** The catalog, for product names and product field definitions */
+  products: Product[];
+  productName: (code: string) => string;
+}
+
+/**
+ * Columns without a field definition
+ */
+const EXTRA_FIELDS: FieldDefinition[] = [
+  { key: 'policy_number', label: 'Policy Number', type: 'text' },
+  { key: 'rated_premium', label: 'Rated Premium', type: 'currency' },
+  { key: 'premium_override_reason', label: 'Premium Override Reason', type: 'text' },
+];
+
+/**
+ * Definition for a change key: a policy column, `insured_address.<key>` or
+ * `product_attributes.<key>` (looked up across products, since the product may
+ * have changed too)
+ */
+const findField = (key: string, products: Product[]): FieldDefinition | undefined => {
+  if (key.startsWith('product_attributes.')) {
+    const attribute = key.slice('product_attributes.'.length);
+    return products.flatMap((product) => getProductFields(product)).find((field) => field.key === attribute);
+  }
+  return [...getPolicyFields(), ...EXTRA_FIELDS].find((field) => field.key === key);
+};
+
+const humanize = (key: string) =>
+  key
+    .split('.')
+    .pop()!
+    .replace(/_/g, ' ')
+    .replace(/^\w/, (letter) => letter.toUpperCase());
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Timeline of field-level edits, newest first, each with the before/after value
+ */
+export const PolicyChangeHistory: React.FC<PolicyChangeHistoryProps> = ({ policy, products, productName }) => {
+  const [changeSets, setChangeSets] = useState<PolicyChangeSet[]>([]);
+
+  // Reloads whenever the policy row changes (the trigger writes in the same transaction)
+  useEffect(() => {
+    getPolicyChanges(policy.id)
+      .then(setChangeSets)
+      .catch((err) => console.error('Error loading change history:', err));
+  }, [policy.id, policy.updated_at]);
+
+  const formatValue = (key: string, field: FieldDefinition | undefined, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (key === 'product_type') return productName(String(value));
+
+    switch (field?.type) {
+      case 'currency':
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value));
+      case 'date':
+        return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+      case 'select':
+        return field.options?.find((option) => option.value === value)?.label ?? String(value);
+      default:
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="w-5 h-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-900">Change History</h3>
+      </div>
+
+      {changeSets.length === 0 ? (
+        <p className="text-gray-600">No edits since the policy was created</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+          {changeSets.map((changeSet) => (
+            <li key={changeSet.id} className="ml-6">
+              <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-blue-600" />
+              <p className="text-sm">
+                <span className="font-semibold text-gray-900">{changeSet.user_profiles?.full_name ?? 'System'}</span>
+                {changeSet.user_profiles && <span className="text-gray-500"> ({changeSet.user_profiles.role})</span>}
+                <span className="text-gray-500"> · {formatDate(changeSet.created_at)}</span>
+              </p>
+              <table className="mt-2 w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {Object.entries(changeSet.changes).map(([key, change]) => {
+                    const field = findField(key, products);
+                    return (
+                      <tr key={key}>
+                        <td className="py-1 pr-4 text-gray-600 w-1/3">{field?.label ?? humanize(key)}</td>
+                        <td className="py-1 pr-2 text-red-700 line-through">{formatValue(key, field, change.old)}</td>
+                        <td className="py-1 text-green-700">{formatValue(key, field, change.new)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
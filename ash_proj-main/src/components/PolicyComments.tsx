@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Policy, PolicyComment, PolicyCommentRevision, UserProfile } from '../lib/supabase';
+import {
+  addPolicyComment,
+  canBeMentioned,
+  editPolicyComment,
+  getCommentRevisions,
+  getMentionableUsers,
+  getPolicyComments,
+  MentionableUser,
+} from '../services/commentService';
+import { subscribeToPolicyComments } from '../services/realtimeService';
+import { ROLE_LABELS } from '../services/workflowService';
+import { useCan } from '../hooks/useCan';
+import { MessageSquare, Lock, Reply, Edit, AlertCircle } from 'lucide-react';
+
+interface PolicyCommentsProps {
+  policy: Policy;
+  profile: UserProfile | null;
+}
+
+interface CommentComposerProps {
+  users: MentionableUser[];
+  internal: boolean;
+  /** Shows the internal-note toggle (non-creators, new top-level comments) */
+  onInternalChange?: (internal: boolean) => void;
+  initialBody?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Text area with `@` autocomplete over user names
+ */
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  users,
+  internal,
+  onInternalChange,
+  initialBody = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const [body, setBody] = useState(initialBody);
+  const [query, setQuery] = useState<{ text: string; start: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = /@([^@\n]{0,40})$/.exec(text.slice(0, caret));
+    setQuery(match ? { text: match[1].toLowerCase(), start: match.index } : null);
+  };
+
+  const suggestions = query
+    ? users
+        .filter((user) => canBeMentioned(user, internal) && user.full_name.toLowerCase().startsWith(query.text))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const insertMention = (user: MentionableUser) => {
+    if (!query) return;
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const mention = `@${user.full_name} `;
+    setBody(body.slice(0, query.start) + mention + body.slice(caret));
+    setQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onBlur={() => setTimeout(() => setQuery(null), 150)}
+          className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition ${
+            internal ? 'border-amber-300 bg-amber-50' : 'border-gray-300'
+          }`}
+          rows={3}
+          placeholder={internal ? 'Internal note (hidden from creators). Type @ to mention' : 'Write a comment. Type @ to mention'}
+          required
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg mt-1">
+            {suggestions.map((user) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(user)}
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
+                >
+                  <span className="font-medium text-gray-900">{user.full_name}</span>{' '}
+                  <span className="text-gray-500">{ROLE_LABELS[user.role]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        {onInternalChange ? (
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={internal} onChange={(e) => onInternalChange(e.target.checked)} />
+            <Lock className="w-4 h-4 text-amber-600" />
+            <span>Internal note</span>
+          </label>
+        ) : (
+          <span />
+        )}
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !body.trim()}
+            className="px-4 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Comment thread of a policy, shown next to the approval history
+ */
+export const PolicyComments: React.FC<PolicyCommentsProps> = ({ policy, profile }) => {
+  const [comments, setComments] = useState<PolicyComment[]>([]);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [internal, setInternal] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<{ commentId: string; items: PolicyCommentRevision[] } | null>(null);
+
+  const can = useCan();
+  const canWriteInternal = profile !== null && can('comment.internal');
+
+  const loadComments = useCallback(async () => {
+    try {
+      setComments(await getPolicyComments(policy.id));
+    } catch (err) {
+      console.error('Error loading comments:', err);
+    }
+  }, [policy.id]);
+
+  useEffect(() => {
+    loadComments();
+    getMentionableUsers()
+      .then(setUsers)
+      .catch((err) => console.error('Error loading users:', err));
+  }, [loadComments]);
+
+  useEffect(() => subscribeToPolicyComments(() => loadComments(), policy.id), [policy.id, loadComments]);
+
+  const toggleRevisions = async (comment: PolicyComment) => {
+    if (revisions?.commentId === comment.id) {
+      setRevisions(null);
+      return;
+    }
+    try {
+      setRevisions({ commentId: comment.id, items: await getCommentRevisions(comment.id) });
+    } catch (err) {
+      console.error('Error loading revisions:', err);
+    }
+  };
+
+  // Replies are shown under the top-level comment they (indirectly) answer
+  const rootOf = (comment: PolicyComment): string => {
+    const parent = comments.find((item) => item.id === comment.parent_id);
+    return parent ? rootOf(parent) : comment.id;
+  };
+  const topLevel = comments.filter((comment) => !comment.parent_id || !comments.some((item) => item.id === comment.parent_id));
+  const repliesTo = (root: PolicyComment) =>
+    comments.filter((comment) => comment.id !== root.id && rootOf(comment) === root.id);
+
+  const renderBody = (comment: PolicyComment) => {
+    const names = users
+      .filter((user) => comment.mentions.includes(user.id))
+      .map((user) => `@${user.full_name}`)
+      .sort((a, b) => b.length - a.length);
+    if (names.length === 0) return comment.body;
+
+    const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return comment.body.split(new RegExp(`(${escaped.join('|')})`, 'g')).map((part, index) =>
+      names.includes(part) ? (
+        <span key={index} className="font-semibold text-blue-700">
+          {part}
+        </span>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const renderComment = (comment: PolicyComment, root: PolicyComment) => (
+    <div
+      key={comment.id}
+      className={`rounded-lg p-3 border ${comment.internal ? 'bg-amber-50 border-amber-200' : 'border-gray-200'}`}
+    >
+      <div className="flex items-start justify-between mb-1">
+        <p className="text-sm">
+          <span className="font-semibold text-gray-900">{comment.user_profiles?.full_name}</span>{' '}
+          <span className="text-gray-500">({comment.user_profiles?.role})</span>
+          {comment.internal && (
+            <span className="ml-2 inline-flex items-center space-x-1 text-xs font-semibold text-amber-700">
+              <Lock className="w-3 h-3" />
+              <span>Internal</span>
+            </span>
+          )}
+        </p>
+        <p className="text-xs text-gray-500">{formatDate(comment.created_at)}</p>
+      </div>
+
+      {editingId === comment.id ? (
+        <CommentComposer
+          users={users}
+          internal={comment.internal}
+          initialBody={comment.body}
+          submitLabel="Save"
+          onSubmit={async (body) => {
+            await editPolicyComment({ policy, comment, author: profile!, body });
+            setEditingId(null);
+            await loadComments();
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <p className="text-sm text-gray-800 whitespace-pre-wrap">{renderBody(comment)}</p>
+      )}
+
+      <div className="flex items-center space-x-3 mt-2 text-xs text-gray-500">
+        {profile && (
+          <button onClick={() => setReplyingTo(root.id)} className="flex items-center space-x-1 hover:text-gray-900">
+            <Reply className="w-3 h-3" />
+            <span>Reply</span>
+          </button>
+        )}
+        {profile?.id === comment.author_id && editingId !== comment.id && (
+          <button onClick={() => setEditingId(comment.id)} className="flex items-center space-x-1 hover:text-gray-900">
+            <Edit className="w-3 h-3" />
+            <span>Edit</span>
+          </button>
+        )}
+        {comment.edited_at && (
+          <button onClick={() => toggleRevisions(comment)} className="hover:text-gray-900 underline">
+            edited {formatDate(comment.edited_at)}
+          </button>
+        )}
+      </div>
+
+      {revisions?.commentId === comment.id && (
+        <div className="mt-2 pl-3 border-l-2 border-gray-200 space-y-2">
+          {revisions.items.map((revision) => (
+            <div key={revision.id}>
+              <p className="text-xs text-gray-500">Before edit on {formatDate(revision.created_at)}</p>
+              <p className="text-sm text-gray-600 whitespace-pre-wrap">{revision.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-4">
+        <MessageSquare className="w-5 h-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-900">Discussion</h3>
+      </div>
+
+      <div className="space-y-4 mb-4">
+        {topLevel.length === 0 && <p className="text-gray-600">No comments yet</p>}
+        {topLevel.map((root) => (
+          <div key={root.id} className="space-y-2">
+            {renderComment(root, root)}
+            <div className="ml-6 space-y-2">
+              {repliesTo(root).map((reply) => renderComment(reply, root))}
+              {replyingTo === root.id && profile && (
+                <CommentComposer
+                  users={users}
+                  internal={root.internal}
+                  submitLabel="Reply"
+                  onSubmit={async (body) => {
+                    await addPolicyComment({ policy, author: profile, body, internal: root.internal, parent: root });
+                    setReplyingTo(null);
+                    await loadComments();
+                  }}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {profile && (
+        <CommentComposer
+          users={users}
+          internal={internal}
+          onInternalChange={canWriteInternal ? setInternal : undefined}
+          submitLabel="Comment"
+          onSubmit={async (body) => {
+            await addPolicyComment({ policy, author: profile, body, internal });
+            await loadComments();
+          }}
+        />
+      )}
+    </div>
+  );
+};
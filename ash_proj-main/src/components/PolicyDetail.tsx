@@ -1,18 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Policy } from '../lib/supabase';
+import { ApprovalDelegation, Policy, ProductAttributeValue } from '../lib/supabase';
 import {
   submitPolicy,
   processApproval,
   getApprovalLogs,
+  getPolicy,
   updatePolicy,
+  reviewFraudFlag,
+  PolicyTransitionConflictError,
 } from '../services/policyService';
+import {
+  canActOnPolicy,
+  getActionableStatuses,
+  getCurrentStage,
+  getStatusLabel,
+  isFraudReviewStatus,
+} from '../services/workflowService';
+import { exceedsLimit, getApprovalLimit } from '../services/authorityService';
+import { subscribeToApprovalLogs, subscribeToPolicies } from '../services/realtimeService';
+import { PolicyValidationError } from '../services/policyValidation';
+import { FieldDefinition, getProductFields } from '../services/productDefinitions';
+import { usePolicyFormValues } from '../hooks/usePolicyFormValues';
+import { useProducts } from '../hooks/useProducts';
+import { useCan } from '../hooks/useCan';
+import { useActiveDelegations } from '../hooks/useActiveDelegations';
+import { useUserNames } from '../hooks/useUserNames';
+import { useSlaTargets } from '../hooks/useSlaTargets';
+import { getRoleDelegations, withDelegations } from '../services/delegationService';
+import { ratePolicy } from '../services/ratingService';
+import { PolicyFields } from './PolicyFields';
+import { PremiumRating } from './PremiumRating';
+import { PolicyDocuments } from './PolicyDocuments';
+import { PolicyComments } from './PolicyComments';
+import { PolicyChangeHistory } from './PolicyChangeHistory';
+import { FraudCheckHistory } from './FraudCheckHistory';
+import { RelatedPolicies } from './RelatedPolicies';
+import { PolicyAssignmentPanel } from './PolicyAssignmentPanel';
+import { SlaBadge } from './SlaBadge';
+import { useRelatedPolicies } from '../hooks/useRelatedPolicies';
 import {
   X,
   FileText,
   User,
   DollarSign,
   Package,
+  Calendar,
+  Mail,
+  MapPin,
   Shield,
   CheckCircle,
   XCircle,
@@ -20,46 +55,142 @@ import {
   Edit,
   Clock,
   AlertCircle,
+  ArrowUpCircle,
+  RotateCcw,
+  Paperclip,
+  ShieldAlert,
+  ShieldCheck,
+  UserCheck,
 } from 'lucide-react';
 
 interface PolicyDetailProps {
   policy: Policy;
   onClose: () => void;
   onUpdate: () => void;
+  onOpenPolicy?: (policyId: string) => void;
 }
 
-export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onUpdate }) => {
+export const PolicyDetail: React.FC<PolicyDetailProps> = ({
+  policy: initialPolicy,
+  onClose,
+  onUpdate,
+  onOpenPolicy,
+}) => {
   const { profile } = useAuth();
+  const can = useCan();
+  const { delegations, delegationFor } = useActiveDelegations(profile?.id);
+  const [policy, setPolicy] = useState(initialPolicy);
+  const [updatedRemotely, setUpdatedRemotely] = useState(false);
+  // `updated_at` of the user's own latest assignment change, which isn't news to them
+  const ownUpdate = useRef<string | null>(null);
+  const userName = useUserNames();
+  const { slaStatus } = useSlaTargets();
+  const sla = slaStatus(policy);
+  const [conflict, setConflict] = useState<string | null>(null);
   const [approvalLogs, setApprovalLogs] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [comments, setComments] = useState('');
+  const [approvalLimit, setApprovalLimit] = useState<number | null>(null);
+  const [stageDelegations, setStageDelegations] = useState<ApprovalDelegation[]>([]);
   const [isEditing, setIsEditing] = useState(false);
-  const [editData, setEditData] = useState({
-    customer_name: policy.customer_name,
-    premium_amount: policy.premium_amount.toString(),
-    product_type: policy.product_type,
-  });
+  const {
+    values: formValues,
+    setValues: setFormValues,
+    reset: resetFormValues,
+    toDetails,
+  } = usePolicyFormValues(initialPolicy);
+  const { products, productName, findProduct } = useProducts();
+  const formDetails = toDetails();
+  const relatedPolicies = useRelatedPolicies(policy.customer_name, policy.id, policy.updated_at);
 
-  useEffect(() => {
-    loadApprovalLogs();
-  }, [policy.id]);
+  const setFormPolicyValue = (key: string, value: string) =>
+    setFormValues({ ...formValues, policy: { ...formValues.policy, [key]: value } });
 
-  const loadApprovalLogs = async () => {
+  const loadApprovalLogs = useCallback(async () => {
     try {
-      const logs = await getApprovalLogs(policy.id);
+      const logs = await getApprovalLogs(initialPolicy.id);
       setApprovalLogs(logs);
     } catch (error) {
       console.error('Error loading approval logs:', error);
     }
+  }, [initialPolicy.id]);
+
+  useEffect(() => {
+    setPolicy(initialPolicy);
+    setUpdatedRemotely(false);
+    setConflict(null);
+  }, [initialPolicy]);
+
+  useEffect(() => {
+    loadApprovalLogs();
+  }, [loadApprovalLogs]);
+
+  // Keep the open policy and its history live while colleagues act on it
+  useEffect(() => {
+    const unsubscribePolicy = subscribeToPolicies((change) => {
+      if (change.eventType !== 'UPDATE') return;
+      setPolicy((current) => ({ ...current, ...change.new }));
+      if (change.new.updated_at !== ownUpdate.current) setUpdatedRemotely(true);
+    }, initialPolicy.id);
+    const unsubscribeLogs = subscribeToApprovalLogs(() => loadApprovalLogs(), initialPolicy.id);
+
+    return () => {
+      unsubscribePolicy();
+      unsubscribeLogs();
+    };
+  }, [initialPolicy.id, loadApprovalLogs]);
+
+  // The stage role the user would act as: through their own roles, or else on
+  // behalf of whoever delegated the role to them (with that user's limit)
+  const stageRole = getCurrentStage(policy)?.role;
+  const actingDelegation = stageRole && !canActOnPolicy(can, policy) ? delegationFor(stageRole) : null;
+  const actingRole = canActOnPolicy(can, policy) || actingDelegation ? stageRole : undefined;
+  const onBehalfOf = actingDelegation?.delegator_id;
+
+  useEffect(() => {
+    if (!profile || !actingRole) return;
+    getApprovalLimit(onBehalfOf ?? profile.id, actingRole)
+      .then(setApprovalLimit)
+      .catch((error) => console.error('Error loading approval limit:', error));
+  }, [profile, actingRole, onBehalfOf]);
+
+  useEffect(() => {
+    if (!stageRole) {
+      setStageDelegations([]);
+      return;
+    }
+    getRoleDelegations(stageRole)
+      .then(setStageDelegations)
+      .catch((error) => console.error('Error loading delegations:', error));
+  }, [stageRole]);
+
+  // Someone else moved the policy first: show what happened and reload it
+  // instead of failing with a generic alert
+  const handleTransitionError = async (error: unknown, fallback: string) => {
+    if (!(error instanceof PolicyTransitionConflictError)) {
+      alert((error as Error).message || fallback);
+      return;
+    }
+    setConflict(
+      `Another user already acted on this policy. It is now ${getStatusLabel(error.currentStatus)}, so your action was not applied.`
+    );
+    try {
+      const latest = await getPolicy(policy.id);
+      if (latest) setPolicy(latest);
+      await loadApprovalLogs();
+    } catch (refreshError) {
+      console.error('Error refreshing policy:', refreshError);
+    }
+    onUpdate();
   };
 
   const handleSubmit = async () => {
     setLoading(true);
     try {
-      await submitPolicy(policy.id, profile!.id);
+      await submitPolicy(policy.id);
       onUpdate();
-    } catch (error: any) {
-      alert(error.message || 'Failed to submit policy');
+    } catch (error) {
+      await handleTransitionError(error, 'Failed to submit policy');
     } finally {
       setLoading(false);
     }
@@ -68,10 +199,10 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
   const handleApprove = async () => {
     setLoading(true);
     try {
-      await processApproval(policy.id, profile!.id, 'approved', profile!.role, comments);
+      await processApproval(policy.id, profile!.id, 'approved', actingRole!, comments, onBehalfOf);
       onUpdate();
-    } catch (error: any) {
-      alert(error.message || 'Failed to approve policy');
+    } catch (error) {
+      await handleTransitionError(error, 'Failed to approve policy');
     } finally {
       setLoading(false);
     }
@@ -84,10 +215,42 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
     }
     setLoading(true);
     try {
-      await processApproval(policy.id, profile!.id, 'rejected', profile!.role, comments);
+      await processApproval(policy.id, profile!.id, 'rejected', actingRole!, comments, onBehalfOf);
+      onUpdate();
+    } catch (error) {
+      await handleTransitionError(error, 'Failed to reject policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReturn = async () => {
+    if (!comments.trim()) {
+      alert('Please describe what needs to be revised');
+      return;
+    }
+    setLoading(true);
+    try {
+      await processApproval(policy.id, profile!.id, 'returned', actingRole!, comments, onBehalfOf);
+      onUpdate();
+    } catch (error) {
+      await handleTransitionError(error, 'Failed to return policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFraudReview = async (decision: 'cleared' | 'confirmed') => {
+    if (!comments.trim()) {
+      alert('Please provide a reason for your decision');
+      return;
+    }
+    setLoading(true);
+    try {
+      await reviewFraudFlag(policy.id, profile!.id, decision, comments, onBehalfOf);
       onUpdate();
-    } catch (error: any) {
-      alert(error.message || 'Failed to reject policy');
+    } catch (error) {
+      await handleTransitionError(error, 'Failed to record the fraud review');
     } finally {
       setLoading(false);
     }
@@ -96,25 +259,56 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
   const handleUpdate = async () => {
     setLoading(true);
     try {
-      await updatePolicy(policy.id, {
-        customer_name: editData.customer_name,
-        premium_amount: parseFloat(editData.premium_amount),
-        product_type: editData.product_type,
-      });
+      await updatePolicy(policy.id, formDetails);
       setIsEditing(false);
       onUpdate();
-    } catch (error: any) {
-      alert(error.message || 'Failed to update policy');
+    } catch (error) {
+      alert(
+        error instanceof PolicyValidationError
+          ? error.errors.join('\n')
+          : (error as Error).message || 'Failed to update policy'
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const canEdit = profile?.role === 'creator' && policy.status === 'draft' && policy.creator_id === profile.id;
-  const canSubmit = profile?.role === 'creator' && policy.status === 'draft' && policy.creator_id === profile.id;
-  const canApprove =
-    (profile?.role === 'underwriter' && policy.status === 'pending_underwriter') ||
-    (profile?.role === 'manager' && policy.status === 'pending_manager');
+  const startEditing = () => {
+    resetFormValues(policy);
+    setIsEditing(true);
+  };
+
+  const ownPolicy = policy.creator_id === profile?.id;
+  const ownDraft = policy.status === 'draft' && ownPolicy;
+  const canEdit = ownDraft && can('policy.edit');
+  const canSubmit = ownDraft && can('policy.submit');
+  // Nobody reviews a policy they created, whatever other roles they hold
+  const actingForCreator = !!onBehalfOf && policy.creator_id === onBehalfOf;
+  const canAct = !!actingRole && !ownPolicy && !actingForCreator;
+  const inFraudReview = isFraudReviewStatus(policy.status);
+  // Only the assignee (or whoever acts on their behalf) can act on an assigned policy
+  const assignedElsewhere = !!policy.assigned_to && policy.assigned_to !== profile?.id && policy.assigned_to !== onBehalfOf;
+  const canApprove = canAct && !inFraudReview && !assignedElsewhere;
+  const canReviewFraud = canAct && inFraudReview && !assignedElsewhere;
+  const approvalBlockedByFraud = policy.fraud_flag_status === 'flagged' || policy.fraud_flag_status === 'confirmed';
+  const currentStage = getCurrentStage(policy);
+  const latestReturn = approvalLogs.find((log) => log.action === 'returned');
+  const willEscalate = canApprove && exceedsLimit(policy.premium_amount, approvalLimit);
+  const approvalBlocker =
+    actingRole && ownPolicy
+      ? 'You created this policy, so another reviewer has to act on it.'
+      : actingRole && actingForCreator
+        ? `${userName(policy.creator_id)} created this policy, so you can't act on it on their behalf.`
+        : canAct && assignedElsewhere
+          ? `This policy is assigned to ${userName(policy.assigned_to!)}. They can release it, or a manager can reassign it.`
+          : getActionableStatuses(withDelegations(can, delegations)).length > 0 && currentStage && !actingRole
+            ? `This policy is awaiting ${currentStage.label}. None of your roles can act at this stage.`
+            : null;
+
+  const handleAssignmentChanged = (updated: Policy) => {
+    ownUpdate.current = updated.updated_at;
+    setPolicy(updated);
+  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -123,6 +317,37 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
     }).format(amount);
   };
 
+  const formatTermDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const formatAddress = () => {
+    const address = policy.insured_address;
+    return [address.line1, address.line2, address.city, address.region, address.postal_code, address.country]
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  const formatAttribute = (field: FieldDefinition, value: ProductAttributeValue) => {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    switch (field.type) {
+      case 'date':
+        return formatTermDate(String(value));
+      case 'currency':
+        return formatCurrency(Number(value));
+      case 'select':
+        return field.options?.find((option) => option.value === value)?.label ?? String(value);
+      default:
+        return typeof value === 'number' ? value.toLocaleString('en-US') : String(value);
+    }
+  };
+
+  const productAttributes = getProductFields(findProduct(policy.product_type))
+    .filter((field) => field.key in policy.product_attributes)
+    .map((field) => ({
+      label: field.label,
+      value: formatAttribute(field, (policy.product_attributes as Record<string, ProductAttributeValue>)[field.key]),
+    }));
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -140,7 +365,10 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
           <div className="flex justify-between items-start">
             <div>
               <h2 className="text-3xl font-bold mb-2">Policy Details</h2>
-              <p className="text-blue-100">{policy.policy_number}</p>
+              <p className="text-blue-100">
+                {policy.policy_number}
+                {policy.revision_count > 0 && ` · Revision ${policy.revision_count}`}
+              </p>
             </div>
             <button
               onClick={onClose}
@@ -152,46 +380,102 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
         </div>
 
         <div className="p-8">
-          {policy.fraud_check_passed === false && (
+          {conflict && (
+            <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <p className="text-amber-800 text-sm">{conflict}</p>
+            </div>
+          )}
+
+          {updatedRemotely && (
+            <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start space-x-3">
+              <Clock className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+              <p className="text-blue-800 text-sm">
+                This policy was just updated by another user. The details below reflect the latest version.
+              </p>
+            </div>
+          )}
+
+          {policy.fraud_check_passed === false && policy.fraud_flag_status !== 'cleared' && (
             <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
               <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
               <div>
-                <p className="text-red-800 font-semibold">Fraud Alert</p>
+                <p className="text-red-800 font-semibold">
+                  {policy.fraud_flag_status === 'confirmed' ? 'Fraud Confirmed' : 'Fraud Alert'}
+                </p>
                 <p className="text-red-700 text-sm mt-1">{policy.fraud_check_reason}</p>
+                {policy.fraud_review_reason && (
+                  <p className="text-red-700 text-sm mt-1">
+                    <span className="font-medium">Fraud review:</span> {policy.fraud_review_reason}
+                  </p>
+                )}
               </div>
             </div>
           )}
 
-          {isEditing ? (
-            <div className="space-y-4 mb-8">
+          {policy.fraud_check_passed === false && policy.fraud_flag_status === 'cleared' && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+              <ShieldCheck className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Customer Name</label>
-                <input
-                  type="text"
-                  value={editData.customer_name}
-                  onChange={(e) => setEditData({ ...editData, customer_name: e.target.value })}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+                <p className="text-green-800 font-semibold">Fraud Flag Cleared</p>
+                <p className="text-green-700 text-sm mt-1">{policy.fraud_check_reason}</p>
+                <p className="text-green-700 text-sm mt-1">
+                  <span className="font-medium">Fraud review:</span> {policy.fraud_review_reason}
+                </p>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Product Type</label>
-                <input
-                  type="text"
-                  value={editData.product_type}
-                  onChange={(e) => setEditData({ ...editData, product_type: e.target.value })}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Premium Amount</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={editData.premium_amount}
-                  onChange={(e) => setEditData({ ...editData, premium_amount: e.target.value })}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+            </div>
+          )}
+
+          {policy.fraud_check_details && (
+            <div className="mb-6 border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 bg-gray-50 flex justify-between items-center">
+                <p className="font-semibold text-gray-900">Fraud Rule Breakdown</p>
+                <p className="text-sm text-gray-600">
+                  Risk Score {policy.fraud_check_details.score} / threshold {policy.fraud_check_details.threshold}
+                </p>
               </div>
+              <ul className="divide-y divide-gray-200">
+                {policy.fraud_check_details.rules.map((rule) => (
+                  <li key={rule.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                    <div className="flex items-center space-x-2">
+                      {rule.fired ? (
+                        <AlertCircle className="w-4 h-4 text-red-600" />
+                      ) : (
+                        <CheckCircle className="w-4 h-4 text-green-600" />
+                      )}
+                      <span className={rule.fired ? 'text-red-700' : 'text-gray-700'}>{rule.explanation}</span>
+                      <span className="text-xs text-gray-400">{rule.id}</span>
+                    </div>
+                    <span className={`font-medium ${rule.fired ? 'text-red-700' : 'text-gray-400'}`}>
+                      {rule.fired ? `+${rule.weight}` : '0'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <PolicyAssignmentPanel policy={policy} canAct={canAct} onChanged={handleAssignmentChanged} />
+
+          <FraudCheckHistory policy={policy} />
+
+          <RelatedPolicies
+            relatedPolicies={relatedPolicies}
+            query={policy}
+            productName={productName}
+            onOpenPolicy={onOpenPolicy}
+          />
+
+          {isEditing ? (
+            <div className="space-y-4 mb-8">
+              <PolicyFields values={formValues} onChange={setFormValues} products={products} />
+              <PremiumRating
+                rating={ratePolicy(formDetails, findProduct(formDetails.product_type))}
+                premium={formDetails.premium_amount}
+                overrideReason={String(formValues.policy.premium_override_reason ?? '')}
+                onUseRatedPremium={(premium) => setFormPolicyValue('premium_amount', premium.toFixed(2))}
+                onOverrideReasonChange={(reason) => setFormPolicyValue('premium_override_reason', reason)}
+              />
               <div className="flex space-x-4">
                 <button
                   onClick={handleUpdate}
@@ -221,7 +505,7 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
                 <Package className="w-5 h-5 text-gray-400 mt-1" />
                 <div>
                   <p className="text-sm text-gray-600">Product Type</p>
-                  <p className="text-lg font-semibold text-gray-900">{policy.product_type}</p>
+                  <p className="text-lg font-semibold text-gray-900">{productName(policy.product_type)}</p>
                 </div>
               </div>
               <div className="flex items-start space-x-3">
@@ -235,9 +519,16 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
                 <Shield className="w-5 h-5 text-gray-400 mt-1" />
                 <div>
                   <p className="text-sm text-gray-600">Fraud Check Status</p>
-                  <p className={`text-lg font-semibold ${policy.fraud_check_passed ? 'text-green-600' : 'text-red-600'}`}>
-                    {policy.fraud_check_passed ? 'Passed' : 'Failed'}
-                  </p>
+                  {policy.fraud_check_passed === null ? (
+                    <p className="text-lg font-semibold text-gray-500">Not checked</p>
+                  ) : (
+                    <p className={`text-lg font-semibold ${policy.fraud_check_passed ? 'text-green-600' : 'text-red-600'}`}>
+                      {policy.fraud_check_passed ? 'Passed' : 'Failed'}
+                    </p>
+                  )}
+                  {policy.fraud_flag_status !== 'none' && (
+                    <p className="text-sm text-gray-600">Fraud flag: {policy.fraud_flag_status}</p>
+                  )}
                 </div>
               </div>
               <div className="flex items-start space-x-3">
@@ -251,30 +542,184 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
                 <FileText className="w-5 h-5 text-gray-400 mt-1" />
                 <div>
                   <p className="text-sm text-gray-600">Status</p>
-                  <p className="text-sm text-gray-900 capitalize">{policy.status.replace('_', ' ')}</p>
+                  <p className="text-sm text-gray-900">{getStatusLabel(policy.status)}</p>
+                  <p className="text-sm text-gray-600">Since {formatDate(policy.stage_entered_at)}</p>
+                  {sla && (
+                    <div className="mt-1 flex items-center space-x-2">
+                      <SlaBadge status={sla} />
+                      <span className="text-xs text-gray-500">due {formatDate(sla.dueAt.toISOString())}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-start space-x-3">
+                <Shield className="w-5 h-5 text-gray-400 mt-1" />
+                <div>
+                  <p className="text-sm text-gray-600">Coverage / Deductible</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {policy.coverage_amount === null
+                      ? 'Not captured'
+                      : `${formatCurrency(policy.coverage_amount)} / ${formatCurrency(policy.deductible)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start space-x-3">
+                <Calendar className="w-5 h-5 text-gray-400 mt-1" />
+                <div>
+                  <p className="text-sm text-gray-600">Term</p>
+                  <p className="text-sm text-gray-900">
+                    {policy.effective_date && policy.expiry_date
+                      ? `${formatTermDate(policy.effective_date)} – ${formatTermDate(policy.expiry_date)}`
+                      : 'Not captured'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start space-x-3">
+                <Mail className="w-5 h-5 text-gray-400 mt-1" />
+                <div>
+                  <p className="text-sm text-gray-600">Insured Contact</p>
+                  <p className="text-sm text-gray-900">{policy.insured_email ?? 'Not captured'}</p>
+                  {policy.insured_phone && <p className="text-sm text-gray-900">{policy.insured_phone}</p>}
+                </div>
+              </div>
+              <div className="flex items-start space-x-3">
+                <MapPin className="w-5 h-5 text-gray-400 mt-1" />
+                <div>
+                  <p className="text-sm text-gray-600">Address</p>
+                  <p className="text-sm text-gray-900">{formatAddress() || 'Not captured'}</p>
                 </div>
               </div>
+              {productAttributes.length > 0 && (
+                <div className="col-span-2 border border-gray-200 rounded-lg p-4">
+                  <p className="font-semibold text-gray-900 mb-3">{productName(policy.product_type)} Details</p>
+                  <dl className="grid grid-cols-2 gap-3">
+                    {productAttributes.map(({ label, value }) => (
+                      <div key={label}>
+                        <dt className="text-sm text-gray-600">{label}</dt>
+                        <dd className="text-sm font-medium text-gray-900">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+              {policy.rating_details && (
+                <div className="col-span-2">
+                  <PremiumRating
+                    rating={policy.rating_details}
+                    premium={policy.premium_amount}
+                    overrideReason={policy.premium_override_reason ?? ''}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {policy.status === 'draft' && latestReturn && (
+            <div className="mb-6 bg-orange-50 border border-orange-200 rounded-lg p-4 flex items-start space-x-3">
+              <RotateCcw className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-orange-800 font-semibold">Returned for Revision</p>
+                <p className="text-orange-700 text-sm mt-1">{latestReturn.comments}</p>
+              </div>
+            </div>
+          )}
+
+          {stageDelegations.length > 0 && (
+            <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex items-start space-x-3">
+              <UserCheck className="w-5 h-5 text-indigo-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-indigo-800 space-y-1">
+                {actingDelegation && (
+                  <p className="font-semibold">
+                    You are acting as {currentStage?.label} on behalf of {actingDelegation.delegator?.full_name} until{' '}
+                    {formatDate(actingDelegation.ends_at)}.
+                  </p>
+                )}
+                {stageDelegations
+                  .filter((delegation) => delegation.id !== actingDelegation?.id)
+                  .map((delegation) => (
+                    <p key={delegation.id}>
+                      {delegation.delegator?.full_name} has delegated their authority to{' '}
+                      {delegation.delegate_id === profile?.id ? 'you' : delegation.delegate?.full_name} until{' '}
+                      {formatDate(delegation.ends_at)}.
+                    </p>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {approvalBlocker && (
+            <div className="mb-8 p-4 bg-gray-50 border border-gray-200 rounded-lg flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-gray-700">{approvalBlocker}</p>
+            </div>
+          )}
+
+          {canReviewFraud && (
+            <div className="mb-8 p-6 bg-red-50 border border-red-200 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-2">Fraud Review</h3>
+              <p className="text-sm text-gray-700 mb-4">
+                Clearing the flag sends the policy on to its approval workflow; confirming fraud rejects it.
+              </p>
+              <textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Reason for your decision (required)"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+                rows={3}
+              />
+              <div className="flex space-x-4">
+                <button
+                  onClick={() => handleFraudReview('cleared')}
+                  disabled={loading}
+                  className="flex items-center space-x-2 px-6 py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
+                >
+                  <ShieldCheck className="w-5 h-5" />
+                  <span>Clear Flag</span>
+                </button>
+                <button
+                  onClick={() => handleFraudReview('confirmed')}
+                  disabled={loading}
+                  className="flex items-center space-x-2 px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition disabled:opacity-50"
+                >
+                  <ShieldAlert className="w-5 h-5" />
+                  <span>Confirm Fraud</span>
+                </button>
+              </div>
             </div>
           )}
 
           {canApprove && (
             <div className="mb-8 p-6 bg-yellow-50 border border-yellow-200 rounded-lg">
-              <h3 className="font-semibold text-gray-900 mb-4">Review & Decision</h3>
+              <h3 className="font-semibold text-gray-900 mb-4">
+                Review & Decision{currentStage && ` — ${currentStage.label}`}
+              </h3>
+              {approvalBlockedByFraud && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  This policy failed its fraud check and hasn't been cleared by a fraud reviewer, so it can't be
+                  approved. You can reject it or send it back for revision.
+                </div>
+              )}
+              {willEscalate && approvalLimit !== null && (
+                <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                  The premium of {formatCurrency(policy.premium_amount)} exceeds your approval authority of{' '}
+                  {formatCurrency(approvalLimit)}. Approving will escalate this policy to a higher-authority approver.
+                </div>
+              )}
               <textarea
                 value={comments}
                 onChange={(e) => setComments(e.target.value)}
-                placeholder="Add comments (required for rejection)"
+                placeholder="Add comments (required for rejection or revision)"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
                 rows={3}
               />
               <div className="flex space-x-4">
                 <button
                   onClick={handleApprove}
-                  disabled={loading}
+                  disabled={loading || approvalBlockedByFraud}
                   className="flex items-center space-x-2 px-6 py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
                 >
                   <CheckCircle className="w-5 h-5" />
-                  <span>Approve</span>
+                  <span>{willEscalate ? 'Escalate' : 'Approve'}</span>
                 </button>
                 <button
                   onClick={handleReject}
@@ -284,6 +729,14 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
                   <XCircle className="w-5 h-5" />
                   <span>Reject</span>
                 </button>
+                <button
+                  onClick={handleReturn}
+                  disabled={loading}
+                  className="flex items-center space-x-2 px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-700 transition disabled:opacity-50"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  <span>Send Back for Revision</span>
+                </button>
               </div>
             </div>
           )}
@@ -292,7 +745,7 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
             <div className="flex space-x-4 mb-8">
               {canEdit && (
                 <button
-                  onClick={() => setIsEditing(true)}
+                  onClick={startEditing}
                   className="flex items-center space-x-2 px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-700 transition"
                 >
                   <Edit className="w-5 h-5" />
@@ -309,49 +762,82 @@ export const PolicyDetail: React.FC<PolicyDetailProps> = ({ policy, onClose, onU
                   <span>Submit for Approval</span>
                 </button>
               )}
+              {canSubmit && policy.fraud_check_passed === false && (
+                <p className="self-center text-sm text-red-700">
+                  {policy.fraud_flag_status === 'cleared'
+                    ? 'The latest fraud check failed, but a fraud reviewer cleared this version of the policy.'
+                    : 'The latest fraud check failed. The check runs again on submission and a failing policy goes to fraud review first.'}
+                </p>
+              )}
             </div>
           )}
 
-          <div>
-            <h3 className="text-xl font-bold text-gray-900 mb-4">Approval History</h3>
-            {approvalLogs.length === 0 ? (
-              <p className="text-gray-600">No approval actions yet</p>
-            ) : (
-              <div className="space-y-4">
-                {approvalLogs.map((log) => (
-                  <div key={log.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center space-x-3">
-                        {log.action === 'approved' ? (
-                          <CheckCircle className="w-5 h-5 text-green-600" />
-                        ) : log.action === 'rejected' ? (
-                          <XCircle className="w-5 h-5 text-red-600" />
-                        ) : (
-                          <Send className="w-5 h-5 text-blue-600" />
+          <PolicyDocuments policy={policy} userId={profile?.id} onUploaded={loadApprovalLogs} />
+
+          <PolicyChangeHistory policy={policy} products={products} productName={productName} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900 mb-4">Approval History</h3>
+              {approvalLogs.length === 0 ? (
+                <p className="text-gray-600">No approval actions yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {approvalLogs.map((log) => (
+                    <div key={log.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center space-x-3">
+                          {log.action === 'approved' ? (
+                            <CheckCircle className="w-5 h-5 text-green-600" />
+                          ) : log.action === 'rejected' ? (
+                            <XCircle className="w-5 h-5 text-red-600" />
+                          ) : log.action === 'escalated' ? (
+                            <ArrowUpCircle className="w-5 h-5 text-orange-600" />
+                          ) : log.action === 'returned' ? (
+                            <RotateCcw className="w-5 h-5 text-gray-600" />
+                          ) : log.action === 'document_uploaded' ? (
+                            <Paperclip className="w-5 h-5 text-gray-600" />
+                          ) : log.action === 'fraud_cleared' ? (
+                            <ShieldCheck className="w-5 h-5 text-green-600" />
+                          ) : log.action === 'fraud_confirmed' ? (
+                            <ShieldAlert className="w-5 h-5 text-red-600" />
+                          ) : (
+                            <Send className="w-5 h-5 text-blue-600" />
+                          )}
+                          <div>
+                            <p className="font-semibold text-gray-900">
+                              {log.approver_id ? log.user_profiles?.full_name : 'SLA monitor'} ({log.role})
+                              {log.on_behalf_of_profile && (
+                                <span className="font-normal text-gray-600">
+                                  {' '}
+                                  on behalf of {log.on_behalf_of_profile.full_name}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-600 capitalize">{log.action.replace('_', ' ')}</p>
+                          </div>
+                        </div>
+                        <p className="text-sm text-gray-500">{formatDate(log.created_at)}</p>
+                      </div>
+                      <div className="ml-8">
+                        {log.previous_status !== log.new_status && (
+                          <p className="text-sm text-gray-600 mb-1">
+                            <span className="font-medium">Status Change:</span> {log.previous_status} → {log.new_status}
+                          </p>
                         )}
-                        <div>
-                          <p className="font-semibold text-gray-900">
-                            {log.user_profiles?.full_name} ({log.role})
+                        {log.comments && (
+                          <p className="text-sm text-gray-700">
+                            <span className="font-medium">Comments:</span> {log.comments}
                           </p>
-                          <p className="text-sm text-gray-600 capitalize">{log.action}</p>
-                        </div>
+                        )}
                       </div>
-                      <p className="text-sm text-gray-500">{formatDate(log.created_at)}</p>
                     </div>
-                    <div className="ml-8">
-                      <p className="text-sm text-gray-600 mb-1">
-                        <span className="font-medium">Status Change:</span> {log.previous_status} → {log.new_status}
-                      </p>
-                      {log.comments && (
-                        <p className="text-sm text-gray-700">
-                          <span className="font-medium">Comments:</span> {log.comments}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <PolicyComments policy={policy} profile={profile} />
           </div>
         </div>
       </div>
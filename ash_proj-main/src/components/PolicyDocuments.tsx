@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DocumentType, Policy, PolicyDocument } from '../lib/supabase';
+import {
+  ALLOWED_DOCUMENT_MIME_TYPES,
+  canUploadDocuments,
+  DocumentValidationError,
+  DOCUMENT_TYPES,
+  getDocumentTypeLabel,
+  getDocumentUrl,
+  getPolicyDocuments,
+  uploadPolicyDocument,
+} from '../services/documentService';
+import { Paperclip, Upload, Eye, Download, History, X, AlertCircle } from 'lucide-react';
+
+interface PolicyDocumentsProps {
+  policy: Policy;
+  userId: string | undefined;
+  /** Called after an upload, e.g. to refresh the approval history */
+  onUploaded: () => void;
+}
+
+interface Preview {
+  document: PolicyDocument;
+  url: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const canPreviewInline = (mimeType: string) => mimeType === 'application/pdf' || (mimeType.startsWith('image/') && mimeType !== 'image/heic');
+
+/**
+ * Versions of the same document (type + file name), newest first
+ */
+const groupVersions = (documents: PolicyDocument[]) => {
+  const groups = new Map<string, PolicyDocument[]>();
+  for (const document of documents) {
+    const key = `${document.document_type}/${document.file_name}`;
+    groups.set(key, [...(groups.get(key) ?? []), document]);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Supporting documents of a policy: list with preview/download and version
+ * history for everyone who can see the policy, upload for the creator of a draft
+ */
+export const PolicyDocuments: React.FC<PolicyDocumentsProps> = ({ policy, userId, onUploaded }) => {
+  const [documents, setDocuments] = useState<PolicyDocument[]>([]);
+  const [documentType, setDocumentType] = useState<DocumentType | ''>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  const canUpload = canUploadDocuments(policy, userId);
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setDocuments(await getPolicyDocuments(policy.id));
+    } catch (err) {
+      console.error('Error loading documents:', err);
+    }
+  }, [policy.id]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !documentType || !userId) return;
+
+    setError('');
+    setUploading(true);
+    try {
+      await uploadPolicyDocument({ policy, documentType, file, uploaderId: userId });
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      await loadDocuments();
+      onUploaded();
+    } catch (err) {
+      setError(
+        err instanceof DocumentValidationError ? err.errors.join('\n') : (err as Error).message || 'Failed to upload document'
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePreview = async (document: PolicyDocument) => {
+    try {
+      const url = await getDocumentUrl(document);
+      if (canPreviewInline(document.mime_type)) {
+        setPreview({ document, url });
+      } else {
+        window.open(url, '_blank', 'noopener');
+      }
+    } catch (err) {
+      alert((err as Error).message || 'Failed to open document');
+    }
+  };
+
+  const handleDownload = async (document: PolicyDocument) => {
+    try {
+      window.location.assign(await getDocumentUrl(document, true));
+    } catch (err) {
+      alert((err as Error).message || 'Failed to download document');
+    }
+  };
+
+  const renderRow = (document: PolicyDocument, versionCount: number, isLatest: boolean) => {
+    const key = `${document.document_type}/${document.file_name}`;
+    return (
+      <tr key={document.id} className={isLatest ? '' : 'bg-gray-50 text-gray-500'}>
+        <td className="px-4 py-3 text-sm">{isLatest ? getDocumentTypeLabel(document.document_type) : ''}</td>
+        <td className="px-4 py-3 text-sm font-medium text-gray-900">{isLatest ? document.file_name : ''}</td>
+        <td className="px-4 py-3 text-sm">v{document.version}</td>
+        <td className="px-4 py-3 text-sm">{formatSize(document.size_bytes)}</td>
+        <td className="px-4 py-3 text-sm">{formatDate(document.created_at)}</td>
+        <td className="px-4 py-3 text-right whitespace-nowrap">
+          {isLatest && versionCount > 1 && (
+            <button
+              onClick={() => setExpanded(expanded === key ? null : key)}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              title={`${versionCount - 1} earlier version${versionCount === 2 ? '' : 's'}`}
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => handlePreview(document)}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+            title="Preview"
+          >
+            <Eye className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleDownload(document)}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+            title="Download"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <Paperclip className="w-5 h-5 text-gray-600" />
+        <h3 className="text-xl font-bold text-gray-900">Documents</h3>
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-gray-600 mb-4">No documents uploaded</p>
+      ) : (
+        <div className="overflow-x-auto mb-4 border border-gray-200 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Type</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">File</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Version</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Size</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Uploaded</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {groupVersions(documents).flatMap(([latest, ...earlier]) => [
+                renderRow(latest, earlier.length + 1, true),
+                ...(expanded === `${latest.document_type}/${latest.file_name}`
+                  ? earlier.map((document) => renderRow(document, earlier.length + 1, false))
+                  : []),
+              ])}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canUpload && (
+        <form onSubmit={handleUpload} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <select
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+              required
+            >
+              <option value="">Select document type</option>
+              {DOCUMENT_TYPES.map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <input
+              key={fileInputKey}
+              type="file"
+              accept={ALLOWED_DOCUMENT_MIME_TYPES.join(',')}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="w-full text-sm text-gray-700 py-2"
+              required
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            PDF or image, up to 10 MB. A file with the same type and name as an existing document is added as a new version.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <span className="whitespace-pre-line">{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={uploading || !file || !documentType}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{uploading ? 'Uploading...' : 'Upload Document'}</span>
+          </button>
+        </form>
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl h-[85vh] flex flex-col">
+            <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+              <p className="font-semibold text-gray-900">
+                {preview.document.file_name} <span className="text-gray-500 font-normal">v{preview.document.version}</span>
+              </p>
+              <button
+                onClick={() => setPreview(null)}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto p-4 flex items-center justify-center bg-gray-100">
+              {preview.document.mime_type === 'application/pdf' ? (
+                <iframe src={preview.url} title={preview.document.file_name} className="w-full h-full bg-white" />
+              ) : (
+                <img src={preview.url} alt={preview.document.file_name} className="max-w-full max-h-full object-contain" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Product } from '../lib/supabase';
+import { FormValue, PolicyFormValues } from '../hooks/usePolicyFormValues';
+import { FieldDefinition, FieldSection, POLICY_SECTIONS } from '../services/productDefinitions';
+
+interface PolicyFieldsProps {
+  values: PolicyFormValues;
+  onChange: (values: PolicyFormValues) => void;
+  /** Catalog products; active ones (and the current one) are offered */
+  products: Product[];
+}
+
+interface SchemaFieldProps {
+  field: FieldDefinition;
+  value: FormValue | undefined;
+  onChange: (value: FormValue) => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition';
+
+const SchemaField: React.FC<SchemaFieldProps> = ({ field, value, onChange }) => {
+  const rules = field.rules ?? {};
+  const label = field.type === 'currency' ? `${field.label} ($)` : field.label;
+
+  const renderInput = () => {
+    if (field.type === 'boolean') {
+      return (
+        <select
+          value={value === undefined || value === '' ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? '' : e.target.value === 'true')}
+          className={inputClass}
+          required={rules.required}
+        >
+          <option value="">Select</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+
+    if (field.type === 'select') {
+      return (
+        <select
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+          required={rules.required}
+        >
+          <option value="">Select {field.label.toLowerCase()}</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    const numeric = field.type === 'number' || field.type === 'currency';
+    return (
+      <input
+        type={numeric ? 'number' : field.type}
+        step={field.type === 'currency' ? '0.01' : rules.integer ? '1' : undefined}
+        min={numeric ? rules.min : undefined}
+        value={String(value ?? '')}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+        required={rules.required}
+        placeholder={field.placeholder}
+      />
+    );
+  };
+
+  return (
+    <div className={field.wide ? 'col-span-2' : ''}>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      {renderInput()}
+      {field.help && <p className="mt-1 text-xs text-gray-500">{field.help}</p>}
+    </div>
+  );
+};
+
+/**
+ * Renders the shared policy sections and the selected product's sections from
+ * their field definitions. Used by PolicyForm and the edit mode of PolicyDetail.
+ */
+export const PolicyFields: React.FC<PolicyFieldsProps> = ({ values, onChange, products }) => {
+  const productType = String(values.policy.product_type ?? '');
+  const product = products.find((item) => item.code === productType);
+
+  // Product options come from the catalog rather than the field definition
+  const withCatalogOptions = (field: FieldDefinition): FieldDefinition =>
+    field.key === 'product_type'
+      ? {
+          ...field,
+          options: products
+            .filter((item) => item.active || item.code === productType)
+            .map((item) => ({ value: item.code, label: item.active ? item.name : `${item.name} (retired)` })),
+        }
+      : field;
+
+  const renderSection = (section: FieldSection, scope: keyof PolicyFormValues) => (
+    <div key={`${scope}-${section.title}`}>
+      <h3 className="font-semibold text-gray-900 mb-3">{section.title}</h3>
+      <div className="grid grid-cols-2 gap-4">
+        {section.fields.map((field) => (
+          <SchemaField
+            key={field.key}
+            field={withCatalogOptions(field)}
+            value={values[scope][field.key]}
+            onChange={(value) => onChange({ ...values, [scope]: { ...values[scope], [field.key]: value } })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {POLICY_SECTIONS.map((section) => renderSection(section, 'policy'))}
+      {product?.description && <p className="text-sm text-gray-600">{product.description}</p>}
+      {product?.field_sections.map((section) => renderSection(section, 'attributes'))}
+    </div>
+  );
+};
@@ -1,30 +1,34 @@
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { createPolicy } from '../services/policyService';
+import { PolicyValidationError } from '../services/policyValidation';
+import { usePolicyFormValues } from '../hooks/usePolicyFormValues';
+import { useProducts } from '../hooks/useProducts';
+import { ratePolicy } from '../services/ratingService';
+import { PolicyFields } from './PolicyFields';
+import { PremiumRating } from './PremiumRating';
+import { RelatedPolicies } from './RelatedPolicies';
+import { useRelatedPolicies } from '../hooks/useRelatedPolicies';
 import { X, AlertCircle, CheckCircle } from 'lucide-react';
 
 interface PolicyFormProps {
   onSuccess: () => void;
   onCancel: () => void;
+  onOpenPolicy?: (policyId: string) => void;
 }
 
-export const PolicyForm: React.FC<PolicyFormProps> = ({ onSuccess, onCancel }) => {
+export const PolicyForm: React.FC<PolicyFormProps> = ({ onSuccess, onCancel, onOpenPolicy }) => {
   const { profile } = useAuth();
-  const [customerName, setCustomerName] = useState('');
-  const [premiumAmount, setPremiumAmount] = useState('');
-  const [productType, setProductType] = useState('');
+  const { values, setValues, toDetails } = usePolicyFormValues();
+  const { products, productName, findProduct } = useProducts();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fraudWarning, setFraudWarning] = useState<{ passed: boolean; reason: string } | null>(null);
+  const details = toDetails();
+  const relatedPolicies = useRelatedPolicies(details.customer_name ?? '');
 
-  const productTypes = [
-    'Auto Insurance',
-    'Home Insurance',
-    'Life Insurance',
-    'Health Insurance',
-    'Business Insurance',
-    'Travel Insurance',
-  ];
+  const setPolicyValue = (key: string, value: string) =>
+    setValues({ ...values, policy: { ...values.policy, [key]: value } });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,9 +38,7 @@ export const PolicyForm: React.FC<PolicyFormProps> = ({ onSuccess, onCancel }) =
 
     try {
       const policy = await createPolicy({
-        customer_name: customerName,
-        premium_amount: parseFloat(premiumAmount),
-        product_type: productType,
+        ...details,
         creator_id: profile!.id,
       });
 
@@ -55,8 +57,12 @@ export const PolicyForm: React.FC<PolicyFormProps> = ({ onSuccess, onCancel }) =
       setTimeout(() => {
         onSuccess();
       }, 2000);
-    } catch (err: any) {
-      setError(err.message || 'Failed to create policy');
+    } catch (err) {
+      setError(
+        err instanceof PolicyValidationError
+          ? err.errors.join('\n')
+          : (err as Error).message || 'Failed to create policy'
+      );
       setLoading(false);
     }
   };
@@ -75,53 +81,25 @@ export const PolicyForm: React.FC<PolicyFormProps> = ({ onSuccess, onCancel }) =
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Customer Name</label>
-            <input
-              type="text"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
-              required
-              placeholder="Enter customer full name"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Product Type</label>
-            <select
-              value={productType}
-              onChange={(e) => setProductType(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
-              required
-            >
-              <option value="">Select product type</option>
-              {productTypes.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Premium Amount ($)</label>
-            <input
-              type="number"
-              step="0.01"
-              min="0"
-              value={premiumAmount}
-              onChange={(e) => setPremiumAmount(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
-              required
-              placeholder="0.00"
-            />
-          </div>
+          <PolicyFields values={values} onChange={setValues} products={products} />
+          <PremiumRating
+            rating={ratePolicy(details, findProduct(details.product_type))}
+            premium={details.premium_amount}
+            overrideReason={String(values.policy.premium_override_reason ?? '')}
+            onUseRatedPremium={(premium) => setPolicyValue('premium_amount', premium.toFixed(2))}
+            onOverrideReasonChange={(reason) => setPolicyValue('premium_override_reason', reason)}
+          />
+          <RelatedPolicies
+            relatedPolicies={relatedPolicies}
+            query={details}
+            productName={productName}
+            onOpenPolicy={onOpenPolicy}
+          />
 
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
               <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
-              <span>{error}</span>
+              <span className="whitespace-pre-line">{error}</span>
             </div>
           )}
 
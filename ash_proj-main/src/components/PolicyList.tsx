@@ -1,29 +1,84 @@
 import React from 'react';
-import { Policy } from '../lib/supabase';
-import { FileText, AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { Policy, PolicySortColumn, PolicyStatus, SortDirection } from '../lib/supabase';
+import { getStatusLabel } from '../services/workflowService';
+import { useProducts } from '../hooks/useProducts';
+import { useSlaTargets } from '../hooks/useSlaTargets';
+import { useUserNames } from '../hooks/useUserNames';
+import { SlaBadge } from './SlaBadge';
+import {
+  FileText,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  XCircle,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react';
 
 interface PolicyListProps {
   policies: Policy[];
   onSelectPolicy: (policy: Policy) => void;
+  isChanged?: (policy: Policy) => boolean;
+  sortBy?: PolicySortColumn;
+  sortDirection?: SortDirection;
+  onSort?: (column: PolicySortColumn) => void;
+  page?: number;
+  pageSize?: number;
+  total?: number;
+  onPageChange?: (page: number) => void;
 }
 
-export const PolicyList: React.FC<PolicyListProps> = ({ policies, onSelectPolicy }) => {
-  const getStatusBadge = (status: string) => {
-    const badges = {
-      draft: { color: 'bg-gray-100 text-gray-800', icon: FileText, text: 'Draft' },
-      pending_underwriter: { color: 'bg-yellow-100 text-yellow-800', icon: Clock, text: 'Pending Underwriter' },
-      pending_manager: { color: 'bg-blue-100 text-blue-800', icon: Clock, text: 'Pending Manager' },
-      approved: { color: 'bg-green-100 text-green-800', icon: CheckCircle, text: 'Approved' },
-      rejected: { color: 'bg-red-100 text-red-800', icon: XCircle, text: 'Rejected' },
+const columns: { label: string; sortKey?: PolicySortColumn }[] = [
+  { label: 'Policy Number', sortKey: 'policy_number' },
+  { label: 'Customer', sortKey: 'customer_name' },
+  { label: 'Product Type', sortKey: 'product_type' },
+  { label: 'Premium', sortKey: 'premium_amount' },
+  { label: 'Status', sortKey: 'status' },
+  { label: 'Fraud Check' },
+  { label: 'Assignee' },
+  { label: 'SLA' },
+  { label: 'Created', sortKey: 'created_at' },
+];
+
+export const PolicyList: React.FC<PolicyListProps> = ({
+  policies,
+  onSelectPolicy,
+  isChanged,
+  sortBy,
+  sortDirection,
+  onSort,
+  page = 1,
+  pageSize,
+  total,
+  onPageChange,
+}) => {
+  const { productName } = useProducts();
+  const userName = useUserNames();
+  const { slaStatus } = useSlaTargets();
+
+  const getStatusBadge = (status: PolicyStatus) => {
+    const badges: Partial<Record<PolicyStatus, { color: string; icon: typeof Clock }>> = {
+      draft: { color: 'bg-gray-100 text-gray-800', icon: FileText },
+      pending_underwriter: { color: 'bg-yellow-100 text-yellow-800', icon: Clock },
+      pending_medical_reviewer: { color: 'bg-indigo-100 text-indigo-800', icon: Clock },
+      pending_manager: { color: 'bg-blue-100 text-blue-800', icon: Clock },
+      pending_executive: { color: 'bg-orange-100 text-orange-800', icon: Clock },
+      pending_fraud_reviewer: { color: 'bg-red-100 text-red-800', icon: ShieldAlert },
+      approved: { color: 'bg-green-100 text-green-800', icon: CheckCircle },
+      rejected: { color: 'bg-red-100 text-red-800', icon: XCircle },
     };
 
-    const badge = badges[status as keyof typeof badges] || badges.draft;
+    const badge = badges[status] || { color: 'bg-yellow-100 text-yellow-800', icon: Clock };
     const Icon = badge.icon;
 
     return (
       <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-semibold ${badge.color}`}>
         <Icon className="w-3 h-3" />
-        <span>{badge.text}</span>
+        <span>{getStatusLabel(status)}</span>
       </span>
     );
   };
@@ -61,27 +116,25 @@ export const PolicyList: React.FC<PolicyListProps> = ({ policies, onSelectPolicy
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Policy Number
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Customer
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Product Type
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Premium
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Status
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Fraud Check
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Created
-              </th>
+              {columns.map((column) => (
+                <th
+                  key={column.label}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {column.sortKey && onSort ? (
+                    <button
+                      onClick={() => onSort(column.sortKey!)}
+                      className="inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-900 transition"
+                    >
+                      <span>{column.label}</span>
+                      {sortBy === column.sortKey &&
+                        (sortDirection === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -89,19 +142,27 @@ export const PolicyList: React.FC<PolicyListProps> = ({ policies, onSelectPolicy
               <tr
                 key={policy.id}
                 onClick={() => onSelectPolicy(policy)}
-                className="hover:bg-gray-50 cursor-pointer transition"
+                className={`cursor-pointer transition ${
+                  isChanged?.(policy) ? 'bg-yellow-50 hover:bg-yellow-100' : 'hover:bg-gray-50'
+                }`}
               >
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center">
+                    {isChanged?.(policy) && (
+                      <span className="w-2 h-2 bg-blue-600 rounded-full mr-2" title="Changed since you last looked" />
+                    )}
                     <FileText className="w-5 h-5 text-gray-400 mr-2" />
                     <span className="text-sm font-medium text-gray-900">{policy.policy_number}</span>
+                    {policy.revision_count > 0 && (
+                      <span className="ml-2 text-xs text-gray-500">Rev {policy.revision_count}</span>
+                    )}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-900">{policy.customer_name}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm text-gray-900">{policy.product_type}</div>
+                  <div className="text-sm text-gray-900">{productName(policy.product_type)}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm font-semibold text-gray-900">
@@ -115,6 +176,18 @@ export const PolicyList: React.FC<PolicyListProps> = ({ policies, onSelectPolicy
                       <CheckCircle className="w-4 h-4" />
                       <span className="text-xs font-medium">Passed</span>
                     </span>
+                  ) : policy.fraud_check_passed === null ? (
+                    <span className="text-xs font-medium text-gray-500">Not checked</span>
+                  ) : policy.fraud_flag_status === 'cleared' ? (
+                    <span className="inline-flex items-center space-x-1 text-green-600">
+                      <ShieldCheck className="w-4 h-4" />
+                      <span className="text-xs font-medium">Cleared</span>
+                    </span>
+                  ) : policy.fraud_flag_status === 'confirmed' ? (
+                    <span className="inline-flex items-center space-x-1 text-red-700">
+                      <ShieldAlert className="w-4 h-4" />
+                      <span className="text-xs font-medium">Confirmed</span>
+                    </span>
                   ) : (
                     <span className="inline-flex items-center space-x-1 text-red-600">
                       <AlertCircle className="w-4 h-4" />
@@ -122,12 +195,52 @@ export const PolicyList: React.FC<PolicyListProps> = ({ policies, onSelectPolicy
                     </span>
                   )}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {policy.assigned_to ? (
+                    <span className="text-gray-900">{userName(policy.assigned_to)}</span>
+                  ) : policy.status.startsWith('pending_') ? (
+                    <span className="text-gray-500 italic">Unassigned</span>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <SlaBadge status={slaStatus(policy)} />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(policy.created_at)}</td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+      {onPageChange && pageSize && total !== undefined && (
+        <div className="flex justify-between items-center px-6 py-3 border-t border-gray-200 bg-gray-50 text-sm text-gray-600">
+          <span>
+            Showing {(page - 1) * pageSize + 1}–{Math.min(page * pageSize, total)} of {total}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onPageChange(page - 1)}
+              disabled={page <= 1}
+              className="p-1 rounded hover:bg-gray-200 transition disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              Page {page} of {Math.max(1, Math.ceil(total / pageSize))}
+            </span>
+            <button
+              onClick={() => onPageChange(page + 1)}
+              disabled={page * pageSize >= total}
+              className="p-1 rounded hover:bg-gray-200 transition disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import React from 'react';
+import { RatingDetails } from '../lib/supabase';
+import { isPremiumOverride } from '../services/ratingService';
+import { Calculator, AlertTriangle } from 'lucide-react';
+
+interface PremiumRatingProps {
+  rating: RatingDetails | null;
+  /** Premium being charged */
+  premium: number;
+  overrideReason: string;
+  /** Editable mode: apply the rated premium to the form */
+  onUseRatedPremium?: (premium: number) => void;
+  /** Editable mode: edit the justification for an override */
+  onOverrideReasonChange?: (reason: string) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+/**
+ * Rated premium with its factor breakdown. When the charged premium differs,
+ * editable mode asks for a justification and read-only mode shows the override
+ * to underwriters.
+ */
+export const PremiumRating: React.FC<PremiumRatingProps> = ({
+  rating,
+  premium,
+  overrideReason,
+  onUseRatedPremium,
+  onOverrideReasonChange,
+}) => {
+  const editable = onOverrideReasonChange !== undefined;
+
+  if (!rating) {
+    return editable ? (
+      <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600 flex items-center space-x-2">
+        <Calculator className="w-4 h-4" />
+        <span>Select a product and enter the coverage amount to see the rated premium.</span>
+      </div>
+    ) : null;
+  }
+
+  const overridden = isPremiumOverride(premium, rating);
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <Calculator className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Rated Premium</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-lg font-semibold text-gray-900">{formatCurrency(rating.rated_premium)}</span>
+          {onUseRatedPremium && overridden && (
+            <button
+              type="button"
+              onClick={() => onUseRatedPremium(rating.rated_premium)}
+              className="px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition"
+            >
+              Use rated premium
+            </button>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-200">
+          <tr>
+            <td className="py-1 text-gray-700">Base premium</td>
+            <td className="py-1 text-gray-500"></td>
+            <td className="py-1 text-right text-gray-900">{formatCurrency(rating.base_premium)}</td>
+          </tr>
+          {rating.factors.map((factor) => (
+            <tr key={factor.id}>
+              <td className="py-1 text-gray-700">{factor.label}</td>
+              <td className="py-1 text-gray-500">{factor.explanation}</td>
+              <td className="py-1 text-right text-gray-900">× {factor.multiplier.toFixed(2)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td className="py-1 text-gray-700">Calculated premium</td>
+            <td className="py-1 text-gray-500">
+              {rating.calculated_premium < rating.minimum_premium &&
+                `Raised to the minimum premium of ${formatCurrency(rating.minimum_premium)}`}
+              {rating.maximum_premium != null &&
+                rating.calculated_premium > rating.maximum_premium &&
+                `Capped at the product's maximum premium of ${formatCurrency(rating.maximum_premium)}`}
+            </td>
+            <td className="py-1 text-right text-gray-900">{formatCurrency(rating.calculated_premium)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {overridden && (
+        <div className="pt-2 border-t border-gray-200">
+          <div className="flex items-start space-x-2 text-sm text-amber-800">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <p>
+              Premium overridden: {formatCurrency(premium)} charged instead of the rated{' '}
+              {formatCurrency(rating.rated_premium)}.
+            </p>
+          </div>
+          {editable ? (
+            <div className="mt-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Justification</label>
+              <textarea
+                value={overrideReason}
+                onChange={(e) => onOverrideReasonChange(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                rows={2}
+                placeholder="Why does this policy need a different premium?"
+                required
+              />
+            </div>
+          ) : (
+            <p className="mt-1 ml-6 text-sm text-gray-700">{overrideReason || 'No justification recorded'}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
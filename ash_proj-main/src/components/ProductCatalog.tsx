@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Product } from '../lib/supabase';
+import { createProduct, setProductActive, updateProduct } from '../services/productService';
+import { useProducts } from '../hooks/useProducts';
+import { X, Plus, Edit, Archive, RotateCcw, AlertCircle, Package } from 'lucide-react';
+
+interface ProductCatalogProps {
+  onClose: () => void;
+}
+
+interface ProductFormState {
+  code: string;
+  name: string;
+  description: string;
+  min_premium: string;
+  max_premium: string;
+  /** `field_sections` as JSON, edited as text */
+  field_sections: string;
+}
+
+const emptyForm: ProductFormState = {
+  code: '',
+  name: '',
+  description: '',
+  min_premium: '0',
+  max_premium: '',
+  field_sections: '[]',
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition';
+
+export const ProductCatalog: React.FC<ProductCatalogProps> = ({ onClose }) => {
+  const { products, reload } = useProducts();
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ProductFormState>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const openCreate = () => {
+    setEditingCode(null);
+    setForm(emptyForm);
+    setError('');
+    setShowForm(true);
+  };
+
+  const openEdit = (product: Product) => {
+    setEditingCode(product.code);
+    setForm({
+      code: product.code,
+      name: product.name,
+      description: product.description,
+      min_premium: product.min_premium.toString(),
+      max_premium: product.max_premium?.toString() ?? '',
+      field_sections: JSON.stringify(product.field_sections, null, 2),
+    });
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const minPremium = parseFloat(form.min_premium);
+    const maxPremium = form.max_premium.trim() === '' ? null : parseFloat(form.max_premium);
+    if (Number.isNaN(minPremium) || (maxPremium !== null && (Number.isNaN(maxPremium) || maxPremium < minPremium))) {
+      setError('Maximum premium must be empty or at least the minimum premium');
+      return;
+    }
+
+    let fieldSections: Product['field_sections'];
+    try {
+      fieldSections = JSON.parse(form.field_sections.trim() || '[]');
+    } catch {
+      setError('Fields must be valid JSON');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const fields = {
+        name: form.name.trim(),
+        description: form.description.trim(),
+        min_premium: minPremium,
+        max_premium: maxPremium,
+        field_sections: fieldSections,
+      };
+      if (editingCode) {
+        await updateProduct(editingCode, fields);
+      } else {
+        await createProduct({ code: form.code, ...fields });
+      }
+      await reload();
+      setShowForm(false);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save product');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (product: Product) => {
+    if (product.active && !confirm(`Retire ${product.name}? It can no longer be used on new or edited policies.`)) {
+      return;
+    }
+    try {
+      await setProductActive(product.code, !product.active);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message || 'Failed to update product');
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-3">
+            <Package className="w-8 h-8 text-blue-600" />
+            <h2 className="text-3xl font-bold text-gray-900">Product Catalog</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={openCreate}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition"
+            >
+              <Plus className="w-5 h-5" />
+              <span>New Product</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleSave} className="mb-8 p-6 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+            <h3 className="font-semibold text-gray-900">{editingCode ? `Edit ${editingCode}` : 'New Product'}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                  pattern="[A-Z][A-Z0-9_]{1,19}"
+                  title="2–20 characters: uppercase letters, digits and underscores"
+                  disabled={editingCode !== null}
+                  required
+                />
+                {!editingCode && (
+                  <p className="mt-1 text-xs text-gray-500">Stored on policies; it can't be changed later</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Display Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Premium ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.min_premium}
+                  onChange={(e) => setForm({ ...form, min_premium: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Premium ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.max_premium}
+                  onChange={(e) => setForm({ ...form, max_premium: e.target.value })}
+                  className={inputClass}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Product Fields (JSON)</label>
+                <textarea
+                  value={form.field_sections}
+                  onChange={(e) => setForm({ ...form, field_sections: e.target.value })}
+                  className={`${inputClass} font-mono text-xs`}
+                  rows={12}
+                  spellCheck={false}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Sections of product-specific fields shown on the policy form, e.g.{' '}
+                  <code>{'[{ "title": "Vehicle", "fields": [{ "key": "vin", "label": "VIN", "type": "text" }] }]'}</code>
+                  ; leave as <code>[]</code> for the standard fields only
+                </p>
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="flex space-x-4">
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Product'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Code</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Product</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Premium Range</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {products.map((product) => (
+                <tr key={product.code} className={product.active ? '' : 'bg-gray-50 text-gray-500'}>
+                  <td className="px-4 py-3 font-mono text-sm">{product.code}</td>
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {product.description}
+                      {product.field_sections.length === 0 && ' · Standard fields only'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {formatCurrency(product.min_premium)} –{' '}
+                    {product.max_premium === null ? 'no limit' : formatCurrency(product.max_premium)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${
+                        product.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {product.active ? 'Active' : 'Retired'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openEdit(product)}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                      title="Edit"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(product)}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                      title={product.active ? 'Retire' : 'Reactivate'}
+                    >
+                      {product.active ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
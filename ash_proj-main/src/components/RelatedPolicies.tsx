@@ -0,0 +1,63 @@
+import React from 'react';
+import { RelatedPolicy } from '../lib/supabase';
+import { getMatchReasons, RelatedPolicyQuery } from '../services/duplicateMatching';
+import { getStatusLabel } from '../services/workflowService';
+import { Copy, ExternalLink } from 'lucide-react';
+
+interface RelatedPoliciesProps {
+  relatedPolicies: RelatedPolicy[];
+  /** The policy (or form) the matches are compared against */
+  query: RelatedPolicyQuery;
+  productName: (code: string) => string;
+  onOpenPolicy?: (policyId: string) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+/**
+ * "Possible duplicates" panel: existing policies for a matching customer name
+ * and how each one resembles the current policy
+ */
+export const RelatedPolicies: React.FC<RelatedPoliciesProps> = ({
+  relatedPolicies,
+  query,
+  productName,
+  onOpenPolicy,
+}) => {
+  if (relatedPolicies.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-amber-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-amber-50 flex items-center space-x-2">
+        <Copy className="w-4 h-4 text-amber-700" />
+        <p className="font-semibold text-amber-900">Possible Duplicates ({relatedPolicies.length})</p>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {relatedPolicies.map((match) => (
+          <li key={match.id} className="px-4 py-2 flex justify-between items-start text-sm">
+            <div>
+              <p className="text-gray-900">
+                <span className="font-medium">{match.policy_number}</span> · {match.customer_name} ·{' '}
+                {productName(match.product_type)} · {formatCurrency(match.premium_amount)}
+              </p>
+              <p className="text-gray-600">
+                {getStatusLabel(match.status)} — {getMatchReasons(match, query).join(', ')}
+              </p>
+            </div>
+            {onOpenPolicy && (
+              <button
+                type="button"
+                onClick={() => onOpenPolicy(match.id)}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 ml-4 whitespace-nowrap"
+              >
+                <ExternalLink className="w-4 h-4" />
+                <span>Open</span>
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
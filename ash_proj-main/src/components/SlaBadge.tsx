@@ -0,0 +1,37 @@
+import React from 'react';
+import { formatSlaDuration, SlaState, SlaStatus } from '../services/slaService';
+import { AlarmClock, Timer } from 'lucide-react';
+
+interface SlaBadgeProps {
+  /** Null for policies without an SLA at their status */
+  status: SlaStatus | null;
+}
+
+const BADGE_COLORS: Record<SlaState, string> = {
+  on_track: 'bg-gray-100 text-gray-700',
+  due_soon: 'bg-amber-100 text-amber-800',
+  overdue: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Time left at the policy's stage, or how long it has been overdue
+ */
+export const SlaBadge: React.FC<SlaBadgeProps> = ({ status }) => {
+  if (!status) return <span className="text-gray-400">—</span>;
+
+  const Icon = status.state === 'overdue' ? AlarmClock : Timer;
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-semibold ${BADGE_COLORS[status.state]}`}
+      title={`SLA due ${status.dueAt.toLocaleString('en-US')}`}
+    >
+      <Icon className="w-3 h-3" />
+      <span>
+        {status.state === 'overdue'
+          ? `Overdue ${formatSlaDuration(status.remainingMs)}`
+          : `${formatSlaDuration(status.remainingMs)} left`}
+      </span>
+    </span>
+  );
+};
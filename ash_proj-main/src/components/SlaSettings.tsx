@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { ApproverRole, SlaEvent, SlaEventType, StageSla } from '../lib/supabase';
+import { useSlaTargets } from '../hooks/useSlaTargets';
+import { getSlaTargets, runSlaSweep, SLA_ESCALATION, updateSlaTarget } from '../services/slaService';
+import { ROLE_LABELS } from '../services/workflowService';
+import { X, Timer, AlertCircle, Play, Save } from 'lucide-react';
+
+interface SlaSettingsProps {
+  onClose: () => void;
+  /** Called after targets change or a sweep runs, so policy lists refresh */
+  onChanged: () => void;
+}
+
+interface SlaDraft {
+  target_hours: string;
+  reminder_hours: string;
+  escalate_on_breach: boolean;
+}
+
+const EVENT_LABELS: Record<SlaEventType, string> = {
+  reminder: 'reminders sent',
+  breached: 'breaches reported',
+  escalated: 'policies escalated',
+};
+
+const toDraft = (sla: StageSla): SlaDraft => ({
+  target_hours: String(sla.target_hours),
+  reminder_hours: sla.reminder_hours === null ? '' : String(sla.reminder_hours),
+  escalate_on_breach: sla.escalate_on_breach,
+});
+
+/**
+ * Manager screen: SLA targets per approver stage, and running the SLA sweep
+ * now
+ */
+export const SlaSettings: React.FC<SlaSettingsProps> = ({ onClose, onChanged }) => {
+  const { reload: reloadTargets } = useSlaTargets();
+  const [slas, setSlas] = useState<StageSla[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<ApproverRole, SlaDraft>>>({});
+  const [sweepEvents, setSweepEvents] = useState<SlaEvent[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getSlaTargets()
+      .then((loaded) => {
+        setSlas(loaded);
+        setDrafts(Object.fromEntries(loaded.map((sla) => [sla.role, toDraft(sla)])));
+      })
+      .catch((err) => console.error('Error loading SLA targets:', err));
+  }, []);
+
+  const updateDraft = (role: ApproverRole, changes: Partial<SlaDraft>) => {
+    setDrafts((current) => ({ ...current, [role]: { ...current[role]!, ...changes } }));
+  };
+
+  const handleSave = async (role: ApproverRole) => {
+    const draft = drafts[role];
+    if (!draft) return;
+
+    setError('');
+    try {
+      const updated = await updateSlaTarget(role, {
+        target_hours: Number(draft.target_hours),
+        reminder_hours: draft.reminder_hours.trim() === '' ? null : Number(draft.reminder_hours),
+        escalate_on_breach: draft.escalate_on_breach,
+      });
+      setSlas((current) => current.map((sla) => (sla.role === updated.role ? updated : sla)));
+      setDrafts((current) => ({ ...current, [role]: toDraft(updated) }));
+      reloadTargets();
+      onChanged();
+    } catch (err) {
+      setError((err as Error).message || 'The SLA target could not be saved');
+    }
+  };
+
+  const handleRun = async () => {
+    setError('');
+    setRunning(true);
+    try {
+      setSweepEvents(await runSlaSweep());
+      onChanged();
+    } catch (err) {
+      setError((err as Error).message || 'The SLA sweep failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const isDirty = (sla: StageSla) => {
+    const draft = drafts[sla.role];
+    if (!draft) return false;
+    const saved = toDraft(sla);
+    return (
+      draft.target_hours !== saved.target_hours ||
+      draft.reminder_hours !== saved.reminder_hours ||
+      draft.escalate_on_breach !== saved.escalate_on_breach
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-3">
+            <Timer className="w-8 h-8 text-blue-600" />
+            <h2 className="text-3xl font-bold text-gray-900">Stage SLAs</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-6">
+          The clock starts when a policy enters a stage. Its reviewers are reminded after the reminder hours; once the
+          target passes the SLA is breached and SLA managers are alerted, and stages set to escalate move the policy to
+          the next approver. Hours are wall-clock hours.
+        </p>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <table className="min-w-full divide-y divide-gray-200 mb-8">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="py-2">Stage</th>
+              <th className="py-2">Target (hours)</th>
+              <th className="py-2">Reminder (hours)</th>
+              <th className="py-2">On breach</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {slas.map((sla) => {
+              const draft = drafts[sla.role];
+              const escalatesTo = SLA_ESCALATION[sla.role];
+              if (!draft) return null;
+
+              return (
+                <tr key={sla.role}>
+                  <td className="py-3 font-semibold text-gray-900">{ROLE_LABELS[sla.role]}</td>
+                  <td className="py-3">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={draft.target_hours}
+                      onChange={(e) => updateDraft(sla.role, { target_hours: e.target.value })}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="py-3">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={draft.reminder_hours}
+                      onChange={(e) => updateDraft(sla.role, { reminder_hours: e.target.value })}
+                      placeholder="None"
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="py-3 text-sm text-gray-700">
+                    {escalatesTo ? (
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={draft.escalate_on_breach}
+                          onChange={(e) => updateDraft(sla.role, { escalate_on_breach: e.target.checked })}
+                          className="rounded border-gray-300"
+                        />
+                        <span>Escalate to {ROLE_LABELS[escalatesTo]}</span>
+                      </label>
+                    ) : (
+                      <span className="text-gray-500">Alert only</span>
+                    )}
+                  </td>
+                  <td className="py-3 text-right">
+                    <button
+                      onClick={() => handleSave(sla.role)}
+                      disabled={!isDirty(sla)}
+                      className="inline-flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>Save</span>
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="border border-gray-200 rounded-lg p-4">
+          <p className="font-semibold text-gray-900 mb-1">Run SLA sweep</p>
+          <p className="text-sm text-gray-600 mb-3">
+            The sweep runs on a schedule where the database has pg_cron. Run it here to catch up; events are only
+            recorded once per stay at a stage.
+          </p>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="flex items-center space-x-1 px-4 py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              <span>Run now</span>
+            </button>
+          </div>
+
+          {sweepEvents && (
+            <p className="mt-3 text-sm text-gray-700">
+              {sweepEvents.length === 0
+                ? 'Nothing was due.'
+                : (Object.keys(EVENT_LABELS) as SlaEventType[])
+                    .map((type) => `${sweepEvents.filter((event) => event.event === type).length} ${EVENT_LABELS[type]}`)
+                    .join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { UserInvitation, UserRole, UserRoleChange, UserRoleChangeAction, UserRoleGrant } from '../lib/supabase';
+import {
+  ASSIGNABLE_ROLES,
+  getOpenInvitations,
+  getRoleChanges,
+  getUsers,
+  grantUserRole,
+  inviteUser,
+  revokeInvitation,
+  revokeUserRole,
+  setUserActive,
+  setUserRole,
+  UserWithRoles,
+} from '../services/userAdminService';
+import { ROLE_LABELS } from '../services/workflowService';
+import { X, Users, UserPlus, AlertCircle, Mail, Trash2, Plus } from 'lucide-react';
+
+interface UserManagementProps {
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition';
+
+const ACTION_LABELS: Record<UserRoleChangeAction, string> = {
+  assigned: 'Role assigned',
+  revoked: 'Role revoked',
+  deactivated: 'Deactivated',
+  reactivated: 'Reactivated',
+};
+
+/** Roles held besides the primary one */
+const additionalRoles = (user: UserWithRoles) => user.roles.filter((role) => role !== user.role);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Admin screen: invite users, assign or revoke primary and additional roles,
+ * deactivate accounts and review each user's role history
+ */
+export const UserManagement: React.FC<UserManagementProps> = ({ onClose }) => {
+  const { profile } = useAuth();
+  const [users, setUsers] = useState<UserWithRoles[]>([]);
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserInvitation['role']>('creator');
+  const [selectedUser, setSelectedUser] = useState<UserWithRoles | null>(null);
+  const [role, setRole] = useState<UserRole>('unassigned');
+  const [extraRole, setExtraRole] = useState<UserRoleGrant['role'] | ''>('');
+  const [reason, setReason] = useState('');
+  const [history, setHistory] = useState<UserRoleChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [loadedUsers, loadedInvitations] = await Promise.all([getUsers(), getOpenInvitations()]);
+      setUsers(loadedUsers);
+      setInvitations(loadedInvitations);
+      // Keep the open user in step with the reloaded list
+      setSelectedUser((current) => (current ? loadedUsers.find((user) => user.id === current.id) ?? null : null));
+    } catch (err) {
+      console.error('Error loading users:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selectedUser) return;
+    getRoleChanges(selectedUser.id)
+      .then(setHistory)
+      .catch((err) => console.error('Error loading role history:', err));
+  }, [selectedUser]);
+
+  const selectUser = (user: UserWithRoles) => {
+    setSelectedUser(user);
+    setRole(user.role);
+    setExtraRole('');
+    setReason('');
+    setError('');
+  };
+
+  // Runs an admin action, then refreshes the list and the selected user
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    setLoading(true);
+    try {
+      await action();
+      setReason('');
+      setExtraRole('');
+      await load();
+    } catch (err) {
+      setError((err as Error).message || 'The change could not be saved');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await inviteUser(inviteEmail, inviteRole, profile!);
+      setInviteEmail('');
+    });
+  };
+
+  const handleRevokeInvitation = (invitation: UserInvitation) => {
+    if (!confirm(`Withdraw the invitation for ${invitation.email}?`)) return;
+    run(() => revokeInvitation(invitation.id));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-3">
+            <Users className="w-8 h-8 text-blue-600" />
+            <h2 className="text-3xl font-bold text-gray-900">User Management</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleInvite} className="mb-8 p-6 bg-gray-50 border border-gray-200 rounded-lg">
+          <h3 className="font-semibold text-gray-900 mb-4">Invite a User</h3>
+          <div className="flex space-x-4">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Email address"
+              className={inputClass}
+              required
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as UserInvitation['role'])}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {ASSIGNABLE_ROLES.map((assignable) => (
+                <option key={assignable} value={assignable}>
+                  {ROLE_LABELS[assignable]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 whitespace-nowrap"
+            >
+              <UserPlus className="w-5 h-5" />
+              <span>Invite</span>
+            </button>
+          </div>
+          {invitations.length > 0 && (
+            <ul className="mt-4 divide-y divide-gray-200 text-sm">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="py-2 flex justify-between items-center">
+                  <span className="flex items-center space-x-2 text-gray-700">
+                    <Mail className="w-4 h-4 text-gray-400" />
+                    <span>
+                      {invitation.email} · {ROLE_LABELS[invitation.role]} · invited {formatDate(invitation.created_at)}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRevokeInvitation(invitation)}
+                    className="p-2 text-gray-600 hover:text-red-700 hover:bg-gray-100 rounded-lg transition"
+                    title="Withdraw invitation"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+
+        {selectedUser && (
+          <div className="mb-8 p-6 border border-blue-200 bg-blue-50 rounded-lg">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h3 className="font-semibold text-gray-900">{selectedUser.full_name}</h3>
+                <p className="text-sm text-gray-600">{selectedUser.email}</p>
+              </div>
+              <button
+                onClick={() => setSelectedUser(null)}
+                className="p-1 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Primary Role</label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as UserRole)}
+                  className={inputClass}
+                >
+                  <option value="unassigned">{ROLE_LABELS.unassigned} (revoke)</option>
+                  {ASSIGNABLE_ROLES.map((assignable) => (
+                    <option key={assignable} value={assignable}>
+                      {ROLE_LABELS[assignable]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Required for every change"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Additional Roles</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {additionalRoles(selectedUser).map((held) => (
+                  <span
+                    key={held}
+                    className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-semibold bg-white border border-blue-200 text-blue-800"
+                  >
+                    <span>{ROLE_LABELS[held]}</span>
+                    <button
+                      onClick={() => run(() => revokeUserRole(selectedUser.id, held, reason))}
+                      disabled={loading}
+                      className="hover:text-red-700 disabled:opacity-50"
+                      title={`Revoke ${ROLE_LABELS[held]}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                {selectedUser.role !== 'unassigned' && (
+                  <>
+                    <select
+                      value={extraRole}
+                      onChange={(e) => setExtraRole(e.target.value as UserRoleGrant['role'] | '')}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Add a role…</option>
+                      {ASSIGNABLE_ROLES.filter((assignable) => !selectedUser.roles.includes(assignable)).map(
+                        (assignable) => (
+                          <option key={assignable} value={assignable}>
+                            {ROLE_LABELS[assignable]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <button
+                      onClick={() => extraRole && run(() => grantUserRole(selectedUser.id, extraRole, reason))}
+                      disabled={loading || !extraRole}
+                      className="p-1 text-blue-600 hover:text-blue-800 hover:bg-white rounded-lg transition disabled:opacity-50"
+                      title="Grant role"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="flex space-x-4 mb-6">
+              <button
+                onClick={() => run(() => setUserRole(selectedUser.id, role, reason))}
+                disabled={loading || role === selectedUser.role}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Role
+              </button>
+              {selectedUser.id !== profile?.id && (
+                <button
+                  onClick={() => run(() => setUserActive(selectedUser.id, !selectedUser.active, reason))}
+                  disabled={loading}
+                  className={`px-6 py-2 text-white rounded-lg font-semibold transition disabled:opacity-50 ${
+                    selectedUser.active ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+                  }`}
+                >
+                  {selectedUser.active ? 'Deactivate Account' : 'Reactivate Account'}
+                </button>
+              )}
+            </div>
+            <p className="font-semibold text-gray-900 mb-2">Role History</p>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-600">No role changes recorded</p>
+            ) : (
+              <ul className="divide-y divide-blue-100 text-sm">
+                {history.map((change) => (
+                  <li key={change.id} className="py-2">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{ACTION_LABELS[change.action]}</span>
+                      {change.action === 'assigned' || change.action === 'revoked'
+                        ? `: ${change.old_role ? ROLE_LABELS[change.old_role] : '—'} → ${
+                            change.new_role ? ROLE_LABELS[change.new_role] : '—'
+                          }`
+                        : ''}
+                      <span className="text-gray-500">
+                        {' '}
+                        · {change.changed_by_profile?.full_name ?? 'System'} · {formatDate(change.created_at)}
+                      </span>
+                    </p>
+                    {change.reason && <p className="text-gray-600">{change.reason}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Email</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr
+                  key={user.id}
+                  onClick={() => selectUser(user)}
+                  className={`cursor-pointer hover:bg-blue-50 ${user.active ? '' : 'bg-gray-50 text-gray-500'}`}
+                >
+                  <td className="px-4 py-3 text-sm font-medium">{user.full_name}</td>
+                  <td className="px-4 py-3 text-sm">{user.email}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {user.role === 'unassigned' ? (
+                      <span className="inline-block px-2 py-1 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                        Awaiting role
+                      </span>
+                    ) : (
+                      <>
+                        {ROLE_LABELS[user.role]}
+                        {additionalRoles(user).length > 0 && (
+                          <span className="text-gray-500">
+                            {' '}
+                            + {additionalRoles(user).map((held) => ROLE_LABELS[held]).join(', ')}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${
+                        user.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {user.active ? 'Active' : 'Deactivated'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,16 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { supabase, UserProfile } from '../lib/supabase';
+import { supabase, Capability, UserProfile } from '../lib/supabase';
+import { getCapabilities } from '../services/permissionService';
 import { User } from '@supabase/supabase-js';
 
 interface AuthContextType {
   user: User | null;
   profile: UserProfile | null;
+  /** Capabilities of every role the user holds; empty for inactive accounts */
+  capabilities: Capability[];
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, fullName: string, role: string) => Promise<void>;
+  signUp: (email: string, password: string, fullName: string) => Promise<void>;
   signOut: () => Promise<void>;
 }
 
@@ -24,6 +27,7 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchProfile = async (userId: string) => {
@@ -40,14 +44,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return data;
   };
 
+  const fetchCapabilities = async () => {
+    try {
+      return await getCapabilities();
+    } catch (error) {
+      console.error('Error fetching capabilities:', error);
+      return [];
+    }
+  };
+
   useEffect(() => {
     // Check active session
     supabase.auth.getSession().then(({ data: { session } }) => {
       (async () => {
         setUser(session?.user ?? null);
         if (session?.user) {
-          const profileData = await fetchProfile(session.user.id);
+          const [profileData, capabilityData] = await Promise.all([fetchProfile(session.user.id), fetchCapabilities()]);
           setProfile(profileData);
+          setCapabilities(capabilityData);
         }
         setLoading(false);
       })();
@@ -58,10 +72,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       (async () => {
         setUser(session?.user ?? null);
         if (session?.user) {
-          const profileData = await fetchProfile(session.user.id);
+          const [profileData, capabilityData] = await Promise.all([fetchProfile(session.user.id), fetchCapabilities()]);
           setProfile(profileData);
+          setCapabilities(capabilityData);
         } else {
           setProfile(null);
+          setCapabilities([]);
         }
       })();
     });
@@ -74,19 +90,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (error) throw error;
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: string) => {
-    const { data, error } = await supabase.auth.signUp({ email, password });
+  // The database creates the profile (see handle_new_user): no role unless an
+  // admin invited this email address
+  const signUp = async (email: string, password: string, fullName: string) => {
+    const { error } = await supabase.auth.signUp({ email, password, options: { data: { full_name: fullName } } });
     if (error) throw error;
-
-    if (data.user) {
-      const { error: profileError } = await supabase.from('user_profiles').insert({
-        id: data.user.id,
-        email,
-        full_name: fullName,
-        role,
-      });
-      if (profileError) throw profileError;
-    }
   };
 
   const signOut = async () => {
@@ -97,6 +105,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     profile,
+    capabilities,
     loading,
     signIn,
     signUp,
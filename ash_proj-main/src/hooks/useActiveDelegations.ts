@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ApprovalDelegation, ApproverRole } from '../lib/supabase';
+import { getActiveDelegations } from '../services/delegationService';
+
+/**
+ * Delegations the user can act on right now. `delegationFor(role)` is the one
+ * to act under at a stage of the role (the user's own capability takes
+ * precedence, so callers check that first); `reload` refetches after a
+ * delegation changes.
+ */
+export const useActiveDelegations = (userId?: string) => {
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setDelegations(await getActiveDelegations(userId));
+    } catch (error) {
+      console.error('Error loading delegations:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const delegationFor = useCallback(
+    (role: ApproverRole) => delegations.find((delegation) => delegation.role === role) ?? null,
+    [delegations]
+  );
+
+  return { delegations, delegationFor, reload };
+};
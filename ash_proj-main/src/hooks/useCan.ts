@@ -0,0 +1,12 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Capability } from '../lib/supabase';
+
+/**
+ * `can(capability)` for the signed-in user, from the capabilities loaded with
+ * their profile. Only decides what the UI offers; the services and RLS enforce it.
+ */
+export const useCan = () => {
+  const { capabilities } = useAuth();
+  return useCallback((capability: Capability) => capabilities.includes(capability), [capabilities]);
+};
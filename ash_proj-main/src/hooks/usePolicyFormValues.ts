@@ -0,0 +1,88 @@
+import { useCallback, useState } from 'react';
+import { Policy, PolicyDetails, ProductAttributeValue } from '../lib/supabase';
+import { FieldDefinition, getPolicyFields, getProductFields } from '../services/productDefinitions';
+import { getFieldValue } from '../services/policyValidation';
+import { useProducts } from './useProducts';
+
+/**
+ * Form state for a policy rendered from field definitions. Inputs hold strings
+ * (booleans once answered); `toDetails` converts them to the typed values
+ * createPolicy/updatePolicy expect, keeping only the selected product's
+ * attributes.
+ */
+export type FormValue = string | boolean;
+
+export interface PolicyFormValues {
+  /**
+   * Shared policy fields, keyed by field key (dotted for the address), plus
+   * `premium_override_reason`, which the rating panel edits
+   */
+  policy: Record<string, FormValue>;
+  /** Product-specific attributes, keyed by attribute key */
+  attributes: Record<string, FormValue>;
+}
+
+const toFormValue = (value: unknown): FormValue =>
+  typeof value === 'boolean' ? value : value === undefined || value === null ? '' : String(value);
+
+const toFormValues = (policy?: Policy): PolicyFormValues => {
+  if (!policy) return { policy: { deductible: '0', prior_claims: '0' }, attributes: {} };
+
+  return {
+    policy: {
+      ...Object.fromEntries(getPolicyFields().map((field) => [field.key, toFormValue(getFieldValue(policy, field.key))])),
+      premium_override_reason: toFormValue(policy.premium_override_reason),
+    },
+    attributes: Object.fromEntries(
+      Object.entries(policy.product_attributes).map(([key, value]) => [key, toFormValue(value)])
+    ),
+  };
+};
+
+const isNumeric = (field: FieldDefinition) => field.type === 'number' || field.type === 'currency';
+
+/**
+ * Empty numbers and unanswered booleans become undefined; empty text stays ''
+ * so clearing an optional field clears it on update
+ */
+const parseValue = (field: FieldDefinition, value: FormValue | undefined): ProductAttributeValue | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === undefined || value.trim() === '') return isNumeric(field) || field.type === 'boolean' ? undefined : '';
+  return isNumeric(field) ? Number(value) : value.trim();
+};
+
+const setPath = (record: Record<string, unknown>, key: string, value: unknown) => {
+  const parts = key.split('.');
+  let target = record;
+  for (const part of parts.slice(0, -1)) {
+    target[part] = (target[part] as Record<string, unknown> | undefined) ?? {};
+    target = target[part] as Record<string, unknown>;
+  }
+  target[parts[parts.length - 1]] = value;
+};
+
+export const usePolicyFormValues = (policy?: Policy) => {
+  const [values, setValues] = useState<PolicyFormValues>(() => toFormValues(policy));
+  const { findProduct } = useProducts();
+
+  const reset = useCallback((next?: Policy) => setValues(toFormValues(next)), []);
+
+  const toDetails = useCallback((): PolicyDetails => {
+    const details: Record<string, unknown> = {};
+    for (const field of getPolicyFields()) {
+      setPath(details, field.key, parseValue(field, values.policy[field.key]));
+    }
+
+    const attributes: Record<string, ProductAttributeValue> = {};
+    for (const field of getProductFields(findProduct(String(values.policy.product_type ?? '')))) {
+      const value = parseValue(field, values.attributes[field.key]);
+      if (value !== undefined && value !== '') attributes[field.key] = value;
+    }
+    details.product_attributes = attributes;
+    details.premium_override_reason = String(values.policy.premium_override_reason ?? '').trim() || null;
+
+    return details as unknown as PolicyDetails;
+  }, [values, findProduct]);
+
+  return { values, setValues, reset, toDetails };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Product } from '../lib/supabase';
+import { getProducts } from '../services/productService';
+
+/**
+ * The product catalog (including retired products, which existing policies
+ * still reference), loaded once and shared by every component that needs
+ * product names. `reload` refetches after the catalog is edited.
+ */
+let catalog: Promise<Product[]> | null = null;
+
+const loadCatalog = (force: boolean = false) => {
+  if (!catalog || force) {
+    catalog = getProducts(true).catch((error) => {
+      catalog = null;
+      throw error;
+    });
+  }
+  return catalog;
+};
+
+export const useProducts = () => {
+  const [products, setProducts] = useState<Product[]>([]);
+
+  const load = useCallback(async (force: boolean = false) => {
+    try {
+      setProducts(await loadCatalog(force));
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const productName = useCallback(
+    (code: string) => products.find((product) => product.code === code)?.name ?? code,
+    [products]
+  );
+
+  const findProduct = useCallback(
+    (code: string) => products.find((product) => product.code === code) ?? null,
+    [products]
+  );
+
+  const reload = useCallback(() => load(true), [load]);
+
+  return {
+    products,
+    activeProducts: products.filter((product) => product.active),
+    productName,
+    findProduct,
+    reload,
+  };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { RelatedPolicy } from '../lib/supabase';
+import { findRelatedPolicies } from '../services/duplicateService';
+
+const LOOKUP_DEBOUNCE_MS = 400;
+
+/**
+ * Existing policies whose customer name matches `customerName`, looked up
+ * again (debounced) as the name is typed. `excludePolicyId` leaves out the
+ * policy being viewed; `refreshKey` forces a new lookup when it changes.
+ */
+export const useRelatedPolicies = (customerName: string, excludePolicyId?: string, refreshKey?: string) => {
+  const [relatedPolicies, setRelatedPolicies] = useState<RelatedPolicy[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      findRelatedPolicies(customerName, excludePolicyId)
+        .then((matches) => {
+          if (!cancelled) setRelatedPolicies(matches);
+        })
+        .catch((error) => console.error('Error finding related policies:', error));
+    }, LOOKUP_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [customerName, excludePolicyId, refreshKey]);
+
+  return relatedPolicies;
+};
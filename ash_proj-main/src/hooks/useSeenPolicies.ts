@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Policy } from '../lib/supabase';
+import { getLatestPolicyUpdate } from '../services/policyService';
+
+/**
+ * Tracks, per user and in localStorage, which version of each policy was last
+ * looked at so lists can highlight policies that changed since. Versions are
+ * the server's `updated_at`, so the browser's clock never matters. Policies
+ * never opened count as seen up to the latest update on the server when
+ * tracking started, so a first visit highlights nothing.
+ */
+interface SeenState {
+  /** `updated_at` baseline for policies never opened; null until loaded */
+  since: string | null;
+  policies: Record<string, string>;
+}
+
+const storageKey = (userId: string) => `policy-seen:${userId}`;
+
+const EPOCH = new Date(0).toISOString();
+
+const saveSeenState = (userId: string | undefined, state: SeenState) => {
+  if (userId && state.since) localStorage.setItem(storageKey(userId), JSON.stringify(state));
+};
+
+const readSeenState = (userId?: string): SeenState | null => {
+  if (!userId) return null;
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? (JSON.parse(stored) as SeenState) : null;
+  } catch (error) {
+    console.error('Error reading seen policies:', error);
+    return null;
+  }
+};
+
+const later = (a: string | undefined, b: string) => (a && Date.parse(a) >= Date.parse(b) ? a : b);
+
+export const useSeenPolicies = (userId?: string) => {
+  const [seen, setSeen] = useState<SeenState>(() => readSeenState(userId) ?? { since: null, policies: {} });
+
+  useEffect(() => {
+    const stored = readSeenState(userId);
+    if (stored) {
+      setSeen(stored);
+      return;
+    }
+
+    setSeen({ since: null, policies: {} });
+    if (!userId) return;
+
+    let cancelled = false;
+    getLatestPolicyUpdate()
+      .then((latest) => {
+        if (cancelled) return;
+        setSeen((current) => {
+          const next = { ...current, since: latest ?? EPOCH };
+          saveSeenState(userId, next);
+          return next;
+        });
+      })
+      .catch((error) => console.error('Error loading latest policy update:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isChanged = useCallback(
+    (policy: Policy) => {
+      const seenAt = seen.policies[policy.id] ?? seen.since;
+      return seenAt !== null && Date.parse(policy.updated_at) > Date.parse(seenAt);
+    },
+    [seen]
+  );
+
+  /**
+   * Marks the given version of a policy as seen; an older copy never moves the
+   * marker back
+   */
+  const markSeen = useCallback(
+    (policy: Pick<Policy, 'id' | 'updated_at'>) => {
+      setSeen((current) => {
+        const next = {
+          ...current,
+          policies: { ...current.policies, [policy.id]: later(current.policies[policy.id], policy.updated_at) },
+        };
+        saveSeenState(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  return { isChanged, markSeen };
+};
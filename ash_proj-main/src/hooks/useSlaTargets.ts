@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Policy, StageSla } from '../lib/supabase';
+import { getSlaStatus, getSlaTargets } from '../services/slaService';
+
+const TICK_MS = 60_000;
+
+/**
+ * Stage SLA targets, loaded once and shared by every component that shows SLA
+ * badges. `slaStatus(policy)` is re-evaluated every minute so countdowns move;
+ * `reload` refetches after the targets are edited.
+ */
+let targets: Promise<StageSla[]> | null = null;
+
+const loadTargets = (force: boolean = false) => {
+  if (!targets || force) {
+    targets = getSlaTargets().catch((error) => {
+      targets = null;
+      throw error;
+    });
+  }
+  return targets;
+};
+
+export const useSlaTargets = () => {
+  const [slas, setSlas] = useState<StageSla[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  const load = useCallback(async (force: boolean = false) => {
+    try {
+      setSlas(await loadTargets(force));
+    } catch (error) {
+      console.error('Error loading SLA targets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const slaStatus = useCallback(
+    (policy: Policy) =>
+      getSlaStatus(
+        policy,
+        slas.find((sla) => policy.status === `pending_${sla.role}`),
+        now
+      ),
+    [slas, now]
+  );
+
+  const reload = useCallback(() => load(true), [load]);
+
+  return { slas, slaStatus, reload };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getUserNames } from '../services/assignmentService';
+
+/**
+ * Every user's name by id, loaded once and shared by every component that
+ * shows assignees. `userName(id)` falls back to "Unknown user".
+ */
+let directory: Promise<Record<string, string>> | null = null;
+
+const loadDirectory = () => {
+  if (!directory) {
+    directory = getUserNames().catch((error) => {
+      directory = null;
+      throw error;
+    });
+  }
+  return directory;
+};
+
+export const useUserNames = () => {
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadDirectory()
+      .then(setNames)
+      .catch((error) => console.error('Error loading user names:', error));
+  }, []);
+
+  return useCallback((userId: string) => names[userId] ?? 'Unknown user', [names]);
+};
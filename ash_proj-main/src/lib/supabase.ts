@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { FieldSection } from '../services/productDefinitions';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,18 +10,280 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-export type UserRole = 'creator' | 'underwriter' | 'manager';
+/**
+ * `unassigned` is the role of new accounts until an admin assigns one; it has
+ * no access to policies
+ */
+export type UserRole =
+  | 'unassigned'
+  | 'creator'
+  | 'underwriter'
+  | 'medical_reviewer'
+  | 'manager'
+  | 'executive'
+  | 'fraud_reviewer'
+  | 'admin';
 
-export type PolicyStatus = 'draft' | 'pending_underwriter' | 'pending_manager' | 'approved' | 'rejected';
+export type ApproverRole = Exclude<UserRole, 'unassigned' | 'creator' | 'admin'>;
 
-export type ApprovalAction = 'submitted' | 'approved' | 'rejected';
+export type PolicyStatus = 'draft' | `pending_${ApproverRole}` | 'approved' | 'rejected';
+
+/**
+ * Named permissions, mapped to roles in `role_capabilities`. Acting on a
+ * workflow stage takes `policy.approve.<stage role>` (`policy.review.fraud`
+ * for fraud review).
+ */
+export type Capability =
+  | 'policy.view'
+  | 'policy.create'
+  | 'policy.edit'
+  | 'policy.submit'
+  | `policy.approve.${Exclude<ApproverRole, 'fraud_reviewer'>}`
+  | 'policy.review.fraud'
+  | 'policy.view.fraud'
+  | 'policy.assign'
+  | 'sla.manage'
+  | 'comment.internal'
+  | 'product.manage'
+  | 'authority.manage'
+  | 'policy_number.manage'
+  | 'notification.deliveries.view'
+  | 'user.manage';
+
+export type ApprovalAction =
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'escalated'
+  | 'returned'
+  | 'document_uploaded'
+  | 'fraud_cleared'
+  | 'fraud_confirmed';
 
 export interface UserProfile {
   id: string;
   email: string;
   full_name: string;
   role: UserRole;
+  /** Deactivated accounts can't sign in */
+  active: boolean;
+  deactivated_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A role held by a user; the profile's `role` is their primary role and
+ * admins can grant more
+ */
+export interface UserRoleGrant {
+  user_id: string;
+  role: Exclude<UserRole, 'unassigned'>;
+  /** NULL for grants made outside a user session */
+  granted_by: string | null;
+  granted_at: string;
+}
+
+export interface UserInvitation {
+  id: string;
+  email: string;
+  /** Assigned when the invitee signs up */
+  role: Exclude<UserRole, 'unassigned'>;
+  invited_by: string;
+  created_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  revoked_at: string | null;
+}
+
+export type UserRoleChangeAction = 'assigned' | 'revoked' | 'deactivated' | 'reactivated';
+
+export interface UserRoleChange {
+  id: string;
+  user_id: string;
+  /** NULL for changes made outside a user session */
+  changed_by: string | null;
+  action: UserRoleChangeAction;
+  old_role: UserRole | null;
+  new_role: UserRole | null;
+  reason: string;
+  created_at: string;
+  changed_by_profile?: Pick<UserProfile, 'full_name'> | null;
+}
+
+/**
+ * An approver's authority over one role, delegated to another user for a date
+ * range (e.g. while they are on leave). Active while
+ * `starts_at <= now() < ends_at`, it hasn't been revoked and the delegator
+ * still holds the role.
+ */
+export interface ApprovalDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  role: ApproverRole;
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  delegator?: Pick<UserProfile, 'full_name'> | null;
+  delegate?: Pick<UserProfile, 'full_name'> | null;
+}
+
+export interface FraudRuleResult {
+  id: string;
+  weight: number;
+  explanation: string;
+  fired: boolean;
+}
+
+export interface FraudCheckDetails {
+  score: number;
+  threshold: number;
+  rules: FraudRuleResult[];
+}
+
+/**
+ * `flagged` while the latest check failed and no fraud reviewer has decided;
+ * a flagged or confirmed policy can't be approved
+ */
+export type FraudFlagStatus = 'none' | 'flagged' | 'cleared' | 'confirmed';
+
+export type FraudCheckEvent = 'create' | 'update' | 'submit';
+
+export interface FraudCheckRecord {
+  id: string;
+  policy_id: string;
+  /** What triggered the check */
+  event: FraudCheckEvent;
+  passed: boolean;
+  reason: string;
+  details: FraudCheckDetails;
+  checked_by: string;
+  created_at: string;
+}
+
+export interface RatingFactorResult {
+  id: string;
+  label: string;
+  multiplier: number;
+  explanation: string;
+}
+
+export interface RatingDetails {
+  /** Coverage × base rate, before factors */
+  base_premium: number;
+  factors: RatingFactorResult[];
+  /** Base premium × all factor multipliers */
+  calculated_premium: number;
+  minimum_premium: number;
+  /** The product's highest premium (null = no limit; absent on older ratings) */
+  maximum_premium?: number | null;
+  /** Calculated premium, raised to the minimum or capped at the maximum if needed */
+  rated_premium: number;
+}
+
+export interface Product {
+  /** Stable identifier stored in `policies.product_type`, e.g. `AUTO` */
+  code: string;
+  name: string;
+  description: string;
+  min_premium: number;
+  /** null = no upper bound */
+  max_premium: number | null;
+  /** Retired products can't be used on new or edited policies */
+  active: boolean;
+  /** Product-specific form sections, stored in `policies.product_attributes` */
+  field_sections: FieldSection[];
   created_at: string;
+  updated_at: string;
+}
+
+export interface InsuredAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region: string;
+  postal_code: string;
+  country: string;
+}
+
+/**
+ * Product-specific attributes, stored in `policies.product_attributes`
+ */
+export interface AutoAttributes {
+  vin: string;
+  make: string;
+  model: string;
+  vehicle_year: number;
+}
+
+export interface HomeAttributes {
+  property_value: number;
+  year_built: number;
+  construction_type: 'frame' | 'masonry' | 'steel' | 'other';
+}
+
+export interface LifeAttributes {
+  date_of_birth: string;
+  smoker: boolean;
+  beneficiary_name: string;
+}
+
+export interface HealthAttributes {
+  date_of_birth: string;
+  pre_existing_conditions: boolean;
+}
+
+export interface BusinessAttributes {
+  business_name: string;
+  industry: string;
+  annual_revenue: number;
+  employee_count: number;
+}
+
+export interface TravelAttributes {
+  destination: string;
+  trip_start: string;
+  trip_end: string;
+}
+
+/** Keyed by product code */
+export interface ProductAttributesByType {
+  AUTO: AutoAttributes;
+  HOME: HomeAttributes;
+  LIFE: LifeAttributes;
+  HEALTH: HealthAttributes;
+  BUSINESS: BusinessAttributes;
+  TRAVEL: TravelAttributes;
+}
+
+export type ProductAttributeValue = string | number | boolean;
+
+export type ProductAttributes =
+  | ProductAttributesByType[keyof ProductAttributesByType]
+  | Record<string, ProductAttributeValue>;
+
+/**
+ * Underwriting details captured for every policy
+ */
+export interface PolicyDetails {
+  customer_name: string;
+  premium_amount: number;
+  product_type: string;
+  coverage_amount: number;
+  deductible: number;
+  effective_date: string;
+  expiry_date: string;
+  insured_email: string;
+  insured_phone: string;
+  insured_address: InsuredAddress;
+  product_attributes: ProductAttributes;
+  /** Claims in the last 5 years, a rating input */
+  prior_claims: number;
+  /** Required when premium_amount differs from the rated premium */
+  premium_override_reason?: string | null;
 }
 
 export interface Policy {
@@ -28,23 +291,292 @@ export interface Policy {
   policy_number: string;
   customer_name: string;
   premium_amount: number;
+  /** Product code (see `products`) */
   product_type: string;
+  /** Underwriting details; null only on policies created before they were captured */
+  coverage_amount: number | null;
+  deductible: number;
+  effective_date: string | null;
+  expiry_date: string | null;
+  insured_email: string | null;
+  insured_phone: string | null;
+  insured_address: Partial<InsuredAddress>;
+  product_attributes: ProductAttributes;
+  prior_claims: number;
+  /** Premium suggested by the rating module and the breakdown behind it */
+  rated_premium: number | null;
+  rating_details: RatingDetails | null;
+  /** Creator's justification when premium_amount deviates from rated_premium */
+  premium_override_reason: string | null;
   status: PolicyStatus;
-  fraud_check_passed: boolean;
+  workflow_id: string | null;
+  escalated_from_status: PolicyStatus | null;
+  revision_count: number;
+  /** NULL while a draft hasn't been checked since it was created or edited */
+  fraud_check_passed: boolean | null;
   fraud_check_reason: string;
+  fraud_check_details: FraudCheckDetails | null;
+  fraud_flag_status: FraudFlagStatus;
+  /** Fraud reviewer's decision on the latest flag */
+  fraud_reviewed_by: string | null;
+  fraud_reviewed_at: string | null;
+  fraud_review_reason: string | null;
+  /** The reviewer the policy is assigned to at its current pending stage */
+  assigned_to: string | null;
+  assigned_at: string | null;
+  /** When the policy entered its current status; SLA clocks run from here */
+  stage_entered_at: string;
   creator_id: string;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Existing policy whose customer name matches another policy's (see
+ * `find_related_policies`)
+ */
+export interface RelatedPolicy
+  extends Pick<Policy, 'id' | 'policy_number' | 'customer_name' | 'product_type' | 'premium_amount' | 'status' | 'created_at'> {
+  /** Trigram similarity of the customer names, 0–1 */
+  name_similarity: number;
+  /** Latest rejection (including confirmed fraud), if any */
+  rejected_at: string | null;
+}
+
+export type PolicySortColumn =
+  | 'created_at'
+  | 'updated_at'
+  | 'policy_number'
+  | 'customer_name'
+  | 'product_type'
+  | 'premium_amount'
+  | 'status';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface PolicyQuery {
+  page?: number;
+  pageSize?: number;
+  sortBy?: PolicySortColumn;
+  sortDirection?: SortDirection;
+  search?: string;
+  status?: PolicyStatus;
+  /** Any of these statuses; combined with `status` when both are set */
+  statuses?: PolicyStatus[];
+  creator_id?: string;
+  assignedTo?: string;
+  premiumMin?: number;
+  premiumMax?: number;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export interface PolicyPage {
+  policies: Policy[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 export interface ApprovalLog {
   id: string;
   policy_id: string;
-  approver_id: string;
+  /** NULL for automatic SLA escalations */
+  approver_id: string | null;
   action: ApprovalAction;
   role: UserRole;
   comments: string;
   previous_status: PolicyStatus;
   new_status: PolicyStatus;
+  /** The delegator, when the approver acted under a delegation */
+  on_behalf_of: string | null;
+  created_at: string;
+}
+
+/**
+ * How policies entering a role's stage are assigned: `manual` leaves them for
+ * reviewers to claim
+ */
+export type AssignmentStrategy = 'round_robin' | 'workload' | 'manual';
+
+export interface AssignmentRule {
+  role: ApproverRole;
+  strategy: AssignmentStrategy;
+  updated_at: string;
+}
+
+export type PolicyAssignmentAction = 'assigned' | 'claimed' | 'released' | 'reassigned';
+
+export interface PolicyAssignment {
+  id: string;
+  policy_id: string;
+  /** The pending status the assignment applied to */
+  status: PolicyStatus;
+  action: PolicyAssignmentAction;
+  /** NULL once released (or reassigned to nobody) */
+  assigned_to: string | null;
+  previous_assignee: string | null;
+  /** Set for automatic assignments */
+  strategy: Exclude<AssignmentStrategy, 'manual'> | null;
+  /** NULL for assignments made outside a user session */
+  performed_by: string | null;
+  reason: string;
+  created_at: string;
+}
+
+/**
+ * How long a policy may wait at a role's stage. `reminder_hours` (after entering
+ * the stage) must be below `target_hours`; only underwriter and manager stages
+ * can escalate on a breach.
+ */
+export interface StageSla {
+  role: ApproverRole;
+  target_hours: number;
+  reminder_hours: number | null;
+  escalate_on_breach: boolean;
+  updated_at: string;
+}
+
+export type SlaEventType = 'reminder' | 'breached' | 'escalated';
+
+export interface SlaEvent {
+  id: string;
+  policy_id: string;
+  /** The pending status the event applies to */
+  status: PolicyStatus;
+  /** Identifies the policy's stay at the stage */
+  stage_entered_at: string;
+  event: SlaEventType;
+  escalated_to: PolicyStatus | null;
+  due_at: string;
+  /** The sweep's clock, which may be simulated */
+  occurred_at: string;
+  created_at: string;
+}
+
+export interface PolicyFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface PolicyChangeSet {
+  id: string;
+  policy_id: string;
+  /** NULL for changes made outside a user session */
+  changed_by: string | null;
+  /** Keyed by column, or `column.key` for insured_address/product_attributes */
+  changes: Record<string, PolicyFieldChange>;
+  created_at: string;
+  user_profiles?: Pick<UserProfile, 'full_name' | 'role'> | null;
+}
+
+export interface ApprovalAuthorityLimit {
+  id: string;
+  role: UserRole | null;
+  user_id: string | null;
+  max_premium: number | null;
+  created_at: string;
+}
+
+export type DocumentType =
+  | 'id_document'
+  | 'proof_of_address'
+  | 'inspection_report'
+  | 'medical_form'
+  | 'financial_statement'
+  | 'other';
+
+export interface PolicyDocument {
+  id: string;
+  policy_id: string;
+  document_type: DocumentType;
+  file_name: string;
+  /** Object path in the `policy-documents` bucket */
+  storage_path: string;
+  mime_type: string;
+  size_bytes: number;
+  /** Per policy, document type and file name, starting at 1 */
+  version: number;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface PolicyComment {
+  id: string;
+  policy_id: string;
+  /** Comment this replies to; NULL for a top-level comment */
+  parent_id: string | null;
+  author_id: string;
+  body: string;
+  /** Hidden from creators */
+  internal: boolean;
+  /** Mentioned user ids */
+  mentions: string[];
+  created_at: string;
+  edited_at: string | null;
+  user_profiles?: Pick<UserProfile, 'full_name' | 'role'>;
+}
+
+export interface PolicyCommentRevision {
+  id: string;
+  comment_id: string;
+  /** Text before the edit */
+  body: string;
+  mentions: string[];
+  edited_by: string;
+  /** When the edit was made */
+  created_at: string;
+}
+
+export interface PolicyNumberFormat {
+  /** Product type the format applies to, or `default` */
+  product_type: string;
+  /** Tokens: {YYYY}, {YY}, {SEQ} */
+  template: string;
+  sequence_padding: number;
+  reset_yearly: boolean;
+  created_at: string;
+}
+
+export type NotificationType =
+  | 'policy_created'
+  | 'policy_updated'
+  | 'policy_submitted'
+  | 'approval_required'
+  | 'policy_approved'
+  | 'policy_rejected'
+  | 'policy_returned'
+  | 'fraud_alert'
+  | 'comment_mention'
+  | 'user_invited'
+  | 'delegation_granted'
+  | 'policy_assigned'
+  | 'sla_reminder'
+  | 'sla_breached';
+
+export interface AppNotification {
+  id: string;
+  recipient_id: string;
+  type: NotificationType;
+  message: string;
+  policy_id: string | null;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type NotificationChannelId = 'email' | 'webhook';
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface NotificationDelivery {
+  id: string;
+  event_type: NotificationType;
+  channel: NotificationChannelId;
+  target: string;
+  status: DeliveryStatus;
+  attempts: number;
+  error: string | null;
+  policy_id: string | null;
   created_at: string;
 }
@@ -0,0 +1,156 @@
+import {
+  supabase,
+  ApproverRole,
+  AssignmentRule,
+  AssignmentStrategy,
+  Policy,
+  PolicyAssignment,
+  UserProfile,
+} from '../lib/supabase';
+import { getEligibleUsers, getRoleDelegations } from './delegationService';
+import { notify } from './notificationService';
+import { requireCapability } from './permissionService';
+import { getStatusRole, ROLE_LABELS, stageCapability } from './workflowService';
+
+/**
+ * POLICY ASSIGNMENT
+ * A policy entering a pending stage is assigned to one reviewer of the stage by
+ * the database (`manage_policy_assignment` trigger), round-robin or by workload
+ * as configured per role in `assignment_rules`. Reviewers claim unassigned
+ * policies and release their own; users with `policy.assign` reassign them.
+ * Only the assignee, or someone acting on their behalf, can act on an assigned
+ * policy. Every change is logged in `policy_assignments`.
+ */
+
+export const STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  round_robin: 'Round-robin',
+  workload: 'Lowest workload',
+  manual: 'Manual (reviewers claim)',
+};
+
+/**
+ * CLAIM POLICY
+ * Assigns an unassigned pending policy to the signed-in reviewer
+ */
+export const claimPolicy = async (policyId: string) => {
+  const { data, error } = await supabase.rpc('claim_policy', { p_policy_id: policyId });
+  if (error) throw error;
+  return data as Policy;
+};
+
+/**
+ * RELEASE POLICY
+ * Hands the signed-in reviewer's policy back to the team queue
+ */
+export const releasePolicy = async (policyId: string, reason: string = '') => {
+  const { data, error } = await supabase.rpc('release_policy', { p_policy_id: policyId, p_reason: reason.trim() });
+  if (error) throw error;
+  return data as Policy;
+};
+
+/**
+ * REASSIGN POLICY
+ * Moves a pending policy to another reviewer of its stage, or back to the team
+ * queue without an assignee; notifies the new assignee
+ */
+export const reassignPolicy = async (policy: Policy, assigneeId: string | null, reason: string) => {
+  if (!reason.trim()) throw new Error('A reason is required to reassign a policy');
+  await requireCapability('policy.assign', 'reassign policies');
+
+  const { data, error } = await supabase.rpc('reassign_policy', {
+    p_policy_id: policy.id,
+    p_assignee_id: assigneeId,
+    p_reason: reason.trim(),
+  });
+  if (error) throw error;
+
+  const role = getStatusRole(policy.status);
+  if (assigneeId && assigneeId !== policy.assigned_to && role) {
+    await notify(
+      'policy_assigned',
+      'Policy reassigned to you',
+      {
+        policy_number: policy.policy_number,
+        role: ROLE_LABELS[role],
+        reason: reason.trim(),
+      },
+      { userIds: [assigneeId], policyId: policy.id }
+    );
+  }
+
+  return data as Policy;
+};
+
+/**
+ * GET ASSIGNMENT HISTORY
+ * Every assignment change of a policy, newest first
+ */
+export const getAssignmentHistory = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('policy_assignments')
+    .select('*')
+    .eq('policy_id', policyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as PolicyAssignment[];
+};
+
+/**
+ * GET ELIGIBLE ASSIGNEES
+ * Reviewers who can act at the role's stage: holders of its capability and
+ * current delegates of the role
+ */
+export const getEligibleAssignees = async (role: ApproverRole) => {
+  const [reviewers, delegations] = await Promise.all([
+    getEligibleUsers(stageCapability(role)),
+    getRoleDelegations(role),
+  ]);
+
+  const assignees: Pick<UserProfile, 'id' | 'full_name'>[] = [...reviewers];
+  delegations.forEach((delegation) => {
+    if (!assignees.some((assignee) => assignee.id === delegation.delegate_id)) {
+      assignees.push({ id: delegation.delegate_id, full_name: delegation.delegate?.full_name ?? '' });
+    }
+  });
+  return assignees.sort((a, b) => a.full_name.localeCompare(b.full_name));
+};
+
+/**
+ * GET USER NAMES
+ * Every user's name by id, for showing assignees
+ */
+export const getUserNames = async () => {
+  const { data, error } = await supabase.from('user_profiles').select('id, full_name');
+  if (error) throw error;
+  return Object.fromEntries(
+    (data as Pick<UserProfile, 'id' | 'full_name'>[]).map((user) => [user.id, user.full_name])
+  ) as Record<string, string>;
+};
+
+/**
+ * GET ASSIGNMENT RULES
+ */
+export const getAssignmentRules = async () => {
+  const { data, error } = await supabase.from('assignment_rules').select('*').order('role');
+  if (error) throw error;
+  return data as AssignmentRule[];
+};
+
+/**
+ * SET ASSIGNMENT STRATEGY
+ * Applies to policies entering the role's stage from now on
+ */
+export const setAssignmentStrategy = async (role: ApproverRole, strategy: AssignmentStrategy) => {
+  await requireCapability('policy.assign', 'change assignment rules');
+
+  const { data, error } = await supabase
+    .from('assignment_rules')
+    .update({ strategy })
+    .eq('role', role)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as AssignmentRule;
+};
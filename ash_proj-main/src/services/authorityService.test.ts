@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { findEscalationRole } from './authorityService';
+
+const limits = { underwriter: 50000, manager: 250000, executive: null };
+
+describe('findEscalationRole', () => {
+  it('picks the first role up the ladder whose limit covers the premium', () => {
+    expect(findEscalationRole('underwriter', 80000, limits)).toBe('manager');
+    expect(findEscalationRole('underwriter', 300000, limits)).toBe('executive');
+    expect(findEscalationRole('manager', 300000, limits)).toBe('executive');
+  });
+
+  it('never escalates to a role without a limit row', () => {
+    expect(findEscalationRole('underwriter', 80000, { underwriter: 50000, executive: null })).toBe('executive');
+    expect(findEscalationRole('underwriter', 80000, { underwriter: 50000 })).toBeNull();
+  });
+
+  it('has no target above the top of the ladder or for roles off it', () => {
+    expect(findEscalationRole('executive', 300000, limits)).toBeNull();
+    expect(findEscalationRole('medical_reviewer', 300000, { ...limits, executive: 100000 })).toBeNull();
+  });
+});
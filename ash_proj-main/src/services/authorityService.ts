@@ -0,0 +1,69 @@
+import { supabase, ApprovalAuthorityLimit, ApproverRole } from '../lib/supabase';
+import { AUTHORITY_LADDER } from './workflowService';
+
+/**
+ * APPROVAL AUTHORITY LIMITS
+ * Approvers may only clear premiums up to their authority limit. Limits are
+ * stored in `approval_authority_limits`, either per role or per user (a user
+ * limit overrides their role's). A NULL limit means unlimited; a role without
+ * a limit row has no approval authority.
+ */
+
+/**
+ * GET APPROVAL LIMIT
+ * Resolves the effective premium limit for a user acting as `role`
+ * (null = unlimited, 0 for a role without a limit); without a role, the
+ * highest limit among their roles
+ */
+export const getApprovalLimit = async (userId: string, role?: ApproverRole): Promise<number | null> => {
+  const { data, error } = await supabase.rpc('approval_limit', { p_user_id: userId, p_role: role ?? null });
+  if (error) throw error;
+  return data === null ? null : Number(data);
+};
+
+/**
+ * GET ROLE LIMITS
+ * Role-level limits, used to find who can take an escalated policy
+ */
+export const getRoleLimits = async (): Promise<Partial<Record<ApproverRole, number | null>>> => {
+  const { data, error } = await supabase
+    .from('approval_authority_limits')
+    .select('*')
+    .not('role', 'is', null);
+
+  if (error) throw error;
+
+  const limits: Partial<Record<ApproverRole, number | null>> = {};
+  (data as ApprovalAuthorityLimit[]).forEach((limit) => {
+    limits[limit.role as ApproverRole] = limit.max_premium === null ? null : Number(limit.max_premium);
+  });
+  return limits;
+};
+
+export const exceedsLimit = (premium: number, limit: number | null) => limit !== null && premium > limit;
+
+/**
+ * The first role above `role` on the authority ladder whose limit covers the premium
+ * (mirrors the `escalation_status` database function, which checks escalations)
+ */
+export const findEscalationRole = (
+  role: ApproverRole,
+  premium: number,
+  limits: Partial<Record<ApproverRole, number | null>>
+): ApproverRole | null => {
+  const rank = AUTHORITY_LADDER.indexOf(role);
+
+  return (
+    AUTHORITY_LADDER.slice(rank + 1).find((candidate) => {
+      const limit = limits[candidate];
+      return limit !== undefined && !exceedsLimit(premium, limit);
+    }) ?? null
+  );
+};
+
+/**
+ * GET ESCALATION ROLE
+ * Resolves the escalation target against the current role limits
+ */
+export const getEscalationRole = async (role: ApproverRole, premium: number): Promise<ApproverRole | null> =>
+  findEscalationRole(role, premium, await getRoleLimits());
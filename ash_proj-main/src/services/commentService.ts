@@ -0,0 +1,197 @@
+import { supabase, Policy, PolicyComment, PolicyCommentRevision, UserProfile } from '../lib/supabase';
+import { notify } from './notificationService';
+import { getUsersWithCapability, requireCapability } from './permissionService';
+
+/**
+ * POLICY COMMENTS
+ * A discussion thread per policy. Comments can be replies, mention users as
+ * `@Full Name`, and be internal notes that only users with `comment.internal`
+ * can see (enforced by RLS). Editing keeps the previous text as a revision (written by a trigger).
+ */
+
+export type MentionableUser = Pick<UserProfile, 'id' | 'full_name' | 'role'> & {
+  /** Whether the user can read internal notes */
+  internal_access: boolean;
+};
+
+const EXCERPT_LENGTH = 140;
+
+/**
+ * GET MENTIONABLE USERS
+ */
+export const getMentionableUsers = async () => {
+  const [{ data, error }, internalReaders] = await Promise.all([
+    supabase.from('user_profiles').select('id, full_name, role').order('full_name'),
+    getUsersWithCapability('comment.internal'),
+  ]);
+  if (error) throw error;
+  return (data as Pick<UserProfile, 'id' | 'full_name' | 'role'>[]).map((user) => ({
+    ...user,
+    internal_access: internalReaders.includes(user.id),
+  })) as MentionableUser[];
+};
+
+/**
+ * Users who can't read internal notes can't be mentioned in one
+ */
+export const canBeMentioned = (user: MentionableUser, internal: boolean) => !internal || user.internal_access;
+
+/**
+ * EXTRACT MENTIONS
+ * Ids of users whose `@Full Name` appears in the text. Longer names are matched
+ * first so "@Ann Lee" doesn't also count as a mention of "Ann".
+ */
+export const extractMentions = (body: string, users: MentionableUser[], internal: boolean): string[] => {
+  const mentioned: string[] = [];
+  let remaining = body;
+
+  for (const user of [...users].sort((a, b) => b.full_name.length - a.full_name.length)) {
+    if (!user.full_name || !canBeMentioned(user, internal)) continue;
+    const token = `@${user.full_name}`;
+    if (remaining.includes(token)) {
+      mentioned.push(user.id);
+      remaining = remaining.split(token).join(' ');
+    }
+  }
+  return mentioned;
+};
+
+/**
+ * Notifies newly mentioned users (never the author)
+ */
+const notifyMentions = async (policy: Policy, comment: PolicyComment, author: UserProfile, userIds: string[]) => {
+  const recipients = userIds.filter((id) => id !== author.id);
+  if (recipients.length === 0) return;
+
+  const excerpt =
+    comment.body.length > EXCERPT_LENGTH ? `${comment.body.slice(0, EXCERPT_LENGTH).trimEnd()}…` : comment.body;
+
+  await notify(
+    'comment_mention',
+    `${author.full_name} mentioned you on policy ${policy.policy_number}`,
+    {
+      policy_number: policy.policy_number,
+      comment_id: comment.id,
+      author: author.full_name,
+      internal: comment.internal,
+      excerpt,
+    },
+    { userIds: recipients, policyId: policy.id }
+  );
+};
+
+/**
+ * GET POLICY COMMENTS
+ * Oldest first; RLS leaves out internal notes for creators
+ */
+export const getPolicyComments = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('policy_comments')
+    .select('*, user_profiles(full_name, role)')
+    .eq('policy_id', policyId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data as PolicyComment[];
+};
+
+/**
+ * ADD COMMENT
+ * Replies to an internal note are always internal
+ */
+export const addPolicyComment = async ({
+  policy,
+  author,
+  body,
+  internal,
+  parent,
+}: {
+  policy: Policy;
+  author: UserProfile;
+  body: string;
+  internal: boolean;
+  parent?: PolicyComment;
+}) => {
+  const isInternal = internal || parent?.internal === true;
+  if (isInternal) await requireCapability('comment.internal', 'write internal notes');
+
+  const text = body.trim();
+  if (!text) throw new Error('Comment cannot be empty');
+
+  const mentions = extractMentions(text, await getMentionableUsers(), isInternal);
+
+  const { data, error } = await supabase
+    .from('policy_comments')
+    .insert({
+      policy_id: policy.id,
+      parent_id: parent?.id ?? null,
+      author_id: author.id,
+      body: text,
+      internal: isInternal,
+      mentions,
+    })
+    .select('*, user_profiles(full_name, role)')
+    .single();
+
+  if (error) throw error;
+  const comment = data as PolicyComment;
+
+  await notifyMentions(policy, comment, author, mentions);
+  return comment;
+};
+
+/**
+ * EDIT COMMENT
+ * Authors only; users mentioned for the first time are notified
+ */
+export const editPolicyComment = async ({
+  policy,
+  comment,
+  author,
+  body,
+}: {
+  policy: Policy;
+  comment: PolicyComment;
+  author: UserProfile;
+  body: string;
+}) => {
+  if (comment.author_id !== author.id) throw new Error('Only the author can edit a comment');
+
+  const text = body.trim();
+  if (!text) throw new Error('Comment cannot be empty');
+
+  const mentions = extractMentions(text, await getMentionableUsers(), comment.internal);
+
+  const { data, error } = await supabase
+    .from('policy_comments')
+    .update({ body: text, mentions })
+    .eq('id', comment.id)
+    .select('*, user_profiles(full_name, role)')
+    .single();
+
+  if (error) throw error;
+  const updated = data as PolicyComment;
+
+  await notifyMentions(
+    policy,
+    updated,
+    author,
+    mentions.filter((id) => !comment.mentions.includes(id))
+  );
+  return updated;
+};
+
+/**
+ * GET COMMENT REVISIONS
+ * Earlier versions of a comment, newest first
+ */
+export const getCommentRevisions = async (commentId: string) => {
+  const { data, error } = await supabase
+    .from('policy_comment_revisions')
+    .select('*')
+    .eq('comment_id', commentId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as PolicyCommentRevision[];
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ApprovalDelegation, Capability } from '../lib/supabase';
+import { isDelegationActive, withDelegations } from './delegationService';
+
+const delegation = (fields: Partial<ApprovalDelegation> = {}): ApprovalDelegation => ({
+  id: 'delegation',
+  delegator_id: 'delegator',
+  delegate_id: 'delegate',
+  role: 'underwriter',
+  starts_at: '2026-10-01T00:00:00.000Z',
+  ends_at: '2026-10-08T00:00:00.000Z',
+  reason: 'Leave',
+  created_by: 'delegator',
+  created_at: '2026-09-30T12:00:00.000Z',
+  revoked_at: null,
+  ...fields,
+});
+
+describe('isDelegationActive', () => {
+  it('is active from its start until its end', () => {
+    expect(isDelegationActive(delegation(), new Date('2026-09-30T23:59:59.000Z'))).toBe(false);
+    expect(isDelegationActive(delegation(), new Date('2026-10-01T00:00:00.000Z'))).toBe(true);
+    expect(isDelegationActive(delegation(), new Date('2026-10-08T00:00:00.000Z'))).toBe(false);
+  });
+
+  it('lapses once revoked', () => {
+    const revoked = delegation({ revoked_at: '2026-10-02T00:00:00.000Z' });
+
+    expect(isDelegationActive(revoked, new Date('2026-10-03T00:00:00.000Z'))).toBe(false);
+  });
+});
+
+describe('withDelegations', () => {
+  const can = (capability: Capability) => capability === 'policy.view';
+
+  it("adds the stage capability of each delegated role to the user's own", () => {
+    const canWithDelegations = withDelegations(can, [delegation()]);
+
+    expect(canWithDelegations('policy.view')).toBe(true);
+    expect(canWithDelegations('policy.approve.underwriter')).toBe(true);
+    expect(canWithDelegations('policy.approve.manager')).toBe(false);
+  });
+
+  it('grants the fraud review capability for a delegated fraud reviewer role', () => {
+    expect(withDelegations(can, [delegation({ role: 'fraud_reviewer' })])('policy.review.fraud')).toBe(true);
+  });
+});
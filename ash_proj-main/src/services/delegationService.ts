@@ -0,0 +1,179 @@
+import { supabase, ApprovalDelegation, ApproverRole, Capability, UserProfile } from '../lib/supabase';
+import { notify } from './notificationService';
+import { getUsersWithCapability, PermissionDeniedError } from './permissionService';
+import { ROLE_LABELS, stageCapability } from './workflowService';
+
+/**
+ * APPROVAL DELEGATIONS
+ * An approver (or an admin on their behalf) can delegate one of their approver
+ * roles to another user for a date range, e.g. while on leave. While the
+ * delegation is active the delegate acts at that role's stages on the
+ * delegator's behalf, with the delegator's authority limit, and the approval
+ * log records both. Delegations are created through the
+ * `create_approval_delegation` database function; `transition_policy` and the
+ * approvers' RLS policy check them through `active_delegations()`.
+ */
+
+/** Roles whose authority can be delegated */
+export const DELEGABLE_ROLES: ApproverRole[] = ['underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer'];
+
+const DELEGATION_SELECT =
+  '*, delegator:user_profiles!approval_delegations_delegator_id_fkey(full_name), delegate:user_profiles!approval_delegations_delegate_id_fkey(full_name)';
+
+/**
+ * Whether the delegation is in its date range and hasn't been revoked (the
+ * database also requires the delegator to still hold the role)
+ */
+export const isDelegationActive = (delegation: ApprovalDelegation, now: Date = new Date()) =>
+  !delegation.revoked_at && new Date(delegation.starts_at) <= now && now < new Date(delegation.ends_at);
+
+/**
+ * Extends `can(capability)` with the stage capabilities the user holds through
+ * active delegations
+ */
+export const withDelegations =
+  (can: (capability: Capability) => boolean, delegations: ApprovalDelegation[]) => (capability: Capability) =>
+    can(capability) || delegations.some((delegation) => stageCapability(delegation.role) === capability);
+
+/**
+ * CREATE DELEGATION
+ * Notifies the delegate
+ */
+export const createDelegation = async (delegation: {
+  delegatorId: string;
+  delegateId: string;
+  role: ApproverRole;
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+}) => {
+  if (delegation.delegatorId === delegation.delegateId) throw new Error('Choose someone else to delegate to');
+  if (new Date(delegation.endsAt) <= new Date(delegation.startsAt)) {
+    throw new Error('A delegation must end after it starts');
+  }
+
+  const { data, error } = await supabase
+    .rpc('create_approval_delegation', {
+      p_delegator_id: delegation.delegatorId,
+      p_delegate_id: delegation.delegateId,
+      p_role: delegation.role,
+      p_starts_at: delegation.startsAt,
+      p_ends_at: delegation.endsAt,
+      p_reason: delegation.reason?.trim() ?? '',
+    })
+    .select(DELEGATION_SELECT)
+    .single();
+
+  if (error) throw error;
+  const created = data as ApprovalDelegation;
+
+  await notify(
+    'delegation_granted',
+    `${created.delegator?.full_name ?? 'An approver'} delegated their ${ROLE_LABELS[created.role]} authority to you`,
+    {
+      delegator: created.delegator?.full_name,
+      role: ROLE_LABELS[created.role],
+      starts_at: new Date(created.starts_at).toLocaleString(),
+      ends_at: new Date(created.ends_at).toLocaleString(),
+      reason: created.reason || undefined,
+    },
+    { userIds: [created.delegate_id] }
+  );
+
+  return created;
+};
+
+/**
+ * REVOKE DELEGATION
+ * Ends a delegation early; the delegator, the delegate or an admin can revoke it
+ */
+export const revokeDelegation = async (delegationId: string) => {
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', delegationId)
+    .is('revoked_at', null)
+    .select(DELEGATION_SELECT)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('This delegation was already revoked or you are not allowed to revoke it');
+  return data as ApprovalDelegation;
+};
+
+/**
+ * GET DELEGATIONS
+ * Delegations made by or to the user, or every delegation without a user;
+ * newest first
+ */
+export const getDelegations = async (userId?: string) => {
+  let query = supabase.from('approval_delegations').select(DELEGATION_SELECT);
+  if (userId) query = query.or(`delegator_id.eq.${userId},delegate_id.eq.${userId}`);
+
+  const { data, error } = await query.order('starts_at', { ascending: false });
+  if (error) throw error;
+  return data as ApprovalDelegation[];
+};
+
+/**
+ * GET ACTIVE DELEGATIONS
+ * Delegations the user can act on right now
+ */
+export const getActiveDelegations = async (delegateId: string) => {
+  const { data, error } = await supabase
+    .rpc('active_delegations', { p_delegate_id: delegateId })
+    .select(DELEGATION_SELECT);
+
+  if (error) throw error;
+  return data as ApprovalDelegation[];
+};
+
+/**
+ * GET ROLE DELEGATIONS
+ * Delegations of the role in effect now, whoever the delegate is; shown on
+ * policies waiting at the role's stage
+ */
+export const getRoleDelegations = async (role: ApproverRole) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .select(DELEGATION_SELECT)
+    .eq('role', role)
+    .is('revoked_at', null)
+    .lte('starts_at', now)
+    .gt('ends_at', now)
+    .order('ends_at');
+
+  if (error) throw error;
+  return data as ApprovalDelegation[];
+};
+
+/**
+ * GET ELIGIBLE USERS
+ * Active users holding the capability, by name: delegators of a role need its
+ * stage capability, delegates need `policy.view`
+ */
+export const getEligibleUsers = async (capability: Capability) => {
+  const userIds = await getUsersWithCapability(capability);
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, full_name, role')
+    .in('id', userIds)
+    .order('full_name');
+  if (error) throw error;
+  return data as Pick<UserProfile, 'id' | 'full_name' | 'role'>[];
+};
+
+/**
+ * REQUIRE DELEGATION
+ * Throws a PermissionDeniedError unless the delegate has an active delegation
+ * of the role from the delegator
+ */
+export const requireDelegation = async (delegateId: string, delegatorId: string, role: ApproverRole) => {
+  const delegations = await getActiveDelegations(delegateId);
+  if (!delegations.some((delegation) => delegation.delegator_id === delegatorId && delegation.role === role)) {
+    throw new PermissionDeniedError(stageCapability(role), `act as ${ROLE_LABELS[role]} on behalf of this user`);
+  }
+};
@@ -0,0 +1,150 @@
+import { supabase, DocumentType, Policy, PolicyDocument } from '../lib/supabase';
+import { getDocumentStorage } from './documentStorage';
+
+/**
+ * POLICY DOCUMENTS
+ * Supporting documents creators attach to draft policies. Files go to storage
+ * (see documentStorage.ts), metadata to `policy_documents`. Uploading a file
+ * with the same type and name as an existing document adds a new version; the
+ * database assigns the version and records the upload in the approval log.
+ */
+
+export const DOCUMENT_TYPES: { id: DocumentType; label: string }[] = [
+  { id: 'id_document', label: 'ID Document' },
+  { id: 'proof_of_address', label: 'Proof of Address' },
+  { id: 'inspection_report', label: 'Inspection Report' },
+  { id: 'medical_form', label: 'Medical Form' },
+  { id: 'financial_statement', label: 'Financial Statement' },
+  { id: 'other', label: 'Other' },
+];
+
+/** Matches the bucket's file size limit */
+export const MAX_DOCUMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+/** Matches the bucket's MIME type allow-list */
+export const ALLOWED_DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+/** Signed URLs are short-lived; they're created on demand for preview/download */
+const SIGNED_URL_TTL_SECONDS = 300;
+
+export const getDocumentTypeLabel = (documentType: DocumentType) =>
+  DOCUMENT_TYPES.find((type) => type.id === documentType)?.label ?? documentType;
+
+/**
+ * Thrown by uploadPolicyDocument when the file or policy doesn't qualify
+ */
+export class DocumentValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join('. '));
+    this.name = 'DocumentValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Uploads are limited to the creator of a draft policy (also enforced by RLS)
+ */
+export const canUploadDocuments = (policy: Policy, userId: string | undefined) =>
+  policy.status === 'draft' && policy.creator_id === userId;
+
+/**
+ * VALIDATE DOCUMENT
+ * Type, size and MIME checks before anything is uploaded
+ */
+export const validateDocument = (file: Pick<File, 'name' | 'size' | 'type'>, documentType: string): string[] => {
+  const errors: string[] = [];
+  if (!DOCUMENT_TYPES.some((type) => type.id === documentType)) errors.push('Select a document type');
+  if (!file.name.trim()) errors.push('The file needs a name');
+  if (file.size === 0) errors.push(`${file.name} is empty`);
+  if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+    errors.push(`${file.name} is larger than ${MAX_DOCUMENT_SIZE_BYTES / (1024 * 1024)} MB`);
+  }
+  if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(file.type)) {
+    errors.push(`${file.name} must be a PDF or an image (JPEG, PNG, WebP, HEIC)`);
+  }
+  return errors;
+};
+
+/**
+ * Object keys only allow a safe character set; the original name is kept in
+ * `file_name`
+ */
+const storageFileName = (fileName: string) => fileName.replace(/[^\w.-]+/g, '_');
+
+/**
+ * UPLOAD POLICY DOCUMENT
+ * Stores the file, then records it; if recording fails the stored file is removed
+ */
+export const uploadPolicyDocument = async ({
+  policy,
+  documentType,
+  file,
+  uploaderId,
+}: {
+  policy: Policy;
+  documentType: DocumentType;
+  file: File;
+  uploaderId: string;
+}) => {
+  const errors = validateDocument(file, documentType);
+  if (!canUploadDocuments(policy, uploaderId)) {
+    errors.unshift('Documents can only be uploaded by the creator while the policy is a draft');
+  }
+  if (errors.length > 0) throw new DocumentValidationError(errors);
+
+  const storage = getDocumentStorage();
+  const storagePath = `${policy.id}/${crypto.randomUUID()}/${storageFileName(file.name)}`;
+  await storage.upload(storagePath, file, file.type);
+
+  const { data, error } = await supabase
+    .from('policy_documents')
+    .insert({
+      policy_id: policy.id,
+      document_type: documentType,
+      file_name: file.name,
+      storage_path: storagePath,
+      mime_type: file.type,
+      size_bytes: file.size,
+      uploaded_by: uploaderId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await storage.remove(storagePath).catch((cleanupError) => {
+      console.error('Error removing unrecorded document:', cleanupError);
+    });
+    throw error;
+  }
+
+  return data as PolicyDocument;
+};
+
+/**
+ * GET POLICY DOCUMENTS
+ * All versions, newest version first within each document
+ */
+export const getPolicyDocuments = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('policy_documents')
+    .select('*')
+    .eq('policy_id', policyId)
+    .order('document_type')
+    .order('file_name')
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data as PolicyDocument[];
+};
+
+/**
+ * GET DOCUMENT URL
+ * A short-lived URL for inline preview, or for download under the original name
+ */
+export const getDocumentUrl = (document: PolicyDocument, download: boolean = false) =>
+  getDocumentStorage().createSignedUrl(document.storage_path, {
+    expiresIn: SIGNED_URL_TTL_SECONDS,
+    download: download ? document.file_name : undefined,
+  });
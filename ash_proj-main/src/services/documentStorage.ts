@@ -0,0 +1,74 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * DOCUMENT STORAGE
+ * Policy documents are stored through an adapter so the document service can
+ * run against an in-memory stand-in instead of Supabase Storage (e.g. in tests).
+ */
+
+export const DOCUMENT_BUCKET = 'policy-documents';
+
+export interface SignedUrlOptions {
+  /** Seconds the URL stays valid */
+  expiresIn: number;
+  /** Serve as an attachment with this file name instead of inline */
+  download?: string;
+}
+
+export interface DocumentStorage {
+  upload: (path: string, file: Blob, contentType: string) => Promise<void>;
+  createSignedUrl: (path: string, options: SignedUrlOptions) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+export const createSupabaseStorage = (bucket: string = DOCUMENT_BUCKET): DocumentStorage => ({
+  upload: async (path, file, contentType) => {
+    const { error } = await supabase.storage.from(bucket).upload(path, file, { contentType, upsert: false });
+    if (error) throw error;
+  },
+  createSignedUrl: async (path, { expiresIn, download }) => {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, expiresIn, download ? { download } : undefined);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+  remove: async (path) => {
+    const { error } = await supabase.storage.from(bucket).remove([path]);
+    if (error) throw error;
+  },
+});
+
+export interface MemoryStorage extends DocumentStorage {
+  objects: Map<string, { file: Blob; contentType: string }>;
+}
+
+export const createMemoryStorage = (): MemoryStorage => {
+  const storage: MemoryStorage = {
+    objects: new Map(),
+    upload: async (path, file, contentType) => {
+      if (storage.objects.has(path)) throw new Error(`Object already exists: ${path}`);
+      storage.objects.set(path, { file, contentType });
+    },
+    createSignedUrl: async (path) => {
+      const object = storage.objects.get(path);
+      if (!object) throw new Error(`Object not found: ${path}`);
+      return URL.createObjectURL(object.file);
+    },
+    remove: async (path) => {
+      storage.objects.delete(path);
+    },
+  };
+  return storage;
+};
+
+let storage: DocumentStorage = createSupabaseStorage();
+
+export const getDocumentStorage = () => storage;
+
+/**
+ * Replaces the active storage (e.g. with a memory storage in tests)
+ */
+export const configureDocumentStorage = (configured: DocumentStorage) => {
+  storage = configured;
+};
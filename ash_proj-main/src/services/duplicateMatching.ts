@@ -0,0 +1,47 @@
+import { PolicyDetails, RelatedPolicy } from '../lib/supabase';
+
+/**
+ * DUPLICATE MATCHING
+ * Pure rules for comparing a policy with the related policies found by
+ * duplicateService: how they resemble each other, for display, and the
+ * premium and rejection tests the fraud rules `duplicate_policy` and
+ * `rejected_resubmission` build on.
+ */
+
+export type RelatedPolicyQuery = Pick<PolicyDetails, 'customer_name' | 'product_type' | 'premium_amount'>;
+
+/** Premiums within this fraction of each other count as similar */
+export const SIMILAR_PREMIUM_TOLERANCE = 0.1;
+
+/** Rejections within this many days count as recent */
+export const RECENT_REJECTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isSimilarPremium = (a: number, b: number, tolerance: number = SIMILAR_PREMIUM_TOLERANCE) =>
+  Math.abs(a - b) <= tolerance * Math.max(a, b);
+
+export const isRecentRejection = (match: RelatedPolicy, days: number = RECENT_REJECTION_DAYS) =>
+  !!match.rejected_at && Date.now() - new Date(match.rejected_at).getTime() <= days * DAY_MS;
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Why a related policy looks like a possible duplicate, for display
+ */
+export const getMatchReasons = (match: RelatedPolicy, query: RelatedPolicyQuery) => {
+  const reasons = [
+    normalizeName(match.customer_name) === normalizeName(query.customer_name)
+      ? 'Same customer name'
+      : `Similar customer name (${Math.round(match.name_similarity * 100)}% match)`,
+  ];
+  if (match.product_type === query.product_type) reasons.push('Same product');
+  if (query.premium_amount > 0 && isSimilarPremium(match.premium_amount, query.premium_amount)) {
+    reasons.push('Similar premium');
+  }
+  if (isRecentRejection(match)) {
+    const days = Math.floor((Date.now() - new Date(match.rejected_at!).getTime()) / DAY_MS);
+    reasons.push(days === 0 ? 'Rejected today' : `Rejected ${days} day${days === 1 ? '' : 's'} ago`);
+  }
+  return reasons;
+};
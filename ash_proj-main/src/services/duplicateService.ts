@@ -0,0 +1,36 @@
+import { supabase, RelatedPolicy } from '../lib/supabase';
+
+/**
+ * DUPLICATE DETECTION
+ * Finds existing policies for the same (or a closely matching) customer name.
+ * How each one resembles the policy being created or reviewed is worked out
+ * by duplicateMatching, and the fraud rules `duplicate_policy` and
+ * `rejected_resubmission` turn these matches into risk factors.
+ */
+
+/** Minimum trigram similarity for two customer names to count as a match */
+export const MIN_NAME_SIMILARITY = 0.6;
+
+const MAX_RELATED_POLICIES = 10;
+
+/**
+ * FIND RELATED POLICIES
+ * Policies visible to the caller whose customer name matches, best match
+ * first. `excludePolicyId` leaves out the policy being checked itself.
+ */
+export const findRelatedPolicies = async (customerName: string, excludePolicyId?: string) => {
+  if (!customerName.trim()) return [];
+
+  const { data, error } = await supabase.rpc('find_related_policies', {
+    p_customer_name: customerName,
+    p_exclude_policy_id: excludePolicyId ?? null,
+    p_min_similarity: MIN_NAME_SIMILARITY,
+    p_limit: MAX_RELATED_POLICIES,
+  });
+
+  if (error) throw error;
+  return ((data ?? []) as RelatedPolicy[]).map((match) => ({
+    ...match,
+    premium_amount: Number(match.premium_amount),
+  }));
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { RelatedPolicy } from '../lib/supabase';
+import { evaluateFraudRules, FraudCheckInput } from './fraudService';
+
+const related = (fields: Partial<RelatedPolicy> = {}) =>
+  ({
+    id: 'related',
+    policy_number: 'POL-000001',
+    customer_name: 'Ada Lovelace',
+    product_type: 'AUTO',
+    premium_amount: 1200,
+    status: 'approved',
+    created_at: '2026-10-01T09:00:00.000Z',
+    rejected_at: null,
+    name_similarity: 1,
+    ...fields,
+  }) as RelatedPolicy;
+
+const policy = (fields: Partial<FraudCheckInput> = {}): FraudCheckInput => ({
+  customer_name: 'Ada Lovelace',
+  premium_amount: 1250,
+  product_type: 'AUTO',
+  related_policies: [],
+  ...fields,
+});
+
+const fired = (input: FraudCheckInput) =>
+  evaluateFraudRules(input)
+    .rules.filter((rule) => rule.fired)
+    .map((rule) => rule.id);
+
+describe('evaluateFraudRules', () => {
+  it('passes a plausible policy with every rule reported', () => {
+    const result = evaluateFraudRules(policy());
+
+    expect(result).toMatchObject({ passed: true, score: 0, threshold: 50 });
+    expect(result.rules.map((rule) => rule.id)).toEqual([
+      'high_premium',
+      'round_premium',
+      'invalid_customer_name',
+      'duplicate_policy',
+      'rejected_resubmission',
+    ]);
+  });
+
+  it('sums the weights of the rules that fire and fails at the threshold', () => {
+    const large = policy({ premium_amount: 200000 });
+
+    expect(fired(large)).toEqual(['high_premium', 'round_premium']);
+    expect(evaluateFraudRules(large)).toMatchObject({ passed: true, score: 40 });
+    expect(evaluateFraudRules({ ...large, customer_name: '42' })).toMatchObject({
+      passed: false,
+      score: 80,
+      reason:
+        'Fraud risk detected: Unusually high premium amount, Large premium entered as a round number, ' +
+        'Invalid customer name format (Risk Score: 80)',
+    });
+  });
+
+  it("applies the product's rule set", () => {
+    const trip = policy({ product_type: 'TRAVEL', premium_amount: 12000.5 });
+
+    expect(evaluateFraudRules(trip)).toMatchObject({ passed: false, score: 50 });
+    expect(evaluateFraudRules({ ...trip, product_type: 'AUTO' })).toMatchObject({ passed: true, score: 0 });
+  });
+
+  it('flags a similar policy for the same product as a possible duplicate', () => {
+    expect(fired(policy({ related_policies: [related()] }))).toEqual(['duplicate_policy']);
+    expect(fired(policy({ related_policies: [related({ premium_amount: 2000 })] }))).toEqual([]);
+    expect(fired(policy({ related_policies: [related({ product_type: 'HOME' })] }))).toEqual([]);
+  });
+
+  it('fails a resubmission of a recently rejected policy', () => {
+    const rejected = related({ status: 'rejected', premium_amount: 5000, rejected_at: new Date().toISOString() });
+    const longAgo = related({ status: 'rejected', premium_amount: 5000, rejected_at: '2020-01-01T00:00:00.000Z' });
+
+    expect(evaluateFraudRules(policy({ related_policies: [rejected] }))).toMatchObject({ passed: false, score: 50 });
+    expect(fired(policy({ related_policies: [longAgo] }))).toEqual([]);
+  });
+});
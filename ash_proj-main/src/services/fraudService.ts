@@ -0,0 +1,199 @@
+import { FraudCheckDetails, FraudRuleResult, RelatedPolicy } from '../lib/supabase';
+import { isRecentRejection, isSimilarPremium, RECENT_REJECTION_DAYS, SIMILAR_PREMIUM_TOLERANCE } from './duplicateMatching';
+
+/**
+ * FRAUD RULES ENGINE
+ * Deterministic, rule-based fraud scoring. Every rule has a stable id, a
+ * weight and an explanation; the engine sums the weights of the rules that
+ * fire and compares the total against the product's threshold. The same
+ * policy data always produces the same decision, so auditors can reproduce it.
+ */
+
+export interface FraudCheckInput {
+  customer_name: string;
+  premium_amount: number;
+  product_type: string;
+  /** Existing policies with a matching customer name (see duplicateService) */
+  related_policies?: RelatedPolicy[];
+}
+
+export type FraudRuleParams = Record<string, number>;
+
+export interface FraudRule {
+  id: string;
+  weight: number;
+  explanation: string;
+  params?: FraudRuleParams;
+  evaluate: (policy: FraudCheckInput, params: FraudRuleParams) => boolean;
+}
+
+export interface FraudRuleSetting {
+  id: string;
+  weight?: number;
+  params?: FraudRuleParams;
+}
+
+export interface FraudRuleSet {
+  threshold: number;
+  rules: FraudRuleSetting[];
+}
+
+export interface FraudCheckResult extends FraudCheckDetails {
+  passed: boolean;
+  reason: string;
+}
+
+/**
+ * RULE REGISTRY
+ * Built-in rules; additional rules can be plugged in with registerFraudRule()
+ */
+const fraudRules = new Map<string, FraudRule>();
+
+export const registerFraudRule = (rule: FraudRule) => {
+  fraudRules.set(rule.id, rule);
+};
+
+export const getFraudRule = (ruleId: string) => fraudRules.get(ruleId);
+
+registerFraudRule({
+  id: 'high_premium',
+  weight: 30,
+  explanation: 'Unusually high premium amount',
+  params: { limit: 100000 },
+  evaluate: (policy, params) => policy.premium_amount > params.limit,
+});
+
+registerFraudRule({
+  id: 'low_premium',
+  weight: 25,
+  explanation: 'Premium below the plausible minimum for this product',
+  params: { minimum: 0 },
+  evaluate: (policy, params) => policy.premium_amount < params.minimum,
+});
+
+registerFraudRule({
+  id: 'round_premium',
+  weight: 10,
+  explanation: 'Large premium entered as a round number',
+  params: { minimum: 10000, multiple: 1000 },
+  evaluate: (policy, params) =>
+    policy.premium_amount >= params.minimum && policy.premium_amount % params.multiple === 0,
+});
+
+registerFraudRule({
+  id: 'invalid_customer_name',
+  weight: 40,
+  explanation: 'Invalid customer name format',
+  evaluate: (policy) => {
+    const name = policy.customer_name.trim();
+    return name.length < 3 || /^\d+$/.test(name);
+  },
+});
+
+registerFraudRule({
+  id: 'duplicate_policy',
+  weight: 30,
+  explanation: 'Possible duplicate of an existing policy (same customer, product and similar premium)',
+  params: { premium_tolerance: SIMILAR_PREMIUM_TOLERANCE },
+  evaluate: (policy, params) =>
+    (policy.related_policies ?? []).some(
+      (match) =>
+        match.product_type === policy.product_type &&
+        isSimilarPremium(match.premium_amount, policy.premium_amount, params.premium_tolerance)
+    ),
+});
+
+registerFraudRule({
+  id: 'rejected_resubmission',
+  weight: 50,
+  explanation: 'Same customer and product were recently rejected',
+  params: { days: RECENT_REJECTION_DAYS },
+  evaluate: (policy, params) =>
+    (policy.related_policies ?? []).some(
+      (match) => match.product_type === policy.product_type && isRecentRejection(match, params.days)
+    ),
+});
+
+/**
+ * RULE SETS PER PRODUCT TYPE
+ * Keyed by product code; products without an entry use the default rule set
+ */
+export const DEFAULT_FRAUD_RULE_SET: FraudRuleSet = {
+  threshold: 50,
+  rules: [
+    { id: 'high_premium' },
+    { id: 'round_premium' },
+    { id: 'invalid_customer_name' },
+    { id: 'duplicate_policy' },
+    { id: 'rejected_resubmission' },
+  ],
+};
+
+export const FRAUD_RULE_SETS: Record<string, FraudRuleSet> = {
+  TRAVEL: {
+    threshold: 50,
+    rules: [
+      { id: 'high_premium', weight: 50, params: { limit: 10000 } },
+      { id: 'round_premium', params: { minimum: 2000, multiple: 500 } },
+      { id: 'invalid_customer_name' },
+      { id: 'duplicate_policy' },
+      { id: 'rejected_resubmission' },
+    ],
+  },
+  LIFE: {
+    threshold: 50,
+    rules: [
+      { id: 'high_premium', params: { limit: 250000 } },
+      { id: 'low_premium', params: { minimum: 100 } },
+      { id: 'round_premium' },
+      { id: 'invalid_customer_name' },
+      { id: 'duplicate_policy' },
+      { id: 'rejected_resubmission' },
+    ],
+  },
+  BUSINESS: {
+    threshold: 50,
+    rules: [
+      { id: 'high_premium', params: { limit: 500000 } },
+      { id: 'round_premium', params: { minimum: 50000, multiple: 5000 } },
+      { id: 'invalid_customer_name' },
+      { id: 'duplicate_policy' },
+      { id: 'rejected_resubmission' },
+    ],
+  },
+};
+
+export const getFraudRuleSet = (productType: string): FraudRuleSet =>
+  FRAUD_RULE_SETS[productType] ?? DEFAULT_FRAUD_RULE_SET;
+
+/**
+ * EVALUATE FRAUD RULES
+ * Runs every rule configured for the policy's product type and returns the
+ * full breakdown, including rules that did not fire
+ */
+export const evaluateFraudRules = (
+  policy: FraudCheckInput,
+  ruleSet: FraudRuleSet = getFraudRuleSet(policy.product_type)
+): FraudCheckResult => {
+  const results: FraudRuleResult[] = ruleSet.rules.map((setting) => {
+    const rule = getFraudRule(setting.id);
+    if (!rule) throw new Error(`Unknown fraud rule: ${setting.id}`);
+
+    const params = { ...rule.params, ...setting.params };
+    return {
+      id: rule.id,
+      weight: setting.weight ?? rule.weight,
+      explanation: rule.explanation,
+      fired: rule.evaluate(policy, params),
+    };
+  });
+
+  const fired = results.filter((result) => result.fired);
+  const score = fired.reduce((total, result) => total + result.weight, 0);
+  const passed = score < ruleSet.threshold;
+  const reason = passed
+    ? 'All fraud checks passed successfully'
+    : `Fraud risk detected: ${fired.map((result) => result.explanation).join(', ')} (Risk Score: ${score})`;
+
+  return { passed, reason, score, threshold: ruleSet.threshold, rules: results };
+};
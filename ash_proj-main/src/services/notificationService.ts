@@ -0,0 +1,118 @@
+import { supabase, AppNotification, NotificationType, UserRole } from '../lib/supabase';
+
+export interface NotificationTarget {
+  roles?: UserRole[];
+  userIds?: string[];
+  policyId?: string;
+}
+
+const NOTIFICATION_EMOJI: Record<NotificationType, string> = {
+  policy_created: '📝',
+  policy_updated: '✏️',
+  policy_submitted: '📤',
+  approval_required: '⏳',
+  policy_approved: '✅',
+  policy_rejected: '❌',
+  policy_returned: '↩️',
+  fraud_alert: '🚨',
+  comment_mention: '💬',
+  user_invited: '✉️',
+  delegation_granted: '🤝',
+  policy_assigned: '📥',
+  sla_reminder: '⏰',
+  sla_breached: '🚩',
+};
+
+/**
+ * NOTIFICATION SYSTEM
+ * Logs workflow events to the console and stores an in-app notification for
+ * every targeted recipient through the `notify` database function, which
+ * expands roles into their holders and current delegates, skips deactivated
+ * users and refuses senders who aren't involved in the policy. Routed events
+ * go out by email and webhook from those rows on the next scheduled run of the
+ * `deliver-notifications` Edge Function. Never throws: a failed notification
+ * must not undo the workflow action that triggered it.
+ */
+export const notify = async (
+  type: NotificationType,
+  message: string,
+  data?: Record<string, unknown>,
+  target?: NotificationTarget
+) => {
+  const timestamp = new Date().toISOString();
+  const emoji = NOTIFICATION_EMOJI[type] || '📢';
+
+  console.log(`${emoji} NOTIFICATION [${type.toUpperCase()}]:`, {
+    message,
+    timestamp,
+    ...data,
+  });
+
+  if (!target) return;
+
+  try {
+    const { error } = await supabase.rpc('notify', {
+      p_type: type,
+      p_message: message,
+      p_data: data ?? {},
+      p_policy_id: target.policyId ?? null,
+      p_user_ids: target.userIds ?? [],
+      p_roles: target.roles ?? [],
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error storing notification:', error);
+  }
+};
+
+/**
+ * GET NOTIFICATIONS
+ * Latest notifications for a user, newest first
+ */
+export const getNotifications = async (userId: string, limit: number = 20) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('recipient_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data as AppNotification[];
+};
+
+/**
+ * GET UNREAD COUNT
+ */
+export const getUnreadCount = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * MARK AS READ
+ */
+export const markNotificationRead = async (notificationId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId);
+
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
@@ -0,0 +1,72 @@
+import { supabase, Capability, UserRoleGrant } from '../lib/supabase';
+
+/**
+ * PERMISSIONS
+ * Access is described by named capabilities, mapped to roles in
+ * `role_capabilities`; a user holds every capability of every role in
+ * `user_roles`, as long as their account is active. RLS policies check the
+ * same capabilities through `has_capability()`, so the checks here give a
+ * clear error before the database refuses the change.
+ */
+
+/**
+ * Thrown by service functions when the user lacks the capability an action needs
+ */
+export class PermissionDeniedError extends Error {
+  capability: Capability;
+
+  constructor(capability: Capability, action: string) {
+    super(`You don't have permission to ${action}`);
+    this.name = 'PermissionDeniedError';
+    this.capability = capability;
+  }
+}
+
+/**
+ * GET CAPABILITIES
+ * Every capability of the signed-in user
+ */
+export const getCapabilities = async () => {
+  const { data, error } = await supabase.rpc('current_user_capabilities');
+  if (error) throw error;
+  return (data ?? []) as Capability[];
+};
+
+/**
+ * HAS CAPABILITY
+ */
+export const hasCapability = async (capability: Capability) => {
+  const { data, error } = await supabase.rpc('has_capability', { p_capability: capability });
+  if (error) throw error;
+  return data === true;
+};
+
+/**
+ * REQUIRE CAPABILITY
+ * Throws a PermissionDeniedError unless the signed-in user has the capability
+ */
+export const requireCapability = async (capability: Capability, action: string) => {
+  if (!(await hasCapability(capability))) {
+    throw new PermissionDeniedError(capability, action);
+  }
+};
+
+/**
+ * GET USERS WITH CAPABILITY
+ * Ids of active users holding the capability
+ */
+export const getUsersWithCapability = async (capability: Capability) => {
+  const { data, error } = await supabase.rpc('users_with_capability', { p_capability: capability });
+  if (error) throw error;
+  return (data ?? []) as string[];
+};
+
+/**
+ * GET USER ROLES
+ * Every role a user holds, their primary role included
+ */
+export const getUserRoles = async (userId: string) => {
+  const { data, error } = await supabase.from('user_roles').select('*').eq('user_id', userId).order('granted_at');
+  if (error) throw error;
+  return data as UserRoleGrant[];
+};
@@ -1,103 +1,139 @@
-import { supabase, Policy, PolicyStatus, ApprovalAction } from '../lib/supabase';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase, FraudCheckEvent, FraudCheckRecord, FraudFlagStatus, Policy, PolicyChangeSet, PolicyDetails, RatingDetails, PolicyStatus, ApprovalAction, ApproverRole, PolicyQuery, PolicyPage } from '../lib/supabase';
+import { notify, NotificationTarget } from './notificationService';
+import { getApprovalLimit, getEscalationRole } from './authorityService';
+import { PolicyValidationError, validatePolicyDetails } from './policyValidation';
+import { getProduct, validateProductSelection } from './productService';
+import { isPremiumOverride, ratePolicy } from './ratingService';
+import { evaluateFraudRules, FraudCheckInput, FraudCheckResult } from './fraudService';
+import { findRelatedPolicies } from './duplicateService';
+import { requireDelegation } from './delegationService';
+import { requireCapability } from './permissionService';
+import {
+  escalationStage,
+  FRAUD_REVIEW_STAGE,
+  getCurrentStage,
+  getFirstStage,
+  getNextStage,
+  getPolicyWorkflow,
+  getStatusLabel,
+  getStatusRole,
+  isFraudReviewStatus,
+  ROLE_LABELS,
+  stageCapability,
+  stageStatus,
+  WorkflowStage,
+} from './workflowService';
 
 /**
- * FRAUD CHECK SIMULATION
- * Uses random logic to simulate AI-based fraud detection
- * Returns pass/fail with reasoning
+ * FRAUD CHECK
+ * Scores the policy against the rule set configured for its product type,
+ * including how it compares to existing policies for the same customer
+ * (`policyId` leaves the policy itself out of that search)
+ * Returns pass/fail, a summary reason and the per-rule breakdown
  */
-export const performFraudCheck = (policy: {
-  customer_name: string;
-  premium_amount: number;
-  product_type: string;
-}): { passed: boolean; reason: string } => {
-  const riskFactors: string[] = [];
-  let riskScore = 0;
-
-  // Random AI simulation: 20% chance of fraud detection
-  const randomFraudFlag = Math.random() < 0.2;
-
-  if (randomFraudFlag) {
-    riskFactors.push('Anomalous pattern detected by AI model');
-    riskScore += 50;
-  }
-
-  // Check premium amount (very high premiums are suspicious)
-  if (policy.premium_amount > 100000) {
-    riskFactors.push('Unusually high premium amount');
-    riskScore += 30;
-  }
-
-  // Check customer name for suspicious patterns
-  if (policy.customer_name.length < 3 || /^\d+$/.test(policy.customer_name)) {
-    riskFactors.push('Invalid customer name format');
-    riskScore += 40;
-  }
-
-  const passed = riskScore < 50;
-  const reason = passed
-    ? 'All fraud checks passed successfully'
-    : `Fraud risk detected: ${riskFactors.join(', ')} (Risk Score: ${riskScore})`;
+export const performFraudCheck = async (
+  policy: Omit<FraudCheckInput, 'related_policies'>,
+  policyId?: string
+): Promise<FraudCheckResult> => {
+  const relatedPolicies = await findRelatedPolicies(policy.customer_name, policyId);
+  const result = evaluateFraudRules({ ...policy, related_policies: relatedPolicies });
 
   // NOTIFICATION: Log fraud check result
   console.log('🔍 FRAUD CHECK NOTIFICATION:', {
     customer: policy.customer_name,
-    result: passed ? 'PASSED' : 'FAILED',
-    reason,
+    result: result.passed ? 'PASSED' : 'FAILED',
+    score: result.score,
+    rules_fired: result.rules.filter((rule) => rule.fired).map((rule) => rule.id),
+    related_policies: relatedPolicies.map((match) => match.policy_number),
     timestamp: new Date().toISOString(),
   });
 
-  return { passed, reason };
+  return result;
 };
 
 /**
- * NOTIFICATION SYSTEM
- * Logs notifications to console for workflow events
+ * Stores a fraud check result on the draft policy and in its fraud check
+ * history (`fraud_checks`); the database sets the fraud flag. Returns the
+ * updated policy.
  */
-export const notify = (type: string, message: string, data?: any) => {
-  const timestamp = new Date().toISOString();
-  const emoji = {
-    policy_created: '📝',
-    policy_submitted: '📤',
-    approval_required: '⏳',
-    policy_approved: '✅',
-    policy_rejected: '❌',
-    fraud_alert: '🚨',
-  }[type] || '📢';
-
-  console.log(`${emoji} NOTIFICATION [${type.toUpperCase()}]:`, {
-    message,
-    timestamp,
-    ...data,
+const recordFraudCheck = async (policyId: string, event: FraudCheckEvent, result: FraudCheckResult) => {
+  const { data, error } = await supabase.rpc('record_fraud_check', {
+    p_policy_id: policyId,
+    p_event: event,
+    p_passed: result.passed,
+    p_reason: result.reason,
+    p_details: {
+      score: result.score,
+      threshold: result.threshold,
+      rules: result.rules,
+    },
   });
+
+  if (error) throw error;
+  return data as Policy;
 };
 
+export const DEFAULT_PAGE_SIZE = 25;
+
+/** SQLSTATE raised by transition_policy when the expected status no longer holds */
+const TRANSITION_CONFLICT_CODE = 'PT409';
+
 /**
  * Generate unique policy number
+ * Formatted per product type by the database (see policy_number_formats); a
+ * failure aborts policy creation rather than inventing a number client-side
  */
-const generatePolicyNumber = async (): Promise<string> => {
-  const { data, error } = await supabase.rpc('generate_policy_number');
-  if (error || !data) {
-    const timestamp = Date.now();
-    return `POL-${timestamp}`;
+const generatePolicyNumber = async (productType: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('generate_policy_number', { p_product_type: productType });
+  if (error) throw error;
+  if (!data) throw new Error('Could not generate a policy number');
+  return data as string;
+};
+
+/**
+ * Field rules, the catalog check (the product must exist, be active and accept
+ * the premium) and the rating check (a premium that deviates from the rated
+ * premium needs a justification). Returns the rating.
+ */
+const assertValidPolicyDetails = async (details: PolicyDetails) => {
+  const product = details.product_type ? await getProduct(details.product_type) : null;
+  const rating = ratePolicy(details, product);
+  const errors = [
+    ...validatePolicyDetails(details, product),
+    ...validateProductSelection(product, details.product_type, details.premium_amount),
+  ];
+  if (isPremiumOverride(details.premium_amount, rating) && !details.premium_override_reason?.trim()) {
+    errors.push(`Premium differs from the rated premium of ${rating!.rated_premium}; a justification is required`);
   }
-  return data;
+  if (errors.length > 0) throw new PolicyValidationError(errors);
+  return rating;
 };
 
+/**
+ * The override reason, sent only while the premium deviates from the rated
+ * premium. The database rates the draft itself (see `rate_policy`) and stores
+ * `rated_premium` and `rating_details`, so they aren't sent.
+ */
+const ratingColumns = (details: PolicyDetails, rating: RatingDetails | null) => ({
+  premium_override_reason: isPremiumOverride(details.premium_amount, rating)
+    ? details.premium_override_reason!.trim()
+    : null,
+});
+
 /**
  * CREATE POLICY
- * Creates a new policy with fraud check
+ * Validates the policy details and creates a new policy with fraud check
  */
-export const createPolicy = async (policyData: {
-  customer_name: string;
-  premium_amount: number;
-  product_type: string;
-  creator_id: string;
-}) => {
+export const createPolicy = async (policyData: PolicyDetails & { creator_id: string }) => {
+  await requireCapability('policy.create', 'create policies');
+  const rating = await assertValidPolicyDetails(policyData);
+
   // Run fraud check
-  const fraudCheck = performFraudCheck(policyData);
+  const fraudCheck = await performFraudCheck(policyData);
 
   // Generate policy number
-  const policyNumber = await generatePolicyNumber();
+  const policyNumber = await generatePolicyNumber(policyData.product_type);
 
   const { data, error } = await supabase
     .from('policies')
@@ -106,83 +142,192 @@ export const createPolicy = async (policyData: {
       customer_name: policyData.customer_name,
       premium_amount: policyData.premium_amount,
       product_type: policyData.product_type,
+      coverage_amount: policyData.coverage_amount,
+      deductible: policyData.deductible,
+      effective_date: policyData.effective_date,
+      expiry_date: policyData.expiry_date,
+      insured_email: policyData.insured_email,
+      insured_phone: policyData.insured_phone,
+      insured_address: policyData.insured_address,
+      product_attributes: policyData.product_attributes,
+      prior_claims: policyData.prior_claims,
+      ...ratingColumns(policyData, rating),
       creator_id: policyData.creator_id,
-      fraud_check_passed: fraudCheck.passed,
-      fraud_check_reason: fraudCheck.reason,
       status: 'draft',
     })
     .select()
     .single();
 
   if (error) throw error;
+  const created = await recordFraudCheck(data.id, 'create', fraudCheck);
 
-  notify('policy_created', 'New policy created', {
-    policy_number: policyNumber,
-    customer: policyData.customer_name,
-    fraud_check: fraudCheck.passed ? 'passed' : 'failed',
-  });
+  await notify(
+    'policy_created',
+    'New policy created',
+    {
+      policy_number: policyNumber,
+      customer: policyData.customer_name,
+      fraud_check: fraudCheck.passed ? 'passed' : 'failed',
+    },
+    { userIds: [policyData.creator_id], policyId: data.id }
+  );
 
   if (!fraudCheck.passed) {
-    notify('fraud_alert', 'Policy flagged for fraud review', {
-      policy_number: policyNumber,
-      reason: fraudCheck.reason,
-    });
+    await notify(
+      'fraud_alert',
+      'Policy flagged for fraud review',
+      {
+        policy_number: policyNumber,
+        reason: fraudCheck.reason,
+      },
+      { roles: [FRAUD_REVIEW_STAGE.role], userIds: [policyData.creator_id], policyId: data.id }
+    );
   }
 
-  return data;
+  return created;
 };
 
 /**
  * UPDATE POLICY
- * Updates a draft policy (only allowed for creators on their own drafts)
+ * Updates a draft policy (only allowed for creators on their own drafts). The
+ * merged result must still pass validation and is fraud-checked again; any
+ * earlier fraud review decision no longer applies to the edited policy.
  */
-export const updatePolicy = async (
-  policyId: string,
-  updates: {
-    customer_name?: string;
-    premium_amount?: number;
-    product_type?: string;
-  }
-) => {
-  const { data, error } = await supabase
+export const updatePolicy = async (policyId: string, updates: Partial<PolicyDetails>) => {
+  await requireCapability('policy.edit', 'edit policies');
+  const current = await getPolicy(policyId);
+  if (!current) throw new Error('Policy not found');
+
+  const merged = { ...current, ...updates } as PolicyDetails;
+  const rating = await assertValidPolicyDetails(merged);
+  const fraudCheck = await performFraudCheck(merged, policyId);
+
+  const { error } = await supabase
     .from('policies')
-    .update(updates)
-    .eq('id', policyId)
-    .select()
-    .single();
+    .update({ ...updates, ...ratingColumns(merged, rating) })
+    .eq('id', policyId);
 
   if (error) throw error;
-
-  notify('policy_updated', 'Policy updated', {
-    policy_id: policyId,
-    updates,
-  });
+  const data = await recordFraudCheck(policyId, 'update', fraudCheck);
+
+  await notify(
+    'policy_updated',
+    'Policy updated',
+    {
+      policy_number: data.policy_number,
+      updates,
+      fraud_check: fraudCheck.passed ? 'passed' : 'failed',
+    },
+    { userIds: [data.creator_id], policyId }
+  );
+
+  // Alert only when an edit turns a passing policy into a failing one
+  if (!fraudCheck.passed && current.fraud_check_passed) {
+    await notify(
+      'fraud_alert',
+      'Edited policy flagged for fraud review',
+      {
+        policy_number: current.policy_number,
+        reason: fraudCheck.reason,
+      },
+      { roles: [FRAUD_REVIEW_STAGE.role], userIds: [current.creator_id], policyId }
+    );
+  }
 
   return data;
 };
 
 /**
  * GET POLICIES
- * Retrieves policies based on user role and filters
+ * Server-side filtered, sorted and paginated policy listing. The search term
+ * matches policy_number and customer_name (trigram-indexed ILIKE).
  */
-export const getPolicies = async (filters?: {
-  status?: PolicyStatus;
-  creator_id?: string;
-}) => {
-  let query = supabase.from('policies').select('*').order('created_at', { ascending: false });
+export const getPolicies = async (query: PolicyQuery = {}): Promise<PolicyPage> => {
+  const page = Math.max(1, query.page ?? 1);
+  const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+  const from = (page - 1) * pageSize;
+
+  const { data, error, count } = await applyPolicyFilters(
+    supabase.from('policies').select('*', { count: 'exact' }),
+    query
+  )
+    .order(query.sortBy ?? 'created_at', { ascending: query.sortDirection === 'asc' })
+    .order('id', { ascending: true })
+    .range(from, from + pageSize - 1);
 
-  if (filters?.status) {
-    query = query.eq('status', filters.status);
-  }
+  if (error) throw error;
+  return { policies: data as Policy[], total: count ?? 0, page, pageSize };
+};
+
+/**
+ * COUNT POLICIES
+ * Number of policies matching the filters, without fetching rows
+ */
+export const countPolicies = async (query: PolicyQuery = {}) => {
+  const { count, error } = await applyPolicyFilters(
+    supabase.from('policies').select('id', { count: 'exact', head: true }),
+    query
+  );
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * Strips characters that would break out of a PostgREST `or=(...)` filter
+ */
+const sanitizeSearchTerm = (term: string) => term.replace(/[,()*%\\]/g, ' ').trim();
+
+type PolicyFilterBuilder = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+const applyPolicyFilters = (builder: PolicyFilterBuilder, query: PolicyQuery) => {
+  let filtered = builder;
 
-  if (filters?.creator_id) {
-    query = query.eq('creator_id', filters.creator_id);
+  if (query.status) filtered = filtered.eq('status', query.status);
+  if (query.statuses) filtered = filtered.in('status', query.statuses);
+  if (query.creator_id) filtered = filtered.eq('creator_id', query.creator_id);
+  if (query.premiumMin !== undefined) filtered = filtered.gte('premium_amount', query.premiumMin);
+  if (query.premiumMax !== undefined) filtered = filtered.lte('premium_amount', query.premiumMax);
+  if (query.createdFrom) filtered = filtered.gte('created_at', query.createdFrom);
+  if (query.createdTo) filtered = filtered.lte('created_at', query.createdTo);
+  if (query.assignedTo) filtered = filtered.eq('assigned_to', query.assignedTo);
+
+  const term = query.search ? sanitizeSearchTerm(query.search) : '';
+  if (term) {
+    filtered = filtered.or(`policy_number.ilike.%${term}%,customer_name.ilike.%${term}%`);
   }
 
-  const { data, error } = await query;
+  return filtered;
+};
 
-  if (error) throw error;
-  return data as Policy[];
+/**
+ * Case-insensitive `ILIKE %term%` (where `_` matches any character)
+ */
+const containsTerm = (value: string, term: string) =>
+  new RegExp(term.replace(/[.+?^${}|[\]\\]/g, '\\$&').replace(/_/g, '.'), 'i').test(value);
+
+/**
+ * MATCHES POLICY QUERY
+ * Whether a policy passes the query's filters, mirroring applyPolicyFilters
+ * for rows received outside a fetch (realtime changes)
+ */
+export const matchesPolicyQuery = (policy: Policy, query: PolicyQuery) => {
+  const premium = Number(policy.premium_amount);
+  const createdAt = Date.parse(policy.created_at);
+
+  if (query.status && policy.status !== query.status) return false;
+  if (query.statuses && !query.statuses.includes(policy.status)) return false;
+  if (query.creator_id && policy.creator_id !== query.creator_id) return false;
+  if (query.assignedTo && policy.assigned_to !== query.assignedTo) return false;
+  if (query.premiumMin !== undefined && premium < query.premiumMin) return false;
+  if (query.premiumMax !== undefined && premium > query.premiumMax) return false;
+  if (query.createdFrom && createdAt < Date.parse(query.createdFrom)) return false;
+  if (query.createdTo && createdAt > Date.parse(query.createdTo)) return false;
+
+  const term = query.search ? sanitizeSearchTerm(query.search) : '';
+  if (term && !containsTerm(policy.policy_number, term) && !containsTerm(policy.customer_name, term)) return false;
+
+  return true;
 };
 
 /**
@@ -200,102 +345,461 @@ export const getPolicy = async (policyId: string) => {
 };
 
 /**
- * SUBMIT POLICY FOR APPROVAL
- * Moves policy from draft to pending_underwriter
+ * LATEST POLICY UPDATE
+ * The most recent `updated_at` among visible policies (server time), or null
  */
-export const submitPolicy = async (policyId: string, creatorId: string) => {
-  const policy = await getPolicy(policyId);
-  if (!policy) throw new Error('Policy not found');
-
+export const getLatestPolicyUpdate = async () => {
   const { data, error } = await supabase
     .from('policies')
-    .update({ status: 'pending_underwriter' })
-    .eq('id', policyId)
-    .select()
-    .single();
+    .select('updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
   if (error) throw error;
+  return (data?.updated_at as string | undefined) ?? null;
+};
 
-  // Log the submission
-  await logApproval(policyId, creatorId, 'submitted', 'creator', '', 'draft', 'pending_underwriter');
+/**
+ * TRANSITION CONFLICT
+ * Thrown when a policy is no longer in the status the caller expected,
+ * typically because another user acted on it first
+ */
+export class PolicyTransitionConflictError extends Error {
+  expectedStatus: PolicyStatus;
+  currentStatus: PolicyStatus;
+
+  constructor(expectedStatus: PolicyStatus, currentStatus: PolicyStatus) {
+    super(`This policy was already moved from ${expectedStatus} to ${currentStatus} by someone else`);
+    this.name = 'PolicyTransitionConflictError';
+    this.expectedStatus = expectedStatus;
+    this.currentStatus = currentStatus;
+  }
+}
 
-  notify('policy_submitted', 'Policy submitted for approval', {
-    policy_number: policy.policy_number,
-    customer: policy.customer_name,
-    next_step: 'Underwriter review required',
+/**
+ * Maps the PT409 raised by `transition_policy` (and the functions built on it)
+ * to a PolicyTransitionConflictError
+ */
+const toTransitionError = (error: PostgrestError, expectedStatus: PolicyStatus) =>
+  error.code === TRANSITION_CONFLICT_CODE
+    ? new PolicyTransitionConflictError(expectedStatus, error.details as PolicyStatus)
+    : error;
+
+/**
+ * TRANSITION POLICY
+ * Runs a status change through the `transition_policy` database function,
+ * which checks the expected previous status, updates the policy and writes the
+ * approval log in a single transaction
+ */
+const transitionPolicy = async (transition: {
+  policyId: string;
+  actorId: string;
+  expectedStatus: PolicyStatus;
+  newStatus: PolicyStatus;
+  action: ApprovalAction;
+  role: string;
+  comments?: string;
+  workflowId?: string;
+  escalatedFromStatus?: PolicyStatus;
+  incrementRevision?: boolean;
+  onBehalfOf?: string;
+}) => {
+  const { data, error } = await supabase.rpc('transition_policy', {
+    p_policy_id: transition.policyId,
+    p_actor_id: transition.actorId,
+    p_expected_status: transition.expectedStatus,
+    p_new_status: transition.newStatus,
+    p_action: transition.action,
+    p_role: transition.role,
+    p_comments: transition.comments ?? '',
+    p_workflow_id: transition.workflowId ?? null,
+    p_escalated_from_status: transition.escalatedFromStatus ?? null,
+    p_increment_revision: transition.incrementRevision ?? false,
+    p_on_behalf_of: transition.onBehalfOf ?? null,
   });
 
-  notify('approval_required', 'Underwriter action required', {
-    policy_number: policy.policy_number,
-    role: 'underwriter',
+  if (error) throw toTransitionError(error, transition.expectedStatus);
+  return data as Policy;
+};
+
+/**
+ * Who to tell that a policy is waiting at a stage: its assignee, or every
+ * reviewer of the stage while nobody is assigned
+ */
+const stageTarget = (policy: Policy, role: ApproverRole): NotificationTarget =>
+  policy.assigned_to
+    ? { userIds: [policy.assigned_to], policyId: policy.id }
+    : { roles: [role], policyId: policy.id };
+
+/**
+ * SUBMIT POLICY FOR APPROVAL
+ * Moves policy from draft to the first applicable stage of its product's workflow.
+ * The fraud check runs again first; a failing policy goes to fraud review
+ * instead, unless a fraud reviewer already cleared it and it hasn't been edited
+ * since. The `submit_policy` database function picks the stage, enforces the
+ * fraud gate and only lets the creator submit.
+ */
+export const submitPolicy = async (policyId: string) => {
+  await requireCapability('policy.submit', 'submit policies');
+  const policy = await getPolicy(policyId);
+  if (!policy) throw new Error('Policy not found');
+  if (policy.status !== 'draft') throw new PolicyTransitionConflictError('draft', policy.status);
+
+  // Re-check right before submission; edits discard a cleared flag, so one
+  // that is still cleared covers this exact version of the policy
+  const fraudCheck = await performFraudCheck(policy, policyId);
+  const { fraud_flag_status: fraudFlag } = await recordFraudCheck(policyId, 'submit', fraudCheck);
+
+  const { data: submitted, error } = await supabase.rpc('submit_policy', {
+    p_policy_id: policyId,
+    p_comments: fraudCheck.passed ? '' : `Failed fraud check: ${fraudCheck.reason}`,
   });
 
+  if (error) throw toTransitionError(error, 'draft');
+  const data = submitted as Policy;
+  // The database picked the stage: fraud review, or the workflow's first applicable stage
+  const nextStage = getCurrentStage(data) ?? { role: getStatusRole(data.status)!, label: getStatusLabel(data.status) };
+
+  const submittedMessage = policy.revision_count > 0 ? 'Policy resubmitted for approval' : 'Policy submitted for approval';
+  await notify(
+    'policy_submitted',
+    submittedMessage,
+    {
+      policy_number: policy.policy_number,
+      customer: policy.customer_name,
+      revision: policy.revision_count,
+      workflow: data.workflow_id,
+      next_step: `${nextStage.label} required`,
+    },
+    { userIds: [policy.creator_id], policyId }
+  );
+
+  await notify(
+    'approval_required',
+    `${ROLE_LABELS[nextStage.role]} action required`,
+    {
+      policy_number: policy.policy_number,
+      role: nextStage.role,
+    },
+    stageTarget(data, nextStage.role)
+  );
+
+  if (fraudFlag === 'flagged') {
+    await notify(
+      'fraud_alert',
+      'Policy submitted with a failed fraud check',
+      {
+        policy_number: policy.policy_number,
+        reason: fraudCheck.reason,
+      },
+      { roles: [FRAUD_REVIEW_STAGE.role], policyId }
+    );
+  }
+
   return data;
 };
 
 /**
- * APPROVE/REJECT POLICY
- * Handles approval workflow logic
+ * Acting at a stage takes the stage's capability, or an active delegation of
+ * the stage's role from `onBehalfOf`; a policy assigned to someone else can
+ * only be acted on by (or on behalf of) its assignee, and nobody reviews a
+ * policy they created
+ */
+const requireStageAuthority = async (
+  policy: Policy,
+  actorId: string,
+  stage: WorkflowStage,
+  onBehalfOf?: string
+) => {
+  if (policy.creator_id === actorId) {
+    throw new Error("Reviewers can't act on policies they created");
+  }
+
+  if (onBehalfOf && policy.creator_id === onBehalfOf) {
+    throw new Error("Delegates can't act on behalf of the policy's creator");
+  }
+
+  if (policy.assigned_to && policy.assigned_to !== actorId && policy.assigned_to !== onBehalfOf) {
+    throw new Error('This policy is assigned to another reviewer');
+  }
+
+  if (onBehalfOf) {
+    await requireDelegation(actorId, onBehalfOf, stage.role);
+  } else {
+    await requireCapability(stageCapability(stage.role), `act at the ${stage.label} stage`);
+  }
+};
+
+/**
+ * APPROVE/REJECT/RETURN POLICY
+ * Handles approval workflow logic, driven by the policy's workflow definition.
+ * Approvals above the approver's premium authority escalate instead; returning
+ * sends the policy back to draft so the creator can revise and resubmit it.
+ * A policy whose fraud flag hasn't been cleared can't be approved, and fraud
+ * review is decided through reviewFraudFlag. `role` is the stage role the
+ * approver acts as, which needs that stage's capability, or a delegation of
+ * the role from `onBehalfOf` (whose authority limit then applies).
  */
 export const processApproval = async (
   policyId: string,
   approverId: string,
-  action: 'approved' | 'rejected',
+  action: 'approved' | 'rejected' | 'returned',
   role: string,
-  comments: string = ''
+  comments: string = '',
+  onBehalfOf?: string
 ) => {
   const policy = await getPolicy(policyId);
   if (!policy) throw new Error('Policy not found');
 
+  const currentStage = getCurrentStage(policy);
+  if (!currentStage || currentStage.role !== role) {
+    // The policy left this approver's stage since they loaded it
+    throw new PolicyTransitionConflictError(`pending_${role}` as PolicyStatus, policy.status);
+  }
+
+  await requireStageAuthority(policy, approverId, currentStage, onBehalfOf);
+
+  if (isFraudReviewStatus(policy.status)) {
+    throw new Error('Policies in fraud review are cleared or confirmed by a fraud reviewer');
+  }
+
+  if (action === 'returned') {
+    return returnPolicy(policy, approverId, role, comments, onBehalfOf);
+  }
+
+  if (action === 'approved') {
+    if (policy.fraud_flag_status === 'flagged' || policy.fraud_flag_status === 'confirmed') {
+      throw new Error('This policy failed its fraud check and can only be approved once a fraud reviewer clears it');
+    }
+
+    const limit = await getApprovalLimit(onBehalfOf ?? approverId, currentStage.role);
+    if (limit !== null && policy.premium_amount > limit) {
+      return escalatePolicy(policy, approverId, currentStage.role, limit, comments, onBehalfOf);
+    }
+  }
+
   let newStatus: PolicyStatus;
+  let nextStage: WorkflowStage | null = null;
 
   if (action === 'rejected') {
     newStatus = 'rejected';
   } else {
-    // Approval logic based on current status
-    if (policy.status === 'pending_underwriter' && role === 'underwriter') {
-      newStatus = 'pending_manager';
-    } else if (policy.status === 'pending_manager' && role === 'manager') {
-      newStatus = 'approved';
-    } else {
-      throw new Error('Invalid approval workflow state');
-    }
+    nextStage = getNextStage(policy);
+    newStatus = nextStage ? stageStatus(nextStage) : 'approved';
   }
 
-  const { data, error } = await supabase
-    .from('policies')
-    .update({ status: newStatus })
-    .eq('id', policyId)
-    .select()
-    .single();
-
-  if (error) throw error;
-
-  // Log the approval action
-  await logApproval(policyId, approverId, action, role, comments, policy.status, newStatus);
+  const data = await transitionPolicy({
+    policyId,
+    actorId: approverId,
+    expectedStatus: policy.status,
+    newStatus,
+    action,
+    role,
+    comments,
+    onBehalfOf,
+  });
 
   if (action === 'approved' && newStatus === 'approved') {
-    notify('policy_approved', 'Policy fully approved', {
-      policy_number: policy.policy_number,
-      customer: policy.customer_name,
-    });
-  } else if (action === 'approved' && newStatus === 'pending_manager') {
-    notify('policy_approved', 'Underwriter approved policy', {
-      policy_number: policy.policy_number,
-      next_step: 'Manager review required',
-    });
-    notify('approval_required', 'Manager action required', {
-      policy_number: policy.policy_number,
-      role: 'manager',
-    });
+    await notify(
+      'policy_approved',
+      'Policy fully approved',
+      {
+        policy_number: policy.policy_number,
+        customer: policy.customer_name,
+      },
+      { userIds: [policy.creator_id], policyId }
+    );
+  } else if (action === 'approved' && nextStage) {
+    await notify(
+      'policy_approved',
+      `${currentStage.label} approved policy`,
+      {
+        policy_number: policy.policy_number,
+        next_step: `${nextStage.label} required`,
+      },
+      { userIds: [policy.creator_id], policyId }
+    );
+    await notify(
+      'approval_required',
+      `${ROLE_LABELS[nextStage.role]} action required`,
+      {
+        policy_number: policy.policy_number,
+        role: nextStage.role,
+      },
+      stageTarget(data, nextStage.role)
+    );
   } else if (action === 'rejected') {
-    notify('policy_rejected', 'Policy rejected', {
+    await notify(
+      'policy_rejected',
+      'Policy rejected',
+      {
+        policy_number: policy.policy_number,
+        rejected_by: role,
+        reason: comments,
+      },
+      { userIds: [policy.creator_id], policyId }
+    );
+  }
+
+  return data;
+};
+
+/**
+ * REVIEW FRAUD FLAG
+ * A fraud reviewer's decision on a policy in fraud review, with a mandatory
+ * reason. Clearing the flag moves the policy to the first applicable stage of
+ * its workflow; confirming fraud rejects it. A delegate of a fraud reviewer
+ * passes `onBehalfOf`.
+ */
+export const reviewFraudFlag = async (
+  policyId: string,
+  reviewerId: string,
+  decision: Extract<FraudFlagStatus, 'cleared' | 'confirmed'>,
+  reason: string,
+  onBehalfOf?: string
+) => {
+  if (!reason.trim()) throw new Error('A reason is required for a fraud review decision');
+
+  const policy = await getPolicy(policyId);
+  if (!policy) throw new Error('Policy not found');
+
+  const expectedStatus = stageStatus(FRAUD_REVIEW_STAGE);
+  if (policy.status !== expectedStatus) throw new PolicyTransitionConflictError(expectedStatus, policy.status);
+  await requireStageAuthority(policy, reviewerId, FRAUD_REVIEW_STAGE, onBehalfOf);
+
+  let nextStage: WorkflowStage | null = null;
+  if (decision === 'cleared') {
+    const workflow = getPolicyWorkflow(policy);
+    nextStage = getFirstStage(workflow, policy);
+    if (!nextStage) throw new Error(`Workflow "${workflow.name}" has no applicable review stage`);
+  }
+
+  const { data: reviewed, error } = await supabase.rpc('review_fraud_flag', {
+    p_policy_id: policyId,
+    p_reviewer_id: reviewerId,
+    p_decision: decision,
+    p_reason: reason.trim(),
+    p_new_status: nextStage ? stageStatus(nextStage) : 'rejected',
+    p_on_behalf_of: onBehalfOf ?? null,
+  });
+
+  if (error) throw toTransitionError(error, expectedStatus);
+  const data = reviewed as Policy;
+
+  if (nextStage) {
+    await notify(
+      'approval_required',
+      `${ROLE_LABELS[nextStage.role]} action required`,
+      {
+        policy_number: policy.policy_number,
+        role: nextStage.role,
+        fraud_review: `Cleared: ${reason.trim()}`,
+      },
+      stageTarget(data, nextStage.role)
+    );
+  } else {
+    await notify(
+      'policy_rejected',
+      'Policy rejected: fraud confirmed',
+      {
+        policy_number: policy.policy_number,
+        rejected_by: FRAUD_REVIEW_STAGE.role,
+        reason: reason.trim(),
+      },
+      { userIds: [policy.creator_id], policyId }
+    );
+  }
+
+  return data;
+};
+
+/**
+ * RETURN POLICY FOR REVISION
+ * Sends a pending policy back to draft with mandatory reviewer comments and
+ * bumps its revision counter
+ */
+const returnPolicy = async (
+  policy: Policy,
+  approverId: string,
+  role: string,
+  comments: string,
+  onBehalfOf?: string
+) => {
+  if (!comments.trim()) throw new Error('Comments are required when returning a policy for revision');
+
+  const data = await transitionPolicy({
+    policyId: policy.id,
+    actorId: approverId,
+    expectedStatus: policy.status,
+    newStatus: 'draft',
+    action: 'returned',
+    role,
+    comments,
+    incrementRevision: true,
+    onBehalfOf,
+  });
+
+  await notify(
+    'policy_returned',
+    'Policy returned for revision',
+    {
       policy_number: policy.policy_number,
-      rejected_by: role,
+      returned_by: role,
+      revision: policy.revision_count + 1,
       reason: comments,
-    });
+    },
+    { userIds: [policy.creator_id], policyId: policy.id }
+  );
+
+  return data;
+};
+
+/**
+ * ESCALATE POLICY
+ * Moves a policy whose premium exceeds the approver's authority to the next
+ * role up the authority ladder that can clear it
+ */
+const escalatePolicy = async (
+  policy: Policy,
+  approverId: string,
+  role: ApproverRole,
+  limit: number,
+  comments: string,
+  onBehalfOf?: string
+) => {
+  const escalationRole = await getEscalationRole(role, policy.premium_amount);
+  if (!escalationRole) {
+    throw new Error('No approver role has authority for this premium amount');
   }
 
+  const newStatus = stageStatus(escalationStage(escalationRole));
+  const escalatedFrom = policy.escalated_from_status ?? policy.status;
+
+  const reason = `Premium ${policy.premium_amount} exceeds ${role} authority limit of ${limit}`;
+  const data = await transitionPolicy({
+    policyId: policy.id,
+    actorId: approverId,
+    expectedStatus: policy.status,
+    newStatus,
+    action: 'escalated',
+    role,
+    comments: comments ? `${reason}. ${comments}` : reason,
+    escalatedFromStatus: escalatedFrom,
+    onBehalfOf,
+  });
+
+  await notify(
+    'approval_required',
+    `${ROLE_LABELS[escalationRole]} action required (escalated)`,
+    {
+      policy_number: policy.policy_number,
+      role: escalationRole,
+      reason,
+    },
+    stageTarget(data, escalationRole)
+  );
+
   return data;
 };
 
@@ -332,10 +836,43 @@ export const logApproval = async (
 export const getApprovalLogs = async (policyId: string) => {
   const { data, error } = await supabase
     .from('approval_logs')
-    .select('*, user_profiles(full_name, role)')
+    .select(
+      '*, user_profiles:user_profiles!approval_logs_approver_id_fkey(full_name, role), on_behalf_of_profile:user_profiles!approval_logs_on_behalf_of_fkey(full_name)'
+    )
     .eq('policy_id', policyId)
     .order('created_at', { ascending: false });
 
   if (error) throw error;
   return data;
 };
+
+/**
+ * GET POLICY CHANGES
+ * Field-level edit history (recorded by the `record_policy_changes` trigger),
+ * newest first
+ */
+export const getPolicyChanges = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('policy_changes')
+    .select('*, user_profiles(full_name, role)')
+    .eq('policy_id', policyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as PolicyChangeSet[];
+};
+
+/**
+ * GET FRAUD CHECKS
+ * Every fraud check run on a policy, newest first
+ */
+export const getFraudChecks = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('fraud_checks')
+    .select('*')
+    .eq('policy_id', policyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as FraudCheckRecord[];
+};
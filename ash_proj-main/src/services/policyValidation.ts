@@ -0,0 +1,126 @@
+import { PolicyDetails, Product, ProductAttributes } from '../lib/supabase';
+import { FieldDefinition, getPolicyFields, getProductFields } from './productDefinitions';
+
+/**
+ * POLICY VALIDATION
+ * Applies the rules declared on field definitions (see productDefinitions.ts)
+ * to the underwriting details of a policy and its product attribute block.
+ */
+
+/**
+ * Thrown by createPolicy/updatePolicy when the details don't validate
+ */
+export class PolicyValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join('. '));
+    this.name = 'PolicyValidationError';
+    this.errors = errors;
+  }
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Age in whole years on `date` of someone born on `dateOfBirth`
+ */
+export const ageOn = (dateOfBirth: string, date: Date) => {
+  const birth = new Date(dateOfBirth);
+  let age = date.getFullYear() - birth.getFullYear();
+  const beforeBirthday =
+    date.getMonth() < birth.getMonth() || (date.getMonth() === birth.getMonth() && date.getDate() < birth.getDate());
+  if (beforeBirthday) age -= 1;
+  return age;
+};
+
+/**
+ * Reads a possibly dotted key (`insured_address.city`) from a record
+ */
+export const getFieldValue = (record: object, key: string): unknown =>
+  key.split('.').reduce<unknown>(
+    (value, part) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined),
+    record
+  );
+
+const labelOf = (fields: FieldDefinition[], key: string) => fields.find((field) => field.key === key)?.label ?? key;
+
+/**
+ * Problems with a single field value (empty when valid)
+ */
+const validateField = (field: FieldDefinition, record: object, siblings: FieldDefinition[]): string[] => {
+  const rules = field.rules ?? {};
+  const value = getFieldValue(record, field.key);
+
+  if (isBlank(value)) return rules.required ? [`${field.label} is required`] : [];
+
+  switch (field.type) {
+    case 'number':
+    case 'currency': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${field.label} must be a number`];
+      const max = rules.maxYearsFromNow !== undefined ? new Date().getFullYear() + rules.maxYearsFromNow : rules.max;
+      if (rules.integer && !Number.isInteger(value)) return [`${field.label} must be a whole number`];
+      if (rules.min !== undefined && value < rules.min) return [`${field.label} must be at least ${rules.min}`];
+      if (max !== undefined && value > max) return [`${field.label} must be at most ${max}`];
+      if (rules.lessThan) {
+        const bound = getFieldValue(record, rules.lessThan);
+        if (typeof bound === 'number' && value >= bound) {
+          return [`${field.label} must be less than ${labelOf(siblings, rules.lessThan)}`];
+        }
+      }
+      return [];
+    }
+    case 'date': {
+      if (!isValidDate(value)) return [`${field.label} is not a valid date`];
+      if (rules.notInFuture && Date.parse(value) > Date.now()) return [`${field.label} cannot be in the future`];
+      if (rules.minAge !== undefined || rules.maxAge !== undefined) {
+        const age = ageOn(value, new Date());
+        if (age < (rules.minAge ?? 0) || age > (rules.maxAge ?? Infinity)) {
+          return [`Age must be between ${rules.minAge ?? 0} and ${rules.maxAge ?? 'any'} years`];
+        }
+      }
+      if (rules.after) {
+        const start = getFieldValue(record, rules.after);
+        if (isValidDate(start) && (rules.allowEqual ? value < start : value <= start)) {
+          return [`${field.label} must be ${rules.allowEqual ? 'on or ' : ''}after ${labelOf(siblings, rules.after)}`];
+        }
+      }
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${field.label} must be answered`];
+    case 'select':
+      return field.options && !field.options.some((option) => option.value === value)
+        ? [`${field.label} is not a valid option`]
+        : [];
+    default:
+      return rules.pattern && !new RegExp(rules.pattern).test(String(value))
+        ? [`${field.label} ${rules.patternMessage ?? 'is not valid'}`]
+        : [];
+  }
+};
+
+/**
+ * VALIDATE FIELDS
+ * Runs every field's rules against a record
+ */
+export const validateFields = (fields: FieldDefinition[], record: object): string[] =>
+  fields.flatMap((field) => validateField(field, record, fields));
+
+/**
+ * VALIDATE PRODUCT ATTRIBUTES
+ */
+export const validateProductAttributes = (product: Product | null, attributes: ProductAttributes): string[] =>
+  validateFields(getProductFields(product), attributes ?? {});
+
+/**
+ * VALIDATE POLICY DETAILS
+ * Shared policy fields plus the product attribute block
+ */
+export const validatePolicyDetails = (details: PolicyDetails, product: Product | null): string[] => [
+  ...validateFields(getPolicyFields(), details),
+  ...validateProductAttributes(product, details.product_attributes),
+];
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { FieldSection, POLICY_SECTIONS, validateFieldSections } from './productDefinitions';
+
+const fieldsOf = (sections: FieldSection[]) => sections.flatMap((section) => section.fields);
+
+const vehicle = (fields: unknown[]) => [{ title: 'Vehicle', fields }];
+
+describe('product definitions', () => {
+  it('gives every policy field a unique key', () => {
+    const keys = fieldsOf(POLICY_SECTIONS).map((field) => field.key);
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('only compares policy fields with sibling fields', () => {
+    const fields = fieldsOf(POLICY_SECTIONS);
+    const keys = fields.map((field) => field.key);
+
+    for (const field of fields) {
+      if (field.rules?.after) expect(keys).toContain(field.rules.after);
+      if (field.rules?.lessThan) expect(keys).toContain(field.rules.lessThan);
+    }
+  });
+});
+
+describe('validateFieldSections', () => {
+  it('accepts well-formed sections', () => {
+    expect(
+      validateFieldSections([
+        {
+          title: 'Trip',
+          fields: [
+            { key: 'trip_start', label: 'Trip Start', type: 'date', rules: { required: true } },
+            { key: 'trip_end', label: 'Trip End', type: 'date', rules: { after: 'trip_start' } },
+            { key: 'cover', label: 'Cover', type: 'select', options: [{ value: 'basic', label: 'Basic' }] },
+          ],
+        },
+      ])
+    ).toEqual([]);
+    expect(validateFieldSections([])).toEqual([]);
+  });
+
+  it('rejects malformed sections and fields', () => {
+    expect(validateFieldSections({})).toEqual(['Field sections must be a list']);
+    expect(validateFieldSections([{ fields: [] }])).toEqual(['Section 1 needs a title']);
+    expect(validateFieldSections(vehicle([{ key: 'VIN', label: 'VIN', type: 'text' }]))).toEqual([
+      'Field VIN in "Vehicle" needs a lowercase key (letters, digits, underscores)',
+    ]);
+    expect(
+      validateFieldSections(
+        vehicle([
+          { key: 'make', label: '', type: 'colour' },
+          { key: 'trim', label: 'Trim', type: 'select' },
+        ])
+      )
+    ).toEqual(['Field make needs a label', 'Field make has an unknown type', 'Field trim needs options']);
+  });
+
+  it('rejects duplicate keys, shared field keys and unknown siblings', () => {
+    expect(
+      validateFieldSections(
+        vehicle([
+          { key: 'make', label: 'Make', type: 'text' },
+          { key: 'make', label: 'Make', type: 'text' },
+          { key: 'deductible', label: 'Deductible', type: 'currency' },
+          { key: 'sold_on', label: 'Sold On', type: 'date', rules: { after: 'bought_on' } },
+        ])
+      )
+    ).toEqual([
+      'Field make is defined twice',
+      'Field deductible is defined twice',
+      "Field sold_on compares with bought_on, which the product doesn't define",
+    ]);
+  });
+});
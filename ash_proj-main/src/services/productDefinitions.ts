@@ -0,0 +1,187 @@
+import type { Product } from '../lib/supabase';
+
+/**
+ * PRODUCT DEFINITIONS
+ * The policy form is rendered from data: every input is a field definition
+ * with a type, help text and validation rules. Fields shared by all products
+ * (customer, premium, coverage, term, insured) are in POLICY_SECTIONS; each
+ * product adds its own sections, stored on the catalog product
+ * (`products.field_sections`) and edited in the product catalog, whose values
+ * are stored in `policies.product_attributes`. A product without sections only
+ * gets the shared fields. Adding an insurance line never requires editing code.
+ */
+
+export const FIELD_TYPES = ['text', 'email', 'tel', 'number', 'currency', 'date', 'boolean', 'select'] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FieldRules {
+  required?: boolean;
+  min?: number;
+  max?: number;
+  /** Upper bound relative to the current year, e.g. 1 = next year */
+  maxYearsFromNow?: number;
+  integer?: boolean;
+  pattern?: string;
+  patternMessage?: string;
+  /** Age in years, for date-of-birth fields */
+  minAge?: number;
+  maxAge?: number;
+  notInFuture?: boolean;
+  /** Key of a sibling field this value must be after (dates) */
+  after?: string;
+  /** Allow the same value as the `after` field */
+  allowEqual?: boolean;
+  /** Key of a sibling field this value must be below (numbers) */
+  lessThan?: string;
+}
+
+export interface FieldDefinition {
+  /** Column, dotted path (`insured_address.city`) or attribute key */
+  key: string;
+  label: string;
+  type: FieldType;
+  help?: string;
+  placeholder?: string;
+  options?: FieldOption[];
+  rules?: FieldRules;
+  wide?: boolean;
+}
+
+export interface FieldSection {
+  title: string;
+  fields: FieldDefinition[];
+}
+
+/**
+ * Fields every policy has, stored in their own columns
+ */
+export const POLICY_SECTIONS: FieldSection[] = [
+  {
+    title: 'Policy',
+    fields: [
+      {
+        key: 'customer_name',
+        label: 'Customer Name',
+        type: 'text',
+        placeholder: 'Enter customer full name',
+        wide: true,
+        rules: { required: true },
+      },
+      {
+        key: 'product_type',
+        label: 'Product Type',
+        type: 'select',
+        rules: { required: true },
+      },
+      { key: 'premium_amount', label: 'Premium Amount', type: 'currency', placeholder: '0.00', rules: { required: true, min: 0.01 } },
+    ],
+  },
+  {
+    title: 'Coverage & Term',
+    fields: [
+      { key: 'coverage_amount', label: 'Coverage Amount', type: 'currency', rules: { required: true, min: 0.01 } },
+      {
+        key: 'deductible',
+        label: 'Deductible',
+        type: 'currency',
+        help: 'Amount the insured pays before cover applies',
+        rules: { required: true, min: 0, lessThan: 'coverage_amount' },
+      },
+      { key: 'effective_date', label: 'Effective Date', type: 'date', rules: { required: true } },
+      { key: 'expiry_date', label: 'Expiry Date', type: 'date', rules: { required: true, after: 'effective_date' } },
+      {
+        key: 'prior_claims',
+        label: 'Prior Claims',
+        type: 'number',
+        help: 'Claims made by the insured in the last 5 years',
+        rules: { required: true, integer: true, min: 0 },
+      },
+    ],
+  },
+  {
+    title: 'Insured Contact',
+    fields: [
+      { key: 'insured_email', label: 'Email', type: 'email', rules: { required: true, pattern: '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$', patternMessage: 'is not valid' } },
+      { key: 'insured_phone', label: 'Phone', type: 'tel', rules: { pattern: '^\\+?[\\d\\s().-]{7,20}$', patternMessage: 'is not valid' } },
+      { key: 'insured_address.line1', label: 'Address Line 1', type: 'text', wide: true, rules: { required: true } },
+      { key: 'insured_address.line2', label: 'Address Line 2', type: 'text', wide: true },
+      { key: 'insured_address.city', label: 'City', type: 'text', rules: { required: true } },
+      { key: 'insured_address.region', label: 'State / Region', type: 'text' },
+      { key: 'insured_address.postal_code', label: 'Postal Code', type: 'text', rules: { required: true } },
+      { key: 'insured_address.country', label: 'Country', type: 'text', rules: { required: true } },
+    ],
+  },
+];
+
+/**
+ * All product-specific fields of a product, flattened across sections
+ */
+export const getProductFields = (product: Product | null | undefined): FieldDefinition[] =>
+  product?.field_sections.flatMap((section) => section.fields) ?? [];
+
+export const getPolicyFields = (): FieldDefinition[] => POLICY_SECTIONS.flatMap((section) => section.fields);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * VALIDATE FIELD SECTIONS
+ * Checks product sections edited in the catalog before they are saved: every
+ * field needs a key (unique within the product and not a shared field), a label
+ * and a known type, select fields need options, and `after` / `lessThan` must
+ * name a sibling field of the product
+ */
+export const validateFieldSections = (sections: unknown): string[] => {
+  if (!Array.isArray(sections)) return ['Field sections must be a list'];
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  const sharedKeys = new Set(getPolicyFields().map((field) => field.key));
+  const siblings: [string, string][] = [];
+
+  sections.forEach((section, index) => {
+    if (!isRecord(section) || typeof section.title !== 'string' || !section.title.trim()) {
+      errors.push(`Section ${index + 1} needs a title`);
+      return;
+    }
+    if (!Array.isArray(section.fields)) {
+      errors.push(`Section "${section.title}" needs a list of fields`);
+      return;
+    }
+
+    section.fields.forEach((field: unknown, position) => {
+      const name = isRecord(field) && typeof field.key === 'string' && field.key ? field.key : `#${position + 1}`;
+      if (!isRecord(field) || typeof field.key !== 'string' || !/^[a-z][a-z0-9_]*$/.test(field.key)) {
+        errors.push(`Field ${name} in "${section.title}" needs a lowercase key (letters, digits, underscores)`);
+        return;
+      }
+      if (keys.has(field.key) || sharedKeys.has(field.key)) errors.push(`Field ${field.key} is defined twice`);
+      keys.add(field.key);
+
+      if (typeof field.label !== 'string' || !field.label.trim()) errors.push(`Field ${field.key} needs a label`);
+      if (!FIELD_TYPES.includes(field.type as FieldType)) errors.push(`Field ${field.key} has an unknown type`);
+      if (field.type === 'select' && (!Array.isArray(field.options) || field.options.length === 0)) {
+        errors.push(`Field ${field.key} needs options`);
+      }
+      const rules = field.rules ?? {};
+      if (!isRecord(rules)) {
+        errors.push(`Field ${field.key} has invalid rules`);
+        return;
+      }
+      for (const sibling of [rules.after, rules.lessThan]) {
+        if (sibling !== undefined) siblings.push([field.key, String(sibling)]);
+      }
+    });
+  });
+
+  for (const [key, sibling] of siblings) {
+    if (!keys.has(sibling)) errors.push(`Field ${key} compares with ${sibling}, which the product doesn't define`);
+  }
+  return errors;
+};
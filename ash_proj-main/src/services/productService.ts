@@ -0,0 +1,100 @@
+import { supabase, Product } from '../lib/supabase';
+import { requireCapability } from './permissionService';
+import { validateFieldSections } from './productDefinitions';
+
+/**
+ * PRODUCT CATALOG
+ * Products are maintained in the `products` table by users with `product.manage`. Policies store
+ * the product code; retired products stay in the catalog so existing policies
+ * keep resolving, but they can't be used on new or edited policies.
+ */
+
+export type ProductInput = Pick<
+  Product,
+  'code' | 'name' | 'description' | 'min_premium' | 'max_premium' | 'field_sections'
+>;
+
+const assertValidFieldSections = (sections: unknown) => {
+  const errors = validateFieldSections(sections);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+};
+
+/**
+ * GET PRODUCTS
+ * Active products only unless `includeRetired` is set, ordered by name
+ */
+export const getProducts = async (includeRetired: boolean = false) => {
+  let request = supabase.from('products').select('*').order('name');
+  if (!includeRetired) request = request.eq('active', true);
+
+  const { data, error } = await request;
+  if (error) throw error;
+  return data as Product[];
+};
+
+/**
+ * GET PRODUCT
+ */
+export const getProduct = async (code: string) => {
+  const { data, error } = await supabase.from('products').select('*').eq('code', code).maybeSingle();
+  if (error) throw error;
+  return data as Product | null;
+};
+
+/**
+ * CREATE PRODUCT
+ */
+export const createProduct = async (product: ProductInput) => {
+  await requireCapability('product.manage', 'manage products');
+  assertValidFieldSections(product.field_sections);
+  const { data, error } = await supabase
+    .from('products')
+    .insert({ ...product, code: product.code.trim().toUpperCase() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Product;
+};
+
+/**
+ * UPDATE PRODUCT
+ * The code is the key policies reference and can't be changed here
+ */
+export const updateProduct = async (code: string, updates: Partial<Omit<ProductInput, 'code'>>) => {
+  await requireCapability('product.manage', 'manage products');
+  if (updates.field_sections !== undefined) assertValidFieldSections(updates.field_sections);
+  const { data, error } = await supabase.from('products').update(updates).eq('code', code).select().single();
+
+  if (error) throw error;
+  return data as Product;
+};
+
+/**
+ * RETIRE / REACTIVATE PRODUCT
+ */
+export const setProductActive = async (code: string, active: boolean) => {
+  await requireCapability('product.manage', 'manage products');
+  const { data, error } = await supabase.from('products').update({ active }).eq('code', code).select().single();
+
+  if (error) throw error;
+  return data as Product;
+};
+
+/**
+ * VALIDATE PRODUCT SELECTION
+ * The product must exist, be active and accept the premium
+ */
+export const validateProductSelection = (product: Product | null, productType: string, premium: number): string[] => {
+  if (!productType) return [];
+  if (!product) return [`Unknown product "${productType}"`];
+  if (!product.active) return [`${product.name} has been retired and can't be used`];
+
+  if (Number.isFinite(premium) && premium < product.min_premium) {
+    return [`Premium for ${product.name} must be at least ${product.min_premium}`];
+  }
+  if (Number.isFinite(premium) && product.max_premium !== null && premium > product.max_premium) {
+    return [`Premium for ${product.name} must be at most ${product.max_premium}`];
+  }
+  return [];
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { LifeAttributes } from '../lib/supabase';
+import { ratePolicy, RatingInput } from './ratingService';
+
+const input = (fields: Partial<RatingInput> = {}): RatingInput => ({
+  product_type: 'AUTO',
+  coverage_amount: 20000,
+  deductible: 0,
+  prior_claims: 0,
+  product_attributes: {},
+  ...fields,
+});
+
+describe('ratePolicy', () => {
+  it('raises the premium to the higher of the table and catalog minimums', () => {
+    const small = input({ coverage_amount: 1000 });
+
+    expect(ratePolicy(small)?.rated_premium).toBe(300);
+    expect(ratePolicy(small, { min_premium: 400, max_premium: null })).toMatchObject({
+      calculated_premium: 25,
+      minimum_premium: 400,
+      rated_premium: 400,
+    });
+  });
+
+  it("caps the premium at the product's maximum", () => {
+    const large = input({ coverage_amount: 5000000 });
+
+    expect(ratePolicy(large, { min_premium: 100, max_premium: 50000 })).toMatchObject({
+      maximum_premium: 50000,
+      rated_premium: 50000,
+    });
+    expect(ratePolicy(large, { min_premium: 100, max_premium: null })?.rated_premium).toBeGreaterThan(50000);
+  });
+
+  it("rates the insured's age on the rating date", () => {
+    const insured: LifeAttributes = { date_of_birth: '1980-06-15', smoker: false, beneficiary_name: 'Ada Lovelace' };
+    const life = input({ product_type: 'LIFE', product_attributes: insured });
+
+    expect(ratePolicy(life, null, undefined, new Date('2026-06-14'))?.factors[0]).toMatchObject({
+      id: 'age',
+      multiplier: 1.5,
+      explanation: 'Insured is 45',
+    });
+    expect(ratePolicy(life, null, undefined, new Date('2026-06-15'))?.factors[0]).toMatchObject({
+      multiplier: 1.5,
+      explanation: 'Insured is 46',
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { PolicyDetails, Product, RatingDetails, RatingFactorResult } from '../lib/supabase';
+import { ageOn } from './policyValidation';
+
+/**
+ * PREMIUM RATING
+ * Suggests a premium from risk inputs: coverage × the product's base rate,
+ * multiplied by one factor per risk input (age, coverage volume, deductible,
+ * prior claims), then kept within the product's premium bounds (the rating
+ * table's minimum and the catalog's minimum and maximum). Every factor is
+ * returned, including neutral ones, so the premium can be explained line by
+ * line. Creators may charge a different premium, but must justify it.
+ *
+ * The database rates every draft with the same tables (`rating_tables`,
+ * `rate_policy`) and stores that rating; this copy shows the rating while the
+ * form is filled in and must be kept in step with it.
+ */
+
+export type RatingInput = Pick<
+  PolicyDetails,
+  'product_type' | 'coverage_amount' | 'deductible' | 'prior_claims' | 'product_attributes'
+>;
+
+/** The catalog's premium bounds for the product */
+export type PremiumBounds = Pick<Product, 'min_premium' | 'max_premium'>;
+
+export interface AgeBand {
+  /** Inclusive upper bound of the band */
+  maxAge: number;
+  multiplier: number;
+}
+
+export interface RatingTable {
+  /** Annual rate per $1,000 of coverage */
+  baseRatePerThousand: number;
+  minimumPremium: number;
+  /** Applied when the product captures a date of birth */
+  ageBands?: AgeBand[];
+  /** Loading per prior claim, e.g. 0.2 = +20% each */
+  claimLoading: number;
+  maxClaimsMultiplier: number;
+}
+
+/**
+ * Volume discount by coverage amount (first band the coverage fits in)
+ */
+export const COVERAGE_BANDS: { upTo: number; multiplier: number }[] = [
+  { upTo: 100000, multiplier: 1 },
+  { upTo: 500000, multiplier: 0.95 },
+  { upTo: 1000000, multiplier: 0.9 },
+  { upTo: Infinity, multiplier: 0.85 },
+];
+
+/**
+ * Credit for taking a deductible, by deductible as a share of coverage
+ */
+export const DEDUCTIBLE_CREDITS: { minRatio: number; multiplier: number }[] = [
+  { minRatio: 0.05, multiplier: 0.85 },
+  { minRatio: 0.02, multiplier: 0.9 },
+  { minRatio: 0.01, multiplier: 0.95 },
+  { minRatio: 0, multiplier: 1 },
+];
+
+export const DEFAULT_RATING_TABLE: RatingTable = {
+  baseRatePerThousand: 10,
+  minimumPremium: 100,
+  claimLoading: 0.2,
+  maxClaimsMultiplier: 2,
+};
+
+/**
+ * RATING TABLES PER PRODUCT
+ * Keyed by product code; products without an entry use the default table
+ */
+export const RATING_TABLES: Record<string, RatingTable> = {
+  AUTO: { baseRatePerThousand: 25, minimumPremium: 300, claimLoading: 0.25, maxClaimsMultiplier: 2.5 },
+  HOME: { baseRatePerThousand: 3.5, minimumPremium: 250, claimLoading: 0.2, maxClaimsMultiplier: 2 },
+  LIFE: {
+    baseRatePerThousand: 1.2,
+    minimumPremium: 120,
+    claimLoading: 0,
+    maxClaimsMultiplier: 1,
+    ageBands: [
+      { maxAge: 29, multiplier: 0.8 },
+      { maxAge: 39, multiplier: 1 },
+      { maxAge: 49, multiplier: 1.5 },
+      { maxAge: 59, multiplier: 2.4 },
+      { maxAge: 69, multiplier: 4 },
+      { maxAge: Infinity, multiplier: 6 },
+    ],
+  },
+  HEALTH: {
+    baseRatePerThousand: 8,
+    minimumPremium: 200,
+    claimLoading: 0.1,
+    maxClaimsMultiplier: 1.5,
+    ageBands: [
+      { maxAge: 29, multiplier: 0.9 },
+      { maxAge: 44, multiplier: 1 },
+      { maxAge: 59, multiplier: 1.4 },
+      { maxAge: Infinity, multiplier: 2 },
+    ],
+  },
+  BUSINESS: { baseRatePerThousand: 6, minimumPremium: 1000, claimLoading: 0.15, maxClaimsMultiplier: 2 },
+  TRAVEL: { baseRatePerThousand: 15, minimumPremium: 25, claimLoading: 0.1, maxClaimsMultiplier: 1.5 },
+};
+
+export const getRatingTable = (productType: string): RatingTable =>
+  RATING_TABLES[productType] ?? DEFAULT_RATING_TABLE;
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * RATE POLICY
+ * Returns the rating breakdown, or null while the inputs can't be rated yet
+ * (no product or no valid coverage amount). `bounds` is the product's catalog
+ * entry, when it has been loaded.
+ */
+export const ratePolicy = (
+  input: RatingInput,
+  bounds: PremiumBounds | null = null,
+  table: RatingTable = getRatingTable(input.product_type),
+  today: Date = new Date()
+): RatingDetails | null => {
+  if (!input.product_type || !Number.isFinite(input.coverage_amount) || input.coverage_amount <= 0) return null;
+
+  const factors: RatingFactorResult[] = [];
+
+  const dateOfBirth = 'date_of_birth' in input.product_attributes ? input.product_attributes.date_of_birth : undefined;
+  if (table.ageBands && typeof dateOfBirth === 'string' && !Number.isNaN(Date.parse(dateOfBirth))) {
+    const age = ageOn(dateOfBirth, today);
+    const band = table.ageBands.find((ageBand) => age <= ageBand.maxAge) ?? table.ageBands[table.ageBands.length - 1];
+    factors.push({ id: 'age', label: 'Age', multiplier: band.multiplier, explanation: `Insured is ${age}` });
+  }
+
+  const coverageBand = COVERAGE_BANDS.find((band) => input.coverage_amount <= band.upTo)!;
+  factors.push({
+    id: 'coverage',
+    label: 'Coverage amount',
+    multiplier: coverageBand.multiplier,
+    explanation:
+      coverageBand.multiplier < 1 ? 'Volume discount for higher coverage' : 'No volume discount at this coverage',
+  });
+
+  const deductible = Number.isFinite(input.deductible) ? Math.max(input.deductible, 0) : 0;
+  const deductibleRatio = deductible / input.coverage_amount;
+  const credit = DEDUCTIBLE_CREDITS.find((band) => deductibleRatio >= band.minRatio)!;
+  factors.push({
+    id: 'deductible',
+    label: 'Deductible',
+    multiplier: credit.multiplier,
+    explanation: `Deductible is ${(deductibleRatio * 100).toFixed(1)}% of coverage`,
+  });
+
+  const claims = Number.isFinite(input.prior_claims) ? Math.max(Math.floor(input.prior_claims), 0) : 0;
+  factors.push({
+    id: 'prior_claims',
+    label: 'Prior claims',
+    multiplier: roundCurrency(Math.min(1 + claims * table.claimLoading, table.maxClaimsMultiplier)),
+    explanation: claims === 0 ? 'No claims in the last 5 years' : `${claims} claim${claims === 1 ? '' : 's'} in the last 5 years`,
+  });
+
+  const basePremium = roundCurrency((input.coverage_amount / 1000) * table.baseRatePerThousand);
+  const calculatedPremium = roundCurrency(factors.reduce((premium, factor) => premium * factor.multiplier, basePremium));
+
+  const minimumPremium = Math.max(table.minimumPremium, bounds?.min_premium ?? 0);
+  const maximumPremium = bounds?.max_premium ?? null;
+
+  return {
+    base_premium: basePremium,
+    factors,
+    calculated_premium: calculatedPremium,
+    minimum_premium: minimumPremium,
+    maximum_premium: maximumPremium,
+    rated_premium: Math.min(Math.max(calculatedPremium, minimumPremium), maximumPremium ?? Infinity),
+  };
+};
+
+/**
+ * Whether the charged premium deviates from the rated premium
+ */
+export const isPremiumOverride = (premium: number, rating: RatingDetails | null) =>
+  rating !== null && Number.isFinite(premium) && Math.abs(premium - rating.rated_premium) >= 0.005;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Policy, PolicyQuery } from '../lib/supabase';
+import { applyPolicyChange, PolicyChange } from './realtimeService';
+
+const policy = (id: string, fields: Partial<Policy> = {}) =>
+  ({
+    id,
+    policy_number: `POL-${id}`,
+    customer_name: 'Ada Lovelace',
+    product_type: 'AUTO',
+    premium_amount: 1200,
+    status: 'pending_underwriter',
+    creator_id: 'creator',
+    assigned_to: null,
+    created_at: '2026-10-01T09:00:00.000Z',
+    updated_at: '2026-10-01T09:00:00.000Z',
+    ...fields,
+  }) as Policy;
+
+const update = (updated: Policy) =>
+  ({ eventType: 'UPDATE', new: updated, old: { id: updated.id } }) as unknown as PolicyChange;
+
+const query: PolicyQuery = { sortBy: 'created_at', sortDirection: 'desc', status: 'pending_underwriter' };
+
+describe('applyPolicyChange', () => {
+  const page = [policy('1'), policy('2', { created_at: '2026-09-30T09:00:00.000Z' })];
+
+  it('patches a row that stays in place on the page', () => {
+    const updated = { ...page[0], customer_name: 'Ada King', updated_at: '2026-10-02T09:00:00.000Z' };
+
+    expect(applyPolicyChange(page, update(updated), query)).toEqual([updated, page[1]]);
+  });
+
+  it('refetches when a row on the page no longer matches the filters', () => {
+    expect(applyPolicyChange(page, update({ ...page[0], status: 'pending_manager' }), query)).toBeNull();
+    expect(
+      applyPolicyChange(page, update({ ...page[0], customer_name: 'Grace Hopper' }), { ...query, search: 'ada' })
+    ).toBeNull();
+  });
+
+  it('refetches when a row leaves the statuses or assignee the page is filtered by', () => {
+    const myQueue: PolicyQuery = {
+      sortBy: 'created_at',
+      sortDirection: 'desc',
+      statuses: ['pending_underwriter', 'pending_manager'],
+      assignedTo: 'reviewer',
+    };
+    const mine = page.map((row) => ({ ...row, assigned_to: 'reviewer' }));
+
+    expect(applyPolicyChange(mine, update({ ...mine[0], status: 'pending_manager' }), myQueue)).not.toBeNull();
+    expect(applyPolicyChange(mine, update({ ...mine[0], status: 'approved' }), myQueue)).toBeNull();
+    expect(applyPolicyChange(mine, update({ ...mine[0], assigned_to: 'colleague' }), myQueue)).toBeNull();
+  });
+
+  it('refetches when the sort column of a row on the page changes', () => {
+    const byPremium: PolicyQuery = { ...query, sortBy: 'premium_amount' };
+
+    expect(applyPolicyChange(page, update({ ...page[0], premium_amount: 9000 }), byPremium)).toBeNull();
+    expect(applyPolicyChange(page, update({ ...page[0], premium_amount: 9000 }), query)).not.toBeNull();
+  });
+
+  it('refetches when a row off the page starts matching, and ignores it otherwise', () => {
+    expect(applyPolicyChange(page, update(policy('3')), query)).toBeNull();
+    expect(applyPolicyChange(page, update(policy('3', { status: 'approved' })), query)).toBe(page);
+  });
+
+  it('matches the search term like ILIKE against policy number and customer name', () => {
+    const search = { ...query, search: 'pol-1' };
+
+    expect(applyPolicyChange(page, update({ ...page[0], customer_name: 'Grace Hopper' }), search)).not.toBeNull();
+    expect(applyPolicyChange(page, update(policy('3')), { ...query, search: 'lov_lace' })).toBeNull();
+  });
+
+  it('refetches on inserts and deletes, which shift pagination', () => {
+    expect(
+      applyPolicyChange(page, { eventType: 'INSERT', new: policy('3') } as unknown as PolicyChange, query)
+    ).toBeNull();
+    expect(
+      applyPolicyChange(page, { eventType: 'DELETE', old: { id: '1' } } as unknown as PolicyChange, query)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, ApprovalLog, Policy, PolicyComment, PolicyQuery } from '../lib/supabase';
+import { matchesPolicyQuery } from './policyService';
+
+/**
+ * REALTIME SUBSCRIPTIONS
+ * Thin wrappers around Supabase postgres_changes channels. Each subscribe
+ * function returns an unsubscribe callback suitable for a useEffect cleanup.
+ */
+
+export type PolicyChange = RealtimePostgresChangesPayload<Policy>;
+export type ApprovalLogChange = RealtimePostgresChangesPayload<ApprovalLog>;
+export type PolicyCommentChange = RealtimePostgresChangesPayload<PolicyComment>;
+
+let channelCounter = 0;
+
+const subscribe = <T extends Policy | ApprovalLog | PolicyComment>(
+  table: 'policies' | 'approval_logs' | 'policy_comments',
+  filter: string | undefined,
+  onChange: (change: RealtimePostgresChangesPayload<T>) => void
+) => {
+  channelCounter += 1;
+  const channel = supabase
+    .channel(`${table}-${filter ?? 'all'}-${channelCounter}`)
+    .on<T>('postgres_changes', { event: '*', schema: 'public', table, filter }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * SUBSCRIBE TO POLICY CHANGES
+ * All policies, or a single policy when `policyId` is given
+ */
+export const subscribeToPolicies = (onChange: (change: PolicyChange) => void, policyId?: string) =>
+  subscribe<Policy>('policies', policyId ? `id=eq.${policyId}` : undefined, onChange);
+
+/**
+ * SUBSCRIBE TO APPROVAL LOG CHANGES
+ * All approval logs, or only those of one policy when `policyId` is given
+ */
+export const subscribeToApprovalLogs = (onChange: (change: ApprovalLogChange) => void, policyId?: string) =>
+  subscribe<ApprovalLog>('approval_logs', policyId ? `policy_id=eq.${policyId}` : undefined, onChange);
+
+/**
+ * SUBSCRIBE TO POLICY COMMENT CHANGES
+ * Comments of one policy (internal notes only reach users allowed to see them)
+ */
+export const subscribeToPolicyComments = (onChange: (change: PolicyCommentChange) => void, policyId: string) =>
+  subscribe<PolicyComment>('policy_comments', `policy_id=eq.${policyId}`, onChange);
+
+/**
+ * Applies a policy change to a page of policies fetched with `query`, or
+ * returns null when the page must be fetched again: inserts and deletes shift
+ * pagination, and an update can move a row into, out of or within the page
+ * (a filter or the sort column changed)
+ */
+export const applyPolicyChange = (policies: Policy[], change: PolicyChange, query: PolicyQuery): Policy[] | null => {
+  if (change.eventType !== 'UPDATE') return null;
+
+  const updated = change.new;
+  const current = policies.find((policy) => policy.id === updated.id);
+  const matches = matchesPolicyQuery(updated, query);
+
+  if (!current) return matches ? null : policies;
+  if (!matches) return null;
+
+  const sortBy = query.sortBy ?? 'created_at';
+  if (updated[sortBy] !== current[sortBy]) return null;
+
+  return policies.map((policy) => (policy.id === updated.id ? { ...policy, ...updated } : policy));
+};
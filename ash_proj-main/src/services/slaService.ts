@@ -0,0 +1,131 @@
+import { supabase, ApproverRole, Policy, SlaEvent, StageSla } from '../lib/supabase';
+import { requireCapability } from './permissionService';
+import { getStatusRole } from './workflowService';
+
+/**
+ * STAGE SLAs
+ * Each approver stage has a target (`stage_slas`): how many hours a policy may
+ * wait there, counted from `policies.stage_entered_at`. The database sweep
+ * (`run_sla_sweep`, scheduled with pg_cron) reminds the stage's reviewers at
+ * `reminder_hours`, and once the target passes escalates underwriter and
+ * manager stages one step up the authority ladder (or only alerts the SLA
+ * managers). Every reminder, breach and escalation is recorded once per stay
+ * in `sla_events`. Runs without a user (the scheduler, the service role and
+ * the database tests) can sweep as of a simulated time; users always sweep
+ * as of now.
+ */
+
+/** Share of the target left below which a policy counts as due soon */
+const DUE_SOON_SHARE = 0.25;
+
+/** Roles whose stage can escalate on a breach, and where to */
+export const SLA_ESCALATION: Partial<Record<ApproverRole, ApproverRole>> = {
+  underwriter: 'manager',
+  manager: 'executive',
+};
+
+export type SlaState = 'on_track' | 'due_soon' | 'overdue';
+
+export interface SlaStatus {
+  state: SlaState;
+  dueAt: Date;
+  /** Negative once overdue */
+  remainingMs: number;
+}
+
+/**
+ * Where a pending policy stands against its stage's SLA at `now`; null for
+ * policies that aren't waiting at a stage with a target
+ */
+export const getSlaStatus = (policy: Policy, sla: StageSla | undefined, now: Date = new Date()): SlaStatus | null => {
+  if (!sla || getStatusRole(policy.status) !== sla.role) return null;
+
+  const targetMs = sla.target_hours * 3_600_000;
+  const dueAt = new Date(new Date(policy.stage_entered_at).getTime() + targetMs);
+  const remainingMs = dueAt.getTime() - now.getTime();
+
+  return {
+    state: remainingMs <= 0 ? 'overdue' : remainingMs <= targetMs * DUE_SOON_SHARE ? 'due_soon' : 'on_track',
+    dueAt,
+    remainingMs,
+  };
+};
+
+/**
+ * "2d 4h", "3h 20m" or "12m"
+ */
+export const formatSlaDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.floor(Math.abs(ms) / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+/**
+ * GET SLA TARGETS
+ */
+export const getSlaTargets = async () => {
+  const { data, error } = await supabase.from('stage_slas').select('*').order('role');
+  if (error) throw error;
+  return data as StageSla[];
+};
+
+/**
+ * UPDATE SLA TARGET
+ */
+export const updateSlaTarget = async (
+  role: ApproverRole,
+  changes: Pick<StageSla, 'target_hours' | 'reminder_hours' | 'escalate_on_breach'>
+) => {
+  await requireCapability('sla.manage', 'change SLA targets');
+
+  if (!Number.isInteger(changes.target_hours) || changes.target_hours <= 0) {
+    throw new Error('The SLA target must be a whole number of hours');
+  }
+  if (
+    changes.reminder_hours !== null &&
+    (!Number.isInteger(changes.reminder_hours) ||
+      changes.reminder_hours <= 0 ||
+      changes.reminder_hours >= changes.target_hours)
+  ) {
+    throw new Error('The reminder must be a whole number of hours before the SLA target');
+  }
+  if (changes.escalate_on_breach && !SLA_ESCALATION[role]) {
+    throw new Error('Only underwriter and manager stages can escalate on a breach');
+  }
+
+  const { data, error } = await supabase.from('stage_slas').update(changes).eq('role', role).select().single();
+  if (error) throw error;
+  return data as StageSla;
+};
+
+/**
+ * RUN SLA SWEEP
+ * Runs the scheduled sweep now; returns the reminders, breaches and
+ * escalations it recorded
+ */
+export const runSlaSweep = async () => {
+  await requireCapability('sla.manage', 'run the SLA sweep');
+
+  const { data, error } = await supabase.rpc('run_sla_sweep');
+  if (error) throw error;
+  return (data ?? []) as SlaEvent[];
+};
+
+/**
+ * GET SLA EVENTS
+ * A policy's reminders, breaches and escalations, newest first
+ */
+export const getSlaEvents = async (policyId: string) => {
+  const { data, error } = await supabase
+    .from('sla_events')
+    .select('*')
+    .eq('policy_id', policyId)
+    .order('occurred_at', { ascending: false });
+
+  if (error) throw error;
+  return data as SlaEvent[];
+};
@@ -0,0 +1,195 @@
+import { supabase, UserInvitation, UserProfile, UserRole, UserRoleChange, UserRoleGrant } from '../lib/supabase';
+import { requireCapability } from './permissionService';
+
+/**
+ * USER ADMINISTRATION
+ * Profiles are created by the database when an account signs up, with the
+ * `unassigned` role; an invitation's role is applied once the invited email
+ * address is confirmed. Admins invite users, assign and revoke roles and
+ * deactivate accounts. Besides their primary role (`user_profiles.role`) users
+ * can be granted additional roles. Role and activation changes go through
+ * database functions (`set_user_role`, `grant_user_role`, `revoke_user_role`,
+ * `set_user_active`), which check the caller has `user.manage` and record the
+ * change in `user_role_changes`.
+ */
+
+/** Roles an admin can assign or invite with */
+export const ASSIGNABLE_ROLES: Exclude<UserRole, 'unassigned'>[] = [
+  'creator',
+  'underwriter',
+  'medical_reviewer',
+  'manager',
+  'executive',
+  'fraud_reviewer',
+  'admin',
+];
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const requireReason = (reason: string, what: string) => {
+  if (!reason.trim()) throw new Error(`A reason is required to ${what}`);
+  return reason.trim();
+};
+
+export type UserWithRoles = UserProfile & {
+  /** Every role the user holds, the primary role included */
+  roles: UserRoleGrant['role'][];
+};
+
+/**
+ * GET USERS
+ * Every profile with its roles, ordered by name
+ */
+export const getUsers = async () => {
+  const [profiles, grants] = await Promise.all([
+    supabase.from('user_profiles').select('*').order('full_name'),
+    supabase.from('user_roles').select('*').order('granted_at'),
+  ]);
+  if (profiles.error) throw profiles.error;
+  if (grants.error) throw grants.error;
+
+  return (profiles.data as UserProfile[]).map((profile) => ({
+    ...profile,
+    roles: (grants.data as UserRoleGrant[]).filter((grant) => grant.user_id === profile.id).map((grant) => grant.role),
+  })) as UserWithRoles[];
+};
+
+/**
+ * ASSIGN / REVOKE PRIMARY ROLE
+ * Revoking the primary role assigns `unassigned`, which also removes every
+ * additional role
+ */
+export const setUserRole = async (userId: string, role: UserRole, reason: string) => {
+  await requireCapability('user.manage', 'change roles');
+  const { data, error } = await supabase.rpc('set_user_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: requireReason(reason, 'change a role'),
+  });
+
+  if (error) throw error;
+  return data as UserProfile;
+};
+
+/**
+ * GRANT ADDITIONAL ROLE
+ * Returns every role the user now holds
+ */
+export const grantUserRole = async (userId: string, role: UserRoleGrant['role'], reason: string) => {
+  await requireCapability('user.manage', 'grant roles');
+  const { data, error } = await supabase.rpc('grant_user_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: requireReason(reason, 'grant a role'),
+  });
+
+  if (error) throw error;
+  return data as UserRoleGrant[];
+};
+
+/**
+ * REVOKE ADDITIONAL ROLE
+ * The primary role is changed with setUserRole instead. Returns every role
+ * the user still holds.
+ */
+export const revokeUserRole = async (userId: string, role: UserRoleGrant['role'], reason: string) => {
+  await requireCapability('user.manage', 'revoke roles');
+  const { data, error } = await supabase.rpc('revoke_user_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: requireReason(reason, 'revoke a role'),
+  });
+
+  if (error) throw error;
+  return data as UserRoleGrant[];
+};
+
+/**
+ * DEACTIVATE / REACTIVATE ACCOUNT
+ */
+export const setUserActive = async (userId: string, active: boolean, reason: string) => {
+  await requireCapability('user.manage', 'deactivate or reactivate accounts');
+  const { data, error } = await supabase.rpc('set_user_active', {
+    p_user_id: userId,
+    p_active: active,
+    p_reason: requireReason(reason, active ? 'reactivate an account' : 'deactivate an account'),
+  });
+
+  if (error) throw error;
+  return data as UserProfile;
+};
+
+/**
+ * INVITE USER
+ * Records an invitation the invitee's signup picks up; the server emails it.
+ * An address that already has an account gets its role assigned instead.
+ */
+export const inviteUser = async (email: string, role: UserInvitation['role'], invitedBy: UserProfile) => {
+  await requireCapability('user.manage', 'invite users');
+  const address = normalizeEmail(email);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('user_profiles')
+    .select('id')
+    .ilike('email', address.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) throw new Error(`${address} already has an account; assign the role from the user list instead`);
+
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .insert({ email: address, role, invited_by: invitedBy.id })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`${address} already has an open invitation`);
+    throw error;
+  }
+
+  return data as UserInvitation;
+};
+
+/**
+ * GET INVITATIONS
+ * Open invitations (not accepted or revoked), newest first
+ */
+export const getOpenInvitations = async () => {
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .select('*')
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as UserInvitation[];
+};
+
+/**
+ * REVOKE INVITATION
+ */
+export const revokeInvitation = async (invitationId: string) => {
+  await requireCapability('user.manage', 'withdraw invitations');
+  const { error } = await supabase
+    .from('user_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId);
+
+  if (error) throw error;
+};
+
+/**
+ * GET ROLE CHANGES
+ * Audit trail of a user's role and activation changes, newest first
+ */
+export const getRoleChanges = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_role_changes')
+    .select('*, changed_by_profile:user_profiles!user_role_changes_changed_by_fkey(full_name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as UserRoleChange[];
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Policy } from '../lib/supabase';
+import { getFirstStage, getNextStage, getWorkflowForProduct } from './workflowService';
+
+const policy = (fields: Partial<Policy> = {}) =>
+  ({
+    id: 'policy',
+    policy_number: 'POL-000001',
+    customer_name: 'Ada Lovelace',
+    premium_amount: 1200,
+    product_type: 'AUTO',
+    status: 'draft',
+    workflow_id: null,
+    creator_id: 'creator',
+    ...fields,
+  }) as Policy;
+
+const nextRole = (fields: Partial<Policy>) => getNextStage(policy(fields))?.role ?? null;
+
+describe('getNextStage', () => {
+  it('walks the standard workflow from underwriter to manager to approval', () => {
+    const workflow = getWorkflowForProduct('AUTO');
+
+    expect(getFirstStage(workflow, policy())?.role).toBe('underwriter');
+    expect(nextRole({ status: 'pending_underwriter' })).toBe('manager');
+    expect(nextRole({ status: 'pending_manager' })).toBeNull();
+  });
+
+  it('follows the workflow the policy was submitted under', () => {
+    const life = { product_type: 'LIFE', workflow_id: 'life' };
+
+    expect(nextRole({ ...life, status: 'pending_underwriter' })).toBe('medical_reviewer');
+    expect(nextRole({ ...life, status: 'pending_medical_reviewer' })).toBe('manager');
+    expect(nextRole({ ...life, workflow_id: 'standard', status: 'pending_underwriter' })).toBe('manager');
+  });
+
+  it('skips stages whose conditions do not hold', () => {
+    const travel = { product_type: 'TRAVEL', workflow_id: 'travel', status: 'pending_underwriter' as const };
+
+    expect(nextRole({ ...travel, premium_amount: 5000 })).toBeNull();
+    expect(nextRole({ ...travel, premium_amount: 5000.01 })).toBe('manager');
+  });
+
+  it('resumes after an escalation above the roles the escalated approver covers', () => {
+    const escalated = { status: 'pending_executive' as const, escalated_from_status: 'pending_underwriter' as const };
+
+    expect(nextRole({ ...escalated, workflow_id: 'standard' })).toBeNull();
+    expect(nextRole({ ...escalated, product_type: 'LIFE', workflow_id: 'life' })).toBe('medical_reviewer');
+    expect(
+      nextRole({ status: 'pending_manager', escalated_from_status: 'pending_underwriter', workflow_id: 'life' })
+    ).toBe('medical_reviewer');
+  });
+
+  it('has no next stage for a policy outside its workflow', () => {
+    expect(nextRole({ status: 'draft' })).toBeNull();
+    expect(nextRole({ status: 'pending_medical_reviewer', workflow_id: 'standard' })).toBeNull();
+  });
+});
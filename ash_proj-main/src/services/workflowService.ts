@@ -0,0 +1,235 @@
+import { ApproverRole, Capability, Policy, PolicyStatus, UserRole } from '../lib/supabase';
+
+/**
+ * APPROVAL WORKFLOW DEFINITIONS
+ * Each product type follows a workflow made of ordered stages. A stage names
+ * the role that must act on it and optional entry conditions; stages whose
+ * conditions don't hold for a policy are skipped. A policy waiting at a stage
+ * has the status `pending_<role>`, which is what the RLS policies key on.
+ *
+ * When a premium exceeds an approver's authority the policy is escalated up the
+ * authority ladder; `escalated_from_status` remembers the stage it left so the
+ * workflow can resume from there once the higher authority approves.
+ *
+ * Policies flagged by the fraud check go through the fraud review stage before
+ * their workflow's first stage; see `FRAUD_REVIEW_STAGE`.
+ *
+ * The database keeps the same definitions in `approval_workflows` and
+ * `approval_workflow_stages`, from which `submit_policy` picks a draft's first
+ * stage. Change both together; a database test compares them.
+ */
+
+export type WorkflowConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface WorkflowCondition {
+  field: keyof Policy;
+  operator: WorkflowConditionOperator;
+  value: string | number | boolean;
+}
+
+export interface WorkflowStage {
+  role: ApproverRole;
+  label: string;
+  conditions?: WorkflowCondition[];
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  /** Product codes the workflow applies to */
+  productTypes: string[];
+  stages: WorkflowStage[];
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  unassigned: 'No Role',
+  creator: 'Creator',
+  underwriter: 'Underwriter',
+  medical_reviewer: 'Medical Reviewer',
+  manager: 'Manager',
+  executive: 'Executive',
+  fraud_reviewer: 'Fraud Reviewer',
+  admin: 'Admin',
+};
+
+/**
+ * Approver roles ordered by premium authority, lowest first (mirrors the
+ * `authority_ladder` database function)
+ */
+export const AUTHORITY_LADDER: ApproverRole[] = ['underwriter', 'manager', 'executive'];
+
+/**
+ * Where flagged policies wait on submission, outside any workflow. Clearing the
+ * flag moves the policy to its workflow's first stage, confirming fraud rejects
+ * it; it is never approved from here.
+ */
+export const FRAUD_REVIEW_STAGE: WorkflowStage = { role: 'fraud_reviewer', label: 'Fraud Review' };
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: 'standard',
+  name: 'Standard two-step approval',
+  productTypes: [],
+  stages: [
+    { role: 'underwriter', label: 'Underwriter Review' },
+    { role: 'manager', label: 'Manager Approval' },
+  ],
+};
+
+export const WORKFLOWS: WorkflowDefinition[] = [
+  DEFAULT_WORKFLOW,
+  {
+    id: 'life',
+    name: 'Life approval with medical review',
+    productTypes: ['LIFE'],
+    stages: [
+      { role: 'underwriter', label: 'Underwriter Review' },
+      { role: 'medical_reviewer', label: 'Medical Review' },
+      { role: 'manager', label: 'Manager Approval' },
+    ],
+  },
+  {
+    id: 'travel',
+    name: 'Travel approval (manager sign-off above $5,000)',
+    productTypes: ['TRAVEL'],
+    stages: [
+      { role: 'underwriter', label: 'Underwriter Review' },
+      {
+        role: 'manager',
+        label: 'Manager Approval',
+        conditions: [{ field: 'premium_amount', operator: 'gt', value: 5000 }],
+      },
+    ],
+  },
+];
+
+export const stageStatus = (stage: WorkflowStage): PolicyStatus => `pending_${stage.role}`;
+
+export const getWorkflow = (workflowId: string) => WORKFLOWS.find((workflow) => workflow.id === workflowId);
+
+export const getWorkflowForProduct = (productType: string): WorkflowDefinition =>
+  WORKFLOWS.find((workflow) => workflow.productTypes.includes(productType)) ?? DEFAULT_WORKFLOW;
+
+/**
+ * Resolves the workflow a policy is travelling through. Policies record the
+ * workflow they were submitted under; drafts fall back to their product's.
+ */
+export const getPolicyWorkflow = (policy: Pick<Policy, 'workflow_id' | 'product_type'>) =>
+  (policy.workflow_id && getWorkflow(policy.workflow_id)) || getWorkflowForProduct(policy.product_type);
+
+const conditionHolds = (condition: WorkflowCondition, policy: Policy) => {
+  const actual = policy[condition.field];
+  switch (condition.operator) {
+    case 'eq':
+      return actual === condition.value;
+    case 'neq':
+      return actual !== condition.value;
+    case 'gt':
+      return Number(actual) > Number(condition.value);
+    case 'gte':
+      return Number(actual) >= Number(condition.value);
+    case 'lt':
+      return Number(actual) < Number(condition.value);
+    case 'lte':
+      return Number(actual) <= Number(condition.value);
+  }
+};
+
+export const isStageApplicable = (stage: WorkflowStage, policy: Policy) =>
+  (stage.conditions ?? []).every((condition) => conditionHolds(condition, policy));
+
+/**
+ * Returns the first applicable stage after `afterIndex`, or null when the
+ * workflow is complete and the policy should be approved
+ */
+const findApplicableStage = (workflow: WorkflowDefinition, policy: Policy, afterIndex: number) =>
+  workflow.stages.slice(afterIndex + 1).find((stage) => isStageApplicable(stage, policy)) ?? null;
+
+export const getFirstStage = (workflow: WorkflowDefinition, policy: Policy) =>
+  findApplicableStage(workflow, policy, -1);
+
+export const getStatusRole = (status: PolicyStatus) =>
+  status.startsWith('pending_') ? (status.slice('pending_'.length) as ApproverRole) : null;
+
+export const isFraudReviewStatus = (status: PolicyStatus) => status === stageStatus(FRAUD_REVIEW_STAGE);
+
+export const escalationStage = (role: ApproverRole): WorkflowStage => ({
+  role,
+  label: `${ROLE_LABELS[role]} Escalation`,
+});
+
+export const getCurrentStage = (policy: Policy) => {
+  if (isFraudReviewStatus(policy.status)) return FRAUD_REVIEW_STAGE;
+  const role = getStatusRole(policy.status);
+  if (role && policy.escalated_from_status) return escalationStage(role);
+  return getPolicyWorkflow(policy).stages.find((stage) => stageStatus(stage) === policy.status) ?? null;
+};
+
+/**
+ * Returns the stage that follows the current one. After an escalated approval
+ * the workflow resumes from the stage that was escalated, skipping stages whose
+ * role sits at or below the escalated approver on the authority ladder.
+ * `transition_policy` holds approvals to the same result (`next_stage_status`).
+ */
+export const getNextStage = (policy: Policy) => {
+  const workflow = getPolicyWorkflow(policy);
+  const fromStatus = policy.escalated_from_status ?? policy.status;
+  const index = workflow.stages.findIndex((stage) => stageStatus(stage) === fromStatus);
+  if (index === -1) return null;
+
+  const actingRole = getStatusRole(policy.status);
+  const coveredRank = policy.escalated_from_status && actingRole ? AUTHORITY_LADDER.indexOf(actingRole) : -1;
+
+  return (
+    workflow.stages
+      .slice(index + 1)
+      .find(
+        (stage) =>
+          isStageApplicable(stage, policy) &&
+          !(AUTHORITY_LADDER.includes(stage.role) && AUTHORITY_LADDER.indexOf(stage.role) <= coveredRank)
+      ) ?? null
+  );
+};
+
+/**
+ * The capability needed to act on a policy waiting at a stage of the role
+ * (mirrors the `stage_capability` database function)
+ */
+export const stageCapability = (role: ApproverRole): Capability =>
+  role === 'fraud_reviewer' ? 'policy.review.fraud' : `policy.approve.${role}`;
+
+/**
+ * Whether a user with the given capabilities may approve or reject the policy now
+ */
+export const canActOnPolicy = (can: (capability: Capability) => boolean, policy: Policy) => {
+  const stage = getCurrentStage(policy);
+  return !!stage && can(stageCapability(stage.role));
+};
+
+/**
+ * Every pending status reachable through any workflow or escalation, in workflow order
+ */
+export const getPendingStatuses = (): PolicyStatus[] => {
+  const statuses: PolicyStatus[] = [];
+  const stages = [
+    FRAUD_REVIEW_STAGE,
+    ...WORKFLOWS.flatMap((workflow) => workflow.stages),
+    ...AUTHORITY_LADDER.map(escalationStage),
+  ];
+  stages.forEach((stage) => {
+    const status = stageStatus(stage);
+    if (!statuses.includes(status)) statuses.push(status);
+  });
+  return statuses;
+};
+
+/**
+ * Pending statuses a user with the given capabilities can act on
+ */
+export const getActionableStatuses = (can: (capability: Capability) => boolean) =>
+  getPendingStatuses().filter((status) => can(stageCapability(getStatusRole(status)!)));
+
+export const getStatusLabel = (status: PolicyStatus) => {
+  const role = getStatusRole(status);
+  if (role) return `Pending ${ROLE_LABELS[role] ?? role}`;
+  return status.charAt(0).toUpperCase() + status.slice(1);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isAuthorizedDeliveryRequest, SCHEDULER_SECRET_HEADER } from './deliveryAuth';
+
+const credentials = { serviceRoleKey: 'service-role-key', schedulerSecret: 'scheduler-secret' };
+
+describe('isAuthorizedDeliveryRequest', () => {
+  it('accepts the service role key or the scheduler secret', () => {
+    expect(isAuthorizedDeliveryRequest(new Headers({ Authorization: 'Bearer service-role-key' }), credentials)).toBe(
+      true
+    );
+    expect(
+      isAuthorizedDeliveryRequest(new Headers({ [SCHEDULER_SECRET_HEADER]: 'scheduler-secret' }), credentials)
+    ).toBe(true);
+  });
+
+  it('refuses user tokens, wrong secrets and missing credentials', () => {
+    expect(isAuthorizedDeliveryRequest(new Headers({ Authorization: 'Bearer user-jwt' }), credentials)).toBe(false);
+    expect(isAuthorizedDeliveryRequest(new Headers({ [SCHEDULER_SECRET_HEADER]: 'guess' }), credentials)).toBe(false);
+    expect(isAuthorizedDeliveryRequest(new Headers(), credentials)).toBe(false);
+    expect(isAuthorizedDeliveryRequest(new Headers({ [SCHEDULER_SECRET_HEADER]: '' }), {})).toBe(false);
+  });
+});
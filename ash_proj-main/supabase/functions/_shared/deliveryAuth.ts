@@ -0,0 +1,35 @@
+/**
+ * DELIVERY CALLER CHECK
+ * `deliver-notifications` sends email on the service role's behalf, so only the
+ * scheduler may run it: a request must carry the service role key as its bearer
+ * token, or the scheduler secret in the `x-scheduler-secret` header. Signed-in
+ * users' tokens are refused.
+ *
+ * Like `notificationChannels.ts`, this module has no runtime dependencies so it
+ * runs under Deno (the function) and Node (the tests) alike.
+ */
+
+export const SCHEDULER_SECRET_HEADER = 'x-scheduler-secret';
+
+export interface DeliveryCredentials {
+  serviceRoleKey?: string;
+  schedulerSecret?: string;
+}
+
+// Compares in time independent of where the strings differ
+const sameSecret = (given: string, expected: string) => {
+  if (given.length !== expected.length) return false;
+  let difference = 0;
+  for (let i = 0; i < given.length; i += 1) {
+    difference |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+export const isAuthorizedDeliveryRequest = (headers: Headers, credentials: DeliveryCredentials) => {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (bearer && credentials.serviceRoleKey && sameSecret(bearer, credentials.serviceRoleKey)) return true;
+
+  const secret = headers.get(SCHEDULER_SECRET_HEADER);
+  return Boolean(secret && credentials.schedulerSecret && sameSecret(secret, credentials.schedulerSecret));
+};
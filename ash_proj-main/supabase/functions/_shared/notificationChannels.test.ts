@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEmailChannel,
+  createFileTransport,
+  createMemoryTransport,
+  createWebhookChannel,
+  DeliveryRecord,
+  deliverWithRetry,
+  dispatchToChannels,
+  groupClaimedNotifications,
+  NotificationTransport,
+  renderTemplate,
+  RetryOptions,
+} from './notificationChannels';
+
+const recordingSleep = () => {
+  const delays: number[] = [];
+  const sleep = async (ms: number) => {
+    delays.push(ms);
+  };
+  return { delays, sleep };
+};
+
+describe('deliverWithRetry', () => {
+  it('retries a failing delivery with exponential backoff until it succeeds', async () => {
+    const transport = createMemoryTransport('email');
+    const channel = createEmailChannel(transport);
+    const { delays, sleep } = recordingSleep();
+    transport.failNext = 2;
+
+    const result = await deliverWithRetry(
+      () =>
+        channel.deliver(
+          { event: 'policy_approved', subject: 'Approved', body: 'Done', data: {}, recipients: [] },
+          'ops@example.com'
+        ),
+      { maxAttempts: 4, baseDelayMs: 100, sleep }
+    );
+
+    expect(result).toEqual({ attempts: 3, error: null });
+    expect(delays).toEqual([100, 200]);
+    expect(transport.sent).toEqual([{ to: 'ops@example.com', subject: 'Approved', text: 'Done' }]);
+  });
+
+  it('gives up after the last attempt and reports the last error', async () => {
+    const transport = createMemoryTransport('webhook');
+    const channel = createWebhookChannel(transport);
+    const { delays, sleep } = recordingSleep();
+    const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 50, sleep };
+    transport.failNext = 5;
+
+    const result = await deliverWithRetry(
+      () =>
+        channel.deliver(
+          { event: 'fraud_alert', subject: 'Alert', body: 'Flagged', data: {}, recipients: [] },
+          'webhook'
+        ),
+      options
+    );
+
+    expect(result).toEqual({ attempts: 3, error: 'webhook transport failure (simulated)' });
+    expect(delays).toEqual([50, 100]);
+    expect(transport.sent).toEqual([]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders and leaves missing values empty', () => {
+    expect(
+      renderTemplate('Policy {{policy_number}} for {{role}}{{missing}}', { policy_number: 'POL-1', role: 'manager' })
+    ).toBe('Policy POL-1 for manager');
+  });
+});
+
+describe('dispatchToChannels', () => {
+  const recipients = [
+    { id: 'user-1', email: 'underwriter@example.com' },
+    { id: 'user-2', email: 'manager@example.com' },
+  ];
+  const noDelay: RetryOptions = { maxAttempts: 3, baseDelayMs: 0, sleep: async () => {} };
+
+  const recorder = () => {
+    const log: DeliveryRecord[] = [];
+    const record = async (entry: DeliveryRecord) => {
+      log.push(entry);
+    };
+    return { log, record };
+  };
+
+  /** A real (non-stub) transport whose endpoint fails the first `failures` sends */
+  const flakyTransport = (failures: number) => {
+    const sent: Record<string, unknown>[] = [];
+    const transport: NotificationTransport = {
+      stub: false,
+      send: async (payload) => {
+        if (failures > 0) {
+          failures -= 1;
+          throw new Error('Transport responded with 503 Service Unavailable');
+        }
+        sent.push(payload);
+      },
+    };
+    return { sent, transport };
+  };
+
+  it('logs deliveries to a stub transport as skipped, one per email recipient and one webhook', async () => {
+    const email = createMemoryTransport('email');
+    const webhook = createMemoryTransport('webhook');
+    const { log, record } = recorder();
+
+    await dispatchToChannels(
+      [createEmailChannel(email), createWebhookChannel(webhook)],
+      {
+        event: 'approval_required',
+        message: 'Manager action required',
+        data: { policy_number: 'AUTO-2026-000001', role: 'manager' },
+        recipients,
+        policyId: 'policy-1',
+      },
+      record,
+      noDelay
+    );
+
+    expect(email.sent).toEqual([
+      {
+        to: 'underwriter@example.com',
+        subject: 'Action required: policy AUTO-2026-000001',
+        text: 'Manager action required. Policy AUTO-2026-000001 is waiting for manager review.',
+      },
+      {
+        to: 'manager@example.com',
+        subject: 'Action required: policy AUTO-2026-000001',
+        text: 'Manager action required. Policy AUTO-2026-000001 is waiting for manager review.',
+      },
+    ]);
+    expect(webhook.sent).toMatchObject([
+      { event: 'approval_required', policy_id: 'policy-1', recipients: ['user-1', 'user-2'] },
+    ]);
+    expect(log.map((entry) => [entry.channel, entry.target, entry.status, entry.attempts])).toEqual([
+      ['email', 'underwriter@example.com', 'skipped', 1],
+      ['email', 'manager@example.com', 'skipped', 1],
+      ['webhook', 'webhook', 'skipped', 1],
+    ]);
+  });
+
+  it('logs a real delivery as sent after retries, and as failed once the attempts run out', async () => {
+    const recovering = flakyTransport(2);
+    const failing = flakyTransport(10);
+    const { log, record } = recorder();
+
+    await dispatchToChannels(
+      [createEmailChannel(recovering.transport), createWebhookChannel(failing.transport)],
+      {
+        event: 'fraud_alert',
+        message: 'Policy flagged',
+        data: { policy_number: 'P-1', reason: 'High premium' },
+        recipients: recipients.slice(0, 1),
+      },
+      record,
+      noDelay
+    );
+
+    expect(recovering.sent).toHaveLength(1);
+    expect(failing.sent).toEqual([]);
+    expect(log).toEqual([
+      {
+        event: 'fraud_alert',
+        channel: 'email',
+        target: 'underwriter@example.com',
+        status: 'sent',
+        attempts: 3,
+        error: null,
+        policyId: undefined,
+      },
+      {
+        event: 'fraud_alert',
+        channel: 'webhook',
+        target: 'webhook',
+        status: 'failed',
+        attempts: 3,
+        error: 'Transport responded with 503 Service Unavailable',
+        policyId: undefined,
+      },
+    ]);
+  });
+
+  it('only uses the channels the event is routed to, and skips events without a template', async () => {
+    const email = createMemoryTransport('email');
+    const webhook = createMemoryTransport('webhook');
+    const channels = [createEmailChannel(email), createWebhookChannel(webhook)];
+    const { log, record } = recorder();
+
+    await dispatchToChannels(
+      channels,
+      { event: 'comment_mention', message: 'Ana mentioned you', data: {}, recipients },
+      record,
+      noDelay
+    );
+    await dispatchToChannels(
+      channels,
+      { event: 'policy_created', message: 'Created', data: {}, recipients },
+      record,
+      noDelay
+    );
+
+    expect(log.map((entry) => entry.channel)).toEqual(['email', 'email']);
+    expect(webhook.sent).toEqual([]);
+  });
+
+  it('writes stub deliveries to a file transport as JSON lines', async () => {
+    const lines: string[] = [];
+    const transport = createFileTransport('email', async (line) => {
+      lines.push(line);
+    });
+    const { log, record } = recorder();
+
+    await dispatchToChannels(
+      [createEmailChannel(transport)],
+      {
+        event: 'policy_approved',
+        message: 'Policy fully approved',
+        data: { policy_number: 'P-1' },
+        recipients: recipients.slice(1),
+      },
+      record,
+      noDelay
+    );
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        transport: 'email',
+        to: 'manager@example.com',
+        subject: 'Policy P-1 approved',
+        text: 'Policy fully approved. Policy P-1 has been approved.',
+      },
+    ]);
+    expect(log[0].status).toBe('skipped');
+  });
+});
+
+describe('groupClaimedNotifications', () => {
+  it('merges the per-recipient rows of one notify() call into one message', () => {
+    const row = {
+      event_type: 'approval_required',
+      message: 'Manager action required',
+      data: { role: 'manager' },
+      policy_id: 'policy-1',
+      created_at: '2026-10-19T09:00:00Z',
+    };
+
+    expect(
+      groupClaimedNotifications([
+        { ...row, recipient_id: 'user-1', email: 'a@example.com' },
+        { ...row, recipient_id: 'user-2', email: 'b@example.com' },
+        { ...row, created_at: '2026-10-19T10:00:00Z', recipient_id: 'user-1', email: 'a@example.com' },
+      ])
+    ).toEqual([
+      {
+        event: 'approval_required',
+        message: 'Manager action required',
+        data: { role: 'manager' },
+        policyId: 'policy-1',
+        recipients: [
+          { id: 'user-1', email: 'a@example.com' },
+          { id: 'user-2', email: 'b@example.com' },
+        ],
+      },
+      {
+        event: 'approval_required',
+        message: 'Manager action required',
+        data: { role: 'manager' },
+        policyId: 'policy-1',
+        recipients: [{ id: 'user-1', email: 'a@example.com' }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * NOTIFICATION CHANNELS
+ * Out-of-app delivery (email, webhook) for the events notify() records. The
+ * `deliver-notifications` Edge Function claims new notifications, groups them
+ * into one message per event, renders the event's template and hands it to
+ * each routed channel's transport. Transports are swappable: HTTP for a real
+ * email relay or webhook endpoint, or a stub (in-memory or file) for local runs
+ * and tests. Stub deliveries are logged as `skipped`, never `sent`.
+ *
+ * This module has no runtime dependencies so it runs under Deno (the function)
+ * and Node (the tests) alike.
+ */
+
+export type NotificationChannelId = 'email' | 'webhook';
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+}
+
+export interface ChannelMessage {
+  event: string;
+  subject: string;
+  body: string;
+  data: Record<string, unknown>;
+  recipients: NotificationRecipient[];
+  policyId?: string;
+}
+
+export interface NotificationTransport {
+  /** Stub transports don't deliver anywhere; their deliveries are logged as skipped */
+  stub: boolean;
+  send: (payload: Record<string, unknown>) => Promise<void>;
+}
+
+export interface NotificationChannel {
+  id: NotificationChannelId;
+  stub: boolean;
+  /** Recipient label per delivery, used in the delivery log */
+  targets: (message: ChannelMessage) => string[];
+  deliver: (message: ChannelMessage, target: string) => Promise<void>;
+}
+
+export interface MessageTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface DeliveryRecord {
+  event: string;
+  channel: NotificationChannelId;
+  target: string;
+  status: DeliveryStatus;
+  attempts: number;
+  error: string | null;
+  policyId?: string;
+}
+
+/**
+ * A notification or invitation claimed by `claim_channel_messages`: one row
+ * per recipient
+ */
+export interface ClaimedNotification {
+  event_type: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  policy_id: string | null;
+  recipient_id: string;
+  email: string;
+  created_at: string;
+}
+
+/**
+ * TEMPLATES PER EVENT TYPE
+ * `{{key}}` placeholders are filled from the notification data
+ */
+export const MESSAGE_TEMPLATES: Record<string, MessageTemplate> = {
+  approval_required: {
+    subject: 'Action required: policy {{policy_number}}',
+    body: '{{message}}. Policy {{policy_number}} is waiting for {{role}} review.',
+  },
+  policy_approved: {
+    subject: 'Policy {{policy_number}} approved',
+    body: '{{message}}. Policy {{policy_number}} has been approved.',
+  },
+  fraud_alert: {
+    subject: 'Fraud alert: policy {{policy_number}}',
+    body: '{{message}}. Policy {{policy_number}} was flagged: {{reason}}',
+  },
+  comment_mention: {
+    subject: '{{author}} mentioned you on policy {{policy_number}}',
+    body: '{{message}}:\n\n{{excerpt}}',
+  },
+  user_invited: {
+    subject: 'You have been invited to the Insurance Policy System',
+    body: '{{message}}. Sign up with this email address ({{email}}) to start as {{role}}.',
+  },
+  delegation_granted: {
+    subject: '{{delegator}} delegated their {{role}} authority to you',
+    body: '{{message}}. You can act as {{role}} on their behalf from {{starts_at}} until {{ends_at}}.',
+  },
+  policy_assigned: {
+    subject: 'Policy {{policy_number}} assigned to you',
+    body: '{{message}}. Policy {{policy_number}} is waiting for your {{role}} review.',
+  },
+};
+
+/**
+ * Which channels each event is delivered through
+ */
+export const CHANNEL_ROUTES: Record<string, NotificationChannelId[]> = {
+  approval_required: ['email', 'webhook'],
+  policy_approved: ['email', 'webhook'],
+  fraud_alert: ['email', 'webhook'],
+  comment_mention: ['email'],
+  user_invited: ['email'],
+  delegation_granted: ['email'],
+  policy_assigned: ['email'],
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { maxAttempts: 3, baseDelayMs: 500 };
+
+export const renderTemplate = (template: string, values: Record<string, unknown>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) =>
+    values[key] === undefined || values[key] === null ? '' : String(values[key])
+  );
+
+/**
+ * TRANSPORTS
+ */
+export const createHttpTransport = (url: string, headers: Record<string, string> = {}): NotificationTransport => ({
+  stub: false,
+  send: async (payload) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(`Transport responded with ${response.status} ${response.statusText}`);
+    }
+  },
+});
+
+export interface MemoryTransport extends NotificationTransport {
+  sent: Record<string, unknown>[];
+  /** Number of upcoming sends that should fail, to exercise retries */
+  failNext: number;
+}
+
+export const createMemoryTransport = (label: string = 'memory'): MemoryTransport => {
+  const transport: MemoryTransport = {
+    stub: true,
+    sent: [],
+    failNext: 0,
+    send: async (payload) => {
+      if (transport.failNext > 0) {
+        transport.failNext -= 1;
+        throw new Error(`${label} transport failure (simulated)`);
+      }
+      transport.sent.push(payload);
+    },
+  };
+  return transport;
+};
+
+/**
+ * Appends each payload as a JSON line through `append` (e.g. to an outbox
+ * file), so deliveries can be inspected without a relay or endpoint
+ */
+export const createFileTransport = (label: string, append: (line: string) => Promise<void>): NotificationTransport => ({
+  stub: true,
+  send: (payload) => append(`${JSON.stringify({ transport: label, ...payload })}\n`),
+});
+
+/**
+ * CHANNELS
+ */
+export const createEmailChannel = (transport: NotificationTransport): NotificationChannel => ({
+  id: 'email',
+  stub: transport.stub,
+  targets: (message) => message.recipients.map((recipient) => recipient.email),
+  deliver: (message, to) =>
+    transport.send({
+      to,
+      subject: message.subject,
+      text: message.body,
+    }),
+});
+
+export const createWebhookChannel = (transport: NotificationTransport): NotificationChannel => ({
+  id: 'webhook',
+  stub: transport.stub,
+  targets: () => ['webhook'],
+  deliver: (message) =>
+    transport.send({
+      event: message.event,
+      subject: message.subject,
+      body: message.body,
+      policy_id: message.policyId ?? null,
+      data: message.data,
+      recipients: message.recipients.map((recipient) => recipient.id),
+      timestamp: new Date().toISOString(),
+    }),
+});
+
+/**
+ * DELIVER WITH RETRY
+ * Exponential backoff: baseDelayMs, 2x, 4x, ... between attempts
+ */
+export const deliverWithRetry = async (
+  action: () => Promise<void>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<{ attempts: number; error: string | null }> => {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    try {
+      await action();
+      return { attempts: attempt, error: null };
+    } catch (error) {
+      lastError = (error as Error).message || String(error);
+      if (attempt < options.maxAttempts) {
+        await sleep(options.baseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  return { attempts: options.maxAttempts, error: lastError };
+};
+
+/**
+ * GROUP CLAIMED NOTIFICATIONS
+ * notify() stores one row per recipient; rows of one notify() call share their
+ * event, message, policy and creation time, and become one message
+ */
+export const groupClaimedNotifications = (rows: ClaimedNotification[]) => {
+  const groups = new Map<string, { first: ClaimedNotification; recipients: NotificationRecipient[] }>();
+
+  for (const row of rows) {
+    const key = JSON.stringify([row.event_type, row.message, row.policy_id, row.created_at]);
+    const group = groups.get(key) ?? { first: row, recipients: [] };
+    group.recipients.push({ id: row.recipient_id, email: row.email });
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].map(({ first, recipients }) => ({
+    event: first.event_type,
+    message: first.message,
+    data: first.data ?? {},
+    recipients,
+    policyId: first.policy_id ?? undefined,
+  }));
+};
+
+/**
+ * DISPATCH TO CHANNELS
+ * Renders the event's template and delivers it through every routed channel,
+ * retrying each delivery and passing the outcome to `record`. Events without a
+ * template or route aren't delivered.
+ */
+export const dispatchToChannels = async (
+  channels: NotificationChannel[],
+  notification: {
+    event: string;
+    message: string;
+    data: Record<string, unknown>;
+    recipients: NotificationRecipient[];
+    policyId?: string;
+  },
+  record: (entry: DeliveryRecord) => Promise<void>,
+  retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+) => {
+  const { event, message, data, recipients, policyId } = notification;
+  const template = MESSAGE_TEMPLATES[event];
+  const routes = CHANNEL_ROUTES[event] ?? [];
+  if (!template || routes.length === 0 || recipients.length === 0) return;
+
+  const values = { ...data, message };
+  const channelMessage: ChannelMessage = {
+    event,
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(template.body, values),
+    data,
+    recipients,
+    policyId,
+  };
+
+  const routed = channels.filter((channel) => routes.includes(channel.id));
+  await Promise.all(
+    routed.flatMap((channel) =>
+      channel.targets(channelMessage).map(async (target) => {
+        const result = await deliverWithRetry(() => channel.deliver(channelMessage, target), retryOptions);
+        await record({
+          event,
+          channel: channel.id,
+          target,
+          status: result.error ? 'failed' : channel.stub ? 'skipped' : 'sent',
+          attempts: result.attempts,
+          error: result.error,
+          policyId,
+        });
+      })
+    )
+  );
+};
@@ -0,0 +1,97 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  createEmailChannel,
+  createFileTransport,
+  createHttpTransport,
+  createMemoryTransport,
+  createWebhookChannel,
+  dispatchToChannels,
+  groupClaimedNotifications,
+  ClaimedNotification,
+  DeliveryRecord,
+  NotificationTransport,
+} from '../_shared/notificationChannels.ts';
+import { isAuthorizedDeliveryRequest } from '../_shared/deliveryAuth.ts';
+
+/**
+ * DELIVER NOTIFICATIONS
+ * Claims the notifications and invitations not yet delivered (see
+ * `claim_channel_messages`), delivers them through the email and webhook
+ * channels and writes the delivery log.
+ *
+ * Runs on a schedule (e.g. every minute with Supabase Cron); only the
+ * scheduler may call it (see `_shared/deliveryAuth.ts`).
+ *
+ * Secrets:
+ * - NOTIFICATION_SCHEDULER_SECRET: accepted in the `x-scheduler-secret` header
+ *   as an alternative to the service role key
+ * - EMAIL_RELAY_URL / NOTIFICATION_WEBHOOK_URL: where to POST emails and
+ *   webhook events; without them deliveries go to a stub and are logged as
+ *   skipped
+ * - NOTIFICATION_OUTBOX_FILE: stub deliveries are appended here as JSON lines
+ *   instead of being kept in memory
+ */
+
+const BATCH_SIZE = 100;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+const outboxFile = Deno.env.get('NOTIFICATION_OUTBOX_FILE');
+
+const transportFor = (label: string, url: string | undefined): NotificationTransport => {
+  if (url) return createHttpTransport(url);
+  if (outboxFile) {
+    return createFileTransport(label, (line) => Deno.writeTextFile(outboxFile, line, { append: true }));
+  }
+  return createMemoryTransport(label);
+};
+
+const channels = [
+  createEmailChannel(transportFor('email', Deno.env.get('EMAIL_RELAY_URL'))),
+  createWebhookChannel(transportFor('webhook', Deno.env.get('NOTIFICATION_WEBHOOK_URL'))),
+];
+
+const recordDelivery = async (entry: DeliveryRecord) => {
+  const { error } = await supabase.from('notification_deliveries').insert({
+    event_type: entry.event,
+    channel: entry.channel,
+    target: entry.target,
+    status: entry.status,
+    attempts: entry.attempts,
+    error: entry.error,
+    policy_id: entry.policyId ?? null,
+  });
+  if (error) console.error('Error recording notification delivery:', error);
+};
+
+const credentials = {
+  serviceRoleKey: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'),
+  schedulerSecret: Deno.env.get('NOTIFICATION_SCHEDULER_SECRET'),
+};
+
+Deno.serve(async (request) => {
+  if (!isAuthorizedDeliveryRequest(request.headers, credentials)) {
+    return Response.json({ error: 'Only the scheduler can run notification delivery' }, { status: 401 });
+  }
+
+  let delivered = 0;
+
+  for (;;) {
+    const { data, error } = await supabase.rpc('claim_channel_messages', { p_limit: BATCH_SIZE });
+    if (error) {
+      console.error('Error claiming notifications:', error);
+      return Response.json({ error: error.message }, { status: 500 });
+    }
+
+    const rows = (data ?? []) as ClaimedNotification[];
+    for (const notification of groupClaimedNotifications(rows)) {
+      await dispatchToChannels(channels, notification, recordDelivery);
+      delivered += 1;
+    }
+    if (rows.length < BATCH_SIZE) break;
+  }
+
+  return Response.json({ delivered });
+});
@@ -0,0 +1,21 @@
+/*
+  # Fraud Rule Breakdown
+
+  ## Overview
+  Fraud scoring is now deterministic and rule-based (see `src/services/fraudService.ts`).
+  Each check produces a breakdown of every rule evaluated, which is stored with
+  the policy so a decision can be reproduced and audited.
+
+  ## 1. Modified Tables
+
+  ### `policies`
+  - `fraud_check_details` (jsonb, rule breakdown: score, threshold and one entry
+    per rule with its id, weight, explanation and whether it fired)
+
+  ## 2. Important Notes
+  - `fraud_check_reason` is kept as a human-readable summary of the fired rules
+  - Existing policies keep a NULL breakdown; they were scored by the old random check
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS fraud_check_details jsonb;
@@ -0,0 +1,81 @@
+/*
+  # Configurable Approval Workflows
+
+  ## Overview
+  Approval chains are no longer hard-coded as underwriter → manager. Workflow
+  definitions (ordered stages, the role required at each stage and entry
+  conditions) live in `src/services/workflowService.ts`. A policy waiting at a
+  stage has the status `pending_<role>`, so the database only needs to know
+  that convention rather than every chain.
+
+  ## 1. Modified Tables
+
+  ### `user_profiles`
+  - `role` now also accepts `medical_reviewer`
+
+  ### `policies`
+  - `status` accepts any `pending_<role>` stage status instead of a fixed list
+  - `workflow_id` (text, workflow the policy was submitted under)
+
+  ## 2. Security (Row Level Security)
+
+  ### policies
+  - The per-role underwriter/manager update policies are replaced by a single
+    policy: approvers can update policies whose status is `pending_<their role>`
+  - Creators can move their own drafts into a pending stage (submission)
+
+  ## 3. Important Notes
+  - Existing pending policies are assigned the `standard` workflow
+*/
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('creator', 'underwriter', 'medical_reviewer', 'manager'));
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_status_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_status_check
+  CHECK (status IN ('draft', 'approved', 'rejected') OR status LIKE 'pending\_%');
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS workflow_id text;
+
+UPDATE policies
+  SET workflow_id = 'standard'
+  WHERE status <> 'draft' AND workflow_id IS NULL;
+
+DROP POLICY IF EXISTS "Creators can update own draft policies" ON policies;
+DROP POLICY IF EXISTS "Underwriters can update pending underwriter policies" ON policies;
+DROP POLICY IF EXISTS "Managers can update pending manager policies" ON policies;
+
+CREATE POLICY "Creators can update own draft policies"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    creator_id = auth.uid() AND
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'creator'
+    )
+  )
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    (status = 'draft' OR status LIKE 'pending\_%')
+  );
+
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND policies.status = 'pending_' || user_profiles.role
+    )
+  )
+  WITH CHECK (
+    status IN ('approved', 'rejected') OR status LIKE 'pending\_%'
+  );
@@ -0,0 +1,132 @@
+/*
+  # Approval Authority Limits
+
+  ## Overview
+  Approvers may only clear premiums up to their authority limit. When a policy's
+  premium exceeds the acting approver's limit, the approval becomes an
+  escalation: the policy moves to the next role up the authority ladder
+  (underwriter → manager → executive) that can clear it.
+
+  ## 1. New Tables
+
+  ### `approval_authority_limits`
+  - `id` (uuid, primary key)
+  - `role` (text, role the limit applies to; NULL for a user-specific limit)
+  - `user_id` (uuid, user the limit applies to; overrides the role limit)
+  - `max_premium` (numeric, highest premium that may be cleared; NULL = unlimited)
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### `user_profiles`
+  - `role` now also accepts `executive`
+
+  ### `policies`
+  - `escalated_from_status` (text, workflow stage the policy was escalated from)
+
+  ### `approval_logs`
+  - `action` now also accepts `escalated`
+
+  ## 3. New Functions
+  - `approval_limit(p_user_id)`: effective limit for a user (user row, then role row)
+
+  ## 4. Security (Row Level Security)
+  - All authenticated users can read limits; only managers and executives manage them
+  - Approvers can only move a policy forward (next stage or approved) when its
+    premium is within their limit; otherwise they may only escalate or reject
+
+  ## 5. Important Notes
+  - Seeded role limits: underwriter $50,000, manager $250,000, executive unlimited
+  - Roles without a limit row (e.g. medical_reviewer) are unlimited
+*/
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('creator', 'underwriter', 'medical_reviewer', 'manager', 'executive'));
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS escalated_from_status text;
+
+ALTER TABLE approval_logs DROP CONSTRAINT IF EXISTS approval_logs_action_check;
+ALTER TABLE approval_logs
+  ADD CONSTRAINT approval_logs_action_check
+  CHECK (action IN ('submitted', 'approved', 'rejected', 'escalated'));
+
+-- Approval Authority Limits Table
+CREATE TABLE IF NOT EXISTS approval_authority_limits (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  role text UNIQUE,
+  user_id uuid UNIQUE REFERENCES user_profiles(id) ON DELETE CASCADE,
+  max_premium numeric(12, 2) CHECK (max_premium IS NULL OR max_premium >= 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((role IS NULL) <> (user_id IS NULL))
+);
+
+ALTER TABLE approval_authority_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view authority limits"
+  ON approval_authority_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage authority limits"
+  ON approval_authority_limits FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  );
+
+INSERT INTO approval_authority_limits (role, max_premium) VALUES
+  ('underwriter', 50000),
+  ('manager', 250000),
+  ('executive', NULL)
+ON CONFLICT (role) DO NOTHING;
+
+-- Function to resolve a user's effective authority limit
+CREATE OR REPLACE FUNCTION approval_limit(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT (COALESCE(
+    (SELECT ARRAY[max_premium] FROM approval_authority_limits WHERE user_id = p_user_id),
+    (
+      SELECT ARRAY[limits.max_premium]
+      FROM approval_authority_limits limits
+      JOIN user_profiles ON user_profiles.role = limits.role
+      WHERE user_profiles.id = p_user_id
+    ),
+    ARRAY[NULL::numeric]
+  ))[1];
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Approvers can update policies pending their stage" ON policies;
+
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND policies.status = 'pending_' || user_profiles.role
+    )
+  )
+  WITH CHECK (
+    status = 'rejected' OR
+    (status LIKE 'pending\_%' AND escalated_from_status IS NOT NULL) OR
+    (
+      (status = 'approved' OR status LIKE 'pending\_%') AND
+      escalated_from_status IS NULL AND
+      (approval_limit(auth.uid()) IS NULL OR premium_amount <= approval_limit(auth.uid()))
+    )
+  );
@@ -0,0 +1,53 @@
+/*
+  # Return for Revision
+
+  ## Overview
+  Approvers can send a pending policy back to its creator instead of rejecting
+  it outright. A returned policy goes back to `draft` with mandatory reviewer
+  comments; the creator edits it and submits it again. The approval log keeps
+  every round trip.
+
+  ## 1. Modified Tables
+
+  ### `policies`
+  - `revision_count` (integer, number of times the policy was returned for revision)
+
+  ### `approval_logs`
+  - `action` now also accepts `returned`
+
+  ## 2. Security (Row Level Security)
+
+  ### policies
+  - Approvers may move a policy pending their stage back to `draft`
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS revision_count integer NOT NULL DEFAULT 0 CHECK (revision_count >= 0);
+
+ALTER TABLE approval_logs DROP CONSTRAINT IF EXISTS approval_logs_action_check;
+ALTER TABLE approval_logs
+  ADD CONSTRAINT approval_logs_action_check
+  CHECK (action IN ('submitted', 'approved', 'rejected', 'escalated', 'returned'));
+
+DROP POLICY IF EXISTS "Approvers can update policies pending their stage" ON policies;
+
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND policies.status = 'pending_' || user_profiles.role
+    )
+  )
+  WITH CHECK (
+    status = 'rejected' OR
+    (status = 'draft' AND escalated_from_status IS NULL) OR
+    (status LIKE 'pending\_%' AND escalated_from_status IS NOT NULL) OR
+    (
+      (status = 'approved' OR status LIKE 'pending\_%') AND
+      escalated_from_status IS NULL AND
+      (approval_limit(auth.uid()) IS NULL OR premium_amount <= approval_limit(auth.uid()))
+    )
+  );
@@ -0,0 +1,66 @@
+/*
+  # In-App Notifications
+
+  ## Overview
+  Workflow events (`notify()` in the app) are stored as durable notifications so
+  approvers see waiting work without refreshing the dashboard. Role-targeted
+  notifications are fanned out into one row per recipient, so each user has
+  their own read state.
+
+  ## 1. New Tables
+
+  ### `notifications`
+  - `id` (uuid, primary key)
+  - `recipient_id` (uuid, references user_profiles)
+  - `type` (text, workflow event type, e.g. approval_required)
+  - `message` (text, human-readable summary)
+  - `policy_id` (uuid, references policies; used to deep-link to the policy)
+  - `data` (jsonb, event context)
+  - `read_at` (timestamptz, NULL while unread)
+  - `created_at` (timestamptz)
+
+  ## 2. Security (Row Level Security)
+  - Users can only view and update (mark as read) their own notifications
+  - Any authenticated user can create notifications (workflow actions notify others)
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipient_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  message text NOT NULL,
+  policy_id uuid REFERENCES policies(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}',
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_recipient_created_idx
+  ON notifications (recipient_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications (recipient_id)
+  WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (recipient_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications as read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (recipient_id = auth.uid())
+  WITH CHECK (recipient_id = auth.uid());
+
+CREATE POLICY "Authenticated users can create notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+    )
+  );
@@ -0,0 +1,146 @@
+/*
+  # Notification Delivery Log
+
+  ## Overview
+  `approval_required`, `policy_approved` and `fraud_alert` events are also
+  delivered by email and outgoing webhook. Delivery runs in the
+  `deliver-notifications` Edge Function with the service role (see
+  `supabase/functions/_shared/notificationChannels.ts`): it claims the
+  notifications not yet handed to the channels, delivers them and records
+  every delivery, after retries with exponential backoff, here.
+
+  ## 1. New Tables
+
+  ### `notification_deliveries`
+  - `id` (uuid, primary key)
+  - `event_type` (text, notification event type)
+  - `channel` (text, one of: email, webhook)
+  - `target` (text, email address or `webhook`)
+  - `status` (text, one of: sent, failed, skipped; skipped = only reached a
+    stub transport)
+  - `attempts` (integer, delivery attempts made)
+  - `error` (text, last error when failed)
+  - `policy_id` (uuid, references policies)
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### `notifications`
+  - `channels_claimed_at` (timestamptz, when the delivery function picked the
+    notification up; NULL until then)
+
+  ## 3. New Functions
+  - `claim_channel_messages(p_limit)`: marks up to `p_limit` unclaimed
+    notifications (and open invitations, once user administration exists) as
+    claimed and returns them with the recipient's address. Notifications of
+    deactivated users are claimed but not returned. Only the service role may
+    call it.
+
+  ## 4. Security (Row Level Security)
+  - Only managers can view the delivery log; only the delivery function
+    (service role) writes it
+
+  ## 5. Important Notes
+  - Notifications that exist before this migration are marked as claimed, so
+    they are not delivered
+*/
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_type text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'webhook')),
+  target text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 1 CHECK (attempts > 0),
+  error text,
+  policy_id uuid REFERENCES policies(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_created_idx
+  ON notification_deliveries (created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view delivery log"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'manager'
+    )
+  );
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS channels_claimed_at timestamptz;
+
+UPDATE notifications SET channels_claimed_at = created_at WHERE channels_claimed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS notifications_unclaimed_idx
+  ON notifications (created_at)
+  WHERE channels_claimed_at IS NULL;
+
+-- Claims notifications for the delivery function, so each is delivered once
+CREATE OR REPLACE FUNCTION claim_channel_messages(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  event_type text,
+  message text,
+  data jsonb,
+  policy_id uuid,
+  recipient_id uuid,
+  email text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notifications
+    SET channels_claimed_at = now()
+    WHERE notifications.id IN (
+      SELECT unclaimed.id FROM notifications unclaimed
+      WHERE unclaimed.channels_claimed_at IS NULL
+      ORDER BY unclaimed.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING notifications.*
+  )
+  SELECT claimed.type, claimed.message, claimed.data, claimed.policy_id, claimed.recipient_id,
+    user_profiles.email, claimed.created_at
+  FROM claimed
+  JOIN user_profiles ON user_profiles.id = claimed.recipient_id
+  WHERE user_profiles.active;
+
+  -- Invitees have no account yet; the invitation stands in for the recipient
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE user_invitations
+    SET email_claimed_at = now()
+    WHERE user_invitations.id IN (
+      SELECT unclaimed.id FROM user_invitations unclaimed
+      WHERE unclaimed.email_claimed_at IS NULL
+      AND unclaimed.accepted_at IS NULL
+      AND unclaimed.revoked_at IS NULL
+      ORDER BY unclaimed.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING user_invitations.*
+  )
+  SELECT
+    'user_invited'::text,
+    format('%s invited you to the Insurance Policy System', coalesce(inviter.full_name, 'An administrator')),
+    jsonb_build_object('email', claimed.email, 'role', initcap(replace(claimed.role, '_', ' '))),
+    NULL::uuid,
+    claimed.id,
+    claimed.email,
+    claimed.created_at
+  FROM claimed
+  LEFT JOIN user_profiles inviter ON inviter.id = claimed.invited_by;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_channel_messages(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_channel_messages(integer) TO service_role;
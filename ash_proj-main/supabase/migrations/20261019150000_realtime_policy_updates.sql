@@ -0,0 +1,36 @@
+/*
+  # Realtime Policy Updates
+
+  ## Overview
+  The dashboard, policy list and an open policy detail subscribe to changes on
+  `policies` and `approval_logs` through Supabase Realtime, so approvals by
+  colleagues show up without a reload.
+
+  ## 1. Modified Publications
+
+  ### `supabase_realtime`
+  - Adds `policies` and `approval_logs`
+
+  ## 2. Important Notes
+  - Realtime respects the existing RLS policies: users only receive changes to rows they can select
+  - `policies` uses REPLICA IDENTITY FULL so update events carry the previous row values
+*/
+
+ALTER TABLE policies REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'policies'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE policies;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'approval_logs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE approval_logs;
+  END IF;
+END $$;
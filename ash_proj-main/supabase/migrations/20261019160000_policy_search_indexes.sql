@@ -0,0 +1,31 @@
+/*
+  # Policy Search, Sorting and Pagination Indexes
+
+  ## Overview
+  `getPolicies` now filters, sorts and paginates on the server instead of
+  loading every policy. These indexes keep those queries fast as the table grows.
+
+  ## 1. New Extensions
+  - `pg_trgm` for substring search (`ILIKE '%term%'`) on policy_number and customer_name
+
+  ## 2. New Indexes
+  - Trigram GIN indexes on `policies.policy_number` and `policies.customer_name`
+  - B-tree indexes on the sortable / filterable columns: created_at, premium_amount, status
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS policies_policy_number_trgm_idx
+  ON policies USING gin (policy_number gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS policies_customer_name_trgm_idx
+  ON policies USING gin (customer_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS policies_created_at_idx
+  ON policies (created_at DESC, id);
+
+CREATE INDEX IF NOT EXISTS policies_premium_amount_idx
+  ON policies (premium_amount);
+
+CREATE INDEX IF NOT EXISTS policies_status_idx
+  ON policies (status);
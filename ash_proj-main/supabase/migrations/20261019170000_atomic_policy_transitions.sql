@@ -0,0 +1,229 @@
+/*
+  # Atomic Policy Transitions
+
+  ## Overview
+  Status changes used to read the policy, update it and insert the approval log
+  in separate round trips. Two approvers acting at once could both move the
+  same policy, and a failed log insert left a status change without an audit
+  record. Every transition now goes through one function that checks the
+  expected previous status, updates the policy and writes the log in a single
+  transaction.
+
+  ## 1. New Functions
+  - `transition_policy(...)`: compare-and-set on `policies.status` plus the
+    matching `approval_logs` row; returns the updated policy
+
+  ## 2. Triggers
+  - `guard_policy_transition` (BEFORE UPDATE on policies): rejects changes to
+    `status`, `escalated_from_status` and `revision_count` made outside
+    `transition_policy`, so a plain `UPDATE policies` can't skip the status
+    check or the log entry
+
+  ## 3. Errors
+  - `PT409`: the policy is no longer in the expected status (someone else acted
+    first); DETAIL carries the current status
+  - `42501`: the status matched but row level security refused the update
+  - `P0002`: the policy does not exist or is not visible to the caller
+
+  ## 4. Important Notes
+  - SECURITY INVOKER: the existing RLS policies on `policies` and
+    `approval_logs` still decide who may make which transition
+  - The UPDATE takes a row lock, so a concurrent transition waits and then
+    fails the status comparison instead of overwriting the first one
+*/
+
+CREATE OR REPLACE FUNCTION guard_policy_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    NEW.status IS DISTINCT FROM OLD.status OR
+    NEW.escalated_from_status IS DISTINCT FROM OLD.escalated_from_status OR
+    NEW.revision_count IS DISTINCT FROM OLD.revision_count
+  )
+  AND coalesce(current_setting('app.policy_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Policy status changes go through transition_policy' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_policy_transition ON policies;
+CREATE TRIGGER guard_policy_transition
+  BEFORE UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_policy_transition();
+
+CREATE OR REPLACE FUNCTION transition_policy(
+  p_policy_id uuid,
+  p_actor_id uuid,
+  p_expected_status text,
+  p_new_status text,
+  p_action text,
+  p_role text,
+  p_comments text DEFAULT '',
+  p_workflow_id text DEFAULT NULL,
+  p_escalated_from_status text DEFAULT NULL,
+  p_increment_revision boolean DEFAULT false,
+  p_on_behalf_of uuid DEFAULT NULL
+)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies;
+  v_current policies;
+  v_current_status text;
+  v_limit numeric;
+  v_target text;
+BEGIN
+  -- Drafts are submitted through submit_policy, which applies the fraud gate
+  IF p_expected_status = 'draft' AND coalesce(current_setting('app.policy_submission', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Drafts are submitted through submit_policy' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    CASE p_action
+      WHEN 'submitted' THEN p_new_status LIKE 'pending\_%'
+      WHEN 'approved' THEN p_new_status = 'approved' OR p_new_status LIKE 'pending\_%'
+      WHEN 'escalated' THEN p_new_status LIKE 'pending\_%'
+      WHEN 'fraud_cleared' THEN p_new_status LIKE 'pending\_%'
+      WHEN 'rejected' THEN p_new_status = 'rejected'
+      WHEN 'fraud_confirmed' THEN p_new_status = 'rejected'
+      WHEN 'returned' THEN p_new_status = 'draft'
+      ELSE false
+    END
+  ) THEN
+    RAISE EXCEPTION 'A policy can''t be % to %', p_action, p_new_status USING ERRCODE = '22023';
+  END IF;
+
+  IF p_escalated_from_status IS NOT NULL AND p_action <> 'escalated' THEN
+    RAISE EXCEPTION 'Only an escalation records the stage it left' USING ERRCODE = '22023';
+  END IF;
+
+  -- Fraud review is decided through review_fraud_flag, which records the
+  -- decision on the policy first
+  IF (p_expected_status = 'pending_fraud_reviewer') <> (p_action IN ('fraud_cleared', 'fraud_confirmed')) OR (
+    p_action = 'fraud_cleared' AND NOT EXISTS (
+      SELECT 1 FROM policies WHERE id = p_policy_id AND fraud_flag_status = 'cleared'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Policies in fraud review are cleared or confirmed through review_fraud_flag' USING ERRCODE = '42501';
+  END IF;
+
+  -- Segregation of duties: nobody reviews a policy they created
+  IF p_expected_status LIKE 'pending\_%' AND EXISTS (
+    SELECT 1 FROM policies WHERE id = p_policy_id AND creator_id = p_actor_id
+  ) THEN
+    RAISE EXCEPTION 'Reviewers can''t act on policies they created' USING ERRCODE = '42501';
+  END IF;
+
+  -- ...nor on behalf of its creator
+  IF p_expected_status LIKE 'pending\_%' AND EXISTS (
+    SELECT 1 FROM policies WHERE id = p_policy_id AND creator_id = p_on_behalf_of
+  ) THEN
+    RAISE EXCEPTION 'Delegates can''t act on behalf of the policy''s creator' USING ERRCODE = '42501';
+  END IF;
+
+  -- Acting on a pending stage takes the stage's capability, or a delegation
+  -- of the stage's role from p_on_behalf_of
+  IF p_on_behalf_of IS NOT NULL THEN
+    IF p_expected_status <> 'pending_' || p_role OR NOT EXISTS (
+      SELECT 1 FROM active_delegations(p_actor_id) AS delegations
+      WHERE delegations.delegator_id = p_on_behalf_of
+      AND delegations.role = p_role
+    ) THEN
+      RAISE EXCEPTION 'No active % delegation to act on behalf of this user', p_role USING ERRCODE = '42501';
+    END IF;
+  ELSIF p_expected_status LIKE 'pending\_%' AND NOT has_capability(stage_capability(p_expected_status)) THEN
+    RAISE EXCEPTION 'Not authorized to act on a policy in %', p_expected_status USING ERRCODE = '42501';
+  END IF;
+
+  -- Only the assignee, or someone acting on their behalf, can act on an
+  -- assigned policy
+  IF p_expected_status LIKE 'pending\_%' AND EXISTS (
+    SELECT 1 FROM policies
+    WHERE id = p_policy_id
+    AND status = p_expected_status
+    AND assigned_to IS NOT NULL
+    AND assigned_to <> p_actor_id
+    AND assigned_to IS DISTINCT FROM p_on_behalf_of
+  ) THEN
+    RAISE EXCEPTION 'This policy is assigned to another reviewer' USING ERRCODE = '42501';
+  END IF;
+
+  -- Approvals are made as the stage's role, within that role's authority
+  -- (the delegator's, when acting on their behalf)
+  IF p_action = 'approved' THEN
+    IF p_expected_status <> 'pending_' || p_role THEN
+      RAISE EXCEPTION 'Only a % can approve a policy in %', p_role, p_expected_status USING ERRCODE = '42501';
+    END IF;
+
+    v_limit := approval_limit(coalesce(p_on_behalf_of, p_actor_id), p_role);
+    IF v_limit IS NOT NULL AND EXISTS (
+      SELECT 1 FROM policies WHERE id = p_policy_id AND premium_amount > v_limit
+    ) THEN
+      RAISE EXCEPTION 'The premium exceeds the % approval limit of %', p_role, v_limit USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- The workflow decides where the policy goes: an approval to the next
+  -- applicable stage (approved after the last), a cleared fraud flag to the
+  -- first, an escalation to the next authority that covers the premium. A
+  -- policy that moved meanwhile fails the status comparison below instead.
+  SELECT * INTO v_current FROM policies WHERE id = p_policy_id;
+  IF FOUND AND v_current.status = p_expected_status THEN
+    IF p_action = 'approved' THEN
+      v_target := coalesce(next_stage_status(v_current), 'approved');
+    ELSIF p_action = 'fraud_cleared' THEN
+      v_target := first_stage_status(v_current, coalesce(v_current.workflow_id, workflow_for_product(v_current.product_type)));
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'The policy''s workflow has no applicable review stage' USING ERRCODE = '22023';
+      END IF;
+    ELSIF p_action = 'escalated' THEN
+      v_target := escalation_status(p_role, v_current.premium_amount);
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'No approver role has authority for this premium amount' USING ERRCODE = '22023';
+      END IF;
+      IF p_escalated_from_status IS DISTINCT FROM coalesce(v_current.escalated_from_status, v_current.status) THEN
+        RAISE EXCEPTION 'An escalation records the stage it left, %',
+          coalesce(v_current.escalated_from_status, v_current.status) USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    IF p_new_status IS DISTINCT FROM coalesce(v_target, p_new_status) THEN
+      RAISE EXCEPTION 'This policy moves on to %, not %', v_target, p_new_status USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.policy_transition', 'on', true);
+  UPDATE policies
+  SET
+    status = p_new_status,
+    workflow_id = COALESCE(p_workflow_id, workflow_id),
+    escalated_from_status = p_escalated_from_status,
+    revision_count = revision_count + CASE WHEN p_increment_revision THEN 1 ELSE 0 END
+  WHERE id = p_policy_id
+  AND status = p_expected_status
+  RETURNING * INTO v_policy;
+  PERFORM set_config('app.policy_transition', 'off', true);
+
+  IF NOT FOUND THEN
+    SELECT status INTO v_current_status FROM policies WHERE id = p_policy_id;
+
+    IF v_current_status IS NULL THEN
+      RAISE EXCEPTION 'Policy not found' USING ERRCODE = 'P0002';
+    ELSIF v_current_status = p_expected_status THEN
+      RAISE EXCEPTION 'Not authorized to move this policy to %', p_new_status USING ERRCODE = '42501';
+    ELSE
+      RAISE EXCEPTION 'Policy status changed from % to %', p_expected_status, v_current_status
+        USING ERRCODE = 'PT409', DETAIL = v_current_status;
+    END IF;
+  END IF;
+
+  INSERT INTO approval_logs (policy_id, approver_id, action, role, comments, previous_status, new_status, on_behalf_of)
+  VALUES (p_policy_id, p_actor_id, p_action, p_role, p_comments, p_expected_status, p_new_status, p_on_behalf_of);
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION transition_policy(uuid, uuid, text, text, text, text, text, text, text, boolean, uuid) TO authenticated;
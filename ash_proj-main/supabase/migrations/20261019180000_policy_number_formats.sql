@@ -0,0 +1,139 @@
+/*
+  # Policy Number Formats
+
+  ## Overview
+  `generate_policy_number()` derived the next number from `COUNT(*) + 1`, so
+  concurrent inserts collided on the UNIQUE constraint and deleting a policy
+  made its number reusable. Numbers now come from a counter that only ever
+  moves forward, and each product type can have its own format, e.g.
+  `AUTO-2026-000123`, optionally restarting at 1 every year.
+
+  ## 1. New Tables
+
+  ### `policy_number_formats`
+  - `product_type` (text, primary key; `default` applies to products without a row)
+  - `template` (text, e.g. `AUTO-{YYYY}-{SEQ}`; tokens: `{YYYY}`, `{YY}`, `{SEQ}`)
+  - `sequence_padding` (integer, minimum zero-padded width of `{SEQ}`; longer
+    sequences are rendered in full)
+  - `reset_yearly` (boolean, restart the sequence at 1 each calendar year; the
+    template must then contain `{YYYY}` or `{YY}`)
+  - `created_at` (timestamptz)
+
+  ### `policy_number_counters`
+  - `format_key` (text, product type of the format the counter belongs to)
+  - `period` (integer, calendar year for yearly formats, 0 otherwise)
+  - `last_value` (bigint, last number handed out)
+  - Primary key (`format_key`, `period`)
+
+  ## 2. Modified Functions
+  - `generate_policy_number(p_product_type)`: replaces the parameterless
+    version; increments the counter with a single upsert (row-locked, so
+    concurrent callers get distinct values) and renders the product's template
+
+  ## 3. Security (Row Level Security)
+  - All authenticated users can read formats; managers and executives manage them
+  - Counters have no policies: they are only written by the SECURITY DEFINER
+    generator
+
+  ## 4. Important Notes
+  - Counters never decrease, so numbers of deleted policies are not reused
+  - The `default` counter starts after the highest existing `POL-` number that
+    fits its padding, so policies numbered by the old generator keep their
+    numbers unique while the old client's `POL-<timestamp>` fallback numbers
+    don't inflate the counter
+*/
+
+CREATE TABLE IF NOT EXISTS policy_number_formats (
+  product_type text PRIMARY KEY,
+  template text NOT NULL CHECK (template LIKE '%{SEQ}%'),
+  sequence_padding integer NOT NULL DEFAULT 6 CHECK (sequence_padding BETWEEN 1 AND 12),
+  reset_yearly boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT policy_number_formats_yearly_template_check
+    CHECK (NOT reset_yearly OR template LIKE '%{YYYY}%' OR template LIKE '%{YY}%')
+);
+
+CREATE TABLE IF NOT EXISTS policy_number_counters (
+  format_key text NOT NULL,
+  period integer NOT NULL DEFAULT 0,
+  last_value bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (format_key, period)
+);
+
+ALTER TABLE policy_number_formats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE policy_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view policy number formats"
+  ON policy_number_formats FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage policy number formats"
+  ON policy_number_formats FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  );
+
+INSERT INTO policy_number_formats (product_type, template, sequence_padding, reset_yearly) VALUES
+  ('default', 'POL-{SEQ}', 6, false),
+  ('Auto Insurance', 'AUTO-{YYYY}-{SEQ}', 6, true),
+  ('Home Insurance', 'HOME-{YYYY}-{SEQ}', 6, true),
+  ('Life Insurance', 'LIFE-{SEQ}', 8, false),
+  ('Health Insurance', 'HLTH-{YYYY}-{SEQ}', 6, true),
+  ('Business Insurance', 'BUS-{YYYY}-{SEQ}', 6, true),
+  ('Travel Insurance', 'TRV-{YY}-{SEQ}', 6, true)
+ON CONFLICT (product_type) DO NOTHING;
+
+INSERT INTO policy_number_counters (format_key, period, last_value)
+SELECT 'default', 0, COALESCE(MAX(substring(policy_number FROM '^POL-(\d+)$')::bigint), 0)
+FROM policies
+WHERE policy_number ~ '^POL-\d{1,6}$'
+ON CONFLICT (format_key, period) DO NOTHING;
+
+DROP FUNCTION IF EXISTS generate_policy_number();
+
+-- Function to generate the next policy number for a product type
+CREATE OR REPLACE FUNCTION generate_policy_number(p_product_type text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  v_format policy_number_formats;
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_period integer;
+  v_value bigint;
+BEGIN
+  SELECT * INTO v_format FROM policy_number_formats WHERE product_type = p_product_type;
+  IF NOT FOUND THEN
+    SELECT * INTO v_format FROM policy_number_formats WHERE product_type = 'default';
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No policy number format configured for %', COALESCE(p_product_type, 'default');
+  END IF;
+
+  v_period := CASE WHEN v_format.reset_yearly THEN v_year ELSE 0 END;
+
+  INSERT INTO policy_number_counters AS counters (format_key, period, last_value)
+  VALUES (v_format.product_type, v_period, 1)
+  ON CONFLICT (format_key, period)
+  DO UPDATE SET last_value = counters.last_value + 1
+  RETURNING last_value INTO v_value;
+
+  RETURN replace(replace(replace(v_format.template,
+    '{YYYY}', v_year::text),
+    '{YY}', lpad((v_year % 100)::text, 2, '0')),
+    '{SEQ}', lpad(v_value::text, greatest(v_format.sequence_padding, length(v_value::text)), '0'));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION generate_policy_number(text) TO authenticated;
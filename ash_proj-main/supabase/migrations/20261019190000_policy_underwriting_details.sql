@@ -0,0 +1,60 @@
+/*
+  # Policy Underwriting Details
+
+  ## Overview
+  A policy only held the customer name, premium and product type, which is not
+  enough to underwrite. Policies now carry coverage, term, insured contact
+  details and a product-specific attribute block (e.g. vehicle VIN for Auto,
+  property value for Home).
+
+  ## 1. Modified Tables
+
+  ### `policies`
+  - `coverage_amount` (numeric, sum insured)
+  - `deductible` (numeric, default 0)
+  - `effective_date` (date, start of cover)
+  - `expiry_date` (date, end of cover)
+  - `insured_email` (text)
+  - `insured_phone` (text)
+  - `insured_address` (jsonb: line1, line2, city, region, postal_code, country)
+  - `product_attributes` (jsonb, fields depend on `product_type`)
+
+  ## 2. Constraints
+  - Coverage must be positive and the deductible between 0 and the coverage
+  - Expiry must be after the effective date
+  - Address and attributes must be JSON objects
+
+  ## 3. Important Notes
+  - Existing policies keep NULL coverage/term/contact values; the application
+    requires them when a policy is created or edited
+  - Per-product attribute rules are validated in the application
+    (`src/services/policyValidation.ts`)
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS coverage_amount numeric(14, 2),
+  ADD COLUMN IF NOT EXISTS deductible numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS effective_date date,
+  ADD COLUMN IF NOT EXISTS expiry_date date,
+  ADD COLUMN IF NOT EXISTS insured_email text,
+  ADD COLUMN IF NOT EXISTS insured_phone text,
+  ADD COLUMN IF NOT EXISTS insured_address jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS product_attributes jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_coverage_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_coverage_check
+  CHECK (
+    deductible >= 0 AND
+    (coverage_amount IS NULL OR (coverage_amount > 0 AND deductible < coverage_amount))
+  );
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_term_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_term_check
+  CHECK (effective_date IS NULL OR expiry_date IS NULL OR expiry_date > effective_date);
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_details_json_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_details_json_check
+  CHECK (jsonb_typeof(insured_address) = 'object' AND jsonb_typeof(product_attributes) = 'object');
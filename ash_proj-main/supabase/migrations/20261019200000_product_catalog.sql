@@ -0,0 +1,145 @@
+/*
+  # Product Catalog
+
+  ## Overview
+  Product types were a literal list in the policy form and a free-text column
+  on `policies`. They now live in a catalog managers maintain: each product has
+  a stable code, a display name, premium bounds and an active flag. Policies
+  reference products by code.
+
+  ## 1. New Tables
+
+  ### `products`
+  - `code` (text, primary key, e.g. `AUTO`; uppercase letters, digits, underscores)
+  - `name` (text, unique display name)
+  - `description` (text)
+  - `min_premium` (numeric, lowest premium accepted)
+  - `max_premium` (numeric, highest premium accepted; NULL = no upper bound)
+  - `active` (boolean, retired products can't be used on new or edited policies)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### `policies`
+  - `product_type` now holds the product code and references `products(code)`
+
+  ### `policy_number_formats` / `policy_number_counters`
+  - Re-keyed from product display names to product codes
+
+  ## 3. Security (Row Level Security)
+  - All authenticated users can read the catalog
+  - Managers and executives can create and edit products
+  - Products are retired, not deleted, so no DELETE policy is granted
+
+  ## 4. Important Notes
+  - Existing policies are mapped from display names to codes; product types
+    not in the seeded catalog are added as retired products (coded
+    `LEGACY_<STEM>_<n>`) so history stays valid
+*/
+
+CREATE TABLE IF NOT EXISTS products (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z][A-Z0-9_]{1,19}$'),
+  name text UNIQUE NOT NULL,
+  description text NOT NULL DEFAULT '',
+  min_premium numeric(12, 2) NOT NULL DEFAULT 0 CHECK (min_premium >= 0),
+  max_premium numeric(12, 2) CHECK (max_premium IS NULL OR max_premium >= min_premium),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view products"
+  ON products FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can create products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  );
+
+CREATE POLICY "Managers can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('manager', 'executive')
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO products (code, name, description, min_premium, max_premium) VALUES
+  ('AUTO', 'Auto Insurance', 'Private passenger vehicles', 100, 50000),
+  ('HOME', 'Home Insurance', 'Owner-occupied residential property', 100, 100000),
+  ('LIFE', 'Life Insurance', 'Term life cover', 50, 500000),
+  ('HEALTH', 'Health Insurance', 'Individual health cover', 50, 100000),
+  ('BUSINESS', 'Business Insurance', 'Commercial package for small and mid-sized businesses', 500, 1000000),
+  ('TRAVEL', 'Travel Insurance', 'Single-trip travel cover', 10, 20000)
+ON CONFLICT (code) DO NOTHING;
+
+-- Keep legacy free-text product types as retired products, under generated
+-- codes: the prefix keeps them valid and the numeric suffix keeps them unique
+WITH legacy AS (
+  SELECT
+    product_type,
+    rtrim(left(btrim(upper(regexp_replace(product_type, '[^A-Za-z0-9]+', '_', 'g')), '_'), 8), '_') AS stem,
+    row_number() OVER (ORDER BY product_type) AS n
+  FROM (SELECT DISTINCT product_type FROM policies) types
+  WHERE product_type NOT IN (SELECT name FROM products)
+  AND product_type NOT IN (SELECT code FROM products)
+),
+legacy_products AS (
+  INSERT INTO products (code, name, active)
+  SELECT 'LEGACY_' || coalesce(nullif(stem, '') || '_', '') || n, product_type, false
+  FROM legacy
+  RETURNING code, name
+)
+UPDATE policies
+SET product_type = legacy_products.code
+FROM legacy_products
+WHERE policies.product_type = legacy_products.name;
+
+UPDATE policies
+SET product_type = products.code
+FROM products
+WHERE policies.product_type = products.name;
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_product_type_fkey;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_product_type_fkey
+  FOREIGN KEY (product_type) REFERENCES products(code) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS policies_product_type_idx ON policies (product_type);
+
+-- Policy number formats follow the product codes
+UPDATE policy_number_formats
+SET product_type = products.code
+FROM products
+WHERE policy_number_formats.product_type = products.name;
+
+UPDATE policy_number_counters
+SET format_key = products.code
+FROM products
+WHERE policy_number_counters.format_key = products.name;
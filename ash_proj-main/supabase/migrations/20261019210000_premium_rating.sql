@@ -0,0 +1,48 @@
+/*
+  # Premium Rating
+
+  ## Overview
+  Premiums were typed in freehand. The application now rates each policy from
+  its risk inputs (base rate per product, multiplied by age, coverage,
+  deductible and prior-claims factors, raised to a minimum premium) and stores
+  the result next to the charged premium. A creator may charge a different
+  premium, but must record why, so underwriters can see every override.
+
+  ## 1. Modified Tables
+
+  ### `policies`
+  - `prior_claims` (integer, claims in the last 5 years, default 0)
+  - `rated_premium` (numeric, premium suggested by the rating engine)
+  - `rating_details` (jsonb, base premium, factor breakdown and minimum)
+  - `premium_override_reason` (text, justification when the charged premium
+    differs from the rated premium)
+
+  ## 2. Constraints
+  - Prior claims can't be negative
+  - A premium that differs from the rated premium needs a non-blank reason
+
+  ## 3. Important Notes
+  - Rating tables live in the application (`src/services/ratingService.ts`);
+    the breakdown is stored so a policy keeps the rating it was approved with
+  - Existing policies have no rating (NULL) and aren't treated as overrides
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS prior_claims integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rated_premium numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS rating_details jsonb,
+  ADD COLUMN IF NOT EXISTS premium_override_reason text;
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_prior_claims_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_prior_claims_check
+  CHECK (prior_claims >= 0);
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_premium_override_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_premium_override_check
+  CHECK (
+    rated_premium IS NULL OR
+    premium_amount = rated_premium OR
+    length(trim(coalesce(premium_override_reason, ''))) > 0
+  );
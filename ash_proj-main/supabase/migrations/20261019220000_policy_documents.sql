@@ -0,0 +1,189 @@
+/*
+  # Policy Documents
+
+  ## Overview
+  Creators attach supporting documents (ID, inspection reports, medical forms,
+  ...) to their draft policies so underwriters have more to review than the
+  policy fields. Files live in the private `policy-documents` Storage bucket;
+  `policy_documents` records their metadata. Uploading a file with the same
+  document type and name as an existing one adds a new version; earlier versions
+  are kept.
+
+  ## 1. New Tables
+
+  ### `policy_documents`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `document_type` (text, e.g. `id_document`, `inspection_report`, `medical_form`)
+  - `file_name` (text, original file name)
+  - `storage_path` (text, unique object path `<policy_id>/<uuid>/<file_name>`)
+  - `mime_type` (text)
+  - `size_bytes` (bigint, at most 10 MB)
+  - `version` (integer, assigned on insert per policy, type and file name)
+  - `uploaded_by` (uuid, FK to user_profiles)
+  - `created_at` (timestamptz)
+
+  ## 2. Storage
+  - Private bucket `policy-documents` with a 10 MB limit and an allow-list of
+    PDF and image MIME types
+
+  ## 3. Security (Row Level Security)
+  - Documents (rows and objects) are visible to anyone who can see the policy
+  - Only the policy's creator can upload, and only while the policy is a draft
+  - Documents can't be changed or deleted; a new version is uploaded instead
+
+  ## 4. Audit
+  - Every upload writes a `document_uploaded` entry to `approval_logs` in the
+    same transaction
+*/
+
+CREATE TABLE IF NOT EXISTS policy_documents (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (
+    document_type IN ('id_document', 'proof_of_address', 'inspection_report', 'medical_form', 'financial_statement', 'other')
+  ),
+  file_name text NOT NULL CHECK (length(trim(file_name)) > 0),
+  storage_path text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  version integer NOT NULL DEFAULT 1 CHECK (version > 0),
+  uploaded_by uuid NOT NULL REFERENCES user_profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (policy_id, document_type, file_name, version)
+);
+
+CREATE INDEX IF NOT EXISTS policy_documents_policy_idx ON policy_documents (policy_id, document_type, file_name, version DESC);
+
+ALTER TABLE policy_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view documents of visible policies" ON policy_documents;
+CREATE POLICY "Users can view documents of visible policies"
+  ON policy_documents FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_documents.policy_id)
+  );
+
+DROP POLICY IF EXISTS "Creators can upload documents to their draft policies" ON policy_documents;
+CREATE POLICY "Creators can upload documents to their draft policies"
+  ON policy_documents FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM policies
+      WHERE policies.id = policy_documents.policy_id
+      AND policies.creator_id = auth.uid()
+      AND policies.status = 'draft'
+    )
+  );
+
+-- Next version per policy, document type and file name
+CREATE OR REPLACE FUNCTION assign_policy_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.policy_id::text || '/' || NEW.document_type || '/' || NEW.file_name));
+
+  SELECT coalesce(max(version), 0) + 1 INTO NEW.version
+  FROM policy_documents
+  WHERE policy_id = NEW.policy_id
+  AND document_type = NEW.document_type
+  AND file_name = NEW.file_name;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_policy_document_version ON policy_documents;
+CREATE TRIGGER assign_policy_document_version
+  BEFORE INSERT ON policy_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_policy_document_version();
+
+-- Audit trail entry for each upload
+ALTER TABLE approval_logs DROP CONSTRAINT IF EXISTS approval_logs_action_check;
+ALTER TABLE approval_logs
+  ADD CONSTRAINT approval_logs_action_check
+  CHECK (action IN ('submitted', 'approved', 'rejected', 'escalated', 'returned', 'document_uploaded'));
+
+CREATE OR REPLACE FUNCTION log_policy_document_upload()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status text;
+  v_role text;
+BEGIN
+  SELECT status INTO v_status FROM policies WHERE id = NEW.policy_id;
+  SELECT role INTO v_role FROM user_profiles WHERE id = NEW.uploaded_by;
+
+  INSERT INTO approval_logs (policy_id, approver_id, action, role, comments, previous_status, new_status)
+  VALUES (
+    NEW.policy_id,
+    NEW.uploaded_by,
+    'document_uploaded',
+    v_role,
+    format('%s (%s, version %s)', NEW.file_name, replace(NEW.document_type, '_', ' '), NEW.version),
+    v_status,
+    v_status
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_policy_document_upload ON policy_documents;
+CREATE TRIGGER log_policy_document_upload
+  AFTER INSERT ON policy_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION log_policy_document_upload();
+
+-- Storage bucket and object access
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'policy-documents',
+  'policy-documents',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Users can read documents of visible policies" ON storage.objects;
+CREATE POLICY "Users can read documents of visible policies"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'policy-documents' AND
+    EXISTS (
+      SELECT 1 FROM policies
+      WHERE policies.id::text = (storage.foldername(storage.objects.name))[1]
+    )
+  );
+
+DROP POLICY IF EXISTS "Creators can upload documents for their draft policies" ON storage.objects;
+CREATE POLICY "Creators can upload documents for their draft policies"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'policy-documents' AND
+    EXISTS (
+      SELECT 1 FROM policies
+      WHERE policies.id::text = (storage.foldername(storage.objects.name))[1]
+      AND policies.creator_id = auth.uid()
+      AND policies.status = 'draft'
+    )
+  );
+
+-- Lets an upload whose metadata insert failed clean up its orphaned object
+DROP POLICY IF EXISTS "Uploaders can remove unrecorded document objects" ON storage.objects;
+CREATE POLICY "Uploaders can remove unrecorded document objects"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'policy-documents' AND
+    owner = auth.uid() AND
+    NOT EXISTS (SELECT 1 FROM policy_documents WHERE policy_documents.storage_path = storage.objects.name)
+  );
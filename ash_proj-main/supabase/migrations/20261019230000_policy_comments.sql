@@ -0,0 +1,203 @@
+/*
+  # Policy Comments
+
+  ## Overview
+  The only way to discuss a policy was the single comment attached to an
+  approval action. Policies now have a comment thread with replies, @mentions of
+  users and internal notes that creators can't see. Editing a comment keeps the
+  previous text as a revision.
+
+  ## 1. New Tables
+
+  ### `policy_comments`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `parent_id` (uuid, FK to policy_comments, the comment this replies to)
+  - `author_id` (uuid, FK to user_profiles)
+  - `body` (text)
+  - `internal` (boolean, hidden from creators)
+  - `mentions` (uuid[], mentioned users)
+  - `created_at` (timestamptz)
+  - `edited_at` (timestamptz, last edit, NULL if never edited)
+
+  ### `policy_comment_revisions`
+  - `id` (uuid, PK)
+  - `comment_id` (uuid, FK to policy_comments)
+  - `body` (text, the text before the edit)
+  - `mentions` (uuid[], the mentions before the edit)
+  - `edited_by` (uuid, FK to user_profiles)
+  - `created_at` (timestamptz, when the edit was made)
+
+  ## 2. Security (Row Level Security)
+  - Comments and their revisions are visible to anyone who can see the policy,
+    except internal notes, which creators can't see
+  - Users comment as themselves; only non-creators can write internal notes
+  - Only the author can edit a comment, and only its text and mentions
+  - Comments can't be deleted
+
+  ## 3. Important Notes
+  - A reply must belong to the same policy as its parent, and a reply to an
+    internal note must be internal too
+  - Revisions are written by the update trigger; they can't be inserted directly
+  - `policy_comments` is added to the `supabase_realtime` publication
+*/
+
+CREATE TABLE IF NOT EXISTS policy_comments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES policy_comments(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES user_profiles(id),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  internal boolean NOT NULL DEFAULT false,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  edited_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS policy_comments_policy_idx ON policy_comments (policy_id, created_at);
+
+CREATE TABLE IF NOT EXISTS policy_comment_revisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  comment_id uuid NOT NULL REFERENCES policy_comments(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  edited_by uuid NOT NULL REFERENCES user_profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS policy_comment_revisions_comment_idx ON policy_comment_revisions (comment_id, created_at);
+
+ALTER TABLE policy_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE policy_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view comments they are allowed to see" ON policy_comments;
+CREATE POLICY "Users can view comments they are allowed to see"
+  ON policy_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_comments.policy_id) AND
+    (
+      NOT internal OR
+      EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role <> 'creator'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can comment as themselves" ON policy_comments;
+CREATE POLICY "Users can comment as themselves"
+  ON policy_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_comments.policy_id) AND
+    (
+      NOT internal OR
+      EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role <> 'creator'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors can edit their comments" ON policy_comments;
+CREATE POLICY "Authors can edit their comments"
+  ON policy_comments FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+-- Revisions are visible with their comment (the subquery applies its RLS)
+DROP POLICY IF EXISTS "Users can view revisions of visible comments" ON policy_comment_revisions;
+CREATE POLICY "Users can view revisions of visible comments"
+  ON policy_comment_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policy_comments WHERE policy_comments.id = policy_comment_revisions.comment_id)
+  );
+
+-- Only reachable through the update trigger, which runs as the editing author
+DROP POLICY IF EXISTS "Authors record revisions of their comments" ON policy_comment_revisions;
+CREATE POLICY "Authors record revisions of their comments"
+  ON policy_comment_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    edited_by = auth.uid() AND
+    pg_trigger_depth() > 0 AND
+    EXISTS (
+      SELECT 1 FROM policy_comments
+      WHERE policy_comments.id = policy_comment_revisions.comment_id
+      AND policy_comments.author_id = auth.uid()
+    )
+  );
+
+-- Replies stay within their policy and never expose an internal thread
+CREATE OR REPLACE FUNCTION check_policy_comment_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent policy_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM policy_comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR v_parent.policy_id <> NEW.policy_id THEN
+    RAISE EXCEPTION 'Reply must belong to the same policy as its parent comment';
+  END IF;
+
+  IF v_parent.internal AND NOT NEW.internal THEN
+    RAISE EXCEPTION 'Replies to an internal note must be internal';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_policy_comment_reply ON policy_comments;
+CREATE TRIGGER check_policy_comment_reply
+  BEFORE INSERT ON policy_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_policy_comment_reply();
+
+-- Edits change only the text and mentions, and keep the previous version
+CREATE OR REPLACE FUNCTION record_policy_comment_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.policy_id <> OLD.policy_id OR
+     NEW.parent_id IS DISTINCT FROM OLD.parent_id OR
+     NEW.author_id <> OLD.author_id OR
+     NEW.internal <> OLD.internal OR
+     NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only the text and mentions of a comment can be edited';
+  END IF;
+
+  IF NEW.body IS DISTINCT FROM OLD.body OR NEW.mentions IS DISTINCT FROM OLD.mentions THEN
+    INSERT INTO policy_comment_revisions (comment_id, body, mentions, edited_by)
+    VALUES (OLD.id, OLD.body, OLD.mentions, auth.uid());
+    NEW.edited_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_policy_comment_revision ON policy_comments;
+CREATE TRIGGER record_policy_comment_revision
+  BEFORE UPDATE ON policy_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_policy_comment_revision();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'policy_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE policy_comments;
+  END IF;
+END $$;
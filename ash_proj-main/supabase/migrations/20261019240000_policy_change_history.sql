@@ -0,0 +1,124 @@
+/*
+  # Policy Change History
+
+  ## Overview
+  Editing a policy overwrote its fields without keeping the old values, so
+  auditors couldn't tell whether e.g. the premium was changed after the fraud
+  check. Every update of a policy now records a before/after diff of each
+  changed field, with who made it and when.
+
+  ## 1. New Tables
+
+  ### `policy_changes`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `changed_by` (uuid, FK to user_profiles; NULL for changes made outside a
+    user session)
+  - `changes` (jsonb, `{ "<field>": { "old": ..., "new": ... } }`)
+  - `created_at` (timestamptz)
+
+  ## 2. Tracked Fields
+  - Every column except `untracked_policy_columns()`: bookkeeping (`id`,
+    `created_at`, `updated_at`), the ones the approval log already covers
+    (`status`, `workflow_id`, `escalated_from_status`, `revision_count`), fraud
+    check results (not user edits) and derived breakdowns (`rating_details`)
+  - `insured_address` and `product_attributes` are diffed per key, e.g.
+    `insured_address.city`, `product_attributes.vin`
+
+  ## 3. New Functions
+  - `untracked_policy_columns()`: the policy columns left out of the change
+    history. Replace this function (not the trigger) to untrack a new column
+  - `record_policy_changes()`: trigger function writing the diff
+
+  ## 4. Security (Row Level Security)
+  - All authenticated users can view change history (audit transparency)
+  - Rows are only written by the `record_policy_changes` trigger
+*/
+
+CREATE TABLE IF NOT EXISTS policy_changes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  changed_by uuid REFERENCES user_profiles(id),
+  changes jsonb NOT NULL CHECK (jsonb_typeof(changes) = 'object' AND changes <> '{}'::jsonb),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS policy_changes_policy_idx ON policy_changes (policy_id, created_at DESC);
+
+ALTER TABLE policy_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "All users can view policy changes" ON policy_changes;
+CREATE POLICY "All users can view policy changes"
+  ON policy_changes FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Only reachable through the trigger, which runs as the editing user
+DROP POLICY IF EXISTS "Policy edits record their changes" ON policy_changes;
+CREATE POLICY "Policy edits record their changes"
+  ON policy_changes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    changed_by = auth.uid() AND
+    pg_trigger_depth() > 0
+  );
+
+CREATE OR REPLACE FUNCTION untracked_policy_columns()
+RETURNS text[] AS $$
+  SELECT ARRAY[
+    -- Bookkeeping
+    'id', 'created_at', 'updated_at',
+    -- Approval log
+    'status', 'workflow_id', 'escalated_from_status', 'revision_count',
+    -- Fraud check results
+    'fraud_check_passed', 'fraud_check_reason', 'fraud_check_details',
+    -- Derived breakdowns
+    'rating_details'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_policy_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb := to_jsonb(OLD) - untracked_policy_columns();
+  v_new jsonb := to_jsonb(NEW);
+  v_changes jsonb := '{}'::jsonb;
+  v_key text;
+  v_sub_key text;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(v_old) LOOP
+    IF v_key IN ('insured_address', 'product_attributes') THEN
+      FOR v_sub_key IN
+        SELECT jsonb_object_keys(coalesce(v_old -> v_key, '{}'::jsonb))
+        UNION
+        SELECT jsonb_object_keys(coalesce(v_new -> v_key, '{}'::jsonb))
+      LOOP
+        IF (v_old -> v_key -> v_sub_key) IS DISTINCT FROM (v_new -> v_key -> v_sub_key) THEN
+          v_changes := v_changes || jsonb_build_object(
+            v_key || '.' || v_sub_key,
+            jsonb_build_object('old', v_old -> v_key -> v_sub_key, 'new', v_new -> v_key -> v_sub_key)
+          );
+        END IF;
+      END LOOP;
+    ELSIF (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_key,
+        jsonb_build_object('old', v_old -> v_key, 'new', v_new -> v_key)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_changes <> '{}'::jsonb THEN
+    INSERT INTO policy_changes (policy_id, changed_by, changes)
+    VALUES (NEW.id, auth.uid(), v_changes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_policy_changes ON policies;
+CREATE TRIGGER record_policy_changes
+  AFTER UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION record_policy_changes();
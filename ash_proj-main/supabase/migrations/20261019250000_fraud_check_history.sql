@@ -0,0 +1,113 @@
+/*
+  # Fraud Check History
+
+  ## Overview
+  The fraud check only ran when a policy was created, so a draft could pass
+  with a small premium and then be raised through an edit while
+  `fraud_check_passed` stayed true. The check now runs again on every update and
+  before submission; the policy keeps the latest result in its `fraud_check_*`
+  columns and every result is kept in `fraud_checks`. Results are recorded by
+  a database function, so the policy's columns and the history row are
+  written in one transaction and the history can't be forged.
+
+  ## 1. New Tables
+
+  ### `fraud_checks`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `event` (text: `create`, `update` or `submit`, what triggered the check)
+  - `passed` (boolean)
+  - `reason` (text, summary)
+  - `details` (jsonb, score, threshold and per-rule breakdown)
+  - `checked_by` (uuid, FK to user_profiles, the creator who ran the check)
+  - `created_at` (timestamptz)
+
+  ## 2. New Functions
+  - `record_fraud_check(p_policy_id, p_event, p_passed, p_reason, p_details)`:
+    stores the result in the policy's `fraud_check_*` columns and adds the
+    `fraud_checks` row; returns the updated policy
+
+  ## 3. Security (Row Level Security)
+  - All authenticated users can view fraud check history
+  - Rows are only written by `record_fraud_check`: by the policy's creator,
+    while the policy is a draft
+*/
+
+CREATE TABLE IF NOT EXISTS fraud_checks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('create', 'update', 'submit')),
+  passed boolean NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  checked_by uuid NOT NULL DEFAULT auth.uid() REFERENCES user_profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS fraud_checks_policy_idx ON fraud_checks (policy_id, created_at DESC);
+
+ALTER TABLE fraud_checks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "All users can view fraud checks" ON fraud_checks;
+CREATE POLICY "All users can view fraud checks"
+  ON fraud_checks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION record_fraud_check(
+  p_policy_id uuid,
+  p_event text,
+  p_passed boolean,
+  p_reason text,
+  p_details jsonb
+)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies;
+  v_reviewed boolean;
+BEGIN
+  SELECT * INTO v_policy FROM policies WHERE id = p_policy_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Policy not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_policy.creator_id IS DISTINCT FROM auth.uid() OR v_policy.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only the creator can record fraud checks, while the policy is a draft' USING ERRCODE = '42501';
+  END IF;
+
+  -- Only an edit (which expires the check) or a fraud reviewer lifts a failure
+  IF p_passed AND v_policy.fraud_check_passed = false THEN
+    RAISE EXCEPTION 'The failed fraud check stands until the policy is edited' USING ERRCODE = '42501';
+  END IF;
+
+  -- A clearance covers the version the fraud reviewer saw; edits discard it
+  v_reviewed := p_event = 'submit' AND v_policy.fraud_flag_status = 'cleared';
+
+  PERFORM set_config('app.fraud_check', 'on', true);
+  UPDATE policies
+  SET
+    fraud_check_passed = p_passed,
+    fraud_check_reason = coalesce(p_reason, ''),
+    fraud_check_details = coalesce(p_details, '{}'::jsonb),
+    fraud_flag_status = CASE WHEN p_passed THEN 'none' WHEN v_reviewed THEN 'cleared' ELSE 'flagged' END,
+    fraud_reviewed_by = CASE WHEN p_event = 'submit' THEN fraud_reviewed_by END,
+    fraud_reviewed_at = CASE WHEN p_event = 'submit' THEN fraud_reviewed_at END,
+    fraud_review_reason = CASE WHEN p_event = 'submit' THEN fraud_review_reason END
+  WHERE id = p_policy_id
+  RETURNING * INTO v_policy;
+  PERFORM set_config('app.fraud_check', 'off', true);
+
+  INSERT INTO fraud_checks (policy_id, event, passed, reason, details, checked_by)
+  VALUES (p_policy_id, p_event, p_passed, coalesce(p_reason, ''), coalesce(p_details, '{}'::jsonb), auth.uid());
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_fraud_check(uuid, text, boolean, text, jsonb) TO authenticated;
+
+-- Existing policies start their history with the check stored on the policy
+INSERT INTO fraud_checks (policy_id, event, passed, reason, details, checked_by, created_at)
+SELECT p.id, 'create', coalesce(p.fraud_check_passed, true), coalesce(p.fraud_check_reason, ''), coalesce(p.fraud_check_details, '{}'::jsonb), p.creator_id, p.created_at
+FROM policies p
+WHERE NOT EXISTS (SELECT 1 FROM fraud_checks f WHERE f.policy_id = p.id);
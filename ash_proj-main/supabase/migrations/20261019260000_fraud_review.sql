@@ -0,0 +1,278 @@
+/*
+  # Fraud Review
+
+  ## Overview
+  A failed fraud check only showed a badge; the policy still went through the
+  normal workflow. Policies whose latest fraud check failed are now flagged and,
+  on submission, routed to a dedicated fraud review stage
+  (`pending_fraud_reviewer`) instead of the first workflow stage. A fraud
+  reviewer either clears the flag (the policy continues to the first workflow
+  stage) or confirms fraud (the policy is rejected), always with a reason.
+  A flagged policy can't be approved.
+
+  ## 1. Modified Tables
+
+  ### `user_profiles`
+  - `role` now also accepts `fraud_reviewer`
+
+  ### `policies`
+  - `fraud_flag_status` (text: `none`, `flagged`, `cleared`, `confirmed`)
+  - `fraud_reviewed_by` (uuid, FK to user_profiles)
+  - `fraud_reviewed_at` (timestamptz)
+  - `fraud_review_reason` (text)
+
+  ### `approval_logs`
+  - `action` now also accepts `fraud_cleared` and `fraud_confirmed`
+
+  ## 2. New Functions
+  - `review_fraud_flag(...)`: records the reviewer's decision on the policy and
+    moves it on through `transition_policy` in a single transaction
+  - `submit_policy(p_policy_id, p_comments)`: the creator moves their draft to
+    the first applicable stage of its product's workflow (see
+    `approval_workflow_stages`) through `transition_policy`; a policy whose
+    fraud flag is `flagged` goes to `pending_fraud_reviewer` instead
+
+  ## 3. Modified Functions
+  - `record_fraud_check(...)`: sets the fraud flag from the result; a fraud
+    reviewer's clearance is kept by the check on submission and discarded by
+    an edit
+  - `transition_policy(...)`: a draft can only be moved on from within
+    `submit_policy`
+  - `untracked_policy_columns()`: fraud review results stay out of the policy
+    change history, like the fraud check results
+
+  ## 4. Constraints
+  - `policies_fraud_gate_check`: a policy can't be `approved` while its fraud
+    flag is `flagged` or `confirmed`
+
+  ## 5. Triggers
+  - `guard_policy_fraud_columns` (BEFORE UPDATE on policies): rejects changes to
+    the `fraud_check_*`, `fraud_flag_status` and `fraud_review*` columns made
+    outside `record_fraud_check` and `review_fraud_flag`
+
+  ## 6. Security (Row Level Security)
+  - "Creators can create policies": new policies start as unreviewed drafts
+    (`draft`, fraud flag `none`, no escalation or revisions)
+  - "Creators can update own draft policies": the policy must stay a `draft`;
+    submission goes through `submit_policy`
+
+  ## 7. Important Notes
+  - Open policies (not approved or rejected) whose stored check failed start
+    out `flagged`. Ones already past submission stay at their stage; they can be
+    returned or rejected, and resubmission routes them through fraud review
+  - SECURITY INVOKER: fraud reviewers act through the existing "Approvers can
+    update policies pending their stage" policy (`pending_fraud_reviewer`)
+*/
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('creator', 'underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer'));
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS fraud_flag_status text NOT NULL DEFAULT 'none'
+    CHECK (fraud_flag_status IN ('none', 'flagged', 'cleared', 'confirmed')),
+  ADD COLUMN IF NOT EXISTS fraud_reviewed_by uuid REFERENCES user_profiles(id),
+  ADD COLUMN IF NOT EXISTS fraud_reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS fraud_review_reason text;
+
+UPDATE policies
+SET fraud_flag_status = 'flagged'
+WHERE fraud_check_passed = false
+AND status NOT IN ('approved', 'rejected')
+AND fraud_flag_status = 'none';
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_fraud_gate_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_fraud_gate_check
+  CHECK (status <> 'approved' OR fraud_flag_status NOT IN ('flagged', 'confirmed'));
+
+CREATE INDEX IF NOT EXISTS policies_fraud_flag_idx ON policies (fraud_flag_status) WHERE fraud_flag_status = 'flagged';
+
+ALTER TABLE approval_logs DROP CONSTRAINT IF EXISTS approval_logs_action_check;
+ALTER TABLE approval_logs
+  ADD CONSTRAINT approval_logs_action_check
+  CHECK (action IN (
+    'submitted', 'approved', 'rejected', 'escalated', 'returned', 'document_uploaded',
+    'fraud_cleared', 'fraud_confirmed'
+  ));
+
+CREATE OR REPLACE FUNCTION review_fraud_flag(
+  p_policy_id uuid,
+  p_reviewer_id uuid,
+  p_decision text,
+  p_reason text,
+  p_new_status text,
+  p_on_behalf_of uuid DEFAULT NULL
+)
+RETURNS policies AS $$
+BEGIN
+  IF p_decision NOT IN ('cleared', 'confirmed') THEN
+    RAISE EXCEPTION 'Unknown fraud review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF (p_decision = 'confirmed' AND p_new_status <> 'rejected') OR
+     (p_decision = 'cleared' AND (p_new_status NOT LIKE 'pending\_%' OR p_new_status = 'pending_fraud_reviewer')) THEN
+    RAISE EXCEPTION 'A % fraud flag can''t move the policy to %', p_decision, p_new_status USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for a fraud review decision' USING ERRCODE = '22023';
+  END IF;
+
+  -- Locks the row; if it doesn't match, transition_policy raises the usual
+  -- PT409 / 42501 / P0002 for the caller to handle
+  PERFORM set_config('app.fraud_check', 'on', true);
+  UPDATE policies
+  SET
+    fraud_flag_status = p_decision,
+    fraud_reviewed_by = p_reviewer_id,
+    fraud_reviewed_at = now(),
+    fraud_review_reason = p_reason
+  WHERE id = p_policy_id
+  AND status = 'pending_fraud_reviewer';
+  PERFORM set_config('app.fraud_check', 'off', true);
+
+  RETURN transition_policy(
+    p_policy_id,
+    p_reviewer_id,
+    'pending_fraud_reviewer',
+    p_new_status,
+    CASE WHEN p_decision = 'cleared' THEN 'fraud_cleared' ELSE 'fraud_confirmed' END,
+    'fraud_reviewer',
+    p_reason,
+    p_on_behalf_of => p_on_behalf_of
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION review_fraud_flag(uuid, uuid, text, text, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION untracked_policy_columns()
+RETURNS text[] AS $$
+  SELECT ARRAY[
+    -- Bookkeeping
+    'id', 'created_at', 'updated_at',
+    -- Approval log
+    'status', 'workflow_id', 'escalated_from_status', 'revision_count',
+    -- Fraud check and review results
+    'fraud_check_passed', 'fraud_check_reason', 'fraud_check_details',
+    'fraud_flag_status', 'fraud_reviewed_by', 'fraud_reviewed_at', 'fraud_review_reason',
+    -- Derived breakdowns
+    'rating_details'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION guard_policy_fraud_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    NEW.fraud_check_passed IS DISTINCT FROM OLD.fraud_check_passed OR
+    NEW.fraud_check_reason IS DISTINCT FROM OLD.fraud_check_reason OR
+    NEW.fraud_check_details IS DISTINCT FROM OLD.fraud_check_details OR
+    NEW.fraud_flag_status IS DISTINCT FROM OLD.fraud_flag_status OR
+    NEW.fraud_reviewed_by IS DISTINCT FROM OLD.fraud_reviewed_by OR
+    NEW.fraud_reviewed_at IS DISTINCT FROM OLD.fraud_reviewed_at OR
+    NEW.fraud_review_reason IS DISTINCT FROM OLD.fraud_review_reason
+  )
+  AND coalesce(current_setting('app.fraud_check', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Fraud results change through record_fraud_check and review_fraud_flag' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_policy_fraud_columns ON policies;
+CREATE TRIGGER guard_policy_fraud_columns
+  BEFORE UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_policy_fraud_columns();
+
+DROP POLICY IF EXISTS "Creators can create policies" ON policies;
+CREATE POLICY "Creators can create policies"
+  ON policies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    status = 'draft' AND
+    escalated_from_status IS NULL AND
+    revision_count = 0 AND
+    fraud_flag_status = 'none' AND
+    fraud_reviewed_by IS NULL AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'creator'
+    )
+  );
+
+DROP POLICY IF EXISTS "Creators can update own draft policies" ON policies;
+CREATE POLICY "Creators can update own draft policies"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    creator_id = auth.uid() AND
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'creator'
+    )
+  )
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    status = 'draft'
+  );
+
+CREATE OR REPLACE FUNCTION submit_policy(
+  p_policy_id uuid,
+  p_comments text DEFAULT ''
+)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies;
+  v_workflow_id text;
+  v_first_status text;
+BEGIN
+  IF NOT has_capability('policy.submit') THEN
+    RAISE EXCEPTION 'Not authorized to submit policies' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_policy FROM policies WHERE id = p_policy_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Policy not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_policy.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the creator can submit the policy' USING ERRCODE = '42501';
+  END IF;
+  IF v_policy.status = 'draft' AND v_policy.fraud_check_passed IS NULL THEN
+    RAISE EXCEPTION 'The policy has changed since its last fraud check; run the check before submitting' USING ERRCODE = '22023';
+  END IF;
+
+  v_workflow_id := workflow_for_product(v_policy.product_type);
+  v_first_status := first_stage_status(v_policy, v_workflow_id);
+  IF v_first_status IS NULL THEN
+    RAISE EXCEPTION 'Workflow % has no applicable review stage', v_workflow_id USING ERRCODE = '22023';
+  END IF;
+
+  -- transition_policy raises the usual PT409 if the policy is no longer a draft
+  PERFORM set_config('app.policy_submission', 'on', true);
+  v_policy := transition_policy(
+    p_policy_id,
+    auth.uid(),
+    'draft',
+    CASE WHEN v_policy.fraud_flag_status = 'flagged' THEN 'pending_fraud_reviewer' ELSE v_first_status END,
+    'submitted',
+    'creator',
+    p_comments,
+    v_workflow_id
+  );
+  PERFORM set_config('app.policy_submission', 'off', true);
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_policy(uuid, text) TO authenticated;
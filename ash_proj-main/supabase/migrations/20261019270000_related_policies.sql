@@ -0,0 +1,72 @@
+/*
+  # Related Policy Search
+
+  ## Overview
+  The fraud check only looked at the policy being checked. Repeat submission of
+  rejected business under the same (or a slightly altered) customer name is the
+  most common fraud pattern, so the fraud check and the policy screens now look
+  up existing policies whose customer name matches the new one exactly or
+  closely (trigram similarity). Product, premium and rejection comparisons are
+  made by the caller on the returned rows.
+
+  ## 1. New Functions
+  - `find_related_policies(p_customer_name, p_exclude_policy_id, p_min_similarity, p_limit)`:
+    policies whose customer name matches, best match first, with the name
+    similarity and when the policy was last rejected (`rejected` or
+    `fraud_confirmed` in the approval log)
+
+  ## 2. Important Notes
+  - SECURITY INVOKER: only policies the caller can already see are returned
+  - Names are compared case-insensitively with surrounding and repeated
+    whitespace ignored; the `%` operator lets the existing trigram index on
+    `customer_name` narrow the candidates before `similarity()` is applied
+*/
+
+CREATE OR REPLACE FUNCTION find_related_policies(
+  p_customer_name text,
+  p_exclude_policy_id uuid DEFAULT NULL,
+  p_min_similarity real DEFAULT 0.6,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  policy_number text,
+  customer_name text,
+  product_type text,
+  premium_amount numeric,
+  status text,
+  created_at timestamptz,
+  name_similarity real,
+  rejected_at timestamptz
+) AS $$
+  WITH search AS (
+    SELECT lower(regexp_replace(trim(p_customer_name), '\s+', ' ', 'g')) AS name
+  )
+  SELECT
+    p.id,
+    p.policy_number,
+    p.customer_name,
+    p.product_type,
+    p.premium_amount,
+    p.status,
+    p.created_at,
+    similarity(lower(p.customer_name), search.name) AS name_similarity,
+    (
+      SELECT max(l.created_at)
+      FROM approval_logs l
+      WHERE l.policy_id = p.id
+      AND l.action IN ('rejected', 'fraud_confirmed')
+    ) AS rejected_at
+  FROM policies p, search
+  WHERE length(search.name) > 0
+  AND p.customer_name % p_customer_name
+  AND (
+    lower(regexp_replace(trim(p.customer_name), '\s+', ' ', 'g')) = search.name OR
+    similarity(lower(p.customer_name), search.name) >= p_min_similarity
+  )
+  AND p.id IS DISTINCT FROM p_exclude_policy_id
+  ORDER BY name_similarity DESC, p.created_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION find_related_policies(text, uuid, real, integer) TO authenticated;
@@ -0,0 +1,439 @@
+/*
+  # User Administration
+
+  ## Overview
+  Anyone could sign up as e.g. `manager` by picking it from a dropdown, and the
+  "Users can update own profile" policy let users change their own role later.
+  Profiles are now created server-side when an account is created: new accounts
+  get the `unassigned` role, which has no access to policies, unless an admin
+  invited the email address with a role. Only admins assign or revoke roles and
+  deactivate accounts, through database functions; every role or activation
+  change is recorded in `user_role_changes`.
+
+  ## 1. New Tables
+
+  ### `user_invitations`
+  - `id` (uuid, PK)
+  - `email` (text, invited address)
+  - `role` (text, role assigned when the invitee signs up)
+  - `invited_by` (uuid, FK to user_profiles, defaults to the current user)
+  - `created_at` (timestamptz)
+  - `accepted_at` / `accepted_by` (set when the invitee confirms the address)
+  - `revoked_at` (timestamptz, set when an admin withdraws the invitation)
+  - `email_claimed_at` (timestamptz, when the delivery function picked the
+    invitation email up; NULL until then)
+
+  ### `user_role_changes`
+  - `id` (uuid, PK)
+  - `user_id` (uuid, FK to user_profiles, whose account changed)
+  - `changed_by` (uuid, FK to user_profiles; NULL for changes made outside a
+    user session)
+  - `action` (text: `assigned`, `revoked`, `deactivated`, `reactivated`)
+  - `old_role` / `new_role` (text)
+  - `reason` (text)
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### `user_profiles`
+  - `role` now also accepts `unassigned` (the default) and `admin`
+  - `active` (boolean, default true)
+  - `deactivated_at` (timestamptz)
+
+  ## 3. New Functions
+  - `is_active_user()` / `is_admin()`: the current user's standing, for RLS
+  - `handle_new_user()`: trigger on `auth.users` that creates the profile as
+    `unassigned`; an invitation is only applied once the address is confirmed
+  - `accept_user_invitation(p_user_id, p_email)`: applies the open invitation
+    for the address to a still-unassigned profile and marks it accepted. Not
+    callable through the API
+  - `handle_user_confirmed()`: trigger on `auth.users` that applies the
+    invitation when the address is confirmed
+  - `set_user_role(p_user_id, p_role, p_reason)`: admins assign a role, or
+    revoke one by assigning `unassigned`
+  - `set_user_active(p_user_id, p_active, p_reason)`: admins deactivate or
+    reactivate an account; deactivated accounts are banned from signing in
+  - `record_user_role_change()`: trigger that writes `user_role_changes`
+
+  ## 4. Modified Functions
+  - `claim_channel_messages(p_limit)`: also claims open invitations for the
+    `user_invited` email, and skips notifications of deactivated users
+
+  ## 5. Security (Row Level Security)
+  - `user_profiles`: users can only change their own `full_name` (column
+    privileges); profiles are no longer inserted by clients
+  - `policies`: only active users with an assigned role can view policies;
+    approval logs, field changes and fraud checks follow policy visibility
+    (documents and comments already did)
+  - `user_invitations`: admins only
+  - `user_role_changes`: admins see everything, users see their own entries;
+    rows are only written by the trigger
+
+  ## 6. Important Notes
+  - Existing users keep their roles
+  - Invitations wait for the email confirmation, so signing up with someone
+    else's invited address doesn't consume their invitation
+  - The first admin has to be promoted by an operator, in one transaction, e.g.
+    `BEGIN; SELECT set_config('app.user_admin_reason', 'Initial admin', true);
+    UPDATE user_profiles SET role = 'admin' WHERE email = '...'; COMMIT;`
+  - An admin can't deactivate themselves, and the last active admin can't be
+    demoted or deactivated
+*/
+
+-- Roles
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN (
+    'unassigned', 'creator', 'underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer', 'admin'
+  ));
+
+ALTER TABLE user_profiles ALTER COLUMN role SET DEFAULT 'unassigned';
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+-- Standing of the current user
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND active
+    AND role <> 'unassigned'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND active
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles: users may only rename themselves
+DROP POLICY IF EXISTS "Users can insert own profile" ON user_profiles;
+
+REVOKE INSERT, UPDATE ON user_profiles FROM authenticated, anon;
+GRANT UPDATE (full_name) ON user_profiles TO authenticated;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+CREATE POLICY "Users can update own profile"
+  ON user_profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- Policy visibility requires an active account with a role
+DROP POLICY IF EXISTS "Creators can view all policies" ON policies;
+DROP POLICY IF EXISTS "Active users can view policies" ON policies;
+CREATE POLICY "Active users can view policies"
+  ON policies FOR SELECT
+  TO authenticated
+  USING (is_active_user());
+
+DROP POLICY IF EXISTS "All users can view approval logs" ON approval_logs;
+DROP POLICY IF EXISTS "Users can view approval logs of visible policies" ON approval_logs;
+CREATE POLICY "Users can view approval logs of visible policies"
+  ON approval_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = approval_logs.policy_id)
+  );
+
+DROP POLICY IF EXISTS "All users can view policy changes" ON policy_changes;
+DROP POLICY IF EXISTS "Users can view changes of visible policies" ON policy_changes;
+CREATE POLICY "Users can view changes of visible policies"
+  ON policy_changes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_changes.policy_id)
+  );
+
+DROP POLICY IF EXISTS "All users can view fraud checks" ON fraud_checks;
+DROP POLICY IF EXISTS "Users can view fraud checks of visible policies" ON fraud_checks;
+CREATE POLICY "Users can view fraud checks of visible policies"
+  ON fraud_checks FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = fraud_checks.policy_id)
+  );
+
+-- Invitations
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email text NOT NULL CHECK (email = lower(trim(email)) AND email LIKE '%_@_%'),
+  role text NOT NULL CHECK (role IN (
+    'creator', 'underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer', 'admin'
+  )),
+  invited_by uuid NOT NULL DEFAULT auth.uid() REFERENCES user_profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES user_profiles(id),
+  revoked_at timestamptz,
+  email_claimed_at timestamptz
+);
+
+-- One open invitation per address
+CREATE UNIQUE INDEX IF NOT EXISTS user_invitations_open_email_idx
+  ON user_invitations (email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view invitations" ON user_invitations;
+CREATE POLICY "Admins can view invitations"
+  ON user_invitations FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can invite users" ON user_invitations;
+CREATE POLICY "Admins can invite users"
+  ON user_invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid() AND
+    accepted_at IS NULL AND
+    revoked_at IS NULL AND
+    is_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can revoke open invitations" ON user_invitations;
+CREATE POLICY "Admins can revoke open invitations"
+  ON user_invitations FOR UPDATE
+  TO authenticated
+  USING (is_admin() AND accepted_at IS NULL)
+  WITH CHECK (is_admin() AND accepted_at IS NULL);
+
+-- Audit trail of role and activation changes
+CREATE TABLE IF NOT EXISTS user_role_changes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  changed_by uuid REFERENCES user_profiles(id),
+  action text NOT NULL CHECK (action IN ('assigned', 'revoked', 'deactivated', 'reactivated')),
+  old_role text,
+  new_role text,
+  reason text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS user_role_changes_user_idx ON user_role_changes (user_id, created_at DESC);
+
+ALTER TABLE user_role_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins and the affected user can view role changes" ON user_role_changes;
+CREATE POLICY "Admins and the affected user can view role changes"
+  ON user_role_changes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin());
+
+-- Writes the audit row for every role or activation change, whoever made it;
+-- the reason comes from the `app.user_admin_reason` setting of the transaction
+CREATE OR REPLACE FUNCTION record_user_role_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reason text := coalesce(current_setting('app.user_admin_reason', true), '');
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    INSERT INTO user_role_changes (user_id, changed_by, action, old_role, new_role, reason)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      CASE WHEN NEW.role = 'unassigned' THEN 'revoked' ELSE 'assigned' END,
+      OLD.role,
+      NEW.role,
+      v_reason
+    );
+  END IF;
+
+  IF NEW.active IS DISTINCT FROM OLD.active THEN
+    INSERT INTO user_role_changes (user_id, changed_by, action, old_role, new_role, reason)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      CASE WHEN NEW.active THEN 'reactivated' ELSE 'deactivated' END,
+      NEW.role,
+      NEW.role,
+      v_reason
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_user_role_change ON user_profiles;
+CREATE TRIGGER record_user_role_change
+  AFTER UPDATE OF role, active ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION record_user_role_change();
+
+-- Applies the open invitation for p_email to a still-unassigned profile; the
+-- role change is recorded by record_user_role_change
+CREATE OR REPLACE FUNCTION accept_user_invitation(p_user_id uuid, p_email text)
+RETURNS void AS $$
+DECLARE
+  v_invitation user_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM user_invitations
+  WHERE email = lower(trim(p_email))
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE user_invitations
+  SET accepted_at = now(), accepted_by = p_user_id
+  WHERE id = v_invitation.id;
+
+  PERFORM set_config('app.user_admin_reason', 'Invitation accepted', true);
+  UPDATE user_profiles
+  SET role = v_invitation.role
+  WHERE id = p_user_id
+  AND role = 'unassigned';
+  PERFORM set_config('app.user_admin_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Profile creation on signup; the invitation waits for the email confirmation
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_full_name text := nullif(trim(NEW.raw_user_meta_data ->> 'full_name'), '');
+BEGIN
+  INSERT INTO user_profiles (id, email, full_name, role)
+  VALUES (NEW.id, NEW.email, coalesce(v_full_name, NEW.email), 'unassigned')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NEW.email_confirmed_at IS NOT NULL THEN
+    PERFORM accept_user_invitation(NEW.id, NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+CREATE OR REPLACE FUNCTION handle_user_confirmed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM accept_user_invitation(NEW.id, NEW.email);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION handle_user_confirmed();
+
+-- Raises unless another active admin would remain after p_user_id stops being one
+CREATE OR REPLACE FUNCTION assert_other_admin_remains(p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE role = 'admin' AND active AND id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'At least one active admin must remain' USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id uuid, p_role text, p_reason text)
+RETURNS user_profiles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for a role change' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_profile.role = 'admin' AND p_role <> 'admin' AND v_profile.active THEN
+    PERFORM assert_other_admin_remains(p_user_id);
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  UPDATE user_profiles
+  SET role = p_role
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_active(p_user_id uuid, p_active boolean, p_reason text)
+RETURNS user_profiles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can deactivate or reactivate accounts' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to deactivate or reactivate an account' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT p_active THEN
+    RAISE EXCEPTION 'Admins can''t deactivate their own account' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_profile.role = 'admin' AND v_profile.active AND NOT p_active THEN
+    PERFORM assert_other_admin_remains(p_user_id);
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  UPDATE user_profiles
+  SET
+    active = p_active,
+    deactivated_at = CASE WHEN p_active THEN NULL ELSE now() END
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  -- Deactivated accounts can't sign in or refresh their session
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE now() + interval '100 years' END
+  WHERE id = p_user_id;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_other_admin_remains(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION accept_user_invitation(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_user_role(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_user_active(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,580 @@
+/*
+  # Capabilities
+
+  ## Overview
+  Permission checks compared role strings in the RLS policies and, separately,
+  in the UI. Access is now described by named capabilities (`policy.create`,
+  `policy.approve.underwriter`, `policy.view.fraud`, ...) mapped to roles in
+  `role_capabilities`, and users can hold several roles. RLS policies, the
+  service layer and the UI all ask whether the user has a capability.
+
+  ## 1. New Tables
+
+  ### `role_capabilities`
+  - `role` (text) / `capability` (text), primary key on both
+  - Maintained by migrations; readable by every authenticated user
+
+  ### `user_roles`
+  - `user_id` (uuid, FK to user_profiles)
+  - `role` (text, any role except `unassigned`)
+  - `granted_by` (uuid, FK to user_profiles; NULL outside a user session)
+  - `granted_at` (timestamptz)
+  - The primary role (`user_profiles.role`) is kept in sync by a trigger;
+    admins grant additional roles
+
+  ## 2. New Functions
+  - `user_has_capability(p_user_id, p_capability)` / `has_capability(p_capability)`:
+    whether an active user holds a role with the capability
+  - `current_user_capabilities()`: every capability of the current user
+  - `users_with_capability(p_capability)`: active users holding it
+  - `stage_capability(p_status)`: the capability needed to act on a policy
+    in a pending status (`policy.approve.<role>`, or `policy.review.fraud`)
+  - `grant_user_role(p_user_id, p_role, p_reason)` /
+    `revoke_user_role(p_user_id, p_role, p_reason)`: admins add and remove
+    additional roles
+  - `sync_primary_user_role()`: trigger keeping `user_roles` in line with
+    `user_profiles.role`
+  - `record_user_role_grant()`: trigger writing grants and revocations of
+    additional roles to `user_role_changes`
+
+  ## 3. Modified Functions
+  - `is_active_user()` / `is_admin()` now check `policy.view` / `user.manage`
+  - `approval_limit(p_user_id, p_role)`: takes the role the user acts as;
+    without one it returns the highest limit among the user's approving roles
+  - `transition_policy(...)`:
+    - acting at a pending stage takes the stage's capability, and nobody acts
+      on a policy they created, whatever other roles they hold
+    - approvals must be made as the stage's role and within that role's
+      authority limit
+    - the new status must fit the action (approvals move to a stage or
+      `approved`, rejections to `rejected`, returns to `draft`, ...)
+    - a policy in fraud review only leaves it through `review_fraud_flag`, and
+      nothing else is decided as a fraud review
+  - `submit_policy(...)`: takes `policy.submit`
+  - `assert_other_admin_remains`, `set_user_role`, `set_user_active`: admin
+    checks look at every role a user holds
+
+  ## 4. Security (Row Level Security)
+  Role comparisons in policies on `policies`, `products`,
+  `approval_authority_limits`, `policy_number_formats`,
+  `notification_deliveries` and `policy_comments` are replaced by
+  `has_capability(...)`. Approvers can update policies whose status needs a
+  capability they have, except policies they created (in USING and in WITH
+  CHECK, since permissive policies are combined with the creator's).
+
+  ## 5. Important Notes
+  - Revoking a user's primary role (assigning `unassigned`) also removes their
+    additional roles
+  - The primary role can't be revoked with `revoke_user_role`; change it with
+    `set_user_role` instead
+*/
+
+-- Capability map
+CREATE TABLE IF NOT EXISTS role_capabilities (
+  role text NOT NULL,
+  capability text NOT NULL,
+  PRIMARY KEY (role, capability)
+);
+
+ALTER TABLE role_capabilities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "All users can view role capabilities" ON role_capabilities;
+CREATE POLICY "All users can view role capabilities"
+  ON role_capabilities FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('creator', 'policy.view'),
+  ('creator', 'policy.create'),
+  ('creator', 'policy.edit'),
+  ('creator', 'policy.submit'),
+  ('underwriter', 'policy.view'),
+  ('underwriter', 'policy.approve.underwriter'),
+  ('underwriter', 'comment.internal'),
+  ('medical_reviewer', 'policy.view'),
+  ('medical_reviewer', 'policy.approve.medical_reviewer'),
+  ('medical_reviewer', 'comment.internal'),
+  ('manager', 'policy.view'),
+  ('manager', 'policy.approve.manager'),
+  ('manager', 'policy.view.fraud'),
+  ('manager', 'comment.internal'),
+  ('manager', 'product.manage'),
+  ('manager', 'authority.manage'),
+  ('manager', 'policy_number.manage'),
+  ('manager', 'notification.deliveries.view'),
+  ('executive', 'policy.view'),
+  ('executive', 'policy.approve.executive'),
+  ('executive', 'policy.view.fraud'),
+  ('executive', 'comment.internal'),
+  ('executive', 'product.manage'),
+  ('executive', 'authority.manage'),
+  ('executive', 'policy_number.manage'),
+  ('fraud_reviewer', 'policy.view'),
+  ('fraud_reviewer', 'policy.review.fraud'),
+  ('fraud_reviewer', 'policy.view.fraud'),
+  ('fraud_reviewer', 'comment.internal'),
+  ('admin', 'policy.view'),
+  ('admin', 'comment.internal'),
+  ('admin', 'user.manage')
+ON CONFLICT (role, capability) DO NOTHING;
+
+-- Roles held by each user
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN (
+    'creator', 'underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer', 'admin'
+  )),
+  granted_by uuid REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  granted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS user_roles_role_idx ON user_roles (role);
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Like profiles, roles are visible to everyone (workflow visibility); they
+-- are only written by the functions below
+DROP POLICY IF EXISTS "Users can view all roles" ON user_roles;
+CREATE POLICY "Users can view all roles"
+  ON user_roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO user_roles (user_id, role, granted_by)
+SELECT id, role, NULL FROM user_profiles WHERE role <> 'unassigned'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Keeps the primary role in user_roles; revoking it revokes every role
+CREATE OR REPLACE FUNCTION sync_primary_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role = 'unassigned' THEN
+    DELETE FROM user_roles WHERE user_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.role <> 'unassigned' AND OLD.role <> NEW.role THEN
+    DELETE FROM user_roles WHERE user_id = NEW.id AND role = OLD.role;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role)
+  VALUES (NEW.id, NEW.role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_primary_user_role ON user_profiles;
+CREATE TRIGGER sync_primary_user_role
+  AFTER INSERT OR UPDATE OF role ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_primary_user_role();
+
+-- Audits additional roles granted or revoked directly; primary role changes
+-- are already recorded by record_user_role_change, and rows removed with
+-- their profile aren't recorded
+CREATE OR REPLACE FUNCTION record_user_role_grant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO user_role_changes (user_id, changed_by, action, old_role, new_role, reason)
+  VALUES (
+    coalesce(NEW.user_id, OLD.user_id),
+    auth.uid(),
+    CASE WHEN TG_OP = 'INSERT' THEN 'assigned' ELSE 'revoked' END,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.role END,
+    CASE WHEN TG_OP = 'INSERT' THEN NEW.role END,
+    coalesce(current_setting('app.user_admin_reason', true), '')
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_user_role_grant ON user_roles;
+CREATE TRIGGER record_user_role_grant
+  AFTER INSERT OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION record_user_role_grant();
+
+-- Capability checks
+CREATE OR REPLACE FUNCTION user_has_capability(p_user_id uuid, p_capability text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_profiles
+    JOIN user_roles ON user_roles.user_id = user_profiles.id
+    JOIN role_capabilities ON role_capabilities.role = user_roles.role
+    WHERE user_profiles.id = p_user_id
+    AND user_profiles.active
+    AND role_capabilities.capability = p_capability
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_capability(p_capability text)
+RETURNS boolean AS $$
+  SELECT user_has_capability(auth.uid(), p_capability);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_user_capabilities()
+RETURNS SETOF text AS $$
+  SELECT DISTINCT role_capabilities.capability
+  FROM user_profiles
+  JOIN user_roles ON user_roles.user_id = user_profiles.id
+  JOIN role_capabilities ON role_capabilities.role = user_roles.role
+  WHERE user_profiles.id = auth.uid()
+  AND user_profiles.active
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION users_with_capability(p_capability text)
+RETURNS SETOF uuid AS $$
+  SELECT DISTINCT user_profiles.id
+  FROM user_profiles
+  JOIN user_roles ON user_roles.user_id = user_profiles.id
+  JOIN role_capabilities ON role_capabilities.role = user_roles.role
+  WHERE user_profiles.active
+  AND role_capabilities.capability = p_capability;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION stage_capability(p_status text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_status = 'pending_fraud_reviewer' THEN 'policy.review.fraud'
+    WHEN p_status LIKE 'pending\_%' THEN 'policy.approve.' || substr(p_status, length('pending_') + 1)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS boolean AS $$
+  SELECT has_capability('policy.view');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT has_capability('user.manage');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Authority limits: per acting role, or the highest of the user's approving roles
+DROP POLICY IF EXISTS "Approvers can update policies pending their stage" ON policies;
+DROP FUNCTION IF EXISTS approval_limit(uuid);
+
+CREATE OR REPLACE FUNCTION approval_limit(p_user_id uuid, p_role text DEFAULT NULL)
+RETURNS numeric AS $$
+DECLARE
+  v_override approval_authority_limits;
+  v_role_limit approval_authority_limits;
+  v_unlimited boolean;
+  v_limit numeric;
+BEGIN
+  SELECT * INTO v_override FROM approval_authority_limits WHERE user_id = p_user_id;
+  IF FOUND THEN
+    RETURN v_override.max_premium;
+  END IF;
+
+  -- A role without a limit row has no approval authority; a NULL limit is unlimited
+  IF p_role IS NOT NULL THEN
+    SELECT * INTO v_role_limit FROM approval_authority_limits WHERE role = p_role;
+    RETURN CASE WHEN FOUND THEN v_role_limit.max_premium ELSE 0 END;
+  END IF;
+
+  SELECT bool_or(limits.id IS NOT NULL AND limits.max_premium IS NULL), max(limits.max_premium)
+  INTO v_unlimited, v_limit
+  FROM user_roles
+  LEFT JOIN approval_authority_limits limits ON limits.role = user_roles.role
+  WHERE user_roles.user_id = p_user_id
+  AND EXISTS (
+    SELECT 1 FROM role_capabilities
+    WHERE role_capabilities.role = user_roles.role
+    AND (role_capabilities.capability LIKE 'policy.approve.%' OR role_capabilities.capability = 'policy.review.fraud')
+  );
+
+  RETURN CASE WHEN v_unlimited THEN NULL ELSE coalesce(v_limit, 0) END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policies
+DROP POLICY IF EXISTS "Active users can view policies" ON policies;
+CREATE POLICY "Active users can view policies"
+  ON policies FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+DROP POLICY IF EXISTS "Creators can create policies" ON policies;
+CREATE POLICY "Creators can create policies"
+  ON policies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    has_capability('policy.create') AND
+    status = 'draft' AND
+    escalated_from_status IS NULL AND
+    revision_count = 0 AND
+    fraud_flag_status = 'none' AND
+    fraud_reviewed_by IS NULL
+  );
+
+DROP POLICY IF EXISTS "Creators can update own draft policies" ON policies;
+CREATE POLICY "Creators can update own draft policies"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    creator_id = auth.uid() AND
+    status = 'draft' AND
+    has_capability('policy.edit')
+  )
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    status = 'draft'
+  );
+
+-- The ceiling is the user's highest limit; transition_policy applies the
+-- limit of the stage's role. Nobody reviews a policy they created, and since
+-- permissive policies are combined, WITH CHECK excludes the creator too
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    status LIKE 'pending\_%' AND
+    has_capability(stage_capability(status)) AND
+    creator_id <> auth.uid()
+  )
+  WITH CHECK (
+    creator_id <> auth.uid() AND (
+      status = 'rejected' OR
+      (status = 'draft' AND escalated_from_status IS NULL) OR
+      (status LIKE 'pending\_%' AND escalated_from_status IS NOT NULL) OR
+      (
+        (status = 'approved' OR status LIKE 'pending\_%') AND
+        escalated_from_status IS NULL AND
+        (approval_limit(auth.uid()) IS NULL OR premium_amount <= approval_limit(auth.uid()))
+      )
+    )
+  );
+
+-- Products, authority limits, policy number formats, delivery log
+DROP POLICY IF EXISTS "Managers can create products" ON products;
+CREATE POLICY "Managers can create products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('product.manage'));
+
+DROP POLICY IF EXISTS "Managers can update products" ON products;
+CREATE POLICY "Managers can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (has_capability('product.manage'))
+  WITH CHECK (has_capability('product.manage'));
+
+DROP POLICY IF EXISTS "Managers can manage authority limits" ON approval_authority_limits;
+CREATE POLICY "Managers can manage authority limits"
+  ON approval_authority_limits FOR ALL
+  TO authenticated
+  USING (has_capability('authority.manage'))
+  WITH CHECK (has_capability('authority.manage'));
+
+DROP POLICY IF EXISTS "Managers can manage policy number formats" ON policy_number_formats;
+CREATE POLICY "Managers can manage policy number formats"
+  ON policy_number_formats FOR ALL
+  TO authenticated
+  USING (has_capability('policy_number.manage'))
+  WITH CHECK (has_capability('policy_number.manage'));
+
+DROP POLICY IF EXISTS "Managers can view delivery log" ON notification_deliveries;
+CREATE POLICY "Managers can view delivery log"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (has_capability('notification.deliveries.view'));
+
+-- Comments: internal notes
+DROP POLICY IF EXISTS "Users can view comments they are allowed to see" ON policy_comments;
+CREATE POLICY "Users can view comments they are allowed to see"
+  ON policy_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_comments.policy_id) AND
+    (NOT internal OR has_capability('comment.internal'))
+  );
+
+DROP POLICY IF EXISTS "Users can comment as themselves" ON policy_comments;
+CREATE POLICY "Users can comment as themselves"
+  ON policy_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM policies WHERE policies.id = policy_comments.policy_id) AND
+    (NOT internal OR has_capability('comment.internal'))
+  );
+
+-- User administration with several roles per user
+CREATE OR REPLACE FUNCTION assert_other_admin_remains(p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_with_capability('user.manage') AS admins(id)
+    WHERE admins.id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'At least one active admin must remain' USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id uuid, p_role text, p_reason text)
+RETURNS user_profiles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for a role change' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Losing the primary admin role, or every role, ends admin access
+  IF user_has_capability(p_user_id, 'user.manage') AND
+     (p_role = 'unassigned' OR (v_profile.role = 'admin' AND p_role <> 'admin')) THEN
+    PERFORM assert_other_admin_remains(p_user_id);
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  UPDATE user_profiles
+  SET role = p_role
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_active(p_user_id uuid, p_active boolean, p_reason text)
+RETURNS user_profiles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can deactivate or reactivate accounts' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to deactivate or reactivate an account' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT p_active THEN
+    RAISE EXCEPTION 'Admins can''t deactivate their own account' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT p_active AND user_has_capability(p_user_id, 'user.manage') THEN
+    PERFORM assert_other_admin_remains(p_user_id);
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  UPDATE user_profiles
+  SET
+    active = p_active,
+    deactivated_at = CASE WHEN p_active THEN NULL ELSE now() END
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  -- Deactivated accounts can't sign in or refresh their session
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE now() + interval '100 years' END
+  WHERE id = p_user_id;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION grant_user_role(p_user_id uuid, p_role text, p_reason text)
+RETURNS SETOF user_roles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can grant roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to grant a role' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_profile.role = 'unassigned' THEN
+    RAISE EXCEPTION 'Assign a primary role before granting additional roles' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  INSERT INTO user_roles (user_id, role)
+  VALUES (p_user_id, p_role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN QUERY SELECT * FROM user_roles WHERE user_id = p_user_id ORDER BY granted_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_user_role(p_user_id uuid, p_role text, p_reason text)
+RETURNS SETOF user_roles AS $$
+DECLARE
+  v_profile user_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can revoke roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to revoke a role' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_profile.role = p_role THEN
+    RAISE EXCEPTION 'The primary role can''t be revoked on its own; change the primary role instead'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_role = 'admin' AND v_profile.active THEN
+    PERFORM assert_other_admin_remains(p_user_id);
+  END IF;
+
+  PERFORM set_config('app.user_admin_reason', trim(p_reason), true);
+
+  DELETE FROM user_roles WHERE user_id = p_user_id AND role = p_role;
+
+  RETURN QUERY SELECT * FROM user_roles WHERE user_id = p_user_id ORDER BY granted_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION user_has_capability(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION has_capability(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION current_user_capabilities() TO authenticated;
+GRANT EXECUTE ON FUNCTION users_with_capability(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION approval_limit(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION grant_user_role(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_user_role(uuid, text, text) TO authenticated;
@@ -0,0 +1,225 @@
+/*
+  # Approval Delegations
+
+  ## Overview
+  When the only holder of an approver role is away, policies waiting at that
+  role's stage pile up. Approvers (or an admin on their behalf) can now delegate
+  a role's approval authority to another user for a date range. While the
+  delegation is active the delegate can act at that role's stages with the
+  delegator's authority limit, and the approval log records whose behalf they
+  acted on.
+
+  ## 1. New Tables
+
+  ### `approval_delegations`
+  - `id` (uuid, PK)
+  - `delegator_id` (uuid, FK to user_profiles, whose authority is delegated)
+  - `delegate_id` (uuid, FK to user_profiles, who may act)
+  - `role` (text, the delegated approver role)
+  - `starts_at` / `ends_at` (timestamptz, active while `starts_at <= now() < ends_at`)
+  - `reason` (text)
+  - `created_by` (uuid, FK to user_profiles, defaults to the current user)
+  - `created_at` (timestamptz)
+  - `revoked_at` (timestamptz, set when the delegation is withdrawn early)
+
+  ## 2. Modified Tables
+
+  ### `approval_logs`
+  - `on_behalf_of` (uuid, FK to user_profiles): the delegator, when a delegate acted
+
+  ## 3. New Functions
+  - `create_approval_delegation(...)`: delegators (or admins) delegate a role
+    they hold to an active user
+  - `active_delegations(p_delegate_id)`: delegations the user can act on now;
+    a delegation lapses when its delegator no longer holds the role
+  - `can_act_on_status(p_status)`: whether the current user can act on a
+    policy in the status, themselves or as a delegate
+  - `approval_ceiling(p_user_id)`: the highest authority limit the user can
+    act with, delegated limits included
+
+  ## 4. Modified Functions
+  - `transition_policy(...)` / `review_fraud_flag(...)`: take
+    `p_on_behalf_of`; acting on a pending stage requires the stage's
+    capability or an active delegation from `p_on_behalf_of`, whose authority
+    limit then applies. Nobody acts on behalf of the policy's creator (a
+    delegate who created the policy is already refused as its creator)
+
+  ## 5. Triggers
+  - `guard_submitted_policies` (BEFORE UPDATE on policies): once a policy has
+    left `draft`, it only changes through the workflow functions
+    (`transition_policy`, `record_fraud_check` and `review_fraud_flag`), so an
+    approver or delegate can't edit a submitted policy's premium or customer
+    with a plain UPDATE
+
+  ## 6. Security (Row Level Security)
+  - `approval_delegations`: users who can view policies see delegations (so
+    policy screens can show who is standing in); only `revoked_at` can be
+    updated, by the delegator, the delegate or an admin
+  - `policies`: approvers can update policies whose status they can act on,
+    including through an active delegation, except policies they created
+
+  ## 7. Important Notes
+  - Any active user can be made a delegate, so conflicts with the policy's
+    creator are checked when the delegation is used, not when it's granted
+*/
+
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  delegator_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  delegate_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer')),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  created_by uuid REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  CHECK (delegate_id <> delegator_id),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS approval_delegations_delegate_idx
+  ON approval_delegations (delegate_id, role)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS approval_delegations_delegator_idx
+  ON approval_delegations (delegator_id, ends_at DESC);
+
+ALTER TABLE approval_delegations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view delegations" ON approval_delegations;
+CREATE POLICY "Users can view delegations"
+  ON approval_delegations FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+-- Delegations are created through create_approval_delegation; afterwards only
+-- the revocation time can change
+REVOKE INSERT, UPDATE, DELETE ON approval_delegations FROM authenticated, anon;
+GRANT UPDATE (revoked_at) ON approval_delegations TO authenticated;
+
+DROP POLICY IF EXISTS "Delegators, delegates and admins can revoke delegations" ON approval_delegations;
+CREATE POLICY "Delegators, delegates and admins can revoke delegations"
+  ON approval_delegations FOR UPDATE
+  TO authenticated
+  USING (
+    revoked_at IS NULL AND
+    (delegator_id = auth.uid() OR delegate_id = auth.uid() OR has_capability('user.manage'))
+  )
+  WITH CHECK (revoked_at IS NOT NULL);
+
+ALTER TABLE approval_logs
+  ADD COLUMN IF NOT EXISTS on_behalf_of uuid REFERENCES user_profiles(id);
+
+-- Delegations the user can act on right now
+CREATE OR REPLACE FUNCTION active_delegations(p_delegate_id uuid)
+RETURNS SETOF approval_delegations AS $$
+  SELECT approval_delegations.*
+  FROM approval_delegations
+  JOIN user_profiles delegate ON delegate.id = approval_delegations.delegate_id
+  WHERE approval_delegations.delegate_id = p_delegate_id
+  AND approval_delegations.revoked_at IS NULL
+  AND now() >= approval_delegations.starts_at
+  AND now() < approval_delegations.ends_at
+  AND delegate.active
+  AND user_has_capability(approval_delegations.delegator_id, stage_capability('pending_' || approval_delegations.role));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_act_on_status(p_status text)
+RETURNS boolean AS $$
+  SELECT p_status LIKE 'pending\_%' AND (
+    has_capability(stage_capability(p_status)) OR
+    EXISTS (
+      SELECT 1 FROM active_delegations(auth.uid()) AS delegations
+      WHERE 'pending_' || delegations.role = p_status
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION approval_ceiling(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT CASE WHEN bool_or(limits.max_premium IS NULL) THEN NULL ELSE max(limits.max_premium) END
+  FROM (
+    SELECT approval_limit(p_user_id) AS max_premium
+    UNION ALL
+    SELECT approval_limit(delegations.delegator_id, delegations.role)
+    FROM active_delegations(p_user_id) AS delegations
+  ) limits;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_approval_delegation(
+  p_delegator_id uuid,
+  p_delegate_id uuid,
+  p_role text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_reason text DEFAULT ''
+)
+RETURNS approval_delegations AS $$
+DECLARE
+  v_delegation approval_delegations;
+BEGIN
+  IF p_delegator_id <> auth.uid() AND NOT has_capability('user.manage') THEN
+    RAISE EXCEPTION 'Only the approver or an admin can delegate their authority' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT user_has_capability(p_delegator_id, stage_capability('pending_' || p_role)) THEN
+    RAISE EXCEPTION 'Only a user acting as % can delegate that role', p_role USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT user_has_capability(p_delegate_id, 'policy.view') THEN
+    RAISE EXCEPTION 'Delegates must be active users with access to policies' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_ends_at <= greatest(p_starts_at, now()) THEN
+    RAISE EXCEPTION 'A delegation must end after it starts and in the future' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO approval_delegations (delegator_id, delegate_id, role, starts_at, ends_at, reason)
+  VALUES (p_delegator_id, p_delegate_id, p_role, p_starts_at, p_ends_at, trim(coalesce(p_reason, '')))
+  RETURNING * INTO v_delegation;
+
+  RETURN v_delegation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approvers, delegates included
+DROP POLICY IF EXISTS "Approvers can update policies pending their stage" ON policies;
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (can_act_on_status(status) AND creator_id <> auth.uid())
+  WITH CHECK (
+    creator_id <> auth.uid() AND (
+      status = 'rejected' OR
+      (status = 'draft' AND escalated_from_status IS NULL) OR
+      (status LIKE 'pending\_%' AND escalated_from_status IS NOT NULL) OR
+      (
+        (status = 'approved' OR status LIKE 'pending\_%') AND
+        escalated_from_status IS NULL AND
+        (approval_ceiling(auth.uid()) IS NULL OR premium_amount <= approval_ceiling(auth.uid()))
+      )
+    )
+  );
+
+-- Once a policy leaves draft, it only changes through the workflow functions
+CREATE OR REPLACE FUNCTION guard_submitted_policies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'draft'
+    AND coalesce(current_setting('app.policy_transition', true), '') <> 'on'
+    AND coalesce(current_setting('app.fraud_check', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Submitted policies only change through the workflow functions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_submitted_policies ON policies;
+CREATE TRIGGER guard_submitted_policies
+  BEFORE UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_submitted_policies();
+
+GRANT EXECUTE ON FUNCTION create_approval_delegation(uuid, uuid, text, timestamptz, timestamptz, text) TO authenticated;
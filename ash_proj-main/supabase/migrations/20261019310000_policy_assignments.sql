@@ -0,0 +1,417 @@
+/*
+  # Policy Assignment and Claiming
+
+  ## Overview
+  Every reviewer of a stage saw the same pile of pending policies, and two of
+  them could review one policy at once. A policy entering a pending stage is
+  now assigned to one reviewer of that stage, by round-robin or by workload
+  (configured per role). Reviewers can claim unassigned policies and release
+  their own; users with `policy.assign` (managers) can reassign them. While a
+  policy is assigned, only the assignee (or someone acting on their behalf)
+  can act on it. Every assignment change is logged.
+
+  ## 1. New Tables
+
+  ### `assignment_rules`
+  - `role` (text, PK, an approver role)
+  - `strategy` (text: `round_robin`, `workload` or `manual`; `manual` leaves
+    policies unassigned for reviewers to claim)
+  - `updated_at` (timestamptz)
+
+  ### `policy_assignments`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `status` (text, the pending status the assignment applies to)
+  - `action` (text: `assigned`, `claimed`, `released`, `reassigned`)
+  - `assigned_to` (uuid, FK to user_profiles; NULL once released)
+  - `previous_assignee` (uuid, FK to user_profiles)
+  - `strategy` (text, for automatic assignments)
+  - `performed_by` (uuid, FK to user_profiles; NULL outside a user session)
+  - `reason` (text)
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### `policies`
+  - `assigned_to` (uuid, FK to user_profiles) / `assigned_at` (timestamptz):
+    the reviewer the policy is assigned to at its current stage
+
+  ## 3. New Functions
+  - `pick_assignee(p_status, p_exclude_id)`: the next reviewer for a stage.
+    Candidates hold the stage's capability and haven't delegated the role away
+    (they are out); the policy's creator is excluded. Round-robin picks whoever
+    was assigned a policy at the stage longest ago, workload whoever has the
+    fewest assigned pending policies (then round-robin).
+  - `claim_policy(p_policy_id)`: a reviewer who can act at the stage (delegates
+    included) takes an unassigned policy, unless they created it
+  - `release_policy(p_policy_id, p_reason)`: the assignee hands the policy back
+    to the team queue
+  - `reassign_policy(p_policy_id, p_assignee_id, p_reason)`: `policy.assign`
+    holders move a policy to another reviewer of the stage (or unassign it),
+    never to the policy's creator
+
+  ## 4. Modified Functions
+  - `transition_policy(...)`: a policy assigned to someone else can't be acted
+    on, except on the assignee's behalf
+  - `untracked_policy_columns()`: assignment columns are logged in
+    `policy_assignments`, not as edits
+  - `guard_submitted_policies()`: also lets the assignment functions change a
+    submitted policy
+
+  ## 5. Triggers
+  - `manage_policy_assignment` (BEFORE INSERT OR UPDATE on policies): clears the
+    assignment when the status changes and assigns the new pending stage;
+    otherwise assignment columns can only change through the functions above
+
+  ## 6. Security (Row Level Security)
+  - `assignment_rules`: users with `policy.view` can view them; users with
+    `policy.assign` can change strategies
+  - `policy_assignments`: users with `policy.view` can view the log; rows are
+    only written by the assignment functions and trigger
+  - `policies`: an assigned policy can only be updated by its assignee or by a
+    delegate of the assignee for the stage's role
+  - `set_policy_assignment(...)` and `lock_pending_policy(...)` can't be
+    called through the API; they are only called from the assignment functions
+
+  ## 7. Important Notes
+  - The new capability `policy.assign` is granted to managers
+  - Policies already pending are assigned by this migration, oldest first
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES user_profiles(id),
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS policies_assigned_to_idx
+  ON policies (assigned_to, status)
+  WHERE assigned_to IS NOT NULL;
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('manager', 'policy.assign')
+ON CONFLICT (role, capability) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS assignment_rules (
+  role text PRIMARY KEY CHECK (role IN ('underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer')),
+  strategy text NOT NULL DEFAULT 'round_robin' CHECK (strategy IN ('round_robin', 'workload', 'manual')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO assignment_rules (role, strategy) VALUES
+  ('underwriter', 'workload'),
+  ('medical_reviewer', 'round_robin'),
+  ('manager', 'round_robin'),
+  ('executive', 'round_robin'),
+  ('fraud_reviewer', 'round_robin')
+ON CONFLICT (role) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_assignment_rules_updated_at ON assignment_rules;
+CREATE TRIGGER update_assignment_rules_updated_at
+  BEFORE UPDATE ON assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view assignment rules" ON assignment_rules;
+CREATE POLICY "Users can view assignment rules"
+  ON assignment_rules FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+DROP POLICY IF EXISTS "Assigners can change assignment rules" ON assignment_rules;
+CREATE POLICY "Assigners can change assignment rules"
+  ON assignment_rules FOR UPDATE
+  TO authenticated
+  USING (has_capability('policy.assign'))
+  WITH CHECK (has_capability('policy.assign'));
+
+CREATE TABLE IF NOT EXISTS policy_assignments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  action text NOT NULL CHECK (action IN ('assigned', 'claimed', 'released', 'reassigned')),
+  assigned_to uuid REFERENCES user_profiles(id),
+  previous_assignee uuid REFERENCES user_profiles(id),
+  strategy text CHECK (strategy IN ('round_robin', 'workload')),
+  performed_by uuid REFERENCES user_profiles(id),
+  reason text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS policy_assignments_policy_idx ON policy_assignments (policy_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS policy_assignments_assignee_idx ON policy_assignments (assigned_to, status, created_at DESC);
+
+ALTER TABLE policy_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view policy assignments" ON policy_assignments;
+CREATE POLICY "Users can view policy assignments"
+  ON policy_assignments FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+CREATE OR REPLACE FUNCTION pick_assignee(p_status text, p_exclude_id uuid DEFAULT NULL)
+RETURNS TABLE (assignee_id uuid, strategy text) AS $$
+  WITH rule AS (
+    SELECT coalesce(
+      (SELECT assignment_rules.strategy FROM assignment_rules WHERE 'pending_' || assignment_rules.role = p_status),
+      'round_robin'
+    ) AS strategy
+  ),
+  candidates AS (
+    SELECT candidate.id
+    FROM users_with_capability(stage_capability(p_status)) AS candidate(id)
+    WHERE candidate.id IS DISTINCT FROM p_exclude_id
+    AND NOT EXISTS (
+      SELECT 1 FROM approval_delegations
+      WHERE approval_delegations.delegator_id = candidate.id
+      AND 'pending_' || approval_delegations.role = p_status
+      AND approval_delegations.revoked_at IS NULL
+      AND now() >= approval_delegations.starts_at
+      AND now() < approval_delegations.ends_at
+    )
+  )
+  SELECT candidates.id, rule.strategy
+  FROM candidates, rule
+  WHERE rule.strategy <> 'manual'
+  ORDER BY
+    CASE WHEN rule.strategy = 'workload' THEN (
+      SELECT count(*) FROM policies
+      WHERE policies.assigned_to = candidates.id
+      AND policies.status LIKE 'pending\_%'
+    ) END,
+    (
+      SELECT max(policy_assignments.created_at) FROM policy_assignments
+      WHERE policy_assignments.assigned_to = candidates.id
+      AND policy_assignments.status = p_status
+    ) NULLS FIRST,
+    candidates.id
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION manage_policy_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_pick record;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.assigned_to := NULL;
+    NEW.assigned_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.assigned_to := NULL;
+    NEW.assigned_at := NULL;
+
+    IF NEW.status LIKE 'pending\_%' THEN
+      SELECT * INTO v_pick FROM pick_assignee(NEW.status, NEW.creator_id);
+      IF v_pick.assignee_id IS NOT NULL THEN
+        NEW.assigned_to := v_pick.assignee_id;
+        NEW.assigned_at := now();
+        INSERT INTO policy_assignments (policy_id, status, action, assigned_to, strategy, performed_by)
+        VALUES (NEW.id, NEW.status, 'assigned', v_pick.assignee_id, v_pick.strategy, auth.uid());
+      END IF;
+    END IF;
+  ELSIF (NEW.assigned_to IS DISTINCT FROM OLD.assigned_to OR NEW.assigned_at IS DISTINCT FROM OLD.assigned_at)
+    AND coalesce(current_setting('app.policy_assignment', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Policies are assigned through claim_policy, release_policy and reassign_policy'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS manage_policy_assignment ON policies;
+CREATE TRIGGER manage_policy_assignment
+  BEFORE INSERT OR UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION manage_policy_assignment();
+
+-- Sets the assignment of a pending policy and logs it; callers check who may
+CREATE OR REPLACE FUNCTION set_policy_assignment(
+  p_policy policies,
+  p_assignee_id uuid,
+  p_action text,
+  p_reason text DEFAULT ''
+)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies;
+BEGIN
+  PERFORM set_config('app.policy_assignment', 'on', true);
+  UPDATE policies
+  SET
+    assigned_to = p_assignee_id,
+    assigned_at = CASE WHEN p_assignee_id IS NULL THEN NULL ELSE now() END
+  WHERE id = p_policy.id
+  RETURNING * INTO v_policy;
+  PERFORM set_config('app.policy_assignment', 'off', true);
+
+  INSERT INTO policy_assignments (policy_id, status, action, assigned_to, previous_assignee, performed_by, reason)
+  VALUES (p_policy.id, p_policy.status, p_action, p_assignee_id, p_policy.assigned_to, auth.uid(), trim(coalesce(p_reason, '')));
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_policy_assignment(policies, uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Locks a pending policy for an assignment change
+CREATE OR REPLACE FUNCTION lock_pending_policy(p_policy_id uuid)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies;
+BEGIN
+  SELECT * INTO v_policy FROM policies WHERE id = p_policy_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Policy not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_policy.status NOT LIKE 'pending\_%' THEN
+    RAISE EXCEPTION 'Only pending policies are assigned' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION lock_pending_policy(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION claim_policy(p_policy_id uuid)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies := lock_pending_policy(p_policy_id);
+BEGIN
+  IF NOT can_act_on_status(v_policy.status) THEN
+    RAISE EXCEPTION 'Only reviewers who can act at this stage can claim the policy' USING ERRCODE = '42501';
+  END IF;
+  IF v_policy.creator_id = auth.uid() THEN
+    RAISE EXCEPTION 'Reviewers can''t claim policies they created' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_policy.assigned_to = auth.uid() THEN
+    RETURN v_policy;
+  ELSIF v_policy.assigned_to IS NOT NULL THEN
+    RAISE EXCEPTION 'This policy is already assigned to another reviewer' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN set_policy_assignment(v_policy, auth.uid(), 'claimed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION release_policy(p_policy_id uuid, p_reason text DEFAULT '')
+RETURNS policies AS $$
+DECLARE
+  v_policy policies := lock_pending_policy(p_policy_id);
+BEGIN
+  IF v_policy.assigned_to IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the assigned reviewer can release the policy' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN set_policy_assignment(v_policy, NULL, 'released', p_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reassign_policy(p_policy_id uuid, p_assignee_id uuid, p_reason text)
+RETURNS policies AS $$
+DECLARE
+  v_policy policies := lock_pending_policy(p_policy_id);
+BEGIN
+  IF NOT has_capability('policy.assign') THEN
+    RAISE EXCEPTION 'Only managers can reassign policies' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reassign a policy' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_assignee_id IS NOT NULL AND NOT (
+    user_has_capability(p_assignee_id, stage_capability(v_policy.status)) OR
+    EXISTS (
+      SELECT 1 FROM active_delegations(p_assignee_id) AS delegations
+      WHERE 'pending_' || delegations.role = v_policy.status
+    )
+  ) THEN
+    RAISE EXCEPTION 'The assignee can''t act on a policy in %', v_policy.status USING ERRCODE = '22023';
+  END IF;
+
+  IF p_assignee_id = v_policy.creator_id THEN
+    RAISE EXCEPTION 'A policy can''t be assigned to its creator' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_assignee_id IS NOT DISTINCT FROM v_policy.assigned_to THEN
+    RETURN v_policy;
+  END IF;
+
+  RETURN set_policy_assignment(v_policy, p_assignee_id, 'reassigned', p_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the assignee, or someone acting on their behalf, can update an
+-- assigned policy
+DROP POLICY IF EXISTS "Approvers can update policies pending their stage" ON policies;
+CREATE POLICY "Approvers can update policies pending their stage"
+  ON policies FOR UPDATE
+  TO authenticated
+  USING (
+    can_act_on_status(status) AND
+    creator_id <> auth.uid() AND (
+      assigned_to IS NULL OR
+      assigned_to = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM active_delegations(auth.uid()) AS delegations
+        WHERE delegations.delegator_id = policies.assigned_to
+        AND 'pending_' || delegations.role = policies.status
+      )
+    )
+  )
+  WITH CHECK (
+    creator_id <> auth.uid() AND (
+      status = 'rejected' OR
+      (status = 'draft' AND escalated_from_status IS NULL) OR
+      (status LIKE 'pending\_%' AND escalated_from_status IS NOT NULL) OR
+      (
+        (status = 'approved' OR status LIKE 'pending\_%') AND
+        escalated_from_status IS NULL AND
+        (approval_ceiling(auth.uid()) IS NULL OR premium_amount <= approval_ceiling(auth.uid()))
+      )
+    )
+  );
+
+-- Assignment has its own log
+CREATE OR REPLACE FUNCTION untracked_policy_columns()
+RETURNS text[] AS $$
+  SELECT ARRAY[
+    -- Bookkeeping
+    'id', 'created_at', 'updated_at',
+    -- Approval log
+    'status', 'workflow_id', 'escalated_from_status', 'revision_count',
+    -- Fraud check and review results
+    'fraud_check_passed', 'fraud_check_reason', 'fraud_check_details',
+    'fraud_flag_status', 'fraud_reviewed_by', 'fraud_reviewed_at', 'fraud_review_reason',
+    -- Derived breakdowns
+    'rating_details',
+    -- Assignment log
+    'assigned_to', 'assigned_at'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Assignment changes are workflow changes to a submitted policy
+CREATE OR REPLACE FUNCTION guard_submitted_policies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'draft'
+    AND coalesce(current_setting('app.policy_transition', true), '') <> 'on'
+    AND coalesce(current_setting('app.policy_assignment', true), '') <> 'on'
+    AND coalesce(current_setting('app.fraud_check', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Submitted policies only change through the workflow functions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_policy(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_policy(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reassign_policy(uuid, uuid, text) TO authenticated;
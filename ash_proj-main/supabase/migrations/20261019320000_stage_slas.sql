@@ -0,0 +1,410 @@
+/*
+  # Stage SLAs, Reminders and Automatic Escalation
+
+  ## Overview
+  Nothing tracked how long a policy had been waiting at a stage. Each approver
+  stage now has an SLA target: the hours a policy may wait there before the
+  SLA is breached, and optionally when to send a reminder before that. A sweep
+  (`run_sla_sweep`, scheduled every 15 minutes when pg_cron is available)
+  reminds the stage's reviewers, and on a breach escalates underwriter and
+  manager stages one step up the authority ladder or, where escalation is off,
+  alerts the SLA managers. The sweep takes the time to run at, so it can be
+  run locally against a simulated clock.
+
+  ## 1. New Tables
+
+  ### `stage_slas`
+  - `role` (text, PK, an approver role)
+  - `target_hours` (integer, hours a policy may wait at the stage)
+  - `reminder_hours` (integer, hours after entering the stage to remind the
+    reviewers; NULL for no reminder; less than `target_hours`)
+  - `escalate_on_breach` (boolean, underwriter and manager stages only:
+    escalate to the next authority on a breach instead of only alerting)
+  - `updated_at` (timestamptz)
+
+  ### `sla_events`
+  - `id` (uuid, PK)
+  - `policy_id` (uuid, FK to policies)
+  - `status` (text, the pending status the event applies to)
+  - `stage_entered_at` (timestamptz, identifies the stay at the stage)
+  - `event` (text: `reminder`, `breached`, `escalated`)
+  - `escalated_to` (text, the status an escalated policy moved to)
+  - `due_at` (timestamptz, the SLA deadline of the stay)
+  - `occurred_at` (timestamptz, the sweep's clock)
+  - `created_at` (timestamptz)
+  One event of each kind per stay, so re-running a sweep is harmless.
+
+  ## 2. Modified Tables
+
+  ### `policies`
+  - `stage_entered_at` (timestamptz): when the policy entered its current
+    status; backfilled from the approval log
+
+  ### `approval_logs`
+  - `approver_id` is nullable: NULL marks an automatic SLA escalation
+
+  ## 3. New Functions
+  - `stage_reviewers(p_status, p_assigned_to, p_at)`: who is reminded about a
+    policy: its assignee, otherwise everyone who can act at the stage at
+    `p_at` (delegates included)
+  - `run_sla_sweep(p_now)`: sends reminders, handles breaches and returns the
+    events it recorded; runs as of `p_now` (default `now()`). The simulated
+    clock is only honoured for runs without a user (the scheduler, the service
+    role and the database tests); users always sweep as of `now()`
+
+  ## 4. Modified Functions
+  - `untracked_policy_columns()`: `stage_entered_at` is not logged as an edit
+  - `guard_policy_transition()` / `guard_submitted_policies()`: let the
+    sweep's escalation through
+
+  ## 5. Triggers
+  - `track_stage_entry` (BEFORE INSERT OR UPDATE on policies): stamps
+    `stage_entered_at` when the status changes; otherwise it can't change
+
+  ## 6. Security (Row Level Security)
+  - `stage_slas`: users with `policy.view` can view targets; users with
+    `sla.manage` can change them
+  - `sla_events`: users with `policy.view` can view them; rows are only
+    written by the sweep
+  - `stage_reviewers(...)` can't be called through the API; only the sweep
+    calls it
+
+  ## 7. Important Notes
+  - The new capability `sla.manage` is granted to managers
+  - SLA hours are wall-clock hours; nothing pauses the clock out of hours
+  - The sweep only writes notifications; the scheduled `deliver-notifications`
+    run picks them up for the email and webhook channels
+  - To run the sweep against a simulated clock (as the service role, e.g. from
+    the SQL editor): `SELECT * FROM run_sla_sweep('2026-10-21 09:00+00');`
+*/
+
+ALTER TABLE policies
+  ADD COLUMN IF NOT EXISTS stage_entered_at timestamptz;
+
+UPDATE policies
+SET stage_entered_at = coalesce(
+  (
+    SELECT max(approval_logs.created_at) FROM approval_logs
+    WHERE approval_logs.policy_id = policies.id
+    AND approval_logs.new_status = policies.status
+  ),
+  policies.updated_at,
+  policies.created_at
+)
+WHERE stage_entered_at IS NULL;
+
+ALTER TABLE policies
+  ALTER COLUMN stage_entered_at SET DEFAULT now(),
+  ALTER COLUMN stage_entered_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS policies_stage_entered_idx
+  ON policies (status, stage_entered_at)
+  WHERE status LIKE 'pending\_%';
+
+ALTER TABLE approval_logs ALTER COLUMN approver_id DROP NOT NULL;
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('manager', 'sla.manage')
+ON CONFLICT (role, capability) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS stage_slas (
+  role text PRIMARY KEY CHECK (role IN ('underwriter', 'medical_reviewer', 'manager', 'executive', 'fraud_reviewer')),
+  target_hours integer NOT NULL CHECK (target_hours > 0),
+  reminder_hours integer CHECK (reminder_hours > 0),
+  escalate_on_breach boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (reminder_hours < target_hours),
+  CHECK (NOT escalate_on_breach OR role IN ('underwriter', 'manager'))
+);
+
+INSERT INTO stage_slas (role, target_hours, reminder_hours, escalate_on_breach) VALUES
+  ('underwriter', 24, 16, true),
+  ('medical_reviewer', 72, 48, false),
+  ('manager', 48, 36, true),
+  ('executive', 72, 48, false),
+  ('fraud_reviewer', 48, 24, false)
+ON CONFLICT (role) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_stage_slas_updated_at ON stage_slas;
+CREATE TRIGGER update_stage_slas_updated_at
+  BEFORE UPDATE ON stage_slas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stage_slas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view stage SLAs" ON stage_slas;
+CREATE POLICY "Users can view stage SLAs"
+  ON stage_slas FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+DROP POLICY IF EXISTS "SLA managers can change stage SLAs" ON stage_slas;
+CREATE POLICY "SLA managers can change stage SLAs"
+  ON stage_slas FOR UPDATE
+  TO authenticated
+  USING (has_capability('sla.manage'))
+  WITH CHECK (has_capability('sla.manage'));
+
+CREATE TABLE IF NOT EXISTS sla_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id uuid NOT NULL REFERENCES policies(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  stage_entered_at timestamptz NOT NULL,
+  event text NOT NULL CHECK (event IN ('reminder', 'breached', 'escalated')),
+  escalated_to text,
+  due_at timestamptz NOT NULL,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (policy_id, status, stage_entered_at, event)
+);
+
+CREATE INDEX IF NOT EXISTS sla_events_policy_idx ON sla_events (policy_id, occurred_at DESC);
+
+ALTER TABLE sla_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view SLA events" ON sla_events;
+CREATE POLICY "Users can view SLA events"
+  ON sla_events FOR SELECT
+  TO authenticated
+  USING (has_capability('policy.view'));
+
+CREATE OR REPLACE FUNCTION track_stage_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.stage_entered_at := now();
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    -- The SLA sweep stamps escalations with its own clock
+    IF coalesce(current_setting('app.sla_sweep', true), '') <> 'on' THEN
+      NEW.stage_entered_at := now();
+    END IF;
+  ELSE
+    NEW.stage_entered_at := OLD.stage_entered_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS track_stage_entry ON policies;
+CREATE TRIGGER track_stage_entry
+  BEFORE INSERT OR UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION track_stage_entry();
+
+-- The stage entry has its own column
+CREATE OR REPLACE FUNCTION untracked_policy_columns()
+RETURNS text[] AS $$
+  SELECT ARRAY[
+    -- Bookkeeping
+    'id', 'created_at', 'updated_at',
+    -- Approval log
+    'status', 'workflow_id', 'escalated_from_status', 'revision_count',
+    -- Fraud check and review results
+    'fraud_check_passed', 'fraud_check_reason', 'fraud_check_details',
+    'fraud_flag_status', 'fraud_reviewed_by', 'fraud_reviewed_at', 'fraud_review_reason',
+    -- Derived breakdowns
+    'rating_details',
+    -- Assignment log
+    'assigned_to', 'assigned_at',
+    -- SLA tracking
+    'stage_entered_at'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The sweep's escalation is a status change made outside transition_policy
+CREATE OR REPLACE FUNCTION guard_policy_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    NEW.status IS DISTINCT FROM OLD.status OR
+    NEW.escalated_from_status IS DISTINCT FROM OLD.escalated_from_status OR
+    NEW.revision_count IS DISTINCT FROM OLD.revision_count
+  )
+  AND coalesce(current_setting('app.policy_transition', true), '') <> 'on'
+  AND coalesce(current_setting('app.sla_sweep', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Policy status changes go through transition_policy' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION guard_submitted_policies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'draft'
+    AND coalesce(current_setting('app.policy_transition', true), '') <> 'on'
+    AND coalesce(current_setting('app.policy_assignment', true), '') <> 'on'
+    AND coalesce(current_setting('app.fraud_check', true), '') <> 'on'
+    AND coalesce(current_setting('app.sla_sweep', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Submitted policies only change through the workflow functions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION stage_reviewers(p_status text, p_assigned_to uuid, p_at timestamptz)
+RETURNS SETOF uuid AS $$
+  SELECT p_assigned_to WHERE p_assigned_to IS NOT NULL
+  UNION
+  SELECT reviewer.id
+  FROM users_with_capability(stage_capability(p_status)) AS reviewer(id)
+  WHERE p_assigned_to IS NULL
+  UNION
+  SELECT approval_delegations.delegate_id
+  FROM approval_delegations
+  JOIN user_profiles delegate ON delegate.id = approval_delegations.delegate_id
+  WHERE p_assigned_to IS NULL
+  AND 'pending_' || approval_delegations.role = p_status
+  AND approval_delegations.revoked_at IS NULL
+  AND p_at >= approval_delegations.starts_at
+  AND p_at < approval_delegations.ends_at
+  AND delegate.active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION stage_reviewers(text, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION run_sla_sweep(p_now timestamptz DEFAULT now())
+RETURNS SETOF sla_events AS $$
+DECLARE
+  v_policy record;
+  v_role text;
+  v_escalate_to text;
+  v_assignee uuid;
+  v_event sla_events;
+BEGIN
+  -- Scheduled runs have no user; users need `sla.manage`
+  IF auth.uid() IS NOT NULL AND NOT has_capability('sla.manage') THEN
+    RAISE EXCEPTION 'Only SLA managers can run the SLA sweep' USING ERRCODE = '42501';
+  END IF;
+
+  -- Only scheduled runs (no user) may sweep as of another time
+  IF auth.uid() IS NOT NULL THEN
+    p_now := now();
+  END IF;
+
+  -- Breaches first, so a policy already overdue isn't reminded as well
+  FOR v_policy IN
+    SELECT
+      policies.id, policies.policy_number, policies.status, policies.assigned_to,
+      policies.stage_entered_at, policies.escalated_from_status, stage_slas.escalate_on_breach,
+      stage_slas.target_hours,
+      policies.stage_entered_at + make_interval(hours => stage_slas.target_hours) AS due_at
+    FROM policies
+    JOIN stage_slas ON 'pending_' || stage_slas.role = policies.status
+    WHERE p_now >= policies.stage_entered_at + make_interval(hours => stage_slas.target_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM sla_events
+      WHERE sla_events.policy_id = policies.id
+      AND sla_events.status = policies.status
+      AND sla_events.stage_entered_at = policies.stage_entered_at
+      AND sla_events.event IN ('breached', 'escalated')
+    )
+    ORDER BY policies.stage_entered_at
+    FOR UPDATE OF policies
+  LOOP
+    v_role := substr(v_policy.status, length('pending_') + 1);
+    v_escalate_to := CASE
+      WHEN NOT v_policy.escalate_on_breach THEN NULL
+      WHEN v_role = 'underwriter' THEN 'pending_manager'
+      WHEN v_role = 'manager' THEN 'pending_executive'
+    END;
+
+    INSERT INTO notifications (recipient_id, type, message, policy_id, data)
+    SELECT recipient.id, 'sla_breached', 'Policy waiting past its SLA', v_policy.id, jsonb_build_object(
+      'policy_number', v_policy.policy_number,
+      'role', v_role,
+      'target_hours', v_policy.target_hours,
+      'escalated_to', v_escalate_to
+    )
+    FROM (
+      SELECT stage_reviewers(v_policy.status, v_policy.assigned_to, p_now)
+      UNION
+      SELECT users_with_capability('sla.manage')
+    ) AS recipient(id);
+
+    IF v_escalate_to IS NULL THEN
+      INSERT INTO sla_events (policy_id, status, stage_entered_at, event, due_at, occurred_at)
+      VALUES (v_policy.id, v_policy.status, v_policy.stage_entered_at, 'breached', v_policy.due_at, p_now)
+      RETURNING * INTO v_event;
+      RETURN NEXT v_event;
+      CONTINUE;
+    END IF;
+
+    PERFORM set_config('app.sla_sweep', 'on', true);
+    UPDATE policies
+    SET
+      status = v_escalate_to,
+      escalated_from_status = coalesce(escalated_from_status, status),
+      stage_entered_at = p_now
+    WHERE id = v_policy.id
+    RETURNING assigned_to INTO v_assignee;
+    PERFORM set_config('app.sla_sweep', 'off', true);
+
+    INSERT INTO approval_logs (policy_id, approver_id, action, role, comments, previous_status, new_status)
+    VALUES (
+      v_policy.id, NULL, 'escalated', v_role,
+      format('The %s SLA of %s hours was breached; escalated automatically', v_role, v_policy.target_hours),
+      v_policy.status, v_escalate_to
+    );
+
+    INSERT INTO notifications (recipient_id, type, message, policy_id, data)
+    SELECT recipient.id, 'approval_required', 'Action required (SLA escalation)', v_policy.id, jsonb_build_object(
+      'policy_number', v_policy.policy_number,
+      'role', substr(v_escalate_to, length('pending_') + 1),
+      'reason', format('The %s SLA was breached', v_role)
+    )
+    FROM stage_reviewers(v_escalate_to, v_assignee, p_now) AS recipient(id);
+
+    INSERT INTO sla_events (policy_id, status, stage_entered_at, event, escalated_to, due_at, occurred_at)
+    VALUES (v_policy.id, v_policy.status, v_policy.stage_entered_at, 'escalated', v_escalate_to, v_policy.due_at, p_now)
+    RETURNING * INTO v_event;
+    RETURN NEXT v_event;
+  END LOOP;
+
+  FOR v_policy IN
+    SELECT
+      policies.id, policies.policy_number, policies.status, policies.assigned_to, policies.stage_entered_at,
+      policies.stage_entered_at + make_interval(hours => stage_slas.target_hours) AS due_at
+    FROM policies
+    JOIN stage_slas ON 'pending_' || stage_slas.role = policies.status
+    WHERE stage_slas.reminder_hours IS NOT NULL
+    AND p_now >= policies.stage_entered_at + make_interval(hours => stage_slas.reminder_hours)
+    AND p_now < policies.stage_entered_at + make_interval(hours => stage_slas.target_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM sla_events
+      WHERE sla_events.policy_id = policies.id
+      AND sla_events.status = policies.status
+      AND sla_events.stage_entered_at = policies.stage_entered_at
+      AND sla_events.event = 'reminder'
+    )
+    ORDER BY policies.stage_entered_at
+  LOOP
+    INSERT INTO notifications (recipient_id, type, message, policy_id, data)
+    SELECT recipient.id, 'sla_reminder', 'Policy SLA due soon', v_policy.id, jsonb_build_object(
+      'policy_number', v_policy.policy_number,
+      'role', substr(v_policy.status, length('pending_') + 1),
+      'due_at', v_policy.due_at
+    )
+    FROM stage_reviewers(v_policy.status, v_policy.assigned_to, p_now) AS recipient(id);
+
+    INSERT INTO sla_events (policy_id, status, stage_entered_at, event, due_at, occurred_at)
+    VALUES (v_policy.id, v_policy.status, v_policy.stage_entered_at, 'reminder', v_policy.due_at, p_now)
+    RETURNING * INTO v_event;
+    RETURN NEXT v_event;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Schedule the sweep where pg_cron is enabled; elsewhere run it on demand
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('sla-sweep', '*/15 * * * *', 'SELECT run_sla_sweep()');
+  END IF;
+END $$;
+
+GRANT EXECUTE ON FUNCTION run_sla_sweep(timestamptz) TO authenticated;
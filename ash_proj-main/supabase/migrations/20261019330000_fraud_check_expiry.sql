@@ -0,0 +1,89 @@
+/*
+  # Fraud Check Expiry
+
+  ## Overview
+  The fraud check result stored on a draft was trusted until the next check,
+  whatever happened to the draft in between: a creator could record a passing
+  check and then raise the premium with a plain update, and submission went
+  ahead on the old result. `record_fraud_check` also accepted a passing result
+  for a draft whose current check had failed, which lifted the flag without
+  any change to the policy. A stored check now only covers the version of the
+  draft it was run on: changing a field the fraud rules look at expires it,
+  and a draft can't be submitted without a current check.
+
+  ## 1. Modified Tables
+
+  ### `policies`
+  - `fraud_check_passed` has no default: NULL means the draft has not been
+    checked since it was created or since its last relevant edit
+
+  ## 2. Modified Functions
+  - `guard_policy_fraud_columns()`: when the customer name, premium or product
+    of a draft changes, the stored check and fraud flag are cleared
+    (`fraud_check_passed` NULL, flag `none`, any fraud review discarded)
+  - `record_fraud_check(...)`: a failed check stands until the draft is
+    edited; a passing result for the same version is refused
+  - `submit_policy(...)`: refuses a draft without a current fraud check
+
+  ## 3. Security (Row Level Security)
+  - "Creators can create policies": new drafts start without a fraud check
+    result; the first one is recorded by `record_fraud_check`
+
+  ## 4. Important Notes
+  - Drafts that exist before this migration keep their stored check
+  - The check itself still runs in the application; the database makes sure
+    the result it is given belongs to the version being submitted
+*/
+
+ALTER TABLE policies ALTER COLUMN fraud_check_passed DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION guard_policy_fraud_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    NEW.fraud_check_passed IS DISTINCT FROM OLD.fraud_check_passed OR
+    NEW.fraud_check_reason IS DISTINCT FROM OLD.fraud_check_reason OR
+    NEW.fraud_check_details IS DISTINCT FROM OLD.fraud_check_details OR
+    NEW.fraud_flag_status IS DISTINCT FROM OLD.fraud_flag_status OR
+    NEW.fraud_reviewed_by IS DISTINCT FROM OLD.fraud_reviewed_by OR
+    NEW.fraud_reviewed_at IS DISTINCT FROM OLD.fraud_reviewed_at OR
+    NEW.fraud_review_reason IS DISTINCT FROM OLD.fraud_review_reason
+  )
+  AND coalesce(current_setting('app.fraud_check', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Fraud results change through record_fraud_check and review_fraud_flag' USING ERRCODE = '42501';
+  END IF;
+
+  -- The stored check covers the draft as it was checked; the fields the fraud
+  -- rules read expire it
+  IF OLD.status = 'draft' AND (
+    NEW.customer_name IS DISTINCT FROM OLD.customer_name OR
+    NEW.premium_amount IS DISTINCT FROM OLD.premium_amount OR
+    NEW.product_type IS DISTINCT FROM OLD.product_type
+  ) THEN
+    NEW.fraud_check_passed := NULL;
+    NEW.fraud_check_reason := '';
+    NEW.fraud_check_details := NULL;
+    NEW.fraud_flag_status := 'none';
+    NEW.fraud_reviewed_by := NULL;
+    NEW.fraud_reviewed_at := NULL;
+    NEW.fraud_review_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP POLICY IF EXISTS "Creators can create policies" ON policies;
+CREATE POLICY "Creators can create policies"
+  ON policies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    creator_id = auth.uid() AND
+    has_capability('policy.create') AND
+    status = 'draft' AND
+    escalated_from_status IS NULL AND
+    revision_count = 0 AND
+    fraud_check_passed IS NULL AND
+    fraud_flag_status = 'none' AND
+    fraud_reviewed_by IS NULL
+  );
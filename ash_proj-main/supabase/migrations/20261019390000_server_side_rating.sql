@@ -0,0 +1,243 @@
+/*
+  # Server-Side Premium Rating
+
+  ## Overview
+  The rated premium and its breakdown were computed in the browser and stored
+  as sent, so a creator could send a rated premium equal to the premium they
+  charged and no override was recorded. The database now rates every draft
+  itself from the same tables and stores the result, and a premium that
+  differs from its own rating needs a justification. `ratingService.ts` keeps
+  the same tables to show the rating while the form is filled in; a database
+  test checks the two agree.
+
+  ## 1. New Tables
+
+  ### `rating_tables`
+  - `product_type` (text, primary key; `default` applies to products without a row)
+  - `base_rate_per_thousand` (numeric, annual rate per $1,000 of coverage)
+  - `minimum_premium` (numeric)
+  - `claim_loading` (numeric, loading per prior claim, e.g. 0.2 = +20% each)
+  - `max_claims_multiplier` (numeric, cap on the prior-claims factor)
+  - `age_bands` (jsonb, `[{ "max_age", "multiplier" }]` in ascending order, the
+    last band with `max_age` NULL; NULL when the product isn't age-rated)
+
+  ## 2. Modified Tables
+
+  ### `policies`
+  - The premium override check allows a difference of up to a cent, the most
+    the app's floating-point rating and the database's exact rating differ by
+
+  ## 3. New Functions
+  - `rating_table(p_product_type)`: the product's rating table, or the default
+  - `rate_policy(p_policy)`: the rating breakdown as stored in `rating_details`
+    (mirrors `ratePolicy`), or NULL while the policy can't be rated
+  - `rate_draft_policy()` (BEFORE INSERT OR UPDATE on policies): rates new
+    drafts, and drafts whose rating inputs, premium or rating columns change;
+    whatever the client sent for `rated_premium` and `rating_details` is
+    replaced, and the override reason is kept only while the premium deviates
+
+  ## 4. Security (Row Level Security)
+  - All authenticated users can view the rating tables; they are changed
+    through migrations only
+
+  ## 5. Important Notes
+  - Submitted policies keep the rating they were submitted with
+*/
+
+CREATE TABLE IF NOT EXISTS rating_tables (
+  product_type text PRIMARY KEY,
+  base_rate_per_thousand numeric NOT NULL CHECK (base_rate_per_thousand > 0),
+  minimum_premium numeric(12, 2) NOT NULL CHECK (minimum_premium >= 0),
+  claim_loading numeric NOT NULL CHECK (claim_loading >= 0),
+  max_claims_multiplier numeric NOT NULL CHECK (max_claims_multiplier >= 1),
+  age_bands jsonb CHECK (age_bands IS NULL OR jsonb_typeof(age_bands) = 'array')
+);
+
+ALTER TABLE rating_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view rating tables"
+  ON rating_tables FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO rating_tables (product_type, base_rate_per_thousand, minimum_premium, claim_loading, max_claims_multiplier, age_bands) VALUES
+  ('default', 10, 100, 0.2, 2, NULL),
+  ('AUTO', 25, 300, 0.25, 2.5, NULL),
+  ('HOME', 3.5, 250, 0.2, 2, NULL),
+  ('LIFE', 1.2, 120, 0, 1, '[
+    {"max_age": 29, "multiplier": 0.8},
+    {"max_age": 39, "multiplier": 1},
+    {"max_age": 49, "multiplier": 1.5},
+    {"max_age": 59, "multiplier": 2.4},
+    {"max_age": 69, "multiplier": 4},
+    {"max_age": null, "multiplier": 6}
+  ]'),
+  ('HEALTH', 8, 200, 0.1, 1.5, '[
+    {"max_age": 29, "multiplier": 0.9},
+    {"max_age": 44, "multiplier": 1},
+    {"max_age": 59, "multiplier": 1.4},
+    {"max_age": null, "multiplier": 2}
+  ]'),
+  ('BUSINESS', 6, 1000, 0.15, 2, NULL),
+  ('TRAVEL', 15, 25, 0.1, 1.5, NULL)
+ON CONFLICT (product_type) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION rating_table(p_product_type text)
+RETURNS rating_tables AS $$
+  SELECT * FROM rating_tables
+  WHERE product_type IN (p_product_type, 'default')
+  ORDER BY product_type = 'default'
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Mirrors ratePolicy, including COVERAGE_BANDS and DEDUCTIBLE_CREDITS
+CREATE OR REPLACE FUNCTION rate_policy(p_policy policies)
+RETURNS jsonb AS $$
+DECLARE
+  v_table rating_tables;
+  v_product products;
+  v_factors jsonb := '[]'::jsonb;
+  v_date_of_birth date;
+  v_age integer;
+  v_multiplier numeric;
+  v_deductible_ratio numeric;
+  v_claims integer;
+  v_base numeric;
+  v_calculated numeric;
+  v_minimum numeric;
+  v_factor jsonb;
+BEGIN
+  IF p_policy.product_type IS NULL OR p_policy.coverage_amount IS NULL OR p_policy.coverage_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_table := rating_table(p_policy.product_type);
+  SELECT * INTO v_product FROM products WHERE code = p_policy.product_type;
+
+  IF v_table.age_bands IS NOT NULL AND jsonb_typeof(p_policy.product_attributes->'date_of_birth') = 'string' THEN
+    BEGIN
+      v_date_of_birth := (p_policy.product_attributes->>'date_of_birth')::date;
+    EXCEPTION WHEN others THEN
+      v_date_of_birth := NULL;
+    END;
+
+    IF v_date_of_birth IS NOT NULL THEN
+      v_age := date_part('year', age(current_date, v_date_of_birth))::integer;
+      SELECT (band->>'multiplier')::numeric INTO v_multiplier
+      FROM jsonb_array_elements(v_table.age_bands) WITH ORDINALITY AS bands(band, position)
+      WHERE band->>'max_age' IS NULL OR v_age <= (band->>'max_age')::integer
+      ORDER BY position
+      LIMIT 1;
+
+      v_factors := v_factors || jsonb_build_object(
+        'id', 'age', 'label', 'Age', 'multiplier', v_multiplier, 'explanation', format('Insured is %s', v_age)
+      );
+    END IF;
+  END IF;
+
+  v_multiplier := CASE
+    WHEN p_policy.coverage_amount <= 100000 THEN 1
+    WHEN p_policy.coverage_amount <= 500000 THEN 0.95
+    WHEN p_policy.coverage_amount <= 1000000 THEN 0.9
+    ELSE 0.85
+  END;
+  v_factors := v_factors || jsonb_build_object(
+    'id', 'coverage', 'label', 'Coverage amount', 'multiplier', v_multiplier,
+    'explanation', CASE WHEN v_multiplier < 1 THEN 'Volume discount for higher coverage' ELSE 'No volume discount at this coverage' END
+  );
+
+  v_deductible_ratio := greatest(coalesce(p_policy.deductible, 0), 0) / p_policy.coverage_amount;
+  v_factors := v_factors || jsonb_build_object(
+    'id', 'deductible', 'label', 'Deductible',
+    'multiplier', CASE
+      WHEN v_deductible_ratio >= 0.05 THEN 0.85
+      WHEN v_deductible_ratio >= 0.02 THEN 0.9
+      WHEN v_deductible_ratio >= 0.01 THEN 0.95
+      ELSE 1
+    END,
+    'explanation', format('Deductible is %s%% of coverage', round(v_deductible_ratio * 100, 1))
+  );
+
+  v_claims := greatest(coalesce(p_policy.prior_claims, 0), 0);
+  v_factors := v_factors || jsonb_build_object(
+    'id', 'prior_claims', 'label', 'Prior claims',
+    'multiplier', round(least(1 + v_claims * v_table.claim_loading, v_table.max_claims_multiplier), 2),
+    'explanation', CASE
+      WHEN v_claims = 0 THEN 'No claims in the last 5 years'
+      ELSE format('%s claim%s in the last 5 years', v_claims, CASE WHEN v_claims = 1 THEN '' ELSE 's' END)
+    END
+  );
+
+  v_base := round(p_policy.coverage_amount / 1000 * v_table.base_rate_per_thousand, 2);
+  v_calculated := v_base;
+  FOR v_factor IN SELECT * FROM jsonb_array_elements(v_factors) LOOP
+    v_calculated := v_calculated * (v_factor->>'multiplier')::numeric;
+  END LOOP;
+  v_calculated := round(v_calculated, 2);
+  v_minimum := greatest(v_table.minimum_premium, coalesce(v_product.min_premium, 0));
+
+  RETURN jsonb_build_object(
+    'base_premium', v_base,
+    'factors', v_factors,
+    'calculated_premium', v_calculated,
+    'minimum_premium', v_minimum,
+    'maximum_premium', v_product.max_premium,
+    'rated_premium', CASE
+      WHEN v_product.max_premium IS NULL THEN greatest(v_calculated, v_minimum)
+      ELSE least(greatest(v_calculated, v_minimum), v_product.max_premium)
+    END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rate_draft_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT (
+    NEW.product_type IS DISTINCT FROM OLD.product_type OR
+    NEW.coverage_amount IS DISTINCT FROM OLD.coverage_amount OR
+    NEW.deductible IS DISTINCT FROM OLD.deductible OR
+    NEW.prior_claims IS DISTINCT FROM OLD.prior_claims OR
+    NEW.product_attributes IS DISTINCT FROM OLD.product_attributes OR
+    NEW.premium_amount IS DISTINCT FROM OLD.premium_amount OR
+    NEW.rated_premium IS DISTINCT FROM OLD.rated_premium OR
+    NEW.rating_details IS DISTINCT FROM OLD.rating_details OR
+    NEW.premium_override_reason IS DISTINCT FROM OLD.premium_override_reason
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.rating_details := rate_policy(NEW);
+  NEW.rated_premium := (NEW.rating_details->>'rated_premium')::numeric;
+
+  IF NEW.rated_premium IS NULL OR abs(NEW.premium_amount - NEW.rated_premium) <= 0.01 THEN
+    NEW.premium_override_reason := NULL;
+  ELSIF length(trim(coalesce(NEW.premium_override_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Premium differs from the rated premium of %; a justification is required', NEW.rated_premium
+      USING ERRCODE = '22023';
+  ELSE
+    NEW.premium_override_reason := trim(NEW.premium_override_reason);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS rate_draft_policy ON policies;
+CREATE TRIGGER rate_draft_policy
+  BEFORE INSERT OR UPDATE ON policies
+  FOR EACH ROW
+  EXECUTE FUNCTION rate_draft_policy();
+
+ALTER TABLE policies DROP CONSTRAINT IF EXISTS policies_premium_override_check;
+ALTER TABLE policies
+  ADD CONSTRAINT policies_premium_override_check
+  CHECK (
+    rated_premium IS NULL OR
+    abs(premium_amount - rated_premium) <= 0.01 OR
+    length(trim(coalesce(premium_override_reason, ''))) > 0
+  );
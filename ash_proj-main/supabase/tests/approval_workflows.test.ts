@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { WORKFLOWS } from '../../src/services/workflowService';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows, TestPolicy } from './database';
+
+describe('approval workflow stages', () => {
+  let db: PGlite;
+  let creator: string;
+
+  const submit = (policy: TestPolicy) =>
+    asUser(db, creator, (tx) =>
+      queryOne<TestPolicy & { workflow_id: string }>(tx, 'SELECT * FROM submit_policy($1)', [policy.id])
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+  });
+
+  it('matches the workflow definitions in workflowService', async () => {
+    const workflows = await queryRows<{ id: string; name: string; product_types: string[] }>(
+      db,
+      'SELECT id, name, product_types FROM approval_workflows ORDER BY id'
+    );
+    const stages = await queryRows<{ workflow_id: string; role: string; label: string; conditions: unknown[] }>(
+      db,
+      'SELECT workflow_id, role, label, conditions FROM approval_workflow_stages ORDER BY workflow_id, position'
+    );
+
+    expect(workflows).toEqual(
+      WORKFLOWS.map(({ id, name, productTypes }) => ({ id, name, product_types: productTypes })).sort((a, b) =>
+        a.id.localeCompare(b.id)
+      )
+    );
+    WORKFLOWS.forEach((workflow) => {
+      expect(
+        stages
+          .filter((stage) => stage.workflow_id === workflow.id)
+          .map(({ role, label, conditions }) => ({ role, label, conditions }))
+      ).toEqual(workflow.stages.map(({ role, label, conditions }) => ({ role, label, conditions: conditions ?? [] })));
+    });
+  });
+
+  it("submits a draft to the first stage of its product's workflow", async () => {
+    const life = await createPolicy(db, creator, { product_type: 'LIFE' });
+
+    expect(await submit(life)).toMatchObject({ status: 'pending_underwriter', workflow_id: 'life' });
+  });
+
+  it('skips stages whose entry conditions do not hold', async () => {
+    await db.exec(`
+      INSERT INTO approval_workflows (id, name, product_types) VALUES ('home', 'Home', '{HOME}');
+      INSERT INTO approval_workflow_stages (workflow_id, position, role, label, conditions) VALUES
+        ('home', 1, 'manager', 'Manager Approval', '[{"field": "premium_amount", "operator": "gt", "value": 5000}]'),
+        ('home', 2, 'underwriter', 'Underwriter Review', '[{"field": "premium_amount", "operator": "lte", "value": 50000}]');
+    `);
+
+    const small = await createPolicy(db, creator, { product_type: 'HOME', premium_amount: 5000 });
+    const large = await createPolicy(db, creator, { product_type: 'HOME', premium_amount: 5000.01 });
+    const huge = await createPolicy(db, creator, { product_type: 'HOME', premium_amount: 60000 });
+
+    expect((await submit(small)).status).toBe('pending_underwriter');
+    expect((await submit(large)).status).toBe('pending_manager');
+    await db.exec(`DELETE FROM approval_workflow_stages WHERE workflow_id = 'home' AND position = 1`);
+    await expect(submit(huge)).rejects.toThrow('Workflow home has no applicable review stage');
+  });
+});
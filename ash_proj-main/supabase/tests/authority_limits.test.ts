@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows } from './database';
+
+describe('approval authority limits', () => {
+  let db: PGlite;
+  let creator: string;
+  let medicalReviewer: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    medicalReviewer = await createUser(db, ['medical_reviewer']);
+  });
+
+  it('has a limit for every approving role', async () => {
+    expect(
+      await queryRows(
+        db,
+        `SELECT DISTINCT caps.role FROM role_capabilities caps
+         WHERE (caps.capability LIKE 'policy.approve.%' OR caps.capability = 'policy.review.fraud')
+         AND NOT EXISTS (SELECT 1 FROM approval_authority_limits limits WHERE limits.role = caps.role)`
+      )
+    ).toEqual([]);
+  });
+
+  it('escalates a medical review above the medical reviewer limit', async () => {
+    const policy = await createPolicy(db, creator, {
+      status: 'pending_medical_reviewer',
+      product_type: 'LIFE',
+      workflow_id: 'life',
+      premium_amount: 300000,
+    });
+    const act = (to: string, action: string, from: string | null) =>
+      asUser(db, medicalReviewer, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_medical_reviewer', $3, $4, 'medical_reviewer', '', NULL, $5)`,
+          [policy.id, medicalReviewer, to, action, from]
+        )
+      );
+
+    await expect(act('pending_manager', 'approved', null)).rejects.toThrow(
+      'The premium exceeds the medical_reviewer approval limit of 250000'
+    );
+    await act('pending_executive', 'escalated', 'pending_medical_reviewer');
+
+    expect(await queryOne(db, 'SELECT status FROM policies WHERE id = $1', [policy.id])).toEqual({
+      status: 'pending_executive',
+    });
+  });
+
+  it('gives a role without a limit row no approval authority', async () => {
+    await db.exec(`DELETE FROM approval_authority_limits WHERE role IN ('medical_reviewer', 'manager')`);
+
+    expect(
+      await queryOne(db, `SELECT approval_limit($1, 'medical_reviewer') AS role_limit, approval_limit($1) AS rollup`, [
+        medicalReviewer,
+      ])
+    ).toEqual({ role_limit: '0', rollup: '0' });
+    expect(await queryOne(db, `SELECT escalation_status('underwriter', 60000) AS status`)).toEqual({
+      status: 'pending_executive',
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+/**
+ * TEST DATABASE
+ * An in-memory Postgres (PGlite) with every migration applied, on top of a
+ * stand-in for the parts of Supabase the migrations rely on: the API roles and
+ * their default privileges, `auth.users` / `auth.uid()`, the storage schema and
+ * the realtime publication. Statements run as the superuser (like the
+ * scheduler or service role, with no `auth.uid()`) unless wrapped in `asUser`,
+ * which switches to the `authenticated` role so RLS applies.
+ */
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations', import.meta.url));
+
+const SUPABASE_STANDIN = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+  CREATE TABLE auth.users (
+    id uuid PRIMARY KEY,
+    email text,
+    raw_user_meta_data jsonb DEFAULT '{}',
+    raw_app_meta_data jsonb DEFAULT '{}',
+    email_confirmed_at timestamptz,
+    created_at timestamptz DEFAULT now()
+  );
+  CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$
+    SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+
+  CREATE SCHEMA storage;
+  GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+  CREATE TABLE storage.buckets (
+    id text PRIMARY KEY,
+    name text,
+    public boolean,
+    file_size_limit bigint,
+    allowed_mime_types text[]
+  );
+  CREATE TABLE storage.objects (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    bucket_id text,
+    name text,
+    owner uuid
+  );
+  ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+  GRANT ALL ON storage.objects TO authenticated, service_role;
+  CREATE FUNCTION storage.foldername(name text) RETURNS text[] LANGUAGE sql IMMUTABLE AS $$
+    SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1]
+  $$;
+
+  CREATE PUBLICATION supabase_realtime;
+`;
+
+export type Queryable = PGlite | Transaction;
+
+export const createTestDatabase = async () => {
+  const db = new PGlite({ extensions: { uuid_ossp, pg_trgm } });
+  await db.exec(SUPABASE_STANDIN);
+
+  for (const file of readdirSync(MIGRATIONS_DIR)
+    .filter((name) => name.endsWith('.sql'))
+    .sort()) {
+    try {
+      await db.exec(readFileSync(`${MIGRATIONS_DIR}/${file}`, 'utf8'));
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return db;
+};
+
+/**
+ * Runs `fn` in a transaction as a signed-in user, through RLS; the transaction
+ * rolls back if `fn` throws
+ */
+export const asUser = <T>(db: PGlite, userId: string, fn: (tx: Transaction) => Promise<T>) =>
+  db.transaction(async (tx) => {
+    await tx.query(`SELECT set_config('request.jwt.claim.sub', $1, true)`, [userId]);
+    await tx.exec('SET LOCAL ROLE authenticated');
+    return fn(tx);
+  });
+
+export const queryRows = async <T>(db: Queryable, sql: string, params: unknown[] = []) =>
+  (await db.query<T>(sql, params)).rows;
+
+export const queryOne = async <T>(db: Queryable, sql: string, params: unknown[] = []) => {
+  const rows = await queryRows<T>(db, sql, params);
+  if (rows.length !== 1) throw new Error(`Expected one row, got ${rows.length}`);
+  return rows[0];
+};
+
+let sequence = 0;
+
+/**
+ * Signs up a confirmed user and gives them `role`; returns the user id
+ */
+export const createUser = async (db: PGlite, roles: string[], email?: string) => {
+  sequence += 1;
+  const address = email ?? `${roles[0] ?? 'user'}-${sequence}@example.com`;
+  const { id } = await queryOne<{ id: string }>(
+    db,
+    `INSERT INTO auth.users (id, email, raw_user_meta_data, email_confirmed_at)
+     VALUES (gen_random_uuid(), $1, jsonb_build_object('full_name', $1::text), now())
+     RETURNING id`,
+    [address]
+  );
+
+  if (roles.length > 0) {
+    await db.query('UPDATE user_profiles SET role = $2 WHERE id = $1', [id, roles[0]]);
+    for (const role of roles.slice(1)) {
+      await db.query('INSERT INTO user_roles (user_id, role) VALUES ($1, $2)', [id, role]);
+    }
+  }
+
+  return id;
+};
+
+export interface TestPolicy {
+  id: string;
+  policy_number: string;
+  status: string;
+  premium_amount: string;
+  creator_id: string;
+  fraud_flag_status: string;
+  fraud_check_passed: boolean | null;
+  assigned_to: string | null;
+  escalated_from_status: string | null;
+  stage_entered_at: Date;
+}
+
+/**
+ * Inserts a policy directly (bypassing RLS), in any status, with a passing
+ * fraud check unless `fields` say otherwise
+ */
+export const createPolicy = async (
+  db: PGlite,
+  creatorId: string,
+  fields: Record<string, unknown> = {}
+): Promise<TestPolicy> => {
+  sequence += 1;
+  const values: Record<string, unknown> = {
+    policy_number: `TEST-${sequence}`,
+    customer_name: `Customer ${sequence}`,
+    premium_amount: 1000,
+    product_type: 'AUTO',
+    creator_id: creatorId,
+    fraud_check_passed: true,
+    ...fields,
+  };
+  const columns = Object.keys(values);
+
+  return queryOne<TestPolicy>(
+    db,
+    `INSERT INTO policies (${columns.join(', ')})
+     VALUES (${columns.map((_column, index) => `$${index + 1}`).join(', ')})
+     RETURNING *`,
+    Object.values(values)
+  );
+};
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows, TestPolicy } from './database';
+
+describe('record_fraud_check', () => {
+  let db: PGlite;
+  let creator: string;
+  let otherCreator: string;
+  let underwriter: string;
+  let fraudReviewer: string;
+
+  const record = (userId: string, policy: TestPolicy, event: string, passed: boolean) =>
+    asUser(db, userId, (tx) =>
+      queryOne<TestPolicy>(tx, `SELECT * FROM record_fraud_check($1, $2, $3, $4, '{"score": 70}')`, [
+        policy.id,
+        event,
+        passed,
+        passed ? '' : 'High premium',
+      ])
+    );
+
+  const edit = (userId: string, policy: TestPolicy, column: string, value: unknown) =>
+    asUser(db, userId, (tx) =>
+      queryOne<TestPolicy>(tx, `UPDATE policies SET ${column} = $2 WHERE id = $1 RETURNING *`, [policy.id, value])
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    otherCreator = await createUser(db, ['creator']);
+    underwriter = await createUser(db, ['underwriter']);
+    fraudReviewer = await createUser(db, ['fraud_reviewer']);
+  });
+
+  it('stores the result on the draft and in its history', async () => {
+    const policy = await createPolicy(db, creator);
+
+    const checked = await record(creator, policy, 'create', false);
+
+    expect(checked).toMatchObject({ fraud_check_passed: false, fraud_check_reason: 'High premium' });
+    expect(
+      await queryRows(db, 'SELECT event, passed, reason, checked_by FROM fraud_checks WHERE policy_id = $1', [
+        policy.id,
+      ])
+    ).toEqual([{ event: 'create', passed: false, reason: 'High premium', checked_by: creator }]);
+  });
+
+  it('only lets the creator record checks, while the policy is a draft', async () => {
+    const draft = await createPolicy(db, creator);
+    const submitted = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(record(otherCreator, draft, 'update', true)).rejects.toThrow(
+      'Only the creator can record fraud checks, while the policy is a draft'
+    );
+    await expect(record(creator, submitted, 'update', true)).rejects.toThrow(
+      'Only the creator can record fraud checks, while the policy is a draft'
+    );
+    await expect(
+      asUser(db, underwriter, (tx) =>
+        tx.query(`INSERT INTO fraud_checks (policy_id, event, passed) VALUES ($1, 'submit', true)`, [submitted.id])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    expect(
+      await queryRows(db, 'SELECT 1 FROM fraud_checks WHERE policy_id = ANY($1)', [[draft.id, submitted.id]])
+    ).toEqual([]);
+  });
+
+  it('keeps a cleared flag on submission but discards it when the policy is edited', async () => {
+    const policy = await createPolicy(db, creator, {
+      fraud_flag_status: 'cleared',
+      fraud_reviewed_by: fraudReviewer,
+      fraud_review_reason: 'Known customer',
+    });
+
+    expect(await record(creator, policy, 'submit', false)).toMatchObject({
+      fraud_flag_status: 'cleared',
+      fraud_reviewed_by: fraudReviewer,
+    });
+    expect(await record(creator, policy, 'update', false)).toMatchObject({
+      fraud_flag_status: 'flagged',
+      fraud_reviewed_by: null,
+    });
+  });
+
+  it('expires the check when a field the fraud rules read changes', async () => {
+    const policy = await createPolicy(db, creator, { fraud_flag_status: 'flagged', fraud_check_passed: false });
+
+    expect(await edit(creator, policy, 'insured_phone', '555-0100')).toMatchObject({
+      fraud_check_passed: false,
+      fraud_flag_status: 'flagged',
+    });
+    expect(await edit(creator, policy, 'premium_amount', 1500)).toMatchObject({
+      fraud_check_passed: null,
+      fraud_flag_status: 'none',
+    });
+  });
+
+  it('keeps a failed check until the policy is edited', async () => {
+    const policy = await createPolicy(db, creator);
+    await record(creator, policy, 'create', false);
+
+    await expect(record(creator, policy, 'update', true)).rejects.toThrow(
+      'The failed fraud check stands until the policy is edited'
+    );
+
+    await edit(creator, policy, 'customer_name', 'Grace Hopper');
+    expect(await record(creator, policy, 'update', true)).toMatchObject({
+      fraud_check_passed: true,
+      fraud_flag_status: 'none',
+    });
+  });
+});
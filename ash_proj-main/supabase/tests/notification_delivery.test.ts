@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryRows } from './database';
+
+interface ClaimedRow {
+  event_type: string;
+  message: string;
+  data: Record<string, unknown>;
+  policy_id: string | null;
+  recipient_id: string;
+  email: string;
+}
+
+describe('claim_channel_messages', () => {
+  let db: PGlite;
+  let creator: string;
+  let manager: string;
+
+  const claim = () => queryRows<ClaimedRow>(db, 'SELECT * FROM claim_channel_messages()');
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    manager = await createUser(db, ['manager'], 'manager@example.com');
+  });
+
+  it('hands each new notification to the delivery function exactly once', async () => {
+    const policy = await createPolicy(db, creator);
+    await asUser(db, creator, (tx) =>
+      tx.query(
+        `SELECT notify('approval_required', 'Manager action required', '{"role": "manager"}', $2, ARRAY[$1]::uuid[])`,
+        [manager, policy.id]
+      )
+    );
+
+    expect(await claim()).toEqual([
+      {
+        event_type: 'approval_required',
+        message: 'Manager action required',
+        data: { role: 'manager' },
+        policy_id: policy.id,
+        recipient_id: manager,
+        email: 'manager@example.com',
+        created_at: expect.any(Date),
+      },
+    ]);
+    expect(await claim()).toEqual([]);
+  });
+
+  it('claims but does not return notifications of deactivated users', async () => {
+    const departed = await createUser(db, ['underwriter']);
+    await db.query('UPDATE user_profiles SET active = false WHERE id = $1', [departed]);
+    await db.query(
+      `INSERT INTO notifications (recipient_id, type, message) VALUES ($1, 'approval_required', 'Underwriter action required')`,
+      [departed]
+    );
+
+    expect(await claim()).toEqual([]);
+    expect(
+      await queryRows(db, 'SELECT 1 FROM notifications WHERE recipient_id = $1 AND channels_claimed_at IS NULL', [
+        departed,
+      ])
+    ).toEqual([]);
+  });
+
+  it('returns open invitations as invitation emails', async () => {
+    const admin = await createUser(db, ['admin'], 'admin@example.com');
+    await db.query(
+      `INSERT INTO user_invitations (email, role, invited_by) VALUES ('new.reviewer@example.com', 'fraud_reviewer', $1)`,
+      [admin]
+    );
+
+    expect(await claim()).toMatchObject([
+      {
+        event_type: 'user_invited',
+        message: 'admin@example.com invited you to the Insurance Policy System',
+        data: { email: 'new.reviewer@example.com', role: 'Fraud Reviewer' },
+        policy_id: null,
+        email: 'new.reviewer@example.com',
+      },
+    ]);
+    expect(await claim()).toEqual([]);
+  });
+
+  it('is reserved for the service role, which alone writes the delivery log', async () => {
+    await expect(asUser(db, manager, (tx) => tx.query('SELECT * FROM claim_channel_messages()'))).rejects.toThrow(
+      /permission denied/
+    );
+    await expect(
+      asUser(db, manager, (tx) =>
+        tx.query(
+          `INSERT INTO notification_deliveries (event_type, channel, target, status) VALUES ('fraud_alert', 'email', 'x@example.com', 'sent')`
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
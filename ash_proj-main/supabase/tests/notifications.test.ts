@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryRows } from './database';
+
+describe('notify', () => {
+  let db: PGlite;
+  let creator: string;
+  let otherCreator: string;
+  let underwriter: string;
+  let manager: string;
+
+  const notify = (senderId: string, type: string, policyId: string | null, userIds: string[], roles: string[] = []) =>
+    asUser(db, senderId, (tx) =>
+      tx.query(`SELECT notify($1, 'Something happened', '{}', $2, $3::uuid[], $4::text[]) AS stored`, [
+        type,
+        policyId,
+        userIds,
+        roles,
+      ])
+    );
+
+  const recipients = (policyId: string, type: string) =>
+    queryRows<{ recipient_id: string }>(
+      db,
+      'SELECT recipient_id FROM notifications WHERE policy_id = $1 AND type = $2 ORDER BY recipient_id',
+      [policyId, type]
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    otherCreator = await createUser(db, ['creator']);
+    underwriter = await createUser(db, ['underwriter']);
+    manager = await createUser(db, ['manager']);
+  });
+
+  it('refuses direct inserts', async () => {
+    const policy = await createPolicy(db, creator);
+
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(
+          `INSERT INTO notifications (recipient_id, type, message, policy_id) VALUES ($1, 'fraud_alert', 'x', $2)`,
+          [manager, policy.id]
+        )
+      )
+    ).rejects.toThrow('row-level security');
+  });
+
+  it('lets the creator and approvers at the current stage notify about a policy', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await notify(creator, 'policy_submitted', policy.id, [creator]);
+    await notify(underwriter, 'approval_required', policy.id, [], ['manager']);
+
+    expect(await recipients(policy.id, 'policy_submitted')).toEqual([{ recipient_id: creator }]);
+    expect(await recipients(policy.id, 'approval_required')).toEqual([{ recipient_id: manager }]);
+  });
+
+  it('refuses senders who are not involved in the policy', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(notify(otherCreator, 'fraud_alert', policy.id, [manager])).rejects.toThrow(
+      'Only users involved in a policy can send notifications about it'
+    );
+    await expect(notify(manager, 'policy_approved', policy.id, [creator])).rejects.toThrow(
+      'Only users involved in a policy can send notifications about it'
+    );
+    await expect(notify(creator, 'sla_breached', policy.id, [manager])).rejects.toThrow(
+      'Notifications of type sla_breached are not sent by users'
+    );
+    await expect(notify(creator, 'fraud_alert', null, [manager])).rejects.toThrow(
+      'A fraud_alert notification must name its policy'
+    );
+  });
+
+  it('lets an approver notify after moving the policy on', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+    await asUser(db, underwriter, (tx) =>
+      tx.query(
+        `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter', '')`,
+        [policy.id, underwriter]
+      )
+    );
+
+    await notify(underwriter, 'policy_approved', policy.id, [creator]);
+
+    expect(await recipients(policy.id, 'policy_approved')).toEqual([{ recipient_id: creator }]);
+  });
+
+  it('only sends delegation notices to the sender’s delegates', async () => {
+    await expect(notify(manager, 'delegation_granted', null, [underwriter])).rejects.toThrow(
+      'Delegation notices only go to your own delegates'
+    );
+  });
+});
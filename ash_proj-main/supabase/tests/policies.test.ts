@@ -0,0 +1,25 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser } from './database';
+
+describe('policies', () => {
+  let db: PGlite;
+  let creator: string;
+  let otherCreator: string;
+
+  const rename = (userId: string, policyId: string) =>
+    asUser(db, userId, (tx) => tx.query(`UPDATE policies SET customer_name = 'Renamed' WHERE id = $1`, [policyId]));
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    otherCreator = await createUser(db, ['creator']);
+  });
+
+  it('lets creators edit their own drafts only', async () => {
+    const policy = await createPolicy(db, creator);
+
+    await expect(rename(otherCreator, policy.id)).resolves.toMatchObject({ affectedRows: 0 });
+    await expect(rename(creator, policy.id)).resolves.toMatchObject({ affectedRows: 1 });
+  });
+});
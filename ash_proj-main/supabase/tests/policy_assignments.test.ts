@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows, TestPolicy } from './database';
+
+describe('policy assignments', () => {
+  let db: PGlite;
+  let creator: string;
+  let assignee: string;
+  let otherUnderwriter: string;
+  let delegate: string;
+  let manager: string;
+
+  const claim = (userId: string, policy: TestPolicy) =>
+    asUser(db, userId, (tx) => queryOne<TestPolicy>(tx, 'SELECT * FROM claim_policy($1)', [policy.id]));
+
+  const rename = (userId: string, policy: TestPolicy) =>
+    asUser(db, userId, (tx) => tx.query(`UPDATE policies SET customer_name = 'Renamed' WHERE id = $1`, [policy.id]));
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    assignee = await createUser(db, ['underwriter']);
+    otherUnderwriter = await createUser(db, ['underwriter']);
+    delegate = await createUser(db, ['creator']);
+    manager = await createUser(db, ['manager']);
+    await asUser(db, assignee, (tx) =>
+      tx.query(`SELECT create_approval_delegation($1, $2, 'underwriter', now(), now() + interval '1 day', 'Leave')`, [
+        assignee,
+        delegate,
+      ])
+    );
+  });
+
+  it('keeps other reviewers of the stage off an assigned policy', async () => {
+    const policy = await claim(assignee, await createPolicy(db, creator, { status: 'pending_underwriter' }));
+
+    expect(policy.assigned_to).toBe(assignee);
+    await expect(rename(otherUnderwriter, policy)).resolves.toMatchObject({ affectedRows: 0 });
+    // The assignee and their delegate pass RLS, and reach the submitted-policy guard
+    await expect(rename(assignee, policy)).rejects.toThrow(
+      'Submitted policies only change through the workflow functions'
+    );
+    await expect(rename(delegate, policy)).rejects.toThrow(
+      'Submitted policies only change through the workflow functions'
+    );
+  });
+
+  it('only assigns policies through the assignment functions', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(
+      asUser(db, otherUnderwriter, (tx) =>
+        tx.query(`SELECT set_policy_assignment(policies, $2, 'claimed') FROM policies WHERE id = $1`, [
+          policy.id,
+          otherUnderwriter,
+        ])
+      )
+    ).rejects.toThrow('permission denied for function set_policy_assignment');
+    await expect(
+      asUser(db, otherUnderwriter, (tx) => tx.query('SELECT lock_pending_policy($1)', [policy.id]))
+    ).rejects.toThrow('permission denied for function lock_pending_policy');
+  });
+
+  it('assigns a policy entering a stage to a reviewer of that stage', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    const approved = await asUser(db, assignee, (tx) =>
+      queryOne<TestPolicy>(
+        tx,
+        `SELECT * FROM transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter')`,
+        [policy.id, assignee]
+      )
+    );
+
+    expect(approved.assigned_to).toBe(manager);
+    expect(
+      await queryRows(db, 'SELECT status, action, assigned_to, strategy FROM policy_assignments WHERE policy_id = $1', [
+        policy.id,
+      ])
+    ).toEqual([{ status: 'pending_manager', action: 'assigned', assigned_to: manager, strategy: 'round_robin' }]);
+  });
+
+  it('lets the assignee release a policy and managers reassign it with a reason', async () => {
+    const policy = await claim(assignee, await createPolicy(db, creator, { status: 'pending_underwriter' }));
+    const release = (userId: string) =>
+      asUser(db, userId, (tx) =>
+        queryOne<TestPolicy>(tx, `SELECT * FROM release_policy($1, 'Out today')`, [policy.id])
+      );
+    const reassign = (reason: string) =>
+      asUser(db, manager, (tx) =>
+        queryOne<TestPolicy>(tx, 'SELECT * FROM reassign_policy($1, $2, $3)', [policy.id, otherUnderwriter, reason])
+      );
+
+    await expect(release(otherUnderwriter)).rejects.toThrow('Only the assigned reviewer can release the policy');
+    expect((await release(assignee)).assigned_to).toBeNull();
+    await expect(reassign(' ')).rejects.toThrow('A reason is required to reassign a policy');
+    expect((await reassign('Specialist')).assigned_to).toBe(otherUnderwriter);
+    expect(
+      await queryRows(
+        db,
+        'SELECT action, assigned_to, previous_assignee FROM policy_assignments WHERE policy_id = $1 ORDER BY created_at',
+        [policy.id]
+      )
+    ).toEqual([
+      { action: 'claimed', assigned_to: assignee, previous_assignee: null },
+      { action: 'released', assigned_to: null, previous_assignee: assignee },
+      { action: 'reassigned', assigned_to: otherUnderwriter, previous_assignee: null },
+    ]);
+  });
+});
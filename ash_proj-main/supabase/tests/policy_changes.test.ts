@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryRows } from './database';
+
+describe('policy change history', () => {
+  let db: PGlite;
+  let creator: string;
+
+  const changes = (policyId: string) =>
+    queryRows<{ changed_by: string; changes: Record<string, { old: unknown; new: unknown }> }>(
+      db,
+      'SELECT changed_by, changes FROM policy_changes WHERE policy_id = $1 ORDER BY created_at',
+      [policyId]
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+  });
+
+  it('records the fields a user edits, with their old and new values', async () => {
+    const policy = await createPolicy(db, creator, { customer_name: 'Ada Lovelace' });
+
+    await asUser(db, creator, (tx) =>
+      tx.query(`UPDATE policies SET customer_name = 'Ada King', premium_amount = 1500 WHERE id = $1`, [policy.id])
+    );
+
+    expect(await changes(policy.id)).toEqual([
+      {
+        changed_by: creator,
+        changes: {
+          customer_name: { old: 'Ada Lovelace', new: 'Ada King' },
+          premium_amount: { old: 1000, new: 1500 },
+        },
+      },
+    ]);
+  });
+
+  it('leaves fraud results out, since they are not user edits', async () => {
+    const policy = await createPolicy(db, creator);
+
+    await asUser(db, creator, (tx) =>
+      tx.query(`SELECT record_fraud_check($1, 'update', false, 'High premium', '{"score": 70}')`, [policy.id])
+    );
+
+    expect(await changes(policy.id)).toEqual([]);
+  });
+});
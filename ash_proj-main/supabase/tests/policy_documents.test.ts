@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows } from './database';
+
+interface DocumentRow {
+  id: string;
+  document_type: string;
+  file_name: string;
+  version: number;
+}
+
+describe('policy_documents', () => {
+  let db: PGlite;
+  let creator: string;
+  let otherCreator: string;
+  let sequence = 0;
+
+  const upload = (tx: Transaction, policyId: string, uploaderId: string, documentType: string, fileName: string) => {
+    sequence += 1;
+    return queryOne<DocumentRow>(
+      tx,
+      `INSERT INTO policy_documents (policy_id, document_type, file_name, storage_path, mime_type, size_bytes, uploaded_by)
+       VALUES ($1, $2, $3, $4, 'application/pdf', 1024, $5)
+       RETURNING id, document_type, file_name, version`,
+      [policyId, documentType, fileName, `${policyId}/${sequence}/${fileName}`, uploaderId]
+    );
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    otherCreator = await createUser(db, ['creator']);
+  });
+
+  it('versions uploads per document type and file name', async () => {
+    const policy = await createPolicy(db, creator);
+
+    const versions = await asUser(db, creator, async (tx) => [
+      await upload(tx, policy.id, creator, 'id_document', 'passport.pdf'),
+      await upload(tx, policy.id, creator, 'id_document', 'passport.pdf'),
+      await upload(tx, policy.id, creator, 'other', 'passport.pdf'),
+      await upload(tx, policy.id, creator, 'id_document', 'licence.pdf'),
+      await upload(tx, policy.id, creator, 'id_document', 'passport.pdf'),
+    ]);
+
+    expect(versions.map((document) => [document.document_type, document.file_name, document.version])).toEqual([
+      ['id_document', 'passport.pdf', 1],
+      ['id_document', 'passport.pdf', 2],
+      ['other', 'passport.pdf', 1],
+      ['id_document', 'licence.pdf', 1],
+      ['id_document', 'passport.pdf', 3],
+    ]);
+  });
+
+  it('ignores a version supplied by the client', async () => {
+    const policy = await createPolicy(db, creator);
+
+    const document = await asUser(db, creator, (tx) =>
+      queryOne<DocumentRow>(
+        tx,
+        `INSERT INTO policy_documents (policy_id, document_type, file_name, storage_path, mime_type, size_bytes, uploaded_by, version)
+         VALUES ($1, 'medical_form', 'form.pdf', $2, 'application/pdf', 1024, $3, 7)
+         RETURNING version`,
+        [policy.id, `${policy.id}/client-version/form.pdf`, creator]
+      )
+    );
+
+    expect(document.version).toBe(1);
+  });
+
+  it('records every upload in the audit trail', async () => {
+    const policy = await createPolicy(db, creator);
+
+    await asUser(db, creator, async (tx) => {
+      await upload(tx, policy.id, creator, 'inspection_report', 'survey.pdf');
+      await upload(tx, policy.id, creator, 'inspection_report', 'survey.pdf');
+    });
+
+    const logs = await queryRows<{ action: string; approver_id: string; comments: string }>(
+      db,
+      'SELECT action, approver_id, comments FROM approval_logs WHERE policy_id = $1 ORDER BY comments',
+      [policy.id]
+    );
+    expect(logs).toEqual([
+      { action: 'document_uploaded', approver_id: creator, comments: 'survey.pdf (inspection report, version 1)' },
+      { action: 'document_uploaded', approver_id: creator, comments: 'survey.pdf (inspection report, version 2)' },
+    ]);
+  });
+
+  it('only lets the creator upload, and only while the policy is a draft', async () => {
+    const draft = await createPolicy(db, creator);
+    const submitted = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(
+      asUser(db, otherCreator, (tx) => upload(tx, draft.id, otherCreator, 'other', 'notes.pdf'))
+    ).rejects.toThrow(/row-level security/);
+    await expect(asUser(db, creator, (tx) => upload(tx, submitted.id, creator, 'other', 'notes.pdf'))).rejects.toThrow(
+      /row-level security/
+    );
+  });
+
+  it('keeps earlier versions: documents cannot be changed or deleted', async () => {
+    const policy = await createPolicy(db, creator);
+    const document = await asUser(db, creator, (tx) => upload(tx, policy.id, creator, 'other', 'notes.pdf'));
+
+    await asUser(db, creator, async (tx) => {
+      await tx.query(`UPDATE policy_documents SET file_name = 'renamed.pdf' WHERE id = $1`, [document.id]);
+      await tx.query('DELETE FROM policy_documents WHERE id = $1', [document.id]);
+    });
+
+    const stored = await queryOne<DocumentRow>(db, 'SELECT * FROM policy_documents WHERE id = $1', [document.id]);
+    expect(stored.file_name).toBe('notes.pdf');
+  });
+});
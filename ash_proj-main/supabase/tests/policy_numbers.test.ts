@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, queryOne } from './database';
+
+describe('generate_policy_number', () => {
+  let db: PGlite;
+
+  const generate = async (productType: string | null) =>
+    (await queryOne<{ number: string }>(db, 'SELECT generate_policy_number($1) AS number', [productType])).number;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('renders the product template with a zero-padded sequence', async () => {
+    const year = new Date().getFullYear();
+
+    expect(await generate('AUTO')).toBe(`AUTO-${year}-000001`);
+    expect(await generate('AUTO')).toBe(`AUTO-${year}-000002`);
+    expect(await generate('UNKNOWN')).toBe('POL-000001');
+  });
+
+  it('keeps every digit once a sequence outgrows its padding', async () => {
+    await db.query(`UPDATE policy_number_counters SET last_value = 999999 WHERE format_key = 'default'`);
+
+    expect(await generate(null)).toBe('POL-1000000');
+    expect(await generate(null)).toBe('POL-1000001');
+  });
+
+  it('rejects yearly formats without a year in the template', async () => {
+    await expect(
+      db.query(
+        `INSERT INTO policy_number_formats (product_type, template, reset_yearly) VALUES ('CYCLE', 'CYC-{SEQ}', true)`
+      )
+    ).rejects.toThrow(/policy_number_formats_yearly_template_check/);
+  });
+});
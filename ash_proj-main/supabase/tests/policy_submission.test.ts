@@ -0,0 +1,112 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, TestPolicy } from './database';
+
+describe('policy submission and the fraud gate', () => {
+  let db: PGlite;
+  let creator: string;
+  let otherCreator: string;
+  let fraudReviewer: string;
+
+  const submit = (userId: string, policy: TestPolicy) =>
+    asUser(db, userId, (tx) => queryOne<TestPolicy>(tx, 'SELECT * FROM submit_policy($1)', [policy.id]));
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    otherCreator = await createUser(db, ['creator']);
+    fraudReviewer = await createUser(db, ['fraud_reviewer']);
+  });
+
+  it('submits a clean draft to the first stage and logs it', async () => {
+    const policy = await createPolicy(db, creator);
+
+    const submitted = await submit(creator, policy);
+
+    expect(submitted.status).toBe('pending_underwriter');
+    expect(
+      await queryOne(db, 'SELECT approver_id, action, role FROM approval_logs WHERE policy_id = $1', [policy.id])
+    ).toEqual({ approver_id: creator, action: 'submitted', role: 'creator' });
+  });
+
+  it('sends a flagged draft to fraud review instead of the first stage', async () => {
+    const policy = await createPolicy(db, creator, { fraud_flag_status: 'flagged', fraud_check_passed: false });
+
+    expect((await submit(creator, policy)).status).toBe('pending_fraud_reviewer');
+  });
+
+  it('refuses a draft that changed since its last fraud check', async () => {
+    const policy = await createPolicy(db, creator);
+    await asUser(db, creator, (tx) =>
+      tx.query('UPDATE policies SET premium_amount = 250000 WHERE id = $1', [policy.id])
+    );
+
+    await expect(submit(creator, policy)).rejects.toThrow(
+      'The policy has changed since its last fraud check; run the check before submitting'
+    );
+
+    await asUser(db, creator, (tx) =>
+      tx.query(`SELECT record_fraud_check($1, 'submit', false, 'High premium', '{}')`, [policy.id])
+    );
+    expect((await submit(creator, policy)).status).toBe('pending_fraud_reviewer');
+  });
+
+  it('only lets the creator submit', async () => {
+    const policy = await createPolicy(db, creator);
+
+    await expect(submit(otherCreator, policy)).rejects.toThrow('Only the creator can submit the policy');
+  });
+
+  it('keeps creators from moving or clearing their own drafts directly', async () => {
+    const policy = await createPolicy(db, creator, { fraud_flag_status: 'flagged', fraud_check_passed: false });
+
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(`UPDATE policies SET fraud_flag_status = 'cleared', fraud_check_passed = true WHERE id = $1`, [
+          policy.id,
+        ])
+      )
+    ).rejects.toThrow('Fraud results change through record_fraud_check and review_fraud_flag');
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(`SELECT transition_policy($1, $2, 'draft', 'pending_underwriter', 'submitted', 'creator')`, [
+          policy.id,
+          creator,
+        ])
+      )
+    ).rejects.toThrow('Drafts are submitted through submit_policy');
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(
+          `INSERT INTO policies (policy_number, customer_name, premium_amount, product_type, creator_id, status)
+           VALUES ('FORGED-1', 'Forged', 1000, 'AUTO', $1, 'pending_underwriter')`,
+          [creator]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    expect(await queryOne(db, 'SELECT status, fraud_flag_status FROM policies WHERE id = $1', [policy.id])).toEqual({
+      status: 'draft',
+      fraud_flag_status: 'flagged',
+    });
+  });
+
+  it('lets fraud reviewers clear a flag only through review_fraud_flag', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_fraud_reviewer', fraud_flag_status: 'flagged' });
+
+    await expect(
+      asUser(db, fraudReviewer, (tx) =>
+        tx.query(`UPDATE policies SET fraud_flag_status = 'cleared' WHERE id = $1`, [policy.id])
+      )
+    ).rejects.toThrow('Fraud results change through record_fraud_check and review_fraud_flag');
+
+    const reviewed = await asUser(db, fraudReviewer, (tx) =>
+      queryOne<TestPolicy>(
+        tx,
+        `SELECT * FROM review_fraud_flag($1, $2, 'cleared', 'Known customer', 'pending_underwriter')`,
+        [policy.id, fraudReviewer]
+      )
+    );
+    expect(reviewed).toMatchObject({ status: 'pending_underwriter', fraud_flag_status: 'cleared' });
+  });
+});
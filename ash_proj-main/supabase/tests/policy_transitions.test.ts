@@ -0,0 +1,264 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows, TestPolicy } from './database';
+
+describe('policy transitions', () => {
+  let db: PGlite;
+  let creator: string;
+  let underwriter: string;
+  let creatingUnderwriter: string;
+  let manager: string;
+  let fraudReviewer: string;
+
+  const transition = (userId: string, policy: TestPolicy, from: string, to: string, action: string, role: string) =>
+    asUser(db, userId, (tx) =>
+      tx.query('SELECT transition_policy($1, $2, $3, $4, $5, $6)', [policy.id, userId, from, to, action, role])
+    );
+
+  const reload = (policy: TestPolicy) => queryOne<TestPolicy>(db, 'SELECT * FROM policies WHERE id = $1', [policy.id]);
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    underwriter = await createUser(db, ['underwriter']);
+    creatingUnderwriter = await createUser(db, ['creator', 'underwriter']);
+    manager = await createUser(db, ['manager']);
+    fraudReviewer = await createUser(db, ['fraud_reviewer']);
+  });
+
+  it('moves a policy through transition_policy and logs the action', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await asUser(db, underwriter, (tx) =>
+      tx.query(
+        `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter', 'Looks good')`,
+        [policy.id, underwriter]
+      )
+    );
+
+    expect((await reload(policy)).status).toBe('pending_manager');
+    expect(
+      await queryRows(
+        db,
+        'SELECT approver_id, action, previous_status, new_status FROM approval_logs WHERE policy_id = $1',
+        [policy.id]
+      )
+    ).toEqual([
+      {
+        approver_id: underwriter,
+        action: 'approved',
+        previous_status: 'pending_underwriter',
+        new_status: 'pending_manager',
+      },
+    ]);
+  });
+
+  it('rejects status changes made with a plain UPDATE', async () => {
+    const pending = await createPolicy(db, creator, { status: 'pending_underwriter' });
+    const draft = await createPolicy(db, creator);
+
+    await expect(
+      asUser(db, underwriter, (tx) => tx.query(`UPDATE policies SET status = 'approved' WHERE id = $1`, [pending.id]))
+    ).rejects.toThrow('Policy status changes go through transition_policy');
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(`UPDATE policies SET status = 'pending_underwriter' WHERE id = $1`, [draft.id])
+      )
+    ).rejects.toThrow('Policy status changes go through transition_policy');
+    await expect(
+      asUser(db, creator, (tx) => tx.query('UPDATE policies SET revision_count = 5 WHERE id = $1', [draft.id]))
+    ).rejects.toThrow('Policy status changes go through transition_policy');
+
+    expect((await reload(pending)).status).toBe('pending_underwriter');
+    expect(await queryRows(db, 'SELECT 1 FROM approval_logs WHERE policy_id = $1', [pending.id])).toEqual([]);
+  });
+
+  it('keeps reviewers away from policies they created', async () => {
+    const policy = await createPolicy(db, creatingUnderwriter, { status: 'pending_underwriter' });
+
+    await expect(
+      transition(creatingUnderwriter, policy, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter')
+    ).rejects.toThrow("Reviewers can't act on policies they created");
+    await expect(
+      asUser(db, creatingUnderwriter, (tx) =>
+        tx.query(`UPDATE policies SET customer_name = 'Renamed' WHERE id = $1`, [policy.id])
+      )
+    ).resolves.toMatchObject({ affectedRows: 0 });
+    await expect(
+      asUser(db, creatingUnderwriter, (tx) => tx.query('SELECT claim_policy($1)', [policy.id]))
+    ).rejects.toThrow("Reviewers can't claim policies they created");
+    await expect(
+      asUser(db, manager, (tx) => tx.query(`SELECT reassign_policy($1, $2, 'Cover')`, [policy.id, creatingUnderwriter]))
+    ).rejects.toThrow("A policy can't be assigned to its creator");
+
+    expect((await reload(policy)).status).toBe('pending_underwriter');
+  });
+
+  it('lets a delegate act on behalf of the delegator and logs it', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+    const delegate = await createUser(db, ['creator']);
+    await asUser(db, underwriter, (tx) =>
+      tx.query(`SELECT create_approval_delegation($1, $2, 'underwriter', now(), now() + interval '1 day', 'Leave')`, [
+        underwriter,
+        delegate,
+      ])
+    );
+
+    await expect(
+      asUser(db, delegate, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'manager', '', NULL, NULL, false, $3)`,
+          [policy.id, delegate, underwriter]
+        )
+      )
+    ).rejects.toThrow('No active manager delegation to act on behalf of this user');
+    await asUser(db, delegate, (tx) =>
+      tx.query(
+        `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter', '', NULL, NULL, false, $3)`,
+        [policy.id, delegate, underwriter]
+      )
+    );
+
+    expect((await reload(policy)).status).toBe('pending_manager');
+    expect(
+      await queryRows(db, 'SELECT approver_id, on_behalf_of FROM approval_logs WHERE policy_id = $1', [policy.id])
+    ).toEqual([{ approver_id: delegate, on_behalf_of: underwriter }]);
+  });
+
+  it('keeps delegates from acting for, or as, the creator', async () => {
+    const own = await createPolicy(db, creatingUnderwriter, { status: 'pending_underwriter' });
+    const delegated = await createPolicy(db, creator, { status: 'pending_underwriter' });
+    const delegate = await createUser(db, ['creator']);
+    const delegateUnderwriting = (delegatorId: string, delegateId: string) =>
+      asUser(db, delegatorId, (tx) =>
+        tx.query(`SELECT create_approval_delegation($1, $2, 'underwriter', now(), now() + interval '1 day', 'Leave')`, [
+          delegatorId,
+          delegateId,
+        ])
+      );
+    await delegateUnderwriting(creatingUnderwriter, delegate);
+    await delegateUnderwriting(underwriter, creator);
+
+    await expect(
+      asUser(db, delegate, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter', '', NULL, NULL, false, $3)`,
+          [own.id, delegate, creatingUnderwriter]
+        )
+      )
+    ).rejects.toThrow("Delegates can't act on behalf of the policy's creator");
+    await expect(
+      asUser(db, creator, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter', '', NULL, NULL, false, $3)`,
+          [delegated.id, creator, underwriter]
+        )
+      )
+    ).rejects.toThrow("Reviewers can't act on policies they created");
+
+    expect((await reload(own)).status).toBe('pending_underwriter');
+    expect((await reload(delegated)).status).toBe('pending_underwriter');
+  });
+
+  it('only changes submitted policies through the workflow functions', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(
+      asUser(db, underwriter, (tx) => tx.query('UPDATE policies SET premium_amount = 1 WHERE id = $1', [policy.id]))
+    ).rejects.toThrow('Submitted policies only change through the workflow functions');
+
+    expect(Number((await reload(policy)).premium_amount)).not.toBe(1);
+  });
+
+  it('only moves a policy to a status that fits the action', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    await expect(
+      transition(underwriter, policy, 'pending_underwriter', 'rejected', 'approved', 'underwriter')
+    ).rejects.toThrow("A policy can't be approved to rejected");
+    await expect(
+      transition(underwriter, policy, 'pending_underwriter', 'approved', 'returned', 'underwriter')
+    ).rejects.toThrow("A policy can't be returned to approved");
+  });
+
+  it('only approves a policy to the next stage of its workflow', async () => {
+    const policy = await createPolicy(db, creator, {
+      status: 'pending_underwriter',
+      product_type: 'LIFE',
+      workflow_id: 'life',
+    });
+
+    await expect(
+      transition(underwriter, policy, 'pending_underwriter', 'pending_manager', 'approved', 'underwriter')
+    ).rejects.toThrow('This policy moves on to pending_medical_reviewer, not pending_manager');
+    await expect(
+      transition(underwriter, policy, 'pending_underwriter', 'approved', 'approved', 'underwriter')
+    ).rejects.toThrow('This policy moves on to pending_medical_reviewer, not approved');
+    await transition(underwriter, policy, 'pending_underwriter', 'pending_medical_reviewer', 'approved', 'underwriter');
+
+    expect((await reload(policy)).status).toBe('pending_medical_reviewer');
+  });
+
+  it('only escalates to the next authority that covers the premium', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter', premium_amount: 100000 });
+    const escalate = (to: string, from: string | null) =>
+      asUser(db, underwriter, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_underwriter', $3, 'escalated', 'underwriter', '', NULL, $4)`,
+          [policy.id, underwriter, to, from]
+        )
+      );
+
+    await expect(escalate('pending_executive', 'pending_underwriter')).rejects.toThrow(
+      'This policy moves on to pending_manager, not pending_executive'
+    );
+    await expect(escalate('pending_manager', null)).rejects.toThrow(
+      'An escalation records the stage it left, pending_underwriter'
+    );
+    await escalate('pending_manager', 'pending_underwriter');
+
+    expect(await reload(policy)).toMatchObject({
+      status: 'pending_manager',
+      escalated_from_status: 'pending_underwriter',
+    });
+    await expect(
+      asUser(db, manager, (tx) =>
+        tx.query(
+          `SELECT transition_policy($1, $2, 'pending_manager', 'approved', 'approved', 'manager', '', NULL, $3)`,
+          [policy.id, manager, 'pending_underwriter']
+        )
+      )
+    ).rejects.toThrow('Only an escalation records the stage it left');
+    await transition(manager, policy, 'pending_manager', 'approved', 'approved', 'manager');
+
+    expect((await reload(policy)).status).toBe('approved');
+  });
+
+  it('decides fraud review only through review_fraud_flag', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_fraud_reviewer', fraud_flag_status: 'flagged' });
+
+    await expect(
+      transition(fraudReviewer, policy, 'pending_fraud_reviewer', 'pending_underwriter', 'approved', 'fraud_reviewer')
+    ).rejects.toThrow('Policies in fraud review are cleared or confirmed through review_fraud_flag');
+    await expect(
+      transition(
+        fraudReviewer,
+        policy,
+        'pending_fraud_reviewer',
+        'pending_underwriter',
+        'fraud_cleared',
+        'fraud_reviewer'
+      )
+    ).rejects.toThrow('Policies in fraud review are cleared or confirmed through review_fraud_flag');
+
+    expect((await reload(policy)).status).toBe('pending_fraud_reviewer');
+    await expect(
+      asUser(db, fraudReviewer, (tx) =>
+        tx.query(`SELECT review_fraud_flag($1, $2, 'cleared', 'Known customer', 'pending_manager')`, [
+          policy.id,
+          fraudReviewer,
+        ])
+      )
+    ).rejects.toThrow('This policy moves on to pending_underwriter, not pending_manager');
+  });
+});
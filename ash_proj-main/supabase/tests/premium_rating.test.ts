@@ -0,0 +1,111 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createTestDatabase, createUser, queryOne, queryRows } from './database';
+import { DEFAULT_RATING_TABLE, ratePolicy, RATING_TABLES, RatingInput } from '../../src/services/ratingService';
+
+interface RatingTableRow {
+  product_type: string;
+  base_rate_per_thousand: string;
+  minimum_premium: string;
+  claim_loading: string;
+  max_claims_multiplier: string;
+  age_bands: { max_age: number | null; multiplier: number }[] | null;
+}
+
+describe('premium rating', () => {
+  let db: PGlite;
+  let creator: string;
+
+  const rateInDatabase = (input: RatingInput) =>
+    queryOne<{ rating: unknown }>(
+      db,
+      `SELECT rate_policy(ROW(policies.*)::policies) AS rating
+       FROM (SELECT (jsonb_populate_record(NULL::policies, $1::jsonb)).*) policies`,
+      [JSON.stringify(input)]
+    );
+
+  const rateInApp = async (input: RatingInput) => {
+    const bounds = await queryOne<{ min_premium: string; max_premium: string | null }>(
+      db,
+      'SELECT min_premium, max_premium FROM products WHERE code = $1',
+      [input.product_type]
+    );
+    return ratePolicy(input, {
+      min_premium: Number(bounds.min_premium),
+      max_premium: bounds.max_premium === null ? null : Number(bounds.max_premium),
+    });
+  };
+
+  const createDraft = (fields: Record<string, unknown>) =>
+    asUser(db, creator, (tx) =>
+      tx.query<{ premium_amount: string; rated_premium: string; premium_override_reason: string | null }>(
+        `INSERT INTO policies (policy_number, customer_name, product_type, coverage_amount, premium_amount,
+           rated_premium, rating_details, premium_override_reason, creator_id)
+         VALUES ('RATED-' || $1, 'Rated Customer', 'AUTO', 20000, $2, $3, '{}', $4, $5)
+         RETURNING premium_amount, rated_premium, premium_override_reason`,
+        [fields.number, fields.premium, fields.rated ?? null, fields.reason ?? null, creator]
+      )
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+  });
+
+  it('stores the rating tables ratingService uses', async () => {
+    const rows = await queryRows<RatingTableRow>(db, 'SELECT * FROM rating_tables ORDER BY product_type');
+    const tables = Object.fromEntries(
+      rows.map((row) => [
+        row.product_type,
+        {
+          baseRatePerThousand: Number(row.base_rate_per_thousand),
+          minimumPremium: Number(row.minimum_premium),
+          claimLoading: Number(row.claim_loading),
+          maxClaimsMultiplier: Number(row.max_claims_multiplier),
+          ...(row.age_bands && {
+            ageBands: row.age_bands.map((band) => ({
+              maxAge: band.max_age ?? Infinity,
+              multiplier: band.multiplier,
+            })),
+          }),
+        },
+      ])
+    );
+
+    expect(tables).toEqual({ default: DEFAULT_RATING_TABLE, ...RATING_TABLES });
+  });
+
+  it.each<RatingInput>([
+    { product_type: 'AUTO', coverage_amount: 20000, deductible: 1000, prior_claims: 2, product_attributes: {} },
+    { product_type: 'HOME', coverage_amount: 750000, deductible: 10000, prior_claims: 0, product_attributes: {} },
+    { product_type: 'AUTO', coverage_amount: 1000, deductible: 0, prior_claims: 9, product_attributes: {} },
+    {
+      product_type: 'LIFE',
+      coverage_amount: 300000,
+      deductible: 0,
+      prior_claims: 1,
+      product_attributes: { date_of_birth: '1970-01-01', smoker: false, beneficiary_name: 'Ada Lovelace' },
+    },
+  ])('rates $product_type policies as the app does', async (input) => {
+    expect((await rateInDatabase(input)).rating).toEqual(await rateInApp(input));
+  });
+
+  it('replaces the rating a creator sends with its own', async () => {
+    const { rows } = await createDraft({ number: 1, premium: 500, rated: 999 });
+
+    expect(rows[0]).toEqual({ premium_amount: '500.00', rated_premium: '500.00', premium_override_reason: null });
+  });
+
+  it('requires a justification for a premium that differs from its rating', async () => {
+    await expect(createDraft({ number: 2, premium: 100, rated: 100 })).rejects.toThrow(
+      'Premium differs from the rated premium of 500.00; a justification is required'
+    );
+
+    const { rows } = await createDraft({ number: 3, premium: 100, rated: 100, reason: ' Loyalty discount ' });
+    expect(rows[0]).toEqual({
+      premium_amount: '100.00',
+      rated_premium: '500.00',
+      premium_override_reason: 'Loyalty discount',
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, queryRows } from './database';
+import { FieldSection, validateFieldSections } from '../../src/services/productDefinitions';
+import { RATING_TABLES } from '../../src/services/ratingService';
+
+describe('product field definitions', () => {
+  let db: PGlite;
+  let products: { code: string; field_sections: FieldSection[] }[];
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    products = await queryRows(db, 'SELECT code, field_sections FROM products ORDER BY code');
+  });
+
+  it('seeds well-formed sections for every product', () => {
+    for (const product of products) {
+      expect(product.field_sections.length, product.code).toBeGreaterThan(0);
+      expect(validateFieldSections(product.field_sections), product.code).toEqual([]);
+    }
+  });
+
+  it('defines the date of birth rating reads for age-banded products', () => {
+    for (const [code, table] of Object.entries(RATING_TABLES)) {
+      if (!table.ageBands) continue;
+      const product = products.find((item) => item.code === code);
+
+      expect(
+        product?.field_sections.flatMap((section) => section.fields).find((field) => field.key === 'date_of_birth')
+      ).toMatchObject({ type: 'date' });
+    }
+  });
+
+  it('only stores a list of sections', async () => {
+    await expect(db.query(`UPDATE products SET field_sections = '{}' WHERE code = 'AUTO'`)).rejects.toThrow(
+      'products_field_sections_check'
+    );
+  });
+});
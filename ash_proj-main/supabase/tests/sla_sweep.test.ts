@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createPolicy, createTestDatabase, createUser, queryOne, queryRows, TestPolicy } from './database';
+
+interface SweepEvent {
+  policy_id: string;
+  event: string;
+  status: string;
+  escalated_to: string | null;
+}
+
+const hoursAfter = (date: Date, hours: number) => new Date(date.getTime() + hours * 3_600_000);
+
+describe('run_sla_sweep', () => {
+  let db: PGlite;
+  let creator: string;
+  let underwriter: string;
+  let manager: string;
+
+  const sweep = async (now: Date, policy: TestPolicy) =>
+    (await queryRows<SweepEvent>(db, 'SELECT * FROM run_sla_sweep($1)', [now])).filter(
+      (event) => event.policy_id === policy.id
+    );
+
+  const notificationsFor = (policy: TestPolicy, type: string) =>
+    queryRows<{ recipient_id: string }>(
+      db,
+      'SELECT recipient_id FROM notifications WHERE policy_id = $1 AND type = $2',
+      [policy.id, type]
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    creator = await createUser(db, ['creator']);
+    underwriter = await createUser(db, ['underwriter']);
+    manager = await createUser(db, ['manager']);
+    await createUser(db, ['medical_reviewer']);
+  });
+
+  it('reminds the stage reviewers once the reminder hours pass, once per stay', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    expect(await sweep(hoursAfter(policy.stage_entered_at, 15), policy)).toEqual([]);
+
+    const events = await sweep(hoursAfter(policy.stage_entered_at, 17), policy);
+    expect(events.map((event) => event.event)).toEqual(['reminder']);
+    expect((await notificationsFor(policy, 'sla_reminder')).map((row) => row.recipient_id)).toEqual([underwriter]);
+
+    expect(await sweep(hoursAfter(policy.stage_entered_at, 18), policy)).toEqual([]);
+  });
+
+  it('escalates a breached underwriter stage to the manager and restarts the clock', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+    const breachedAt = hoursAfter(policy.stage_entered_at, 25);
+
+    const events = await sweep(breachedAt, policy);
+    expect(events).toMatchObject([
+      { event: 'escalated', status: 'pending_underwriter', escalated_to: 'pending_manager' },
+    ]);
+
+    const escalated = await queryOne<TestPolicy>(db, 'SELECT * FROM policies WHERE id = $1', [policy.id]);
+    expect(escalated.status).toBe('pending_manager');
+    expect(escalated.escalated_from_status).toBe('pending_underwriter');
+    expect(escalated.stage_entered_at).toEqual(breachedAt);
+
+    const log = await queryOne<{ approver_id: string | null; action: string; new_status: string }>(
+      db,
+      'SELECT approver_id, action, new_status FROM approval_logs WHERE policy_id = $1',
+      [policy.id]
+    );
+    expect(log).toEqual({ approver_id: null, action: 'escalated', new_status: 'pending_manager' });
+
+    expect((await notificationsFor(policy, 'sla_breached')).map((row) => row.recipient_id).sort()).toEqual(
+      [underwriter, manager].sort()
+    );
+    expect((await notificationsFor(policy, 'approval_required')).map((row) => row.recipient_id)).toEqual([manager]);
+
+    // Not breached again at the new stage until its own target passes
+    expect(await sweep(hoursAfter(breachedAt, 1), policy)).toEqual([]);
+  });
+
+  it('only reports breaches at stages that do not escalate', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_medical_reviewer' });
+
+    const events = await sweep(hoursAfter(policy.stage_entered_at, 73), policy);
+    expect(events.map((event) => event.event)).toEqual(['breached']);
+
+    const unchanged = await queryOne<TestPolicy>(db, 'SELECT * FROM policies WHERE id = $1', [policy.id]);
+    expect(unchanged.status).toBe('pending_medical_reviewer');
+  });
+
+  it('skips the reminder for a policy that is already overdue', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_manager' });
+
+    const events = await sweep(hoursAfter(policy.stage_entered_at, 49), policy);
+    expect(events.map((event) => event.event)).toEqual(['escalated']);
+  });
+
+  it('refuses users without sla.manage', async () => {
+    await expect(asUser(db, underwriter, (tx) => tx.query('SELECT * FROM run_sla_sweep()'))).rejects.toThrow(
+      'Only SLA managers can run the SLA sweep'
+    );
+  });
+
+  it('sweeps as of now when a user passes a simulated time', async () => {
+    const policy = await createPolicy(db, creator, { status: 'pending_underwriter' });
+
+    const events = await asUser(db, manager, (tx) =>
+      queryRows<SweepEvent>(tx, 'SELECT * FROM run_sla_sweep($1)', [hoursAfter(policy.stage_entered_at, 100)])
+    );
+
+    expect(events.filter((event) => event.policy_id === policy.id)).toEqual([]);
+    expect((await queryOne<TestPolicy>(db, 'SELECT * FROM policies WHERE id = $1', [policy.id])).status).toBe(
+      'pending_underwriter'
+    );
+  });
+});
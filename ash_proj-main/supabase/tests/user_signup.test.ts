@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asUser, createTestDatabase, createUser, queryOne, queryRows } from './database';
+
+describe('signup roles', () => {
+  let db: PGlite;
+
+  let admin: string;
+
+  const signUp = async (email: string, metadata: Record<string, unknown>, confirmed: boolean = true) =>
+    (
+      await queryOne<{ id: string }>(
+        db,
+        `INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data, email_confirmed_at)
+         VALUES (gen_random_uuid(), $1, $2, $2, CASE WHEN $3 THEN now() END)
+         RETURNING id`,
+        [email, metadata, confirmed]
+      )
+    ).id;
+
+  const invite = (email: string, role: string) =>
+    db.query('INSERT INTO user_invitations (email, role, invited_by) VALUES ($1, $2, $3)', [email, role, admin]);
+
+  const roleOf = async (userId: string) =>
+    (await queryOne<{ role: string }>(db, 'SELECT role FROM user_profiles WHERE id = $1', [userId])).role;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    admin = await createUser(db, ['admin']);
+  });
+
+  it('ignores a role requested in the signup metadata', async () => {
+    const userId = await signUp('self-promoted@example.com', { full_name: 'Self Promoted', role: 'manager' });
+
+    const profile = await queryOne<{ role: string; full_name: string }>(
+      db,
+      'SELECT role, full_name FROM user_profiles WHERE id = $1',
+      [userId]
+    );
+    expect(profile).toEqual({ role: 'unassigned', full_name: 'Self Promoted' });
+  });
+
+  it('does not let a new user give themselves a role afterwards', async () => {
+    const userId = await signUp('unassigned@example.com', {});
+
+    await expect(
+      asUser(db, userId, (tx) => tx.query(`UPDATE user_profiles SET role = 'manager' WHERE id = $1`, [userId]))
+    ).rejects.toThrow(/permission denied/);
+
+    const { is_active_user } = await asUser(db, userId, (tx) =>
+      queryOne<{ is_active_user: boolean }>(tx, 'SELECT is_active_user()')
+    );
+    expect(is_active_user).toBe(false);
+  });
+
+  it('applies an invitation once the email address is confirmed', async () => {
+    await invite('invited@example.com', 'underwriter');
+    const userId = await signUp('invited@example.com', {}, false);
+
+    expect(await roleOf(userId)).toBe('unassigned');
+    expect(await queryRows(db, `SELECT accepted_by FROM user_invitations WHERE email = 'invited@example.com'`)).toEqual(
+      [{ accepted_by: null }]
+    );
+
+    await db.query('UPDATE auth.users SET email_confirmed_at = now() WHERE id = $1', [userId]);
+
+    expect(await roleOf(userId)).toBe('underwriter');
+    expect(await queryRows(db, `SELECT accepted_by FROM user_invitations WHERE email = 'invited@example.com'`)).toEqual(
+      [{ accepted_by: userId }]
+    );
+    expect(
+      await queryRows(db, 'SELECT action, old_role, new_role, reason FROM user_role_changes WHERE user_id = $1', [
+        userId,
+      ])
+    ).toEqual([{ action: 'assigned', old_role: 'unassigned', new_role: 'underwriter', reason: 'Invitation accepted' }]);
+  });
+
+  it('applies an invitation straight away to an account created confirmed', async () => {
+    await invite('confirmed@example.com', 'creator');
+
+    expect(await roleOf(await signUp('confirmed@example.com', {}))).toBe('creator');
+  });
+});